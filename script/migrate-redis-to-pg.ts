@@ -0,0 +1,74 @@
+import { readFile, writeFile, rm } from "fs/promises";
+import { RedisStorage, createRedisClient } from "../server/storage/redis";
+import { PgStorage } from "../server/storage/pg";
+import { createDb } from "../server/db";
+import {
+  copyStorage,
+  verifyStorage,
+  emptyMigrationState,
+  type MigrationState,
+} from "../server/storage/migrate";
+
+// Usage: tsx script/migrate-redis-to-pg.ts [--verify-only] [--reset] [--state <file>]
+const args = process.argv.slice(2);
+const verifyOnly = args.includes("--verify-only");
+const reset = args.includes("--reset");
+const stateIndex = args.indexOf("--state");
+const stateFile = stateIndex >= 0 ? args[stateIndex + 1] : "redis-to-pg.state.json";
+
+async function loadState(): Promise<MigrationState> {
+  if (reset) {
+    await rm(stateFile, { force: true });
+    return emptyMigrationState();
+  }
+  try {
+    return JSON.parse(await readFile(stateFile, "utf-8"));
+  } catch {
+    return emptyMigrationState();
+  }
+}
+
+async function main() {
+  const source = new RedisStorage(createRedisClient());
+  const target = new PgStorage(createDb());
+
+  if (!verifyOnly) {
+    const state = await loadState();
+    console.log(`copying Redis -> PostgreSQL (state: ${stateFile})...`);
+    await copyStorage(source, target, {
+      state,
+      onProgress: async (progress) => {
+        await writeFile(stateFile, JSON.stringify(progress, null, 2));
+        console.log(`  progress: ${JSON.stringify(progress.cursors)}`);
+      },
+    });
+  }
+
+  console.log("verifying...");
+  const report = await verifyStorage(source, target);
+  for (const [kind, entity] of Object.entries(report.entities)) {
+    const mark = entity.match ? "ok" : "MISMATCH";
+    console.log(
+      `  ${kind}: ${entity.sourceCount} -> ${entity.targetCount} ` +
+      `(${entity.sourceChecksum.slice(0, 12)} / ${entity.targetChecksum.slice(0, 12)}) ${mark}`
+    );
+  }
+  if (report.detachedApplications) {
+    console.log(`  ${report.detachedApplications} applications reference deleted tasks (imported detached)`);
+  }
+  if (report.brokenApiKeys.length) {
+    console.log(`  agents with broken agent:apikey:* entries: ${report.brokenApiKeys.join(", ")}`);
+  }
+
+  if (!report.ok) {
+    console.error("verification failed");
+    process.exit(1);
+  }
+  console.log("verification passed");
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
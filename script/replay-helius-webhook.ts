@@ -0,0 +1,52 @@
+import { readFile, readdir, stat } from "fs/promises";
+import path from "path";
+
+// Usage: tsx script/replay-helius-webhook.ts <file or directory>... [--url <webhook url>]
+// Posts recorded Helius webhook payloads (see HELIUS_WEBHOOK_RECORD_DIR) to a
+// running server, in file name order, authenticated with HELIUS_WEBHOOK_SECRET.
+const args = process.argv.slice(2);
+const urlIndex = args.indexOf("--url");
+const url = urlIndex >= 0 ? args[urlIndex + 1] : "http://localhost:5000/api/webhooks/helius";
+const inputs = args.filter((_arg, i) => i !== urlIndex && i !== urlIndex + 1);
+
+async function payloadFiles(input: string): Promise<string[]> {
+  if (!(await stat(input)).isDirectory()) return [input];
+  const names = await readdir(input);
+  return names
+    .filter(name => name.endsWith(".json"))
+    .sort()
+    .map(name => path.join(input, name));
+}
+
+async function main() {
+  const secret = process.env.HELIUS_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new Error("Set HELIUS_WEBHOOK_SECRET to the server's webhook secret");
+  }
+  if (!inputs.length) {
+    throw new Error("Usage: tsx script/replay-helius-webhook.ts <file or directory>... [--url <webhook url>]");
+  }
+
+  let failed = 0;
+  for (const input of inputs) {
+    for (const file of await payloadFiles(input)) {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: secret },
+        body: await readFile(file),
+      });
+      console.log(`${file}: ${response.status} ${await response.text()}`);
+      if (!response.ok) failed++;
+    }
+  }
+
+  if (failed) {
+    console.log(`${failed} payloads were not accepted`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,17 @@
+import pg from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import * as schema from "@shared/schema";
+
+/**
+ * Create a Drizzle client backed by a pg connection pool
+ */
+export function createDb(connectionString: string | undefined = process.env.DATABASE_URL) {
+  if (!connectionString) {
+    throw new Error('DATABASE_URL must be set to use PostgreSQL storage');
+  }
+
+  const pool = new pg.Pool({ connectionString });
+  return drizzle(pool, { schema });
+}
+
+export type Database = ReturnType<typeof createDb>;
@@ -0,0 +1,14 @@
+/**
+ * A non-negative number from an environment variable, or fallback when it is
+ * unset. Unlike `Number(value) || fallback`, an explicit 0 is kept; anything
+ * that is not a number fails at startup instead of falling back silently.
+ */
+export function envNumber(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a non-negative number, got "${value}"`);
+  }
+  return parsed;
+}
@@ -1,6 +1,13 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
+import { startPayoutWorker } from "./services/payouts";
+import { chain, SOLANA_CLUSTER } from "./services/chain";
+import { backfillConsumedSignatures } from "./services/signatures";
+import { backfillLedger } from "./services/ledgerBackfill";
+import { backfillPayoutHistory } from "./services/payoutHistory";
+import { startReconciliationWorker } from "./services/reconciliation";
+import { startRegistrationIntentWorker } from "./services/registrationIntents";
 import { createServer } from "http";
 
 const app = express();
@@ -36,14 +43,22 @@ app.use((req, res, next) => {
   next();
 });
 
+// Helius batches many transactions into one webhook call, well past the
+// default 100kb limit
+const HELIUS_WEBHOOK_BODY_LIMIT = process.env.HELIUS_WEBHOOK_BODY_LIMIT || "10mb";
+
+const saveRawBody = (req: Request, _res: Response, buf: Buffer) => {
+  req.rawBody = buf;
+};
+
+// Parsed first, so the default parser below leaves these bodies alone
 app.use(
-  express.json({
-    verify: (req, _res, buf) => {
-      req.rawBody = buf;
-    },
-  }),
+  "/api/webhooks/helius",
+  express.json({ limit: HELIUS_WEBHOOK_BODY_LIMIT, verify: saveRawBody }),
 );
 
+app.use(express.json({ verify: saveRawBody }));
+
 app.use(express.urlencoded({ extended: false }));
 
 export function log(message: string, source = "express") {
@@ -122,6 +137,25 @@ app.use((req, res, next) => {
     },
     () => {
       log(`serving on port ${port}`);
+      log(`using ${chain.name} chain provider on ${SOLANA_CLUSTER}`);
+      startPayoutWorker();
+      startReconciliationWorker();
+      startRegistrationIntentWorker();
+      backfillConsumedSignatures()
+        .then(added => {
+          if (added) log(`recorded ${added} existing registration signatures`);
+        })
+        .catch(error => console.error('Failed to backfill consumed signatures:', error));
+      backfillLedger()
+        .then(posted => {
+          if (posted) log(`posted ${posted} missing ledger entries`);
+        })
+        .catch(error => console.error('Failed to backfill ledger:', error));
+      backfillPayoutHistory()
+        .then(recorded => {
+          if (recorded) log(`recorded ${recorded} missing payouts in the payout history`);
+        })
+        .catch(error => console.error('Failed to backfill payout history:', error));
     },
   );
 })();
@@ -0,0 +1,570 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import express from "express";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { generateKeyPairSync, sign } from "crypto";
+import bs58 from "bs58";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+import { chain, MockChainProvider } from "./services/chain";
+import { processPayouts } from "./services/payouts";
+import { REGISTRATION_WALLET } from "./services/registration";
+import type { Application, Task } from "@shared/schema";
+
+const ADMIN = { 'x-admin-password': 'test-admin' };
+
+const mockChain = chain as MockChainProvider;
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(createServer(app), app);
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+async function api<T = any>(
+  method: string,
+  path: string,
+  body?: unknown,
+  headers: Record<string, string> = {}
+): Promise<{ status: number; body: T }> {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+// A fresh, valid Solana wallet address and the key that signs for it
+function newWallet() {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const address = bs58.encode(Buffer.from(publicKey.export({ format: 'jwk' }).x!, 'base64url'));
+  return { address, privateKey };
+}
+
+function taskInput(overrides: Partial<Task> = {}) {
+  return {
+    title: 'Share the launch post',
+    description: 'Tell your followers about the launch',
+    instructions: 'Post a link to the launch announcement',
+    proofType: 'link',
+    reward: 0.1,
+    difficulty: 'easy',
+    category: 'social',
+    maxCompletions: 2,
+    ...overrides,
+  };
+}
+
+// Register an agent, paying the fee on the mock chain
+async function registerAgent(): Promise<{ apiKey: string; wallet: string }> {
+  const wallet = newWallet().address;
+  const txSignature = mockChain.recordTransfer(wallet, REGISTRATION_WALLET, 0.1);
+  const registered = await api('POST', '/api/agent/register', { name: 'Test agent', wallet, txSignature });
+  expect(registered.status).toBe(201);
+  return { apiKey: registered.body.agent.apiKey, wallet };
+}
+
+// Send funds from an agent's wallet to the treasury and credit them
+async function deposit(agent: { apiKey: string; wallet: string }, amount: number) {
+  const txSignature = mockChain.recordTransfer(agent.wallet, mockChain.getTreasuryAddress(), amount);
+  return api('POST', '/api/agent/escrow/deposits', { txSignature }, { 'x-api-key': agent.apiKey });
+}
+
+async function apply(taskId: string, walletAddress: string) {
+  return api<Application>('POST', '/api/applications', {
+    taskId,
+    walletAddress,
+    proofContent: 'https://example.com/post/1',
+  });
+}
+
+describe('GET /api/config', () => {
+  it('reports the cluster and wallets in use', async () => {
+    const config = await api('GET', '/api/config');
+    expect(config.body).toMatchObject({
+      cluster: 'mainnet-beta',
+      chainProvider: 'mock',
+      registrationWallet: REGISTRATION_WALLET,
+      registrationPlans: [{ name: 'basic', price: 0.1 }],
+    });
+  });
+});
+
+describe('admin routes', () => {
+  it('rejects requests without the admin password', async () => {
+    expect((await api('GET', '/api/admin/tasks')).status).toBe(401);
+    expect((await api('POST', '/api/admin/tasks', taskInput(), { 'x-admin-password': 'wrong' })).status).toBe(401);
+  });
+
+  it('creates, lists and deletes tasks', async () => {
+    const created = await api<Task>('POST', '/api/admin/tasks', taskInput({ active: false }), ADMIN);
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ title: 'Share the launch post', totalCompletions: 0 });
+
+    const all = await api<Task[]>('GET', '/api/admin/tasks', undefined, ADMIN);
+    expect(all.body.map(t => t.id)).toContain(created.body.id);
+    const active = await api<Task[]>('GET', '/api/tasks');
+    expect(active.body.map(t => t.id)).not.toContain(created.body.id);
+
+    expect((await api('DELETE', `/api/admin/tasks/${created.body.id}`, undefined, ADMIN)).status).toBe(200);
+    expect((await api('GET', `/api/tasks/${created.body.id}`)).status).toBe(404);
+  });
+
+  it('rejects an invalid task', async () => {
+    const created = await api('POST', '/api/admin/tasks', taskInput({ reward: -1 }), ADMIN);
+    expect(created.status).toBe(400);
+  });
+
+  it('resolves the reward currency of a task to its mint', async () => {
+    const usdc = await api<Task>('POST', '/api/admin/tasks', { ...taskInput(), rewardMint: 'USDC' }, ADMIN);
+    expect(usdc.body.rewardMint).toBe('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+
+    const sol = await api<Task>('PUT', `/api/admin/tasks/${usdc.body.id}`, { rewardMint: 'SOL' }, ADMIN);
+    expect(sol.body.rewardMint).toBeUndefined();
+
+    const unknown = await api('POST', '/api/admin/tasks', { ...taskInput(), rewardMint: 'DOGE' }, ADMIN);
+    expect(unknown.status).toBe(400);
+    expect(unknown.body.error).toBe('Invalid reward mint');
+  });
+});
+
+describe('PUT /api/admin/tasks/:id', () => {
+  it('validates the update against the task schema', async () => {
+    const created = await api<Task>('POST', '/api/admin/tasks', taskInput(), ADMIN);
+    const path = `/api/admin/tasks/${created.body.id}`;
+
+    expect((await api('PUT', path, { reward: -1 }, ADMIN)).status).toBe(400);
+    expect((await api('PUT', path, { proofType: 'video' }, ADMIN)).status).toBe(400);
+    expect((await api('PUT', path, { title: '' }, ADMIN)).body.error).toBe('Invalid request');
+  });
+
+  it('ignores fields that only storage and escrow may set', async () => {
+    const created = await api<Task>('POST', '/api/admin/tasks', taskInput(), ADMIN);
+
+    const updated = await api<Task>('PUT', `/api/admin/tasks/${created.body.id}`, {
+      title: 'Share the new post',
+      totalCompletions: 5,
+      agentId: 'someone',
+      platformFee: 0.05,
+    }, ADMIN);
+
+    expect(updated.status).toBe(200);
+    expect(updated.body).toMatchObject({ title: 'Share the new post', totalCompletions: 0, reward: 0.1 });
+    expect(updated.body.agentId).toBeUndefined();
+    expect(updated.body.platformFee).toBeUndefined();
+  });
+});
+
+describe('wallet proofs', () => {
+  it('marks an application whose wallet signed a challenge as verified', async () => {
+    const wallet = newWallet();
+    const created = await api<Task>('POST', '/api/admin/tasks', taskInput({ requireWalletProof: true }), ADMIN);
+
+    const unproven = await apply(created.body.id, wallet.address);
+    expect(unproven.status).toBe(400);
+    expect(unproven.body).toMatchObject({ error: 'This task requires proof of wallet ownership' });
+
+    const challenge = await api('POST', '/api/wallet-challenges', { walletAddress: wallet.address });
+    expect(challenge.status).toBe(201);
+    const signature = bs58.encode(sign(null, Buffer.from(challenge.body.message), wallet.privateKey));
+    const applied = await api<Application>('POST', '/api/applications', {
+      taskId: created.body.id,
+      walletAddress: wallet.address,
+      proofContent: 'https://example.com/post/1',
+      walletProof: { nonce: challenge.body.nonce, signature },
+    });
+    expect(applied.status).toBe(201);
+    expect(applied.body.walletVerified).toBe(true);
+  });
+
+  it('refuses a challenge for an invalid wallet', async () => {
+    const challenge = await api('POST', '/api/wallet-challenges', { walletAddress: 'not-a-wallet-address-0000000000000' });
+    expect(challenge.status).toBe(400);
+  });
+});
+
+describe('agent escrow', () => {
+  it('funds a task from a verified deposit', async () => {
+    const agent = await registerAgent();
+    const headers = { 'x-api-key': agent.apiKey };
+
+    const unfunded = await api('POST', '/api/agent/tasks', taskInput(), headers);
+    expect(unfunded.status).toBe(402);
+
+    const deposited = await deposit(agent, 1);
+    expect(deposited.status).toBe(201);
+    expect(deposited.body.balance).toMatchObject({ available: 1, deposited: 1 });
+
+    const created = await api<Task>('POST', '/api/agent/tasks', taskInput(), headers);
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ escrowStatus: 'locked' });
+
+    const escrow = await api('GET', '/api/agent/escrow', undefined, headers);
+    expect(escrow.body.balances).toEqual([expect.objectContaining({ currency: 'SOL', available: 0.8, locked: 0.2 })]);
+  });
+
+  it('credits a deposit signature once', async () => {
+    const agent = await registerAgent();
+    const txSignature = mockChain.recordTransfer(agent.wallet, mockChain.getTreasuryAddress(), 1);
+    const send = () => api('POST', '/api/agent/escrow/deposits', { txSignature }, { 'x-api-key': agent.apiKey });
+
+    expect((await send()).status).toBe(201);
+    expect((await send()).status).toBe(409);
+  });
+
+  it('gives the unspent budget back when the agent closes the task', async () => {
+    const agent = await registerAgent();
+    const headers = { 'x-api-key': agent.apiKey };
+    await deposit(agent, 1);
+    const created = await api<Task>('POST', '/api/agent/tasks', taskInput(), headers);
+
+    const closed = await api('POST', `/api/agent/tasks/${created.body.id}/close`, undefined, headers);
+    expect(closed.body).toMatchObject({ released: 0.2, task: { active: false, escrowStatus: 'released' } });
+
+    const escrow = await api('GET', '/api/agent/escrow', undefined, headers);
+    expect(escrow.body.balances[0]).toMatchObject({ available: 1, locked: 0 });
+
+    // The budget is gone, so the task cannot be reopened or paid from
+    const reopened = await api('PUT', `/api/admin/tasks/${created.body.id}`, { active: true }, ADMIN);
+    expect(reopened.status).toBe(409);
+  });
+
+  it('keeps the reward of an agent-funded task fixed', async () => {
+    const agent = await registerAgent();
+    await deposit(agent, 1);
+    const created = await api<Task>('POST', '/api/agent/tasks', taskInput(), { 'x-api-key': agent.apiKey });
+
+    const updated = await api('PUT', `/api/admin/tasks/${created.body.id}`, { reward: 5 }, ADMIN);
+    expect(updated.status).toBe(409);
+  });
+});
+
+describe('agent task quota', () => {
+  it('stops an agent at its plan\'s quota, counting only tasks created', async () => {
+    const wallet = newWallet().address;
+    const { apiKey } = await storage.createAgent({
+      name: 'Test agent',
+      walletAddress: wallet,
+      paymentTxSignature: mockChain.recordTransfer(wallet, REGISTRATION_WALLET, 0.1),
+      paymentAmount: 0.1,
+      plan: 'basic',
+      taskQuota: 1,
+    });
+    const headers = { 'x-api-key': apiKey };
+
+    // Unfunded, so the task is not created and does not count
+    expect((await api('POST', '/api/agent/tasks', taskInput(), headers)).status).toBe(402);
+    await deposit({ apiKey, wallet }, 1);
+    expect((await api('POST', '/api/agent/tasks', taskInput(), headers)).status).toBe(201);
+
+    const over = await api('POST', '/api/agent/tasks', taskInput(), headers);
+    expect(over.status).toBe(403);
+    expect(over.body).toMatchObject({ error: 'Task quota reached', details: 'The task quota of the basic plan is 1' });
+    expect((await storage.getAgentByApiKey(apiKey))?.tasksCreated).toBe(1);
+  });
+});
+
+describe('admin ledger', () => {
+  it('books a funded task\'s approval and payment, keeping the ledger balanced', async () => {
+    const agent = await registerAgent();
+    await deposit(agent, 1);
+    const created = await api<Task>('POST', '/api/agent/tasks', taskInput(), { 'x-api-key': agent.apiKey });
+    const worker = newWallet().address;
+    const applied = await apply(created.body.id, worker);
+    await api('PUT', `/api/admin/applications/${applied.body.id}`, { status: 'approved' }, ADMIN);
+    await processPayouts();
+
+    const escrow = await api('GET', '/api/admin/ledger/balances?account=escrow:', undefined, ADMIN);
+    expect(escrow.body.totals.SOL).toBe(0);
+    expect(escrow.body.balances).toEqual(expect.arrayContaining([
+      expect.objectContaining({ account: `escrow:${created.body.agentId}:available`, balance: -0.8 }),
+      expect.objectContaining({ account: `escrow:${created.body.agentId}:locked`, balance: -0.1 }),
+    ]));
+
+    const journal = await api('GET', `/api/admin/ledger/journal?account=payable:${worker}`, undefined, ADMIN);
+    expect(journal.body.map((entry: { kind: string }) => entry.kind)).toEqual(['payout_sent', 'payout_approved']);
+  });
+
+  it('requires a positive journal limit', async () => {
+    expect((await api('GET', '/api/admin/ledger/journal?limit=0', undefined, ADMIN)).status).toBe(400);
+  });
+});
+
+describe('admin treasury', () => {
+  it('holds queued payouts while paused', async () => {
+    const created = await api<Task>('POST', '/api/admin/tasks', taskInput(), ADMIN);
+    const applied = await apply(created.body.id, newWallet().address);
+
+    const paused = await api('POST', '/api/admin/treasury/pause', undefined, ADMIN);
+    expect(paused.body).toMatchObject({ paused: true, reason: 'manual' });
+    await api('PUT', `/api/admin/applications/${applied.body.id}`, { status: 'approved' }, ADMIN);
+    await processPayouts();
+    expect((await storage.getPayoutIntent(applied.body.id))?.status).toBe('queued');
+
+    const status = await api('GET', '/api/admin/treasury', undefined, ADMIN);
+    expect(status.body.payouts.paused).toBe(true);
+    expect(status.body.currencies[0]).toMatchObject({ currency: 'SOL', unpaidPayouts: 1 });
+
+    const resumed = await api('POST', '/api/admin/treasury/resume', undefined, ADMIN);
+    expect(resumed.body).toEqual({ paused: false });
+    await processPayouts();
+    expect((await storage.getPayoutIntent(applied.body.id))?.status).toBe('confirmed');
+  });
+});
+
+describe('admin reconciliation', () => {
+  it('serves the stored report of the last run', async () => {
+    expect((await api('GET', '/api/admin/reconciliation', undefined, ADMIN)).status).toBe(404);
+
+    const run = await api('POST', '/api/admin/reconciliation', undefined, ADMIN);
+    expect(run.status).toBe(200);
+    expect(run.body.status).toBe('completed');
+
+    const latest = await api('GET', '/api/admin/reconciliation', undefined, ADMIN);
+    expect(latest.body).toEqual(run.body);
+  });
+});
+
+describe('POST /api/applications', () => {
+  it('records a pending application', async () => {
+    const created = await api<Task>('POST', '/api/admin/tasks', taskInput(), ADMIN);
+    const wallet = newWallet().address;
+
+    const applied = await apply(created.body.id, wallet);
+    expect(applied.status).toBe(201);
+    expect(applied.body).toMatchObject({ taskId: created.body.id, walletAddress: wallet, status: 'pending' });
+
+    const listed = await api<Application[]>('GET', '/api/admin/applications', undefined, ADMIN);
+    expect(listed.body.map(a => a.id)).toContain(applied.body.id);
+  });
+
+  it('rejects an invalid wallet address', async () => {
+    const created = await api<Task>('POST', '/api/admin/tasks', taskInput(), ADMIN);
+    const applied = await apply(created.body.id, 'not-a-wallet');
+    expect(applied.status).toBe(400);
+  });
+
+  it('rejects unknown and inactive tasks', async () => {
+    expect((await apply('missing', newWallet().address)).status).toBe(404);
+
+    const created = await api<Task>('POST', '/api/admin/tasks', taskInput({ active: false }), ADMIN);
+    const applied = await apply(created.body.id, newWallet().address);
+    expect(applied.status).toBe(400);
+    expect(applied.body.error).toBe('Task is no longer active');
+  });
+});
+
+describe('POST /api/agent/register', () => {
+  const register = (wallet: string, txSignature: string) => (
+    api('POST', '/api/agent/register', { name: 'Test agent', wallet, txSignature })
+  );
+
+  // Pay the registration fee on the mock chain
+  const pay = (wallet: string, amount = 0.1) => mockChain.recordTransfer(wallet, REGISTRATION_WALLET, amount);
+
+  it('registers an agent and returns its API key', async () => {
+    const wallet = newWallet().address;
+    const registered = await register(wallet, pay(wallet));
+    expect(registered.status).toBe(201);
+    expect(registered.body.agent.apiKey).toMatch(/^mb_/);
+
+    const tasks = await api('GET', '/api/agent/tasks', undefined, { 'x-api-key': registered.body.agent.apiKey });
+    expect(tasks.status).toBe(200);
+  });
+
+  it('rejects a payment that is missing or too small', async () => {
+    const wallet = newWallet().address;
+    expect((await register(wallet, 'unknown-signature')).status).toBe(400);
+    expect((await register(wallet, pay(wallet, 0.01))).status).toBe(400);
+  });
+
+  it('rejects a payment signature that was already used', async () => {
+    const wallet = newWallet().address;
+    const txSignature = pay(wallet);
+    expect((await register(wallet, txSignature)).status).toBe(201);
+
+    const reused = await register(newWallet().address, txSignature);
+    expect(reused.status).toBe(409);
+    expect(reused.body.error).toBe('Payment signature has already been used');
+  });
+
+  it('registers only one of several requests racing with one signature', async () => {
+    const wallet = newWallet().address;
+    const txSignature = pay(wallet);
+    const responses = await Promise.all([1, 2, 3].map(() => register(wallet, txSignature)));
+    // Losers see either the used signature or the wallet registered by the winner
+    expect(responses.filter(response => response.status === 201)).toHaveLength(1);
+    expect(responses.every(response => [201, 400, 409].includes(response.status))).toBe(true);
+  });
+});
+
+describe('POST /api/admin/applications/approve', () => {
+  it('approves each application and pays them in one transaction', async () => {
+    const created = await api<Task>('POST', '/api/admin/tasks', taskInput({ maxCompletions: 2 }), ADMIN);
+    const applications = [];
+    for (let i = 0; i < 3; i++) {
+      applications.push((await apply(created.body.id, newWallet().address)).body);
+    }
+    const ids = applications.map(application => application.id);
+
+    const approved = await api('POST', '/api/admin/applications/approve', { applicationIds: [...ids, 'missing'] }, ADMIN);
+    expect(approved.status).toBe(200);
+    expect(approved.body.approved.map((application: Application) => application.id)).toEqual(ids.slice(0, 2));
+    expect(approved.body.failed).toEqual([
+      { applicationId: ids[2], error: 'Task has no remaining completion slots' },
+      { applicationId: 'missing', error: 'Application not found' },
+    ]);
+
+    await processPayouts();
+    const [first, second] = await Promise.all(ids.slice(0, 2).map(id => storage.getApplication(id)));
+    expect(first?.payoutStatus).toBe('confirmed');
+    expect(first?.txSignature).toBe(second?.txSignature);
+  });
+
+  it('requires between 1 and 100 application ids', async () => {
+    expect((await api('POST', '/api/admin/applications/approve', { applicationIds: [] }, ADMIN)).status).toBe(400);
+  });
+});
+
+describe('PUT /api/admin/applications/:id', () => {
+  it('rejects an application once', async () => {
+    const created = await api<Task>('POST', '/api/admin/tasks', taskInput(), ADMIN);
+    const applied = await apply(created.body.id, newWallet().address);
+
+    const rejected = await api<Application>('PUT', `/api/admin/applications/${applied.body.id}`, { status: 'rejected' }, ADMIN);
+    expect(rejected.status).toBe(200);
+    expect(rejected.body.status).toBe('rejected');
+
+    const again = await api('PUT', `/api/admin/applications/${applied.body.id}`, { status: 'approved' }, ADMIN);
+    expect(again.status).toBe(400);
+    expect(again.body.error).toBe('Application has already been reviewed');
+  });
+
+  it('approves an application and pays it through the outbox', async () => {
+    const created = await api<Task>('POST', '/api/admin/tasks', taskInput(), ADMIN);
+    const wallet = newWallet().address;
+    const applied = await apply(created.body.id, wallet);
+
+    const approved = await api<Application>('PUT', `/api/admin/applications/${applied.body.id}`, { status: 'approved' }, ADMIN);
+    expect(approved.status).toBe(200);
+    expect(approved.body).toMatchObject({ status: 'approved', payoutStatus: 'queued' });
+
+    await processPayouts();
+    const paid = await storage.getApplication(applied.body.id);
+    expect(paid?.payoutStatus).toBe('confirmed');
+    expect(await mockChain.verifyTransfer(paid!.txSignature!, mockChain.getTreasuryAddress(), wallet, 0.1))
+      .toMatchObject({ valid: true });
+    const again = await api('PUT', `/api/admin/applications/${applied.body.id}`, { status: 'approved' }, ADMIN);
+    expect(again.status).toBe(400);
+  });
+
+  it('saves exactly one of a racing approval and rejection', async () => {
+    const created = await api<Task>('POST', '/api/admin/tasks', taskInput({ maxCompletions: 1 }), ADMIN);
+    const applied = await apply(created.body.id, newWallet().address);
+    const path = `/api/admin/applications/${applied.body.id}`;
+
+    const responses = await Promise.all([
+      api('PUT', path, { status: 'approved' }, ADMIN),
+      api('PUT', path, { status: 'rejected' }, ADMIN),
+    ]);
+    expect(responses.filter(response => response.status === 200)).toHaveLength(1);
+    await processPayouts();
+
+    const application = await storage.getApplication(applied.body.id);
+    const intent = await storage.getPayoutIntent(applied.body.id);
+    const task = await storage.getTask(created.body.id);
+    if (application?.status === 'approved') {
+      expect(intent?.status).toBe('confirmed');
+      expect(task?.totalCompletions).toBe(1);
+    } else {
+      // The rejection won: nothing was paid and the slot is free again
+      expect(application?.status).toBe('rejected');
+      expect(intent?.status ?? 'failed').toBe('failed');
+      expect(task?.totalCompletions).toBe(0);
+    }
+  });
+
+  it('refuses to approve once the task is full', async () => {
+    const created = await api<Task>('POST', '/api/admin/tasks', taskInput({ maxCompletions: 1 }), ADMIN);
+    const applied = await apply(created.body.id, newWallet().address);
+    // Another approval took the last slot after this application was made
+    await storage.reserveTaskCompletion(created.body.id);
+
+    const approved = await api('PUT', `/api/admin/applications/${applied.body.id}`, { status: 'approved' }, ADMIN);
+    expect(approved.status).toBe(409);
+    expect((await storage.getApplication(applied.body.id))?.status).toBe('pending');
+  });
+
+  it('refuses an approval the treasury cannot cover', async () => {
+    const created = await api<Task>('POST', '/api/admin/tasks', taskInput({ reward: 5000 }), ADMIN);
+    const applied = await apply(created.body.id, newWallet().address);
+
+    const approved = await api('PUT', `/api/admin/applications/${applied.body.id}`, { status: 'approved' }, ADMIN);
+    expect(approved.status).toBe(409);
+    expect(approved.body.error).toBe('Treasury cannot cover this payout');
+    expect((await storage.getTask(created.body.id))?.totalCompletions).toBe(0);
+  });
+
+  it('queues a reward above the threshold once a second admin approves', async () => {
+    mockChain.setBalance(mockChain.getTreasuryAddress(), 20000);
+    const created = await api<Task>('POST', '/api/admin/tasks', taskInput({ reward: 10001 }), ADMIN);
+    const applied = await apply(created.body.id, newWallet().address);
+    const path = `/api/admin/applications/${applied.body.id}`;
+
+    const first = await api<Application>('PUT', path, { status: 'approved' }, ADMIN);
+    expect(first.status).toBe(202);
+    expect(first.body).toMatchObject({ status: 'pending', approvalsRequired: 2 });
+    expect(await storage.getPayoutIntent(applied.body.id)).toBeNull();
+
+    const repeated = await api('PUT', path, { status: 'approved' }, ADMIN);
+    expect(repeated.status).toBe(409);
+    expect(repeated.body.error).toBe('You have already approved this application');
+
+    const second = await api<Application>('PUT', path, { status: 'approved' }, { 'x-admin-password': 'test-reviewer' });
+    expect(second.status).toBe(200);
+    expect(second.body).toMatchObject({ status: 'approved', payoutStatus: 'queued', reviewedBy: 'reviewer' });
+
+    const approvals = await api('GET', `${path}/approvals`, undefined, ADMIN);
+    expect(approvals.body.approvals.map((approval: { reviewer: string }) => approval.reviewer)).toEqual(['admin', 'reviewer']);
+    mockChain.setBalance(mockChain.getTreasuryAddress(), 1000);
+  });
+
+  it('requires a valid status', async () => {
+    const created = await api<Task>('POST', '/api/admin/tasks', taskInput(), ADMIN);
+    const applied = await apply(created.body.id, newWallet().address);
+    const updated = await api('PUT', `/api/admin/applications/${applied.body.id}`, { status: 'maybe' }, ADMIN);
+    expect(updated.status).toBe(400);
+  });
+});
+
+describe('GET /api/payouts', () => {
+  it('serves the history a page at a time', async () => {
+    const page = await api('GET', '/api/payouts?limit=1');
+    expect(page.status).toBe(200);
+    expect(page.body).toMatchObject({ payouts: expect.any(Array) });
+    expect(page.body.payouts.length).toBeLessThanOrEqual(1);
+  });
+
+  it('rejects an invalid limit, range or cursor', async () => {
+    expect((await api('GET', '/api/payouts?limit=0')).status).toBe(400);
+    expect((await api('GET', '/api/payouts?limit=201')).status).toBe(400);
+    expect((await api('GET', '/api/payouts?since=yesterday')).status).toBe(400);
+    expect((await api('GET', '/api/payouts?cursor=bogus')).body.error).toBe('Invalid cursor');
+  });
+});
+
+describe('POST /api/webhooks/helius', () => {
+  it('refuses webhooks while no secret is set', async () => {
+    const delivered = await api('POST', '/api/webhooks/helius', [], { authorization: '' });
+    expect(delivered.status).toBe(503);
+  });
+});
@@ -4,18 +4,79 @@ import multer from "multer";
 import path from "path";
 import fs from "fs";
 import { storage } from "./storage";
-import { verifyRegistrationPayment, getOutgoingTransactions } from "./services/helius";
-import { sendPayment, getTreasuryPublicKey, isValidWalletAddress } from "./services/solana";
+import {
+  chain,
+  MockChainProvider,
+  SOLANA_CLUSTER,
+  getExplorerAddressUrl,
+  mintLabel,
+  resolveMint
+} from "./services/chain";
+import {
+  verifyRegistrationPayment,
+  createRegisteredAgent,
+  getRegistrationPlans,
+  quoteRegistration,
+  REGISTRATION_WALLET,
+  REGISTRATION_MINT
+} from "./services/registration";
+import { TREASURY_WALLET, isValidWalletAddress } from "./services/solana";
+import { processPayouts, rejectHeldPayout, releaseHeldPayout, retryPayout } from "./services/payouts";
+import { approvalsRequired, reviewApplication } from "./services/approvals";
+import {
+  escrowCurrency,
+  taskBudget,
+  creditEscrowDeposit,
+  releaseTaskBudget
+} from "./services/escrow";
+import {
+  recordEscrowLock,
+  trialBalance
+} from "./services/ledger";
+import {
+  checkRegistrationIntent,
+  createRegistrationIntent,
+  solanaPayUrl
+} from "./services/registrationIntents";
+import {
+  authenticateHeliusWebhook,
+  heliusWebhookPayloadSchema,
+  ingestHeliusTransactions,
+  isHeliusWebhookConfigured,
+  recordWebhookPayload
+} from "./services/webhooks";
+import { getLatestReconciliation, runReconciliation } from "./services/reconciliation";
+import { getTreasuryStatus, pausePayouts, resumePayouts } from "./services/treasury";
+import { fundingFee, getPlatformFeeConfig } from "./services/fees";
+import { getRevenueReport, getTotalPlatformFees } from "./services/revenue";
+import {
+  decodePayoutCursor,
+  getPayoutHistory,
+  PAYOUT_HISTORY_DEFAULT_LIMIT,
+  PAYOUT_HISTORY_MAX_LIMIT
+} from "./services/payoutHistory";
+import { checkApplicationWalletProof, createWalletChallenge } from "./services/walletProof";
 import { 
   insertTaskSchema, 
   insertApplicationSchema, 
+  createWalletChallengeSchema,
   registerAgentSchema,
-  type Agent 
+  createRegistrationIntentSchema,
+  registrationIntentStatusSchema,
+  chainTransferWalletSchema,
+  escrowDepositRequestSchema,
+  batchApprovalSchema,
+  type Agent,
+  type Application,
+  type NewAgent,
+  type Task
 } from "@shared/schema";
 
 // Environment variables
 const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD || "Moremore16";
-const TREASURY_WALLET = process.env.TREASURY_WALLET || "PXpVKE42sXTnAqRqbKidaTKgCrkgexFrSNQXdxppJZR";
+// Named admin logins as comma-separated "name:password" pairs. Reviews are
+// recorded under the name; ADMIN_PASSWORD logs in as "admin".
+const ADMIN_LOGINS = parseAdminLogins(process.env.ADMIN_CREDENTIALS);
 
 // Ensure uploads directory exists
 const uploadsDir = path.join(process.cwd(), "uploads");
@@ -52,17 +113,54 @@ declare global {
   namespace Express {
     interface Request {
       agent?: Agent;
+      // Name of the authenticated admin
+      admin?: string;
     }
   }
 }
 
+// Admin names by password
+function parseAdminLogins(credentials: string | undefined): Map<string, string> {
+  const logins = new Map<string, string>([[ADMIN_PASSWORD, 'admin']]);
+  for (const entry of (credentials ?? '').split(',')) {
+    if (!entry.trim()) continue;
+    const separator = entry.indexOf(':');
+    const name = entry.slice(0, separator).trim();
+    const password = entry.slice(separator + 1);
+    if (separator < 1 || !name || !password) {
+      throw new Error('ADMIN_CREDENTIALS entries must look like "name:password"');
+    }
+    if (logins.has(password)) {
+      throw new Error(`ADMIN_CREDENTIALS: the password of "${name}" is already in use`);
+    }
+    logins.set(password, name);
+  }
+  return logins;
+}
+
+// What an agent sees of itself once registered, API key included
+function agentCredentials(agent: Agent) {
+  return {
+    id: agent.id,
+    name: agent.name,
+    walletAddress: agent.walletAddress,
+    apiKey: agent.apiKey,
+    plan: agent.plan,
+    taskQuota: agent.taskQuota,
+    paymentAmount: agent.paymentAmount,
+    createdAt: agent.createdAt,
+  };
+}
+
 // Middleware: Admin authentication
 function adminAuth(req: Request, res: Response, next: NextFunction): void {
   const password = req.headers['x-admin-password'] as string;
-  if (password !== ADMIN_PASSWORD) {
+  const admin = password ? ADMIN_LOGINS.get(password) : undefined;
+  if (!admin) {
     res.status(401).json({ error: 'Unauthorized: Invalid admin password' });
     return;
   }
+  req.admin = admin;
   next();
 }
 
@@ -126,18 +224,48 @@ export async function registerRoutes(
   app.get('/api/stats', async (_req: Request, res: Response) => {
     try {
       const stats = await storage.getStats();
-      res.json(stats);
+      res.json({ ...stats, totalPlatformFees: await getTotalPlatformFees() });
     } catch (error) {
       console.error('Error fetching stats:', error);
       res.status(500).json({ error: 'Failed to fetch statistics' });
     }
   });
 
-  // GET /api/payouts - Get outgoing transactions from treasury
-  app.get('/api/payouts', async (_req: Request, res: Response) => {
+  // GET /api/config - Get the cluster and wallets the platform runs against
+  app.get('/api/config', (_req: Request, res: Response) => {
+    res.json({
+      cluster: SOLANA_CLUSTER,
+      chainProvider: chain.name,
+      treasuryWallet: TREASURY_WALLET,
+      treasuryExplorerUrl: getExplorerAddressUrl(TREASURY_WALLET),
+      registrationWallet: REGISTRATION_WALLET,
+      registrationMint: REGISTRATION_MINT,
+      registrationPlans: getRegistrationPlans(),
+      platformFee: getPlatformFeeConfig(),
+    });
+  });
+
+  // GET /api/payouts - Payout history, newest first, a page at a time
+  app.get('/api/payouts', async (req: Request, res: Response) => {
     try {
-      const payouts = await getOutgoingTransactions(TREASURY_WALLET);
-      res.json(payouts);
+      const walletAddress = typeof req.query.wallet === 'string' ? req.query.wallet : undefined;
+      const taskId = typeof req.query.taskId === 'string' ? req.query.taskId : undefined;
+      const since = req.query.since === undefined ? undefined : Number(req.query.since);
+      const until = req.query.until === undefined ? undefined : Number(req.query.until);
+      if ((since !== undefined && !Number.isFinite(since)) || (until !== undefined && !Number.isFinite(until))) {
+        return res.status(400).json({ error: 'since and until must be timestamps in milliseconds' });
+      }
+      const limit = req.query.limit === undefined ? PAYOUT_HISTORY_DEFAULT_LIMIT : Number(req.query.limit);
+      if (!Number.isInteger(limit) || limit < 1 || limit > PAYOUT_HISTORY_MAX_LIMIT) {
+        return res.status(400).json({ error: `limit must be an integer from 1 to ${PAYOUT_HISTORY_MAX_LIMIT}` });
+      }
+      const before = typeof req.query.cursor === 'string' ? decodePayoutCursor(req.query.cursor) : undefined;
+      if (before === null) {
+        return res.status(400).json({ error: 'Invalid cursor' });
+      }
+
+      const page = await getPayoutHistory({ walletAddress, taskId, since, until, before, limit });
+      res.json(page);
     } catch (error) {
       console.error('Error fetching payouts:', error);
       res.status(500).json({ error: 'Failed to fetch payouts' });
@@ -152,7 +280,7 @@ export async function registerRoutes(
         return res.status(400).json({ error: 'Invalid request', details: parsed.error.errors });
       }
 
-      const { taskId, walletAddress, proofContent } = parsed.data;
+      const { taskId, walletAddress, proofContent, walletProof } = parsed.data;
 
       // Validate wallet address
       if (!isValidWalletAddress(walletAddress)) {
@@ -173,7 +301,16 @@ export async function registerRoutes(
         return res.status(400).json({ error: 'No slots available for this task' });
       }
 
-      const application = await storage.createApplication(parsed.data, task.title, task.proofType);
+      const proof = await checkApplicationWalletProof(task, walletAddress, walletProof);
+      if (!proof.success) {
+        return res.status(proof.status).json({ error: proof.error, details: proof.details });
+      }
+
+      const application = await storage.createApplication(
+        { taskId, walletAddress, proofContent, walletVerified: proof.walletVerified },
+        task.title,
+        task.proofType
+      );
       res.status(201).json(application);
     } catch (error) {
       console.error('Error creating application:', error);
@@ -181,6 +318,26 @@ export async function registerRoutes(
     }
   });
 
+  // POST /api/wallet-challenges - Get a message to sign with a wallet, proving
+  // ownership when applying
+  app.post('/api/wallet-challenges', async (req: Request, res: Response) => {
+    try {
+      const parsed = createWalletChallengeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid request', details: parsed.error.errors });
+      }
+      if (!isValidWalletAddress(parsed.data.walletAddress)) {
+        return res.status(400).json({ error: 'Invalid Solana wallet address' });
+      }
+
+      const challenge = await createWalletChallenge(parsed.data.walletAddress);
+      res.status(201).json(challenge);
+    } catch (error) {
+      console.error('Error creating wallet challenge:', error);
+      res.status(500).json({ error: 'Failed to create wallet challenge' });
+    }
+  });
+
   // POST /api/upload - Upload proof image
   app.post('/api/upload', upload.single('file'), (req: Request, res: Response) => {
     try {
@@ -210,7 +367,7 @@ export async function registerRoutes(
         return res.status(400).json({ error: 'Invalid request', details: parsed.error.errors });
       }
 
-      const { name, wallet, txSignature } = parsed.data;
+      const { name, wallet, txSignature, plan, promoCode } = parsed.data;
 
       // Validate wallet address
       if (!isValidWalletAddress(wallet)) {
@@ -223,27 +380,56 @@ export async function registerRoutes(
         return res.status(400).json({ error: 'Wallet already registered as an agent' });
       }
 
-      // Verify payment transaction
-      const verification = await verifyRegistrationPayment(txSignature, wallet);
-      if (!verification.valid) {
-        return res.status(400).json({ 
-          error: 'Payment verification failed', 
-          details: verification.error 
-        });
+      // Price the chosen plan for this wallet
+      const quoted = quoteRegistration(wallet, plan, promoCode);
+      if (!quoted.success) {
+        return res.status(400).json({ error: quoted.error });
+      }
+      const { quote } = quoted;
+      const newAgent: NewAgent = {
+        name,
+        walletAddress: wallet,
+        paymentAmount: 0,
+        plan: quote.plan,
+        taskQuota: quote.taskQuota,
+        promoCode: quote.promoCode,
+      };
+
+      // Free registrations need no payment
+      if (quote.price > 0) {
+        if (!txSignature) {
+          return res.status(400).json({
+            error: 'txSignature is required',
+            details: `The ${quote.plan} plan costs ${quote.price} ${mintLabel(REGISTRATION_MINT)}`
+          });
+        }
+
+        // Reject signatures that already paid for a registration
+        if (await storage.getConsumedSignature(txSignature)) {
+          return res.status(409).json({ error: 'Payment signature has already been used' });
+        }
+
+        // Verify the payment covers the plan
+        const verification = await verifyRegistrationPayment(txSignature, wallet, quote.price);
+        if (!verification.valid) {
+          return res.status(400).json({ 
+            error: 'Payment verification failed', 
+            details: verification.error 
+          });
+        }
+        newAgent.paymentTxSignature = txSignature;
+        newAgent.paymentAmount = verification.amount!;
       }
 
-      // Create agent
-      const agent = await storage.createAgent(name, wallet, txSignature, verification.amount!);
+      const registered = await createRegisteredAgent(newAgent);
+      if (!registered.success) {
+        return res.status(registered.status).json({ error: registered.error });
+      }
+      const { agent } = registered;
       
       res.status(201).json({
         success: true,
-        agent: {
-          id: agent.id,
-          name: agent.name,
-          walletAddress: agent.walletAddress,
-          apiKey: agent.apiKey,
-          createdAt: agent.createdAt,
-        },
+        agent: agentCredentials(agent),
         message: 'Agent registered successfully. Save your API key securely!'
       });
     } catch (error) {
@@ -252,6 +438,52 @@ export async function registerRoutes(
     }
   });
 
+  // POST /api/agent/register/intent - Start a registration paid through Solana Pay
+  app.post('/api/agent/register/intent', async (req: Request, res: Response) => {
+    try {
+      const parsed = createRegistrationIntentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid request', details: parsed.error.errors });
+      }
+
+      const { name, wallet, plan, promoCode } = parsed.data;
+      if (!isValidWalletAddress(wallet)) {
+        return res.status(400).json({ error: 'Invalid Solana wallet address' });
+      }
+
+      const result = await createRegistrationIntent(name, wallet, plan, promoCode);
+      if (!result.success) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.status(201).json({ ...result.intent, url: result.url });
+    } catch (error) {
+      console.error('Error creating registration intent:', error);
+      res.status(500).json({ error: 'Failed to create registration intent' });
+    }
+  });
+
+  // GET /api/agent/register/intent/:id - Registration intent status, with the
+  // new agent's API key once its payment has landed
+  app.get('/api/agent/register/intent/:id', async (req: Request, res: Response) => {
+    try {
+      const stored = await storage.getRegistrationIntent(req.params.id as string);
+      if (!stored) {
+        return res.status(404).json({ error: 'Registration intent not found' });
+      }
+
+      const intent = await checkRegistrationIntent(stored);
+      const agent = intent.agentId ? await storage.getAgent(intent.agentId) : null;
+      res.json({
+        ...intent,
+        url: solanaPayUrl(intent),
+        agent: agent ? agentCredentials(agent) : undefined,
+      });
+    } catch (error) {
+      console.error('Error fetching registration intent:', error);
+      res.status(500).json({ error: 'Failed to fetch registration intent' });
+    }
+  });
+
   // GET /api/agent/tasks - List tasks (requires API key)
   app.get('/api/agent/tasks', agentAuth, async (_req: Request, res: Response) => {
     try {
@@ -266,18 +498,55 @@ export async function registerRoutes(
   // POST /api/agent/tasks - Create new task (requires API key)
   app.post('/api/agent/tasks', agentAuth, async (req: Request, res: Response) => {
     try {
-      const parsed = insertTaskSchema.safeParse(req.body);
+      const rewardMint = resolveMint(req.body?.rewardMint);
+      if (!rewardMint.success) {
+        return res.status(400).json({ error: rewardMint.error });
+      }
+
+      const parsed = insertTaskSchema.safeParse({ ...req.body, rewardMint: rewardMint.mint });
       if (!parsed.success) {
         return res.status(400).json({ error: 'Invalid request', details: parsed.error.errors });
       }
 
-      const task = await storage.createTask(parsed.data);
-      
-      // Increment agent's tasks created count
-      if (req.agent) {
-        await storage.incrementAgentTasksCreated(req.agent.id);
+      // The agent funds the task: its whole budget is locked up front
+      if (!parsed.data.maxCompletions) {
+        return res.status(400).json({ error: 'maxCompletions is required for agent-funded tasks' });
       }
 
+      // The agent's plan caps how many tasks it may create. The task is
+      // counted before it is created, so concurrent requests cannot all
+      // take the last one.
+      const agent = req.agent!;
+      if (!await storage.reserveAgentTask(agent.id)) {
+        return res.status(403).json({
+          error: 'Task quota reached',
+          details: `The task quota of the ${agent.plan} plan is ${agent.taskQuota}`
+        });
+      }
+
+      const currency = escrowCurrency(parsed.data.rewardMint);
+      const platformFee = fundingFee(parsed.data.reward);
+      const budget = taskBudget({ ...parsed.data, platformFee });
+      const locked = await storage.lockEscrowFunds(agent.id, currency, budget);
+      if (!locked) {
+        await storage.releaseAgentTask(agent.id);
+        return res.status(402).json({
+          error: 'Insufficient escrow balance',
+          details: `Task budget, including platform fees, is ${budget} ${currency}. Deposit funds with POST /api/agent/escrow/deposits`
+        });
+      }
+
+      // Create task, unlocking the budget and giving back the quota if that fails
+      let task: Task;
+      try {
+        task = await storage.createTask({ ...parsed.data, agentId: agent.id, escrowStatus: 'locked', platformFee });
+      } catch (error) {
+        await storage.adjustEscrowBalance(agent.id, currency, { locked: -budget, available: budget });
+        await storage.releaseAgentTask(agent.id);
+        throw error;
+      }
+      await recordEscrowLock(task, currency, budget);
+
       res.status(201).json(task);
     } catch (error) {
       console.error('Error creating task:', error);
@@ -300,6 +569,67 @@ export async function registerRoutes(
     }
   });
 
+  // POST /api/agent/tasks/:id/close - Close own task and release its unspent budget
+  app.post('/api/agent/tasks/:id/close', agentAuth, async (req: Request, res: Response) => {
+    try {
+      const taskId = req.params.id as string;
+      const task = await storage.getTask(taskId);
+      if (!task || task.agentId !== req.agent!.id) {
+        return res.status(404).json({ error: 'Task not found' });
+      }
+
+      await storage.updateTask(taskId, { active: false });
+      const released = await releaseTaskBudget(taskId);
+      // Read back after the release, which changes the escrow status
+      res.json({ task: await storage.getTask(taskId), released });
+    } catch (error) {
+      console.error('Error closing task:', error);
+      res.status(500).json({ error: 'Failed to close task' });
+    }
+  });
+
+  // POST /api/agent/escrow/deposits - Credit a deposit to the treasury (requires API key)
+  app.post('/api/agent/escrow/deposits', agentAuth, async (req: Request, res: Response) => {
+    try {
+      const parsed = escrowDepositRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid request', details: parsed.error.errors });
+      }
+
+      const mint = resolveMint(parsed.data.currency);
+      if (!mint.success) {
+        return res.status(400).json({ error: mint.error });
+      }
+
+      const agent = req.agent!;
+      const credited = await creditEscrowDeposit(agent, parsed.data.txSignature, mint.mint);
+      if (!credited.success) {
+        return res.status(credited.status).json({ error: credited.error, details: credited.details });
+      }
+
+      const { deposit } = credited;
+      const balance = await storage.getEscrowBalance(agent.id, deposit.currency);
+      res.status(201).json({ deposit, balance });
+    } catch (error) {
+      console.error('Error recording escrow deposit:', error);
+      res.status(500).json({ error: 'Failed to record deposit' });
+    }
+  });
+
+  // GET /api/agent/escrow - Escrow balances and deposits (requires API key)
+  app.get('/api/agent/escrow', agentAuth, async (req: Request, res: Response) => {
+    try {
+      const [balances, deposits] = await Promise.all([
+        storage.getEscrowBalances(req.agent!.id),
+        storage.getEscrowDeposits(req.agent!.id),
+      ]);
+      res.json({ balances, deposits });
+    } catch (error) {
+      console.error('Error fetching escrow:', error);
+      res.status(500).json({ error: 'Failed to fetch escrow' });
+    }
+  });
+
   // POST /api/agent/apply - Apply for task (requires API key)
   app.post('/api/agent/apply', agentAuth, async (req: Request, res: Response) => {
     try {
@@ -308,7 +638,7 @@ export async function registerRoutes(
         return res.status(400).json({ error: 'Invalid request', details: parsed.error.errors });
       }
 
-      const { taskId, walletAddress, proofContent } = parsed.data;
+      const { taskId, walletAddress, proofContent, walletProof } = parsed.data;
 
       // Validate wallet address
       if (!isValidWalletAddress(walletAddress)) {
@@ -329,7 +659,16 @@ export async function registerRoutes(
         return res.status(400).json({ error: 'No slots available for this task' });
       }
 
-      const application = await storage.createApplication(parsed.data, task.title, task.proofType);
+      const proof = await checkApplicationWalletProof(task, walletAddress, walletProof);
+      if (!proof.success) {
+        return res.status(proof.status).json({ error: proof.error, details: proof.details });
+      }
+
+      const application = await storage.createApplication(
+        { taskId, walletAddress, proofContent, walletVerified: proof.walletVerified },
+        task.title,
+        task.proofType
+      );
       res.status(201).json(application);
     } catch (error) {
       console.error('Error creating application:', error);
@@ -353,7 +692,12 @@ export async function registerRoutes(
   // POST /api/admin/tasks - Create task
   app.post('/api/admin/tasks', adminAuth, async (req: Request, res: Response) => {
     try {
-      const parsed = insertTaskSchema.safeParse(req.body);
+      const rewardMint = resolveMint(req.body?.rewardMint);
+      if (!rewardMint.success) {
+        return res.status(400).json({ error: rewardMint.error });
+      }
+
+      const parsed = insertTaskSchema.safeParse({ ...req.body, rewardMint: rewardMint.mint });
       if (!parsed.success) {
         return res.status(400).json({ error: 'Invalid request', details: parsed.error.errors });
       }
@@ -375,7 +719,38 @@ export async function registerRoutes(
         return res.status(404).json({ error: 'Task not found' });
       }
 
-      const updatedTask = await storage.updateTask(taskId, req.body);
+      const body = { ...req.body };
+      if ('rewardMint' in body) {
+        const rewardMint = resolveMint(body.rewardMint);
+        if (!rewardMint.success) {
+          return res.status(400).json({ error: rewardMint.error });
+        }
+        body.rewardMint = rewardMint.mint;
+      }
+
+      // Funding and its platform fee are set when the task is created and
+      // changed only through escrow, and completions are counted as payouts
+      // are reserved, so the insert schema leaves them out
+      const parsed = insertTaskSchema.partial().safeParse(body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid request', details: parsed.error.errors });
+      }
+
+      const updates = parsed.data;
+      if (task.escrowStatus) {
+        if (['reward', 'rewardMint', 'maxCompletions'].some(field => field in updates)) {
+          return res.status(409).json({ error: 'Reward and completion limit of an agent-funded task cannot be changed' });
+        }
+        if (updates.active === true && task.escrowStatus === 'released') {
+          return res.status(409).json({ error: 'Task budget has been released; the agent must create a new task' });
+        }
+      }
+
+      const updatedTask = await storage.updateTask(taskId, updates);
+      if (updates.active === false) {
+        await releaseTaskBudget(taskId);
+        return res.json(await storage.getTask(taskId));
+      }
       res.json(updatedTask);
     } catch (error) {
       console.error('Error updating task:', error);
@@ -387,6 +762,9 @@ export async function registerRoutes(
   app.delete('/api/admin/tasks/:id', adminAuth, async (req: Request, res: Response) => {
     try {
       const taskId = req.params.id as string;
+
+      // Release the budget while the task still exists to read it from
+      await releaseTaskBudget(taskId);
       const deleted = await storage.deleteTask(taskId);
       if (!deleted) {
         return res.status(404).json({ error: 'Task not found' });
@@ -419,50 +797,310 @@ export async function registerRoutes(
         return res.status(400).json({ error: 'Invalid status. Must be "approved" or "rejected"' });
       }
 
+      const result = await reviewApplication(applicationId, status, req.admin!);
+      if (status === 'approved') {
+        // Also cancels the intent queued for an approval if a rejection won the race
+        processPayouts().catch(error => console.error('Payout worker error:', error));
+      }
+
+      if (!result.success) {
+        return res.status(result.status).json({ error: result.error, details: result.details });
+      }
+
+      const { application, approvals, approvalsRequired } = result;
+      // 202 while the application still awaits approvals from other admins
+      res.status(application.status === 'pending' ? 202 : 200).json({
+        ...application,
+        approvals,
+        approvalsRequired,
+      });
+    } catch (error) {
+      console.error('Error updating application:', error);
+      res.status(500).json({ error: 'Failed to update application' });
+    }
+  });
+
+  // POST /api/admin/applications/approve - Approve several applications and
+  // pay them in batch transactions
+  app.post('/api/admin/applications/approve', adminAuth, async (req: Request, res: Response) => {
+    try {
+      const parsed = batchApprovalSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid request', details: parsed.error.errors });
+      }
+
+      const approved: Application[] = [];
+      const awaitingApprovals: { applicationId: string; approvals: number; approvalsRequired: number }[] = [];
+      const failed: { applicationId: string; error: string; details?: string }[] = [];
+      for (const applicationId of Array.from(new Set(parsed.data.applicationIds))) {
+        try {
+          const result = await reviewApplication(applicationId, 'approved', req.admin!);
+          if (result.success && result.application.status === 'pending') {
+            awaitingApprovals.push({
+              applicationId,
+              approvals: result.approvals.length,
+              approvalsRequired: result.approvalsRequired,
+            });
+          } else if (result.success) {
+            approved.push(result.application);
+          } else {
+            failed.push({ applicationId, error: result.error, details: result.details });
+          }
+        } catch (error) {
+          console.error(`Error approving application ${applicationId}:`, error);
+          failed.push({ applicationId, error: 'Failed to approve application' });
+        }
+      }
+
+      // One worker pass packs the new payouts into as few transactions as
+      // fit, and cancels those of approvals that lost a race to a rejection
+      processPayouts().catch(error => console.error('Payout worker error:', error));
+
+      res.json({ approved, awaitingApprovals, failed });
+    } catch (error) {
+      console.error('Error approving applications:', error);
+      res.status(500).json({ error: 'Failed to approve applications' });
+    }
+  });
+
+  // GET /api/admin/applications/:id/approvals - Admin approvals of an application
+  app.get('/api/admin/applications/:id/approvals', adminAuth, async (req: Request, res: Response) => {
+    try {
+      const applicationId = req.params.id as string;
       const application = await storage.getApplication(applicationId);
       if (!application) {
         return res.status(404).json({ error: 'Application not found' });
       }
 
-      if (application.status !== 'pending') {
-        return res.status(400).json({ error: 'Application has already been reviewed' });
+      const task = await storage.getTask(application.taskId);
+      const approvals = await storage.getApplicationApprovals(applicationId);
+      res.json({
+        approvals,
+        approvalsRequired: task ? approvalsRequired(task.reward, task.rewardMint) : null,
+      });
+    } catch (error) {
+      console.error('Error fetching application approvals:', error);
+      res.status(500).json({ error: 'Failed to fetch approvals' });
+    }
+  });
+
+  // GET /api/admin/payouts - List payout intents
+  app.get('/api/admin/payouts', adminAuth, async (_req: Request, res: Response) => {
+    try {
+      const intents = await storage.getAllPayoutIntents();
+      res.json(intents);
+    } catch (error) {
+      console.error('Error fetching payout intents:', error);
+      res.status(500).json({ error: 'Failed to fetch payouts' });
+    }
+  });
+
+  // POST /api/admin/payouts/:applicationId/retry - Re-queue a failed payout
+  app.post('/api/admin/payouts/:applicationId/retry', adminAuth, async (req: Request, res: Response) => {
+    try {
+      const applicationId = req.params.applicationId as string;
+      const intent = await storage.getPayoutIntent(applicationId);
+      if (!intent) {
+        return res.status(404).json({ error: 'Payout not found' });
+      }
+      if (intent.status !== 'failed') {
+        return res.status(400).json({ error: 'Only failed payouts can be retried' });
+      }
+      const application = await storage.getApplication(applicationId);
+      if (application?.status !== 'approved') {
+        return res.status(400).json({ error: 'Only payouts of approved applications can be retried' });
       }
 
-      const updates: any = {
-        status,
-        reviewedAt: Date.now(),
-      };
+      const retried = await retryPayout(intent);
+      if (!retried) {
+        return res.status(409).json({ error: 'Payout changed while retrying, try again' });
+      }
 
-      // If approved, send payment
-      if (status === 'approved') {
-        const task = await storage.getTask(application.taskId);
-        if (!task) {
-          return res.status(404).json({ error: 'Associated task not found' });
-        }
+      processPayouts().catch(error => console.error('Payout worker error:', error));
+      res.json(retried);
+    } catch (error) {
+      console.error('Error retrying payout:', error);
+      res.status(500).json({ error: 'Failed to retry payout' });
+    }
+  });
 
-        // Send SOL payment
-        const paymentResult = await sendPayment(application.walletAddress, task.reward);
-        
-        if (!paymentResult.success) {
-          return res.status(500).json({ 
-            error: 'Failed to send payment', 
-            details: paymentResult.error 
-          });
-        }
+  // POST /api/admin/payouts/:applicationId/override - Send a payout held over a spending limit
+  app.post('/api/admin/payouts/:applicationId/override', adminAuth, async (req: Request, res: Response) => {
+    try {
+      const applicationId = req.params.applicationId as string;
+      const intent = await storage.getPayoutIntent(applicationId);
+      if (!intent) {
+        return res.status(404).json({ error: 'Payout not found' });
+      }
+      if (intent.status !== 'held') {
+        return res.status(400).json({ error: 'Only held payouts can be overridden' });
+      }
 
-        updates.txSignature = paymentResult.signature;
-        updates.paidAt = Date.now();
+      // Limits guard against one admin's credential being misused, so that
+      // admin cannot lift them for their own approval. With a single admin
+      // login there is nobody else to ask.
+      const approvals = await storage.getApplicationApprovals(applicationId);
+      if (ADMIN_LOGINS.size > 1 && approvals.some(approval => approval.reviewer === req.admin)) {
+        return res.status(403).json({ error: 'A held payout must be overridden by an admin who did not approve it' });
+      }
 
-        // Update task completions and stats
-        await storage.incrementTaskCompletions(application.taskId);
-        await storage.incrementStat('totalPayouts', task.reward);
+      const released = await releaseHeldPayout(intent, req.admin!);
+      if (!released) {
+        return res.status(409).json({ error: 'Payout changed while overriding, try again' });
       }
 
-      const updatedApplication = await storage.updateApplication(applicationId, updates);
-      res.json(updatedApplication);
+      processPayouts().catch(error => console.error('Payout worker error:', error));
+      res.json(released);
     } catch (error) {
-      console.error('Error updating application:', error);
-      res.status(500).json({ error: 'Failed to update application' });
+      console.error('Error overriding payout:', error);
+      res.status(500).json({ error: 'Failed to override payout' });
+    }
+  });
+
+  // POST /api/admin/payouts/:applicationId/reject - Refuse a payout held over a spending limit
+  app.post('/api/admin/payouts/:applicationId/reject', adminAuth, async (req: Request, res: Response) => {
+    try {
+      const applicationId = req.params.applicationId as string;
+      const intent = await storage.getPayoutIntent(applicationId);
+      if (!intent) {
+        return res.status(404).json({ error: 'Payout not found' });
+      }
+      if (intent.status !== 'held') {
+        return res.status(400).json({ error: 'Only held payouts can be rejected' });
+      }
+
+      const rejected = await rejectHeldPayout(intent, req.admin!);
+      if (!rejected) {
+        return res.status(409).json({ error: 'Payout changed while rejecting, try again' });
+      }
+      res.json(rejected);
+    } catch (error) {
+      console.error('Error rejecting payout:', error);
+      res.status(500).json({ error: 'Failed to reject payout' });
+    }
+  });
+
+  // GET /api/admin/escrow - List agent escrow balances
+  app.get('/api/admin/escrow', adminAuth, async (_req: Request, res: Response) => {
+    try {
+      const balances = await storage.getAllEscrowBalances();
+      res.json(balances);
+    } catch (error) {
+      console.error('Error fetching escrow balances:', error);
+      res.status(500).json({ error: 'Failed to fetch escrow balances' });
+    }
+  });
+
+  // GET /api/admin/ledger/balances - Account balances, optionally filtered
+  // by account prefix (e.g. "escrow:") and currency
+  app.get('/api/admin/ledger/balances', adminAuth, async (req: Request, res: Response) => {
+    try {
+      const account = typeof req.query.account === 'string' ? req.query.account : undefined;
+      const currency = typeof req.query.currency === 'string' ? req.query.currency : undefined;
+
+      const all = await storage.getLedgerBalances();
+      const balances = all.filter(balance =>
+        (!account || balance.account.startsWith(account)) &&
+        (!currency || balance.currency === currency)
+      );
+      // Totals cover the whole ledger so an imbalance shows whatever the filter
+      res.json({ balances, totals: trialBalance(all) });
+    } catch (error) {
+      console.error('Error fetching ledger balances:', error);
+      res.status(500).json({ error: 'Failed to fetch ledger balances' });
+    }
+  });
+
+  // GET /api/admin/ledger/journal - Journal entries, newest first
+  app.get('/api/admin/ledger/journal', adminAuth, async (req: Request, res: Response) => {
+    try {
+      const account = typeof req.query.account === 'string' ? req.query.account : undefined;
+      const limit = req.query.limit === undefined ? 100 : Number(req.query.limit);
+      if (!Number.isInteger(limit) || limit < 1) {
+        return res.status(400).json({ error: 'limit must be a positive integer' });
+      }
+
+      const entries = await storage.getJournalEntries(account, limit);
+      res.json(entries);
+    } catch (error) {
+      console.error('Error fetching ledger journal:', error);
+      res.status(500).json({ error: 'Failed to fetch ledger journal' });
+    }
+  });
+
+  // GET /api/admin/revenue - Registration and platform fee income, in total and per day
+  app.get('/api/admin/revenue', adminAuth, async (req: Request, res: Response) => {
+    try {
+      const since = req.query.since === undefined ? null : Number(req.query.since);
+      const until = req.query.until === undefined ? Date.now() : Number(req.query.until);
+      if ((since !== null && !Number.isFinite(since)) || !Number.isFinite(until)) {
+        return res.status(400).json({ error: 'since and until must be timestamps in milliseconds' });
+      }
+
+      const report = await getRevenueReport(since, until);
+      res.json(report);
+    } catch (error) {
+      console.error('Error building revenue report:', error);
+      res.status(500).json({ error: 'Failed to build revenue report' });
+    }
+  });
+
+  // GET /api/admin/treasury - Treasury balances, unpaid liabilities and runway
+  app.get('/api/admin/treasury', adminAuth, async (_req: Request, res: Response) => {
+    try {
+      const status = await getTreasuryStatus();
+      res.json(status);
+    } catch (error) {
+      console.error('Error fetching treasury status:', error);
+      res.status(500).json({ error: 'Failed to fetch treasury status' });
+    }
+  });
+
+  // POST /api/admin/treasury/pause - Stop automatic payouts
+  app.post('/api/admin/treasury/pause', adminAuth, async (_req: Request, res: Response) => {
+    try {
+      const breaker = await pausePayouts();
+      res.json(breaker);
+    } catch (error) {
+      console.error('Error pausing payouts:', error);
+      res.status(500).json({ error: 'Failed to pause payouts' });
+    }
+  });
+
+  // POST /api/admin/treasury/resume - Resume automatic payouts
+  app.post('/api/admin/treasury/resume', adminAuth, async (_req: Request, res: Response) => {
+    try {
+      const breaker = await resumePayouts();
+      processPayouts().catch(error => console.error('Payout worker error:', error));
+      res.json(breaker);
+    } catch (error) {
+      console.error('Error resuming payouts:', error);
+      res.status(500).json({ error: 'Failed to resume payouts' });
+    }
+  });
+
+  // GET /api/admin/reconciliation - Report of the last reconciliation run
+  app.get('/api/admin/reconciliation', adminAuth, async (_req: Request, res: Response) => {
+    try {
+      const report = await getLatestReconciliation();
+      if (!report) {
+        return res.status(404).json({ error: 'No reconciliation has run yet' });
+      }
+      res.json(report);
+    } catch (error) {
+      console.error('Error fetching reconciliation report:', error);
+      res.status(500).json({ error: 'Failed to fetch reconciliation report' });
+    }
+  });
+
+  // POST /api/admin/reconciliation - Reconcile now and return the report
+  app.post('/api/admin/reconciliation', adminAuth, async (_req: Request, res: Response) => {
+    try {
+      const report = await runReconciliation();
+      res.json(report);
+    } catch (error) {
+      console.error('Error running reconciliation:', error);
+      res.status(500).json({ error: 'Failed to run reconciliation' });
     }
   });
 
@@ -482,6 +1120,101 @@ export async function registerRoutes(
     }
   });
 
+  // GET /api/admin/chain-transfers - Platform wallet transfers received by webhook, newest first
+  app.get('/api/admin/chain-transfers', adminAuth, async (req: Request, res: Response) => {
+    try {
+      const wallet = chainTransferWalletSchema.optional().safeParse(req.query.wallet);
+      if (!wallet.success) {
+        return res.status(400).json({ error: 'Invalid wallet', details: wallet.error.errors });
+      }
+      const limit = req.query.limit === undefined ? 100 : Number(req.query.limit);
+      if (!Number.isInteger(limit) || limit < 1) {
+        return res.status(400).json({ error: 'limit must be a positive integer' });
+      }
+
+      const transfers = await storage.getAllChainTransfers();
+      res.json(
+        transfers
+          .filter(transfer => !wallet.data || transfer.wallet === wallet.data)
+          .slice(0, limit)
+      );
+    } catch (error) {
+      console.error('Error fetching chain transfers:', error);
+      res.status(500).json({ error: 'Failed to fetch chain transfers' });
+    }
+  });
+
+  // GET /api/admin/registration-intents - List registration intents, optionally by status
+  app.get('/api/admin/registration-intents', adminAuth, async (req: Request, res: Response) => {
+    try {
+      const status = registrationIntentStatusSchema.optional().safeParse(req.query.status);
+      if (!status.success) {
+        return res.status(400).json({ error: 'Invalid status', details: status.error.errors });
+      }
+
+      const intents = await storage.getAllRegistrationIntents();
+      res.json(status.data ? intents.filter(intent => intent.status === status.data) : intents);
+    } catch (error) {
+      console.error('Error fetching registration intents:', error);
+      res.status(500).json({ error: 'Failed to fetch registration intents' });
+    }
+  });
+
+  // ========== WEBHOOK ROUTES ==========
+
+  // POST /api/webhooks/helius - Enhanced transactions of the platform wallets from Helius
+  app.post('/api/webhooks/helius', async (req: Request, res: Response) => {
+    try {
+      if (!isHeliusWebhookConfigured()) {
+        return res.status(503).json({ error: 'Helius webhook is not configured' });
+      }
+      if (!authenticateHeliusWebhook(req.headers.authorization)) {
+        return res.status(401).json({ error: 'Unauthorized: Invalid webhook secret' });
+      }
+
+      const parsed = heliusWebhookPayloadSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid payload', details: parsed.error.errors });
+      }
+
+      await recordWebhookPayload(req.rawBody as Buffer);
+      const result = await ingestHeliusTransactions(parsed.data);
+      res.json(result);
+    } catch (error) {
+      // Helius retries failed deliveries; ingesting a payload again is safe
+      console.error('Error ingesting Helius webhook:', error);
+      res.status(500).json({ error: 'Failed to ingest webhook' });
+    }
+  });
+
+  // ========== MOCK CHAIN ROUTES ==========
+
+  if (chain instanceof MockChainProvider) {
+    const mockChain = chain;
+
+    // POST /api/dev/mock-chain/transfers - Land a SOL or token transfer on the mock chain
+    app.post('/api/dev/mock-chain/transfers', (req: Request, res: Response) => {
+      const { from, to, amount, mint, reference } = req.body;
+      if (typeof from !== 'string' || typeof to !== 'string' || typeof amount !== 'number') {
+        return res.status(400).json({ error: 'Invalid request. Expected from, to and amount' });
+      }
+
+      const signature = mockChain.recordTransfer(from, to, amount, { mint, reference });
+      res.status(201).json({ signature });
+    });
+
+    // PUT /api/dev/mock-chain/balances - Set a SOL or token balance on the mock chain
+    app.put('/api/dev/mock-chain/balances', (req: Request, res: Response) => {
+      const { wallet, amount, mint } = req.body;
+      if (typeof wallet !== 'string' || typeof amount !== 'number') {
+        return res.status(400).json({ error: 'Invalid request. Expected wallet and amount' });
+      }
+
+      mockChain.setBalance(wallet, amount, mint);
+      res.json({ wallet, amount, mint });
+    });
+  }
+
   // Serve uploaded files
   app.use('/uploads', (req, res, next) => {
     const filePath = path.join(uploadsDir, req.path);
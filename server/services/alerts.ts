@@ -0,0 +1,31 @@
+// Receives alerts as JSON POSTs (e.g. a Slack or Discord incoming webhook
+// relay). Alerts are only logged when unset.
+const ALERT_WEBHOOK_URL = process.env.ALERT_WEBHOOK_URL;
+
+export interface Alert {
+  event: string;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Log an alert and deliver it to the notification webhook. Delivery failures
+ * are logged, never thrown.
+ */
+export async function sendAlert(alert: Alert): Promise<void> {
+  console.warn(`[alert] ${alert.event}: ${alert.message}`);
+  if (!ALERT_WEBHOOK_URL) return;
+
+  try {
+    const response = await fetch(ALERT_WEBHOOK_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...alert, timestamp: Date.now() }),
+    });
+    if (!response.ok) {
+      console.error(`Alert webhook responded with ${response.status}`);
+    }
+  } catch (error) {
+    console.error('Error sending alert:', error);
+  }
+}
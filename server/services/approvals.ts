@@ -0,0 +1,165 @@
+import { storage } from "../storage";
+import { envNumber } from "../env";
+import { enqueuePayout } from "./payouts";
+import { escrowCurrency, drawTaskBudget, refundReleasedSlot } from "./escrow";
+import { recordPayoutApproved, recordPlatformFee } from "./ledger";
+import { completionFee } from "./fees";
+import { checkPayoutCoverage } from "./treasury";
+import { releasePayoutLimits, reservePayoutLimits } from "./limits";
+import { sendAlert } from "./alerts";
+import type { Application, ApplicationApproval } from "@shared/schema";
+
+// SOL rewards above this amount need MULTI_APPROVAL_COUNT admins to approve
+const MULTI_APPROVAL_THRESHOLD = envNumber('MULTI_APPROVAL_THRESHOLD', Infinity);
+// The same for token rewards, in token units
+const MULTI_APPROVAL_TOKEN_THRESHOLD = envNumber('MULTI_APPROVAL_TOKEN_THRESHOLD', Infinity);
+const MULTI_APPROVAL_COUNT = envNumber('MULTI_APPROVAL_COUNT', 2);
+
+// A successful review leaves the application pending while it still awaits
+// approvals from other admins
+export type ReviewResult =
+  | {
+      success: true;
+      application: Application;
+      approvals: ApplicationApproval[];
+      approvalsRequired: number;
+    }
+  | { success: false; status: number; error: string; details?: string };
+
+/**
+ * Distinct admin approvals a reward needs before it is paid
+ */
+export function approvalsRequired(reward: number, mint?: string): number {
+  const threshold = mint ? MULTI_APPROVAL_TOKEN_THRESHOLD : MULTI_APPROVAL_THRESHOLD;
+  return reward > threshold ? Math.max(MULTI_APPROVAL_COUNT, 1) : 1;
+}
+
+/**
+ * Approve or reject a pending application on behalf of an admin. Every
+ * approval is recorded; once the reward has enough of them, a completion slot
+ * is reserved and the payout queued, and the caller starts the payout worker.
+ * Failures carry the HTTP status to respond with.
+ */
+export async function reviewApplication(
+  applicationId: string,
+  status: 'approved' | 'rejected',
+  reviewer: string
+): Promise<ReviewResult> {
+  const application = await storage.getApplication(applicationId);
+  if (!application) {
+    return { success: false, status: 404, error: 'Application not found' };
+  }
+
+  if (application.status !== 'pending') {
+    return { success: false, status: 400, error: 'Application has already been reviewed' };
+  }
+
+  // A payout intent means the application was approved, even if the
+  // process died before its status was saved
+  const existingPayout = await storage.getPayoutIntent(applicationId);
+  if (existingPayout) {
+    return { success: false, status: 409, error: 'Application has already been approved' };
+  }
+
+  const updates: Partial<Application> = {
+    status,
+    reviewedAt: Date.now(),
+    reviewedBy: reviewer,
+  };
+  let approvals: ApplicationApproval[] = [];
+  let required = 1;
+
+  // If approved, queue the payment
+  if (status === 'approved') {
+    const task = await storage.getTask(application.taskId);
+    if (!task) {
+      return { success: false, status: 404, error: 'Associated task not found' };
+    }
+
+    if (task.escrowStatus === 'released') {
+      return { success: false, status: 409, error: 'Task budget has been released' };
+    }
+
+    // An admin who already approved may approve again only to retry queueing
+    // the payout, e.g. after the treasury was topped up
+    const added = await storage.addApplicationApproval({
+      applicationId,
+      reviewer,
+      approvedAt: updates.reviewedAt!,
+    });
+    approvals = await storage.getApplicationApprovals(applicationId);
+    required = approvalsRequired(task.reward, task.rewardMint);
+    if (approvals.length < required) {
+      if (!added) {
+        return { success: false, status: 409, error: 'You have already approved this application' };
+      }
+      return { success: true, application, approvals, approvalsRequired: required };
+    }
+
+    // The worker receives the reward less any platform fee deducted from it
+    const { fee, payout } = completionFee(task);
+    const coverage = await checkPayoutCoverage(payout, task.rewardMint);
+    if (!coverage.covered) {
+      return { success: false, status: 409, error: 'Treasury cannot cover this payout', details: coverage.error };
+    }
+
+    // Claim a completion slot before paying so a full task is never overpaid
+    const reserved = await storage.reserveTaskCompletion(task.id);
+    if (!reserved) {
+      return { success: false, status: 409, error: 'Task has no remaining completion slots' };
+    }
+
+    // A payout over a spending limit is held until an admin overrides it
+    const limits = await reservePayoutLimits(application.walletAddress, task.id, payout, task.rewardMint);
+
+    // Only one intent can exist per application, so a concurrent
+    // approval of the same application stops here
+    const intent = await enqueuePayout(application, payout, task.rewardMint, {
+      platformFee: fee || undefined,
+      heldReason: limits.reason,
+      limitDay: limits.day,
+    });
+    if (!intent) {
+      await releasePayoutLimits({
+        walletAddress: application.walletAddress,
+        taskId: task.id,
+        amount: payout,
+        mint: task.rewardMint,
+        limitDay: limits.day,
+      });
+      await storage.releaseTaskCompletion(task.id);
+      await refundReleasedSlot(task.id, applicationId);
+      return { success: false, status: 409, error: 'Application has already been approved' };
+    }
+    await drawTaskBudget(task);
+    const currency = escrowCurrency(task.rewardMint);
+    await recordPayoutApproved(intent, task.agentId, currency);
+    if (task.agentId) {
+      await recordPlatformFee(intent, task.agentId, currency);
+    }
+
+    if (intent.status === 'held') {
+      await sendAlert({
+        event: 'payout_held',
+        message: `Payout for application ${applicationId} is held: ${intent.heldReason}`,
+        details: { applicationId, walletAddress: intent.walletAddress, amount: intent.amount, reviewer },
+      });
+    }
+    updates.payoutStatus = intent.status;
+    updates.platformFee = intent.platformFee;
+  }
+
+  // Only a pending application can be reviewed, so of two racing
+  // reviews exactly one is saved
+  let updatedApplication = await storage.transitionApplication(applicationId, 'pending', updates);
+  if (!updatedApplication && status === 'approved') {
+    // The payout worker may have finished this approval already
+    const current = await storage.getApplication(applicationId);
+    if (current?.status === 'approved') updatedApplication = current;
+  }
+
+  if (!updatedApplication) {
+    return { success: false, status: 409, error: 'Application has already been reviewed' };
+  }
+  return { success: true, application: updatedApplication, approvals, approvalsRequired: required };
+}
@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CachedChainProvider, ChainReadCache } from "./cache";
+import { MockChainProvider, mockAddress } from "./mock";
+
+// The defaults: fresh for 15 seconds, then served stale for a minute more
+const POLICY = { ttlMs: 15_000, staleMs: 60_000 };
+
+let now = 1_700_000_000_000;
+
+beforeEach(() => {
+  vi.spyOn(Date, 'now').mockImplementation(() => now);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// A load that resolves when told to, counting its calls
+function deferredLoad() {
+  const resolvers: Array<(value: number) => void> = [];
+  const load = vi.fn(() => new Promise<number>(resolve => resolvers.push(resolve)));
+  return { load, resolve: (value: number) => resolvers.shift()!(value) };
+}
+
+describe('ChainReadCache', () => {
+  it('serves a fresh entry without reading the chain', async () => {
+    const cache = new ChainReadCache();
+    const load = vi.fn(async () => 1);
+
+    expect(await cache.get('balance:a', POLICY, load)).toBe(1);
+    now += 10_000;
+    expect(await cache.get('balance:a', POLICY, load)).toBe(1);
+
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves a stale entry while it is refreshed in the background', async () => {
+    const cache = new ChainReadCache();
+    await cache.get('balance:a', POLICY, async () => 1);
+    now += 20_000;
+    const { load, resolve } = deferredLoad();
+
+    expect(await cache.get('balance:a', POLICY, load)).toBe(1);
+    expect(load).toHaveBeenCalledTimes(1);
+    resolve(2);
+    await vi.waitFor(async () => expect(await cache.get('balance:a', POLICY, load)).toBe(2));
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('reads the chain again once an entry is too stale to serve', async () => {
+    const cache = new ChainReadCache();
+    await cache.get('balance:a', POLICY, async () => 1);
+    now += 80_000;
+
+    expect(await cache.get('balance:a', POLICY, async () => 2)).toBe(2);
+  });
+
+  it('shares one read between concurrent gets of a key', async () => {
+    const cache = new ChainReadCache();
+    const { load, resolve } = deferredLoad();
+
+    const reads = [cache.get('balance:a', POLICY, load), cache.get('balance:a', POLICY, load)];
+    resolve(1);
+
+    expect(await Promise.all(reads)).toEqual([1, 1]);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not cache a failed read or one it is told not to keep', async () => {
+    const cache = new ChainReadCache();
+    await expect(cache.get('balance:a', POLICY, async () => { throw new Error('429'); })).rejects.toThrow('429');
+    expect(await cache.get('verify:a', POLICY, async () => 0, value => value > 0)).toBe(0);
+
+    expect(await cache.get('balance:a', POLICY, async () => 1)).toBe(1);
+    expect(await cache.get('verify:a', POLICY, async () => 2, value => value > 0)).toBe(2);
+  });
+
+  it('does not cache a read that was invalidated while in flight', async () => {
+    const cache = new ChainReadCache();
+    const { load, resolve } = deferredLoad();
+
+    const read = cache.get('balance:a', POLICY, load);
+    cache.invalidate('balance:');
+    resolve(1);
+    expect(await read).toBe(1);
+
+    expect(await cache.get('balance:a', POLICY, async () => 2)).toBe(2);
+  });
+
+  it('reloads a fresh entry on request', async () => {
+    const cache = new ChainReadCache();
+    await cache.get('balance:a', POLICY, async () => 1);
+
+    expect(await cache.reload('balance:a', async () => 2)).toBe(2);
+    expect(await cache.get('balance:a', POLICY, async () => 3)).toBe(2);
+  });
+});
+
+describe('CachedChainProvider', () => {
+  it('drops cached balances when a transfer is broadcast', async () => {
+    const inner = new MockChainProvider();
+    const chain = new CachedChainProvider(inner);
+    const recipient = mockAddress('cached-recipient');
+    const balance = vi.spyOn(inner, 'getBalance');
+
+    expect(await chain.getBalance(recipient)).toBe(0);
+    expect(await chain.getBalance(recipient)).toBe(0);
+    expect(balance).toHaveBeenCalledTimes(1);
+
+    await chain.broadcastTransfer(await chain.prepareTransfer(recipient, 0.5));
+
+    expect(await chain.getBalance(recipient)).toBeCloseTo(0.5);
+    expect(balance).toHaveBeenCalledTimes(2);
+  });
+
+  it('reads a balance fresh when asked to', async () => {
+    const inner = new MockChainProvider();
+    const chain = new CachedChainProvider(inner);
+    const wallet = mockAddress('fresh-wallet');
+    await chain.getBalance(wallet);
+    inner.setBalance(wallet, 3);
+
+    expect(await chain.getBalance(wallet)).toBe(0);
+    expect(await chain.getBalance(wallet, undefined, { fresh: true })).toBe(3);
+  });
+
+  it('keeps only successful verifications', async () => {
+    const inner = new MockChainProvider();
+    const chain = new CachedChainProvider(inner);
+    const verify = vi.spyOn(inner, 'verifyTransfer');
+    const [from, to] = [mockAddress('payer'), mockAddress('payee')];
+    const signature = inner.recordTransfer(from, to, 1);
+
+    await chain.verifyTransfer(signature, from, to, 2);
+    await chain.verifyTransfer(signature, from, to, 2);
+    await chain.verifyTransfer(signature, from, to, 1);
+    await chain.verifyTransfer(signature, from, to, 1);
+
+    expect(verify).toHaveBeenCalledTimes(3);
+  });
+});
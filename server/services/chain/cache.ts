@@ -0,0 +1,205 @@
+import type { Payout } from "@shared/schema";
+import { envNumber } from "../../env";
+import type {
+  ChainProvider,
+  TransferVerification,
+  PaymentResult,
+  PreparedTransfer,
+  BatchTransfer,
+  PreparedBatchTransfer,
+  TransferStatus,
+  OutgoingTransactionPage,
+  BalanceReadOptions
+} from "./types";
+
+// How long balances and transaction history are served from the cache
+const CHAIN_CACHE_TTL_MS = envNumber('CHAIN_CACHE_TTL_MS', 15_000);
+// How long past its TTL an entry is still served while it is refreshed in
+// the background
+const CHAIN_CACHE_STALE_MS = envNumber('CHAIN_CACHE_STALE_MS', 60_000);
+// Entries kept at most; the least recently fetched go first
+const CHAIN_CACHE_MAX_ENTRIES = 1_000;
+
+interface CachePolicy {
+  ttlMs: number;
+  staleMs: number;
+}
+
+const BALANCE_POLICY: CachePolicy = { ttlMs: CHAIN_CACHE_TTL_MS, staleMs: CHAIN_CACHE_STALE_MS };
+const HISTORY_POLICY: CachePolicy = { ttlMs: CHAIN_CACHE_TTL_MS, staleMs: CHAIN_CACHE_STALE_MS };
+// Registration intents are waiting for these to change, so they are never
+// served stale
+const REFERENCE_POLICY: CachePolicy = { ttlMs: Math.min(CHAIN_CACHE_TTL_MS, 5_000), staleMs: 0 };
+// A confirmed transfer does not change; only successful verifications are kept
+const VERIFICATION_POLICY: CachePolicy = { ttlMs: 10 * 60_000, staleMs: 0 };
+
+interface CacheEntry {
+  value: unknown;
+  fetchedAt: number;
+}
+
+/**
+ * In-process cache of chain reads. A fresh entry is returned as is, a stale
+ * one is returned while a refresh runs in the background, and concurrent
+ * loads of the same key share one request.
+ */
+export class ChainReadCache {
+  private entries = new Map<string, CacheEntry>();
+  private loading = new Map<string, Promise<unknown>>();
+
+  async get<T>(
+    key: string,
+    policy: CachePolicy,
+    load: () => Promise<T>,
+    keep: (value: T) => boolean = () => true
+  ): Promise<T> {
+    const entry = this.entries.get(key);
+    const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+    if (entry && age < policy.ttlMs) {
+      return entry.value as T;
+    }
+    if (entry && age < policy.ttlMs + policy.staleMs) {
+      this.load(key, load, keep).catch(error => console.error(`Error refreshing chain read ${key}:`, error));
+      return entry.value as T;
+    }
+    return this.load(key, load, keep);
+  }
+
+  /**
+   * Read from the chain even if a fresh entry is cached, and cache the result.
+   * Joins a load of the same key already in flight.
+   */
+  reload<T>(key: string, load: () => Promise<T>, keep: (value: T) => boolean = () => true): Promise<T> {
+    return this.load(key, load, keep);
+  }
+
+  /**
+   * Drop entries whose key starts with prefix, including loads in flight, so
+   * the next read goes to the chain
+   */
+  invalidate(prefix: string): void {
+    for (const key of Array.from(this.entries.keys())) {
+      if (key.startsWith(prefix)) this.entries.delete(key);
+    }
+    for (const key of Array.from(this.loading.keys())) {
+      if (key.startsWith(prefix)) this.loading.delete(key);
+    }
+  }
+
+  private load<T>(key: string, load: () => Promise<T>, keep: (value: T) => boolean): Promise<T> {
+    const pending = this.loading.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const loading: Promise<T> = load()
+      .then(value => {
+        // A load invalidated while in flight may predate the change
+        if (this.loading.get(key) === loading && keep(value)) {
+          this.set(key, value);
+        }
+        return value;
+      })
+      .finally(() => {
+        if (this.loading.get(key) === loading) this.loading.delete(key);
+      });
+    this.loading.set(key, loading);
+    return loading;
+  }
+
+  private set(key: string, value: unknown): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, fetchedAt: Date.now() });
+    if (this.entries.size > CHAIN_CACHE_MAX_ENTRIES) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+  }
+}
+
+/**
+ * Chain provider wrapper that serves reads through a ChainReadCache, so bursts
+ * of traffic reach the RPC provider once per key and TTL. Sends pass through,
+ * and a broadcast drops cached balances and history, which it changes.
+ * Transfer statuses are never cached: payouts are resent based on them.
+ */
+export class CachedChainProvider implements ChainProvider {
+  readonly name: string;
+  private cache = new ChainReadCache();
+
+  constructor(private inner: ChainProvider) {
+    this.name = inner.name;
+  }
+
+  getTreasuryAddress(): string {
+    return this.inner.getTreasuryAddress();
+  }
+
+  verifyTransfer(
+    txSignature: string,
+    fromWallet: string,
+    toWallet: string,
+    minAmount: number,
+    mint?: string
+  ): Promise<TransferVerification> {
+    return this.cache.get(
+      `verify:${txSignature}:${fromWallet}:${toWallet}:${minAmount}:${mint ?? ''}`,
+      VERIFICATION_POLICY,
+      () => this.inner.verifyTransfer(txSignature, fromWallet, toWallet, minAmount, mint),
+      verification => verification.valid
+    );
+  }
+
+  findReferenceSignatures(reference: string): Promise<string[]> {
+    return this.cache.get(
+      `references:${reference}`,
+      REFERENCE_POLICY,
+      () => this.inner.findReferenceSignatures(reference)
+    );
+  }
+
+  async getOutgoingTransactions(walletAddress: string): Promise<Payout[]> {
+    // Through the page read, which throws instead of returning an empty
+    // list, so a failed read is not cached
+    try {
+      const page = await this.getOutgoingTransactionPage(walletAddress);
+      return page.payouts;
+    } catch (error) {
+      console.error('Error fetching outgoing transactions:', error);
+      return [];
+    }
+  }
+
+  getOutgoingTransactionPage(walletAddress: string, before?: string): Promise<OutgoingTransactionPage> {
+    return this.cache.get(
+      `history:${walletAddress}:${before ?? ''}`,
+      HISTORY_POLICY,
+      () => this.inner.getOutgoingTransactionPage(walletAddress, before)
+    );
+  }
+
+  prepareTransfer(toWallet: string, amount: number, mint?: string): Promise<PreparedTransfer> {
+    return this.inner.prepareTransfer(toWallet, amount, mint);
+  }
+
+  prepareBatchTransfer(transfers: BatchTransfer[]): Promise<PreparedBatchTransfer> {
+    return this.inner.prepareBatchTransfer(transfers);
+  }
+
+  async broadcastTransfer(prepared: PreparedTransfer): Promise<PaymentResult> {
+    try {
+      return await this.inner.broadcastTransfer(prepared);
+    } finally {
+      this.cache.invalidate('balance:');
+      this.cache.invalidate('history:');
+    }
+  }
+
+  getTransferStatus(signature: string, lastValidBlockHeight: number): Promise<TransferStatus> {
+    return this.inner.getTransferStatus(signature, lastValidBlockHeight);
+  }
+
+  getBalance(walletAddress: string, mint?: string, options?: BalanceReadOptions): Promise<number> {
+    const key = `balance:${walletAddress}:${mint ?? ''}`;
+    const load = () => this.inner.getBalance(walletAddress, mint);
+    return options?.fresh ? this.cache.reload(key, load) : this.cache.get(key, BALANCE_POLICY, load);
+  }
+}
@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+// The cluster is read from the environment when the module loads
+async function loadCluster(env: Record<string, string>) {
+  for (const [name, value] of Object.entries(env)) {
+    vi.stubEnv(name, value);
+  }
+  vi.resetModules();
+  return import("./cluster");
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('cluster configuration', () => {
+  it('defaults to mainnet through Helius', async () => {
+    const cluster = await loadCluster({});
+    expect(cluster.SOLANA_CLUSTER).toBe('mainnet-beta');
+    expect(cluster.getRpcUrl()).toBe('https://api.mainnet-beta.solana.com');
+    expect(cluster.getRpcUrl('key')).toBe('https://mainnet.helius-rpc.com/?api-key=key');
+    expect(cluster.getExplorerTxUrl('sig')).toBe('https://explorer.solana.com/tx/sig');
+  });
+
+  it('links devnet explorer pages to devnet', async () => {
+    const cluster = await loadCluster({ SOLANA_CLUSTER: 'devnet' });
+    expect(cluster.getHeliusApiUrl()).toBe('https://api-devnet.helius.xyz');
+    expect(cluster.getExplorerAddressUrl('addr')).toBe('https://explorer.solana.com/address/addr?cluster=devnet');
+  });
+
+  it('runs against a local validator without Helius', async () => {
+    const cluster = await loadCluster({ SOLANA_CLUSTER: 'localnet', SOLANA_RPC_URL: 'http://localhost:9000' });
+    expect(cluster.heliusSupportsCluster()).toBe(false);
+    expect(cluster.getRpcUrl('key')).toBe('http://localhost:9000');
+    expect(() => cluster.getHeliusApiUrl()).toThrow('Helius does not support the localnet cluster');
+    expect(cluster.getExplorerTxUrl('sig')).toBe(
+      'https://explorer.solana.com/tx/sig?cluster=custom&customUrl=http%3A%2F%2Flocalhost%3A9000'
+    );
+  });
+
+  it('verifies payments over the cluster\'s public endpoint unless told otherwise', async () => {
+    expect((await loadCluster({})).getFallbackRpcUrl()).toBe('https://api.mainnet-beta.solana.com');
+    const custom = await loadCluster({ SOLANA_FALLBACK_RPC_URL: 'https://rpc.example.com' });
+    expect(custom.getFallbackRpcUrl()).toBe('https://rpc.example.com');
+  });
+
+  it('counts payments once confirmed unless finalization is required', async () => {
+    expect((await loadCluster({})).VERIFY_COMMITMENT).toBe('confirmed');
+    expect((await loadCluster({ VERIFY_COMMITMENT: 'finalized' })).VERIFY_COMMITMENT).toBe('finalized');
+    await expect(loadCluster({ VERIFY_COMMITMENT: 'processed' })).rejects.toThrow('Unknown VERIFY_COMMITMENT "processed"');
+  });
+
+  it('rejects an unknown cluster at startup', async () => {
+    await expect(loadCluster({ SOLANA_CLUSTER: 'mainnet' })).rejects.toThrow('Unknown SOLANA_CLUSTER "mainnet"');
+  });
+});
@@ -0,0 +1,121 @@
+import type { Finality } from "@solana/web3.js";
+
+export type SolanaCluster = 'mainnet-beta' | 'devnet' | 'testnet' | 'localnet';
+
+interface ClusterEndpoints {
+  // Public JSON-RPC endpoint
+  rpcUrl: string;
+  // Helius endpoints, where Helius serves the cluster
+  heliusRpcUrl?: string;
+  heliusApiUrl?: string;
+}
+
+const CLUSTERS: Record<SolanaCluster, ClusterEndpoints> = {
+  'mainnet-beta': {
+    rpcUrl: 'https://api.mainnet-beta.solana.com',
+    heliusRpcUrl: 'https://mainnet.helius-rpc.com',
+    heliusApiUrl: 'https://api.helius.xyz',
+  },
+  devnet: {
+    rpcUrl: 'https://api.devnet.solana.com',
+    heliusRpcUrl: 'https://devnet.helius-rpc.com',
+    heliusApiUrl: 'https://api-devnet.helius.xyz',
+  },
+  testnet: {
+    rpcUrl: 'https://api.testnet.solana.com',
+  },
+  localnet: {
+    // solana-test-validator
+    rpcUrl: 'http://127.0.0.1:8899',
+  },
+};
+
+const EXPLORER_URL = 'https://explorer.solana.com';
+
+// Cluster to run against: "mainnet-beta" (default), "devnet", "testnet" or "localnet"
+export const SOLANA_CLUSTER = parseCluster(process.env.SOLANA_CLUSTER || 'mainnet-beta');
+// Overrides the RPC endpoint of the cluster (e.g. a private node or a validator on another port)
+const SOLANA_RPC_URL = process.env.SOLANA_RPC_URL;
+// RPC endpoint that verifies payments when the primary source fails.
+// Defaults to the cluster's RPC endpoint without Helius.
+const SOLANA_FALLBACK_RPC_URL = process.env.SOLANA_FALLBACK_RPC_URL;
+// Commitment a payment must reach before it counts: "confirmed" (default) or "finalized"
+export const VERIFY_COMMITMENT = parseVerifyCommitment(process.env.VERIFY_COMMITMENT || 'confirmed');
+
+function parseCluster(value: string): SolanaCluster {
+  if (value in CLUSTERS) {
+    return value as SolanaCluster;
+  }
+  throw new Error(`Unknown SOLANA_CLUSTER "${value}". Use one of: ${Object.keys(CLUSTERS).join(', ')}`);
+}
+
+function parseVerifyCommitment(value: string): Finality {
+  if (value === 'confirmed' || value === 'finalized') {
+    return value;
+  }
+  throw new Error(`Unknown VERIFY_COMMITMENT "${value}". Use "confirmed" or "finalized"`);
+}
+
+/**
+ * Whether Helius serves the configured cluster
+ */
+export function heliusSupportsCluster(): boolean {
+  return CLUSTERS[SOLANA_CLUSTER].heliusApiUrl !== undefined;
+}
+
+/**
+ * JSON-RPC endpoint for the configured cluster. Goes through Helius when an
+ * API key is given and Helius serves the cluster, unless SOLANA_RPC_URL is set.
+ */
+export function getRpcUrl(heliusApiKey?: string): string {
+  if (SOLANA_RPC_URL) return SOLANA_RPC_URL;
+
+  const endpoints = CLUSTERS[SOLANA_CLUSTER];
+  if (heliusApiKey && endpoints.heliusRpcUrl) {
+    return `${endpoints.heliusRpcUrl}/?api-key=${heliusApiKey}`;
+  }
+  return endpoints.rpcUrl;
+}
+
+/**
+ * JSON-RPC endpoint for fallback payment verification
+ */
+export function getFallbackRpcUrl(): string {
+  return SOLANA_FALLBACK_RPC_URL || getRpcUrl();
+}
+
+/**
+ * Base URL of the Helius enhanced transactions API for the configured cluster
+ */
+export function getHeliusApiUrl(): string {
+  const url = CLUSTERS[SOLANA_CLUSTER].heliusApiUrl;
+  if (!url) {
+    throw new Error(`Helius does not support the ${SOLANA_CLUSTER} cluster`);
+  }
+  return url;
+}
+
+/**
+ * Solana Explorer link for a transaction on the configured cluster
+ */
+export function getExplorerTxUrl(signature: string): string {
+  return `${EXPLORER_URL}/tx/${signature}${explorerQuery()}`;
+}
+
+/**
+ * Solana Explorer link for an account on the configured cluster
+ */
+export function getExplorerAddressUrl(address: string): string {
+  return `${EXPLORER_URL}/address/${address}${explorerQuery()}`;
+}
+
+function explorerQuery(): string {
+  switch (SOLANA_CLUSTER) {
+    case 'mainnet-beta':
+      return '';
+    case 'localnet':
+      return `?cluster=custom&customUrl=${encodeURIComponent(SOLANA_RPC_URL || CLUSTERS.localnet.rpcUrl)}`;
+    default:
+      return `?cluster=${SOLANA_CLUSTER}`;
+  }
+}
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Connection, ParsedTransactionWithMeta } from "@solana/web3.js";
+import { HeliusChainProvider } from "./helius";
+
+const provider = new HeliusChainProvider('test-key');
+// The cluster's public endpoint, which verifies payments Helius cannot
+const fallbackConnection = (provider as unknown as { fallbackConnection: Connection }).fallbackConnection;
+
+// A transaction whose only instruction is a SOL transfer
+function solTransfer(source: string, destination: string, lamports: number): ParsedTransactionWithMeta {
+  return {
+    transaction: {
+      message: {
+        accountKeys: [],
+        instructions: [{ program: 'system', programId: {}, parsed: { type: 'transfer', info: { source, destination, lamports } } }],
+      },
+    },
+    meta: { err: null, innerInstructions: [], preTokenBalances: [], postTokenBalances: [] },
+  } as unknown as ParsedTransactionWithMeta;
+}
+
+// Stub the enhanced transactions API to answer with a status and body
+function stubHelius(status: number, body: unknown) {
+  const fetch = vi.fn(async () => new Response(JSON.stringify(body), { status }));
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('HeliusChainProvider.verifyTransfer', () => {
+  it('verifies from the enhanced transactions API at the configured commitment', async () => {
+    const fetch = stubHelius(200, [{
+      signature: 'sig',
+      timestamp: 1_700_000_000,
+      transactionError: null,
+      nativeTransfers: [{ fromUserAccount: 'payer', toUserAccount: 'fees', amount: 1e8 }],
+    }]);
+    const fallback = vi.spyOn(fallbackConnection, 'getParsedTransaction');
+
+    expect(await provider.verifyTransfer('sig', 'payer', 'fees', 0.1)).toEqual({ valid: true, amount: 0.1 });
+    expect(String(fetch.mock.calls[0][0])).toContain('commitment=confirmed');
+    expect(fallback).not.toHaveBeenCalled();
+  });
+
+  it('falls back to getParsedTransaction when Helius has not seen the transaction', async () => {
+    stubHelius(200, []);
+    vi.spyOn(fallbackConnection, 'getParsedTransaction').mockResolvedValue(solTransfer('payer', 'fees', 1e8));
+
+    expect(await provider.verifyTransfer('sig', 'payer', 'fees', 0.1)).toEqual({ valid: true, amount: 0.1 });
+  });
+
+  it('falls back to getParsedTransaction when Helius fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    stubHelius(400, { error: 'Bad request' });
+    vi.spyOn(fallbackConnection, 'getParsedTransaction').mockResolvedValue(solTransfer('payer', 'other', 1e8));
+
+    expect(await provider.verifyTransfer('sig', 'payer', 'fees', 0.1)).toMatchObject({
+      valid: false,
+      mismatch: true,
+      error: 'No matching transfer found in transaction',
+    });
+  });
+});
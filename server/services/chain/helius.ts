@@ -0,0 +1,218 @@
+import type { Payout } from "@shared/schema";
+import { VERIFY_COMMITMENT, getRpcUrl, getHeliusApiUrl, getExplorerTxUrl } from "./cluster";
+import { RpcChainProvider } from "./rpc";
+import { fetchWithRetry } from "./http";
+import { getTreasuryKeypair } from "../solana";
+import type { TransferVerification, OutgoingTransactionPage } from "./types";
+
+// Transactions per page of wallet history
+const HISTORY_PAGE_SIZE = 50;
+
+interface NativeTransfer {
+  fromUserAccount: string;
+  toUserAccount: string;
+  amount: number;
+}
+
+interface TokenTransfer {
+  fromUserAccount: string;
+  toUserAccount: string;
+  mint: string;
+  tokenAmount: number; // in token units, not base units
+}
+
+interface PriorityFeeEstimateResponse {
+  result?: { priorityFeeEstimate?: number };
+  error?: { message: string };
+}
+
+interface HeliusTransaction {
+  signature: string;
+  timestamp: number;
+  transactionError: string | null;
+  nativeTransfers?: NativeTransfer[];
+  tokenTransfers?: TokenTransfer[];
+}
+
+/**
+ * Helius on mainnet or devnet: the enhanced transactions API for
+ * verification and history, Helius RPC for sending and balances
+ */
+export class HeliusChainProvider extends RpcChainProvider {
+  readonly name = 'helius';
+  private apiUrl: string;
+
+  constructor(private apiKey: string) {
+    super(getRpcUrl(apiKey));
+    this.apiUrl = getHeliusApiUrl();
+  }
+
+  /**
+   * Verify a SOL or SPL token transfer between wallets with the enhanced
+   * transactions API. Falls back to getParsedTransaction on the fallback RPC
+   * endpoint when Helius fails or has not seen the transaction.
+   */
+  async verifyTransfer(
+    txSignature: string,
+    fromWallet: string,
+    toWallet: string,
+    minAmount: number,
+    mint?: string
+  ): Promise<TransferVerification> {
+    try {
+      const url = `${this.apiUrl}/v0/transactions/?api-key=${this.apiKey}&commitment=${VERIFY_COMMITMENT}`;
+
+      const response = await fetchWithRetry(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ transactions: [txSignature] }),
+      });
+
+      if (!response.ok) {
+        console.warn(`Helius transaction lookup failed with status ${response.status}, verifying over RPC`);
+        return this.verifyWithFallback(txSignature, fromWallet, toWallet, minAmount, mint);
+      }
+
+      const transactions: HeliusTransaction[] = await response.json();
+      const tx = transactions[0];
+
+      if (!tx) {
+        // Helius may not have indexed it yet
+        return this.verifyWithFallback(txSignature, fromWallet, toWallet, minAmount, mint);
+      }
+
+      if (tx.transactionError) {
+        return { valid: false, error: 'Transaction failed on chain' };
+      }
+
+      if (mint) {
+        for (const transfer of tx.tokenTransfers || []) {
+          if (
+            transfer.mint === mint &&
+            transfer.fromUserAccount === fromWallet &&
+            transfer.toUserAccount === toWallet &&
+            transfer.tokenAmount >= minAmount
+          ) {
+            return { valid: true, amount: transfer.tokenAmount };
+          }
+        }
+        return { valid: false, mismatch: true, error: 'No matching transfer found in transaction' };
+      }
+
+      // Check native SOL transfers
+      for (const transfer of tx.nativeTransfers || []) {
+        if (
+          transfer.fromUserAccount === fromWallet &&
+          transfer.toUserAccount === toWallet &&
+          transfer.amount >= minAmount * 1e9 // Convert SOL to lamports
+        ) {
+          return { valid: true, amount: transfer.amount / 1e9 };
+        }
+      }
+
+      return { valid: false, mismatch: true, error: 'No matching transfer found in transaction' };
+    } catch (error) {
+      console.error('Error verifying transfer with Helius, verifying over RPC:', error);
+      return this.verifyWithFallback(txSignature, fromWallet, toWallet, minAmount, mint);
+    }
+  }
+
+  /**
+   * One page of outgoing transfers from a wallet, from the enhanced
+   * transactions API
+   */
+  async getOutgoingTransactionPage(walletAddress: string, before?: string): Promise<OutgoingTransactionPage> {
+    const params = new URLSearchParams({ 'api-key': this.apiKey, limit: String(HISTORY_PAGE_SIZE) });
+    if (before) params.set('before', before);
+    const url = `${this.apiUrl}/v0/addresses/${walletAddress}/transactions?${params}`;
+
+    const response = await fetchWithRetry(url);
+
+    if (!response.ok) {
+      throw new Error(`Helius transaction history failed with status ${response.status}`);
+    }
+
+    const transactions: HeliusTransaction[] = await response.json();
+    const outgoing: Payout[] = [];
+
+    for (const tx of transactions) {
+      if (tx.transactionError) continue;
+      const native = tx.nativeTransfers || [];
+
+      native.forEach((transfer, index) => {
+        if (transfer.fromUserAccount === walletAddress && transfer.amount > 0) {
+          outgoing.push({
+            signature: tx.signature,
+            to: transfer.toUserAccount,
+            amount: transfer.amount / 1e9,
+            timestamp: tx.timestamp * 1000,
+            status: 'confirmed',
+            index,
+            explorerUrl: getExplorerTxUrl(tx.signature),
+          });
+        }
+      });
+
+      (tx.tokenTransfers || []).forEach((transfer, index) => {
+        if (transfer.fromUserAccount === walletAddress && transfer.tokenAmount > 0) {
+          outgoing.push({
+            signature: tx.signature,
+            to: transfer.toUserAccount,
+            amount: transfer.tokenAmount,
+            timestamp: tx.timestamp * 1000,
+            status: 'confirmed',
+            mint: transfer.mint,
+            index: native.length + index,
+            explorerUrl: getExplorerTxUrl(tx.signature),
+          });
+        }
+      });
+    }
+
+    const oldest = transactions[transactions.length - 1];
+    return {
+      payouts: outgoing,
+      before: transactions.length === HISTORY_PAGE_SIZE ? oldest.signature : undefined,
+      oldestTimestamp: oldest ? oldest.timestamp * 1000 : undefined,
+    };
+  }
+
+  /**
+   * Priority fee from Helius's estimate for transactions that write the
+   * treasury account. The "High" level is the 75th percentile of recent fees.
+   * Falls back to the RPC's recent fees, e.g. when SOLANA_RPC_URL is not Helius.
+   */
+  protected async estimatePriorityFee(): Promise<number> {
+    try {
+      return await this.getHeliusPriorityFee();
+    } catch (error) {
+      console.error('Error fetching Helius priority fee estimate:', error);
+      return super.estimatePriorityFee();
+    }
+  }
+
+  private async getHeliusPriorityFee(): Promise<number> {
+    const response = await fetchWithRetry(getRpcUrl(this.apiKey), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 'priority-fee',
+        method: 'getPriorityFeeEstimate',
+        params: [{
+          accountKeys: [getTreasuryKeypair().publicKey.toBase58()],
+          options: { priorityLevel: 'High' },
+        }],
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Helius priority fee estimate failed with status ${response.status}`);
+    }
+
+    const { result, error }: PriorityFeeEstimateResponse = await response.json();
+    if (error || result?.priorityFeeEstimate === undefined) {
+      throw new Error(error?.message ?? 'Helius returned no priority fee estimate');
+    }
+    return result.priorityFeeEstimate;
+  }
+}
@@ -0,0 +1,56 @@
+import { afterAll, afterEach, describe, expect, it, vi } from "vitest";
+
+// Retry without waiting; settings are read when the module loads
+vi.hoisted(() => {
+  process.env.CHAIN_FETCH_BACKOFF_MS = '0';
+});
+
+import { fetchWithRetry } from "./http";
+
+afterAll(() => {
+  delete process.env.CHAIN_FETCH_BACKOFF_MS;
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// Stub fetch to answer with each status in turn, or throw for null
+function respond(...statuses: Array<number | null>) {
+  const fetch = vi.fn(async () => {
+    const status = statuses.shift();
+    if (status === null) throw new TypeError('fetch failed');
+    return new Response('{}', { status });
+  });
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+describe('fetchWithRetry', () => {
+  it('retries rate limits, server errors and network errors', async () => {
+    const fetch = respond(429, null, 200);
+
+    expect((await fetchWithRetry('https://rpc.example.com')).status).toBe(200);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('returns the last response once retries are exhausted', async () => {
+    const fetch = respond(503, 503, 503, 200);
+
+    expect((await fetchWithRetry('https://rpc.example.com')).status).toBe(503);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry a client error', async () => {
+    const fetch = respond(400, 200);
+
+    expect((await fetchWithRetry('https://rpc.example.com')).status).toBe(400);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('throws the last network error', async () => {
+    respond(null, null, null);
+
+    await expect(fetchWithRetry('https://rpc.example.com')).rejects.toThrow('fetch failed');
+  });
+});
@@ -0,0 +1,59 @@
+import { envNumber } from "../../env";
+
+// Longest a single chain HTTP request may take before it is aborted; 0 for
+// no timeout
+const CHAIN_FETCH_TIMEOUT_MS = envNumber('CHAIN_FETCH_TIMEOUT_MS', 10_000);
+// Further attempts after a timeout, network error, 429 or 5xx
+const CHAIN_FETCH_RETRIES = envNumber('CHAIN_FETCH_RETRIES', 2);
+// Wait before the first retry; doubles with each further one
+const CHAIN_FETCH_BACKOFF_MS = envNumber('CHAIN_FETCH_BACKOFF_MS', 250);
+// Longest wait between attempts, even when a Retry-After header asks for more
+const MAX_BACKOFF_MS = 5_000;
+
+/**
+ * fetch() for Helius and Solana RPC requests: each attempt times out after
+ * CHAIN_FETCH_TIMEOUT_MS, and timeouts, network errors, rate limits and
+ * server errors are retried with exponential backoff and jitter. Every
+ * request the platform makes to the chain is safe to repeat: reads, and
+ * sends of an already signed transaction. Returns the last response once
+ * retries are exhausted, so callers still see its status.
+ */
+export async function fetchWithRetry(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    const lastAttempt = attempt >= CHAIN_FETCH_RETRIES;
+    let response: Response;
+    try {
+      const signal = CHAIN_FETCH_TIMEOUT_MS > 0 ? AbortSignal.timeout(CHAIN_FETCH_TIMEOUT_MS) : init?.signal;
+      response = await fetch(input, { ...init, signal });
+    } catch (error) {
+      if (lastAttempt) throw error;
+      await sleep(backoff(attempt));
+      continue;
+    }
+
+    if (lastAttempt || !isRetryableStatus(response.status)) {
+      return response;
+    }
+    // Free the connection before waiting
+    await response.body?.cancel();
+    await sleep(backoff(attempt, response.headers.get('retry-after')));
+  }
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+function backoff(attempt: number, retryAfter?: string | null): number {
+  const requested = Number(retryAfter) * 1000;
+  if (requested > 0) return Math.min(requested, MAX_BACKOFF_MS);
+
+  const delay = CHAIN_FETCH_BACKOFF_MS * 2 ** attempt;
+  // Jittered by up to half either way, so requests rate limited together
+  // do not retry together
+  return Math.min(delay / 2 + Math.random() * delay, MAX_BACKOFF_MS);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
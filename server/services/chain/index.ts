@@ -0,0 +1,57 @@
+import type { ChainProvider } from "./types";
+import { HeliusChainProvider } from "./helius";
+import { RpcChainProvider } from "./rpc";
+import { MockChainProvider } from "./mock";
+import { CachedChainProvider } from "./cache";
+import { SOLANA_CLUSTER, getRpcUrl, heliusSupportsCluster } from "./cluster";
+import { TREASURY_WALLET } from "../solana";
+
+export type {
+  ChainProvider,
+  TransferVerification,
+  PaymentResult,
+  PreparedTransfer,
+  BatchTransfer,
+  PreparedBatchTransfer,
+  TransferStatus,
+  OutgoingTransactionPage,
+  BalanceReadOptions
+} from "./types";
+export type { SolanaCluster } from "./cluster";
+export {
+  SOLANA_CLUSTER,
+  getExplorerTxUrl,
+  getExplorerAddressUrl
+} from "./cluster";
+export { resolveMint, mintLabel, type MintResolution } from "./tokens";
+export { HeliusChainProvider } from "./helius";
+export { RpcChainProvider } from "./rpc";
+export { MockChainProvider, mockAddress } from "./mock";
+export { CachedChainProvider, ChainReadCache } from "./cache";
+
+const HELIUS_API_KEY = process.env.HELIUS_API_KEY;
+// Chain provider: "helius", "rpc" (plain JSON-RPC) or "mock" for tests and local
+// development. Defaults to Helius where it serves the cluster, plain RPC elsewhere.
+const CHAIN_PROVIDER = process.env.CHAIN_PROVIDER
+  || (heliusSupportsCluster() && HELIUS_API_KEY ? "helius" : "rpc");
+
+function createChainProvider(): ChainProvider {
+  switch (CHAIN_PROVIDER) {
+    case "helius":
+      if (!heliusSupportsCluster()) {
+        throw new Error(`CHAIN_PROVIDER "helius" is not available on ${SOLANA_CLUSTER}. Use "rpc"`);
+      }
+      return new CachedChainProvider(new HeliusChainProvider(HELIUS_API_KEY!));
+    case "rpc":
+      return new CachedChainProvider(new RpcChainProvider(getRpcUrl()));
+    case "mock":
+      // Not cached: it is in-process, and tests expect to read their
+      // transfers back at once
+      console.warn('Using mock chain provider: no real transactions are sent or verified');
+      return new MockChainProvider({ treasuryAddress: TREASURY_WALLET });
+    default:
+      throw new Error(`Unknown CHAIN_PROVIDER "${CHAIN_PROVIDER}". Use "helius", "rpc" or "mock"`);
+  }
+}
+
+export const chain = createChainProvider();
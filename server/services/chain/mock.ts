@@ -0,0 +1,314 @@
+import { createHash } from "crypto";
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+import type { Payout } from "@shared/schema";
+import type {
+  ChainProvider,
+  TransferVerification,
+  PaymentResult,
+  PreparedTransfer,
+  BatchTransfer,
+  PreparedBatchTransfer,
+  TransferStatus,
+  OutgoingTransactionPage
+} from "./types";
+
+interface MockTransfer {
+  to: string;
+  units: number; // lamports or token base units
+}
+
+interface MockTransaction {
+  signature: string;
+  timestamp: number;
+  blockHeight: number;
+  error: string | null;
+  from: string;
+  // SPL token mint; SOL when null
+  mint: string | null;
+  transfers: MockTransfer[];
+  // Solana Pay reference keys included in the transaction
+  references?: string[];
+}
+
+interface MockOptions {
+  treasuryAddress?: string;
+  // Starting treasury balance in SOL
+  treasuryBalance?: number;
+}
+
+// Blocks a prepared transfer stays valid for, as with a real blockhash
+const BLOCKHASH_VALIDITY = 150;
+// Transactions per page of wallet history
+const HISTORY_PAGE_SIZE = 50;
+// Every mock token mint uses USDC's precision
+const TOKEN_DECIMALS = 6;
+// About as many SOL transfers as fit in a real transaction
+const MAX_BATCH_TRANSFERS = 20;
+
+/**
+ * Deterministic in-process chain for tests and local development.
+ * Signatures and addresses derive from counters and fixed seeds, so the same
+ * sequence of calls always produces the same results. Every call advances
+ * the block height by one. Any address can be used as a token mint; token
+ * accounts are implicit.
+ */
+export class MockChainProvider implements ChainProvider {
+  readonly name = 'mock';
+
+  private treasuryAddress: string;
+  private balances = new Map<string, number>(); // base units, keyed by balanceKey()
+  private transactions = new Map<string, MockTransaction>();
+  private prepared = new Map<string, MockTransaction & { lastValidBlockHeight: number }>();
+  private blockHeight = 1;
+  private sequence = 0;
+  private dropBroadcasts = 0;
+
+  constructor(options: MockOptions = {}) {
+    this.treasuryAddress = options.treasuryAddress ?? mockAddress('treasury');
+    this.setBalance(this.treasuryAddress, options.treasuryBalance ?? 1000);
+  }
+
+  // ========== TEST CONTROLS ==========
+
+  /**
+   * Land a transfer on the mock chain (e.g. a registration payment) and
+   * return its signature
+   */
+  recordTransfer(
+    from: string,
+    to: string,
+    amount: number,
+    options: { mint?: string; error?: string; reference?: string } = {}
+  ): string {
+    const mint = options.mint ?? null;
+    const tx: MockTransaction = {
+      signature: this.nextSignature(),
+      timestamp: Math.floor(Date.now() / 1000),
+      blockHeight: this.tick(),
+      error: options.error ?? null,
+      from,
+      mint,
+      transfers: [{ to, units: toUnits(amount, mint) }],
+      references: options.reference ? [options.reference] : undefined,
+    };
+    this.land(tx);
+    return tx.signature;
+  }
+
+  setBalance(walletAddress: string, amount: number, mint?: string): void {
+    this.balances.set(balanceKey(walletAddress, mint ?? null), toUnits(amount, mint ?? null));
+  }
+
+  advanceBlocks(count: number): void {
+    this.blockHeight += count;
+  }
+
+  // Make the next `count` broadcasts get lost before landing, as a dropped
+  // transaction or a crash mid-send would
+  dropNextBroadcasts(count: number = 1): void {
+    this.dropBroadcasts += count;
+  }
+
+  // ========== CHAIN PROVIDER ==========
+
+  getTreasuryAddress(): string {
+    return this.treasuryAddress;
+  }
+
+  async verifyTransfer(
+    txSignature: string,
+    fromWallet: string,
+    toWallet: string,
+    minAmount: number,
+    mint?: string
+  ): Promise<TransferVerification> {
+    this.tick();
+    const tx = this.transactions.get(txSignature);
+    if (!tx) {
+      return { valid: false, error: 'Transaction not found' };
+    }
+    if (tx.error) {
+      return { valid: false, error: 'Transaction failed on chain' };
+    }
+    if (tx.mint === (mint ?? null) && tx.from === fromWallet) {
+      const transfer = tx.transfers.find(
+        transfer => transfer.to === toWallet && transfer.units >= toUnits(minAmount, tx.mint)
+      );
+      if (transfer) {
+        return { valid: true, amount: fromUnits(transfer.units, tx.mint) };
+      }
+    }
+    return { valid: false, mismatch: true, error: 'No matching transfer found in transaction' };
+  }
+
+  async findReferenceSignatures(reference: string): Promise<string[]> {
+    this.tick();
+    return Array.from(this.transactions.values())
+      .filter(tx => !tx.error && tx.references?.includes(reference))
+      .sort((a, b) => a.blockHeight - b.blockHeight)
+      .map(tx => tx.signature);
+  }
+
+  async getOutgoingTransactions(walletAddress: string): Promise<Payout[]> {
+    const page = await this.getOutgoingTransactionPage(walletAddress);
+    return page.payouts;
+  }
+
+  async getOutgoingTransactionPage(walletAddress: string, before?: string): Promise<OutgoingTransactionPage> {
+    this.tick();
+    const history = Array.from(this.transactions.values())
+      .filter(tx => tx.from === walletAddress)
+      .sort((a, b) => b.blockHeight - a.blockHeight);
+    const start = before ? history.findIndex(tx => tx.signature === before) + 1 : 0;
+    const page = history.slice(start, start + HISTORY_PAGE_SIZE);
+    const oldest = page[page.length - 1];
+
+    return {
+      payouts: page
+        .filter(tx => !tx.error)
+        .flatMap(tx => tx.transfers
+          .map((transfer, index) => ({
+            signature: tx.signature,
+            to: transfer.to,
+            amount: fromUnits(transfer.units, tx.mint),
+            timestamp: tx.timestamp * 1000,
+            status: 'confirmed',
+            mint: tx.mint ?? undefined,
+            index,
+          }))
+          .filter(payout => payout.amount > 0)
+        ),
+      before: start + HISTORY_PAGE_SIZE < history.length ? oldest.signature : undefined,
+      oldestTimestamp: oldest ? oldest.timestamp * 1000 : undefined,
+    };
+  }
+
+  async prepareTransfer(toWallet: string, amount: number, mint?: string): Promise<PreparedTransfer> {
+    return this.prepare(mint ?? null, [{ to: toWallet, units: toUnits(amount, mint ?? null) }]);
+  }
+
+  async prepareBatchTransfer(transfers: BatchTransfer[]): Promise<PreparedBatchTransfer> {
+    const batch = transfers.slice(0, MAX_BATCH_TRANSFERS);
+    const prepared = this.prepare(null, batch.map(transfer => ({
+      to: transfer.toWallet,
+      units: toUnits(transfer.amount, null),
+    })));
+    return { ...prepared, count: batch.length };
+  }
+
+  async broadcastTransfer(prepared: PreparedTransfer): Promise<PaymentResult> {
+    const blockHeight = this.tick();
+    const tx = this.prepared.get(prepared.signature);
+    const { signature } = prepared;
+
+    if (!tx) {
+      return { status: 'failed', signature, error: 'Unknown transaction' };
+    }
+    if (this.transactions.has(signature)) {
+      const landed = this.transactions.get(signature)!;
+      return landed.error
+        ? { status: 'failed', signature, error: 'Transaction failed on chain' }
+        : { status: 'confirmed', signature };
+    }
+    if (blockHeight > tx.lastValidBlockHeight) {
+      return { status: 'failed', signature, error: 'Blockhash expired before the transaction landed' };
+    }
+    if (this.dropBroadcasts > 0) {
+      this.dropBroadcasts--;
+      return { status: 'unknown', signature, error: 'Transaction was not confirmed' };
+    }
+
+    const balance = this.balances.get(balanceKey(tx.from, tx.mint)) ?? 0;
+    const error = balance < totalUnits(tx) ? 'Insufficient funds' : null;
+    this.land({ ...tx, blockHeight, error });
+    return error
+      ? { status: 'failed', signature, error: 'Transaction failed on chain' }
+      : { status: 'confirmed', signature };
+  }
+
+  async getTransferStatus(signature: string, lastValidBlockHeight?: number): Promise<TransferStatus> {
+    const blockHeight = this.tick();
+    const tx = this.transactions.get(signature);
+    if (tx) {
+      return tx.error ? 'failed' : 'confirmed';
+    }
+    return lastValidBlockHeight !== undefined && blockHeight > lastValidBlockHeight ? 'expired' : 'pending';
+  }
+
+  async getBalance(walletAddress: string, mint?: string): Promise<number> {
+    this.tick();
+    const key = balanceKey(walletAddress, mint ?? null);
+    return fromUnits(this.balances.get(key) ?? 0, mint ?? null);
+  }
+
+  // ========== INTERNALS ==========
+
+  private prepare(mint: string | null, transfers: MockTransfer[]): PreparedTransfer {
+    const blockHeight = this.tick();
+    const tx = {
+      signature: this.nextSignature(),
+      timestamp: Math.floor(Date.now() / 1000),
+      blockHeight,
+      error: null,
+      from: this.treasuryAddress,
+      mint,
+      transfers,
+      lastValidBlockHeight: blockHeight + BLOCKHASH_VALIDITY,
+    };
+    this.prepared.set(tx.signature, tx);
+
+    return {
+      signature: tx.signature,
+      serialized: Buffer.from(tx.signature),
+      blockhash: mockAddress(`blockhash:${blockHeight}`),
+      lastValidBlockHeight: tx.lastValidBlockHeight,
+    };
+  }
+
+  private land(tx: MockTransaction): void {
+    this.transactions.set(tx.signature, tx);
+    if (tx.error) return;
+
+    const from = balanceKey(tx.from, tx.mint);
+    this.balances.set(from, (this.balances.get(from) ?? 0) - totalUnits(tx));
+    for (const transfer of tx.transfers) {
+      const to = balanceKey(transfer.to, tx.mint);
+      this.balances.set(to, (this.balances.get(to) ?? 0) + transfer.units);
+    }
+  }
+
+  private tick(): number {
+    return this.blockHeight++;
+  }
+
+  private nextSignature(): string {
+    this.sequence++;
+    const digest = createHash('sha512').update(`mock-signature:${this.sequence}`).digest();
+    return bs58.encode(digest);
+  }
+}
+
+function balanceKey(walletAddress: string, mint: string | null): string {
+  return mint ? `${mint}:${walletAddress}` : walletAddress;
+}
+
+function totalUnits(tx: MockTransaction): number {
+  return tx.transfers.reduce((sum, transfer) => sum + transfer.units, 0);
+}
+
+function toUnits(amount: number, mint: string | null): number {
+  return Math.round(amount * 10 ** (mint ? TOKEN_DECIMALS : 9));
+}
+
+function fromUnits(units: number, mint: string | null): number {
+  return units / 10 ** (mint ? TOKEN_DECIMALS : 9);
+}
+
+/**
+ * Valid, deterministic wallet address for a label (e.g. test wallets)
+ */
+export function mockAddress(label: string): string {
+  const seed = createHash('sha256').update(`mock-address:${label}`).digest();
+  return Keypair.fromSeed(seed).publicKey.toBase58();
+}
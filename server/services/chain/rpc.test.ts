@@ -0,0 +1,408 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  ComputeBudgetInstruction,
+  Connection,
+  Keypair,
+  PACKET_DATA_SIZE,
+  SendTransactionError,
+  Transaction,
+  type ParsedTransactionWithMeta
+} from "@solana/web3.js";
+import { RpcChainProvider } from "./rpc";
+
+// Transfers are signed by a treasury key made up for the tests
+vi.mock("../solana", async (importOriginal) => {
+  const treasury = (await import("@solana/web3.js")).Keypair.generate();
+  return { ...await importOriginal<typeof import("../solana")>(), getTreasuryKeypair: () => treasury };
+});
+
+const provider = new RpcChainProvider('http://127.0.0.1:8899');
+// The provider's RPC calls, stubbed per test
+const connection = (provider as unknown as { connection: Connection }).connection;
+// The cluster's public endpoint, which verifies payments when the provider's fails
+const fallbackConnection = (provider as unknown as { fallbackConnection: Connection }).fallbackConnection;
+
+type Instruction = { program: string; type: string; info: Record<string, unknown> };
+
+// A parsed transaction holding the given instructions, top level or made by
+// CPI, with the owner and mint of each of its token accounts
+function parsedTransaction({
+  instructions = [],
+  innerInstructions = [],
+  tokenAccounts = {},
+  err = null,
+}: {
+  instructions?: Instruction[];
+  innerInstructions?: Instruction[];
+  tokenAccounts?: Record<string, { owner: string; mint: string }>;
+  err?: unknown;
+}): ParsedTransactionWithMeta {
+  const parsed = ({ program, type, info }: Instruction) => ({ program, programId: {}, parsed: { type, info } });
+  const addresses = Object.keys(tokenAccounts);
+  const tokenBalances = addresses.map((address, accountIndex) => ({
+    accountIndex,
+    ...tokenAccounts[address],
+    uiTokenAmount: { amount: '0', decimals: 6 },
+  }));
+  return {
+    transaction: {
+      message: {
+        accountKeys: addresses.map(address => ({ pubkey: { toBase58: () => address } })),
+        instructions: instructions.map(parsed),
+      },
+    },
+    meta: {
+      err,
+      innerInstructions: [{ index: 0, instructions: innerInstructions.map(parsed) }],
+      preTokenBalances: tokenBalances,
+      postTokenBalances: tokenBalances,
+    },
+  } as unknown as ParsedTransactionWithMeta;
+}
+
+function systemTransfer(source: string, destination: string, lamports: number): Instruction {
+  return { program: 'system', type: 'transfer', info: { source, destination, lamports } };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('RpcChainProvider.verifyTransfer', () => {
+  it('accepts a large enough transfer between the wallets', async () => {
+    vi.spyOn(connection, 'getParsedTransaction').mockResolvedValue(
+      parsedTransaction({ instructions: [systemTransfer('payer', 'other', 5e8), systemTransfer('payer', 'fees', 1.5e8)] })
+    );
+    expect(await provider.verifyTransfer('sig', 'payer', 'fees', 0.1)).toEqual({ valid: true, amount: 0.15 });
+  });
+
+  it('finds a transfer made by another program', async () => {
+    vi.spyOn(connection, 'getParsedTransaction').mockResolvedValue(
+      parsedTransaction({ innerInstructions: [systemTransfer('payer', 'fees', 1e8)] })
+    );
+    expect((await provider.verifyTransfer('sig', 'payer', 'fees', 0.1)).valid).toBe(true);
+  });
+
+  it('rejects missing, failed, small and misdirected transfers', async () => {
+    const lookup = vi.spyOn(connection, 'getParsedTransaction');
+
+    lookup.mockResolvedValueOnce(null);
+    expect(await provider.verifyTransfer('sig', 'payer', 'fees', 0.1)).toMatchObject({ error: 'Transaction not found' });
+
+    lookup.mockResolvedValueOnce(parsedTransaction({
+      instructions: [systemTransfer('payer', 'fees', 1e8)],
+      err: { InstructionError: [0, 'Custom'] },
+    }));
+    expect(await provider.verifyTransfer('sig', 'payer', 'fees', 0.1)).toMatchObject({ error: 'Transaction failed on chain' });
+
+    lookup.mockResolvedValueOnce(parsedTransaction({
+      instructions: [systemTransfer('payer', 'fees', 9e7), systemTransfer('payer', 'other', 1e8)],
+    }));
+    expect(await provider.verifyTransfer('sig', 'payer', 'fees', 0.1)).toMatchObject({
+      valid: false,
+      error: 'No matching transfer found in transaction',
+    });
+  });
+});
+
+describe('RpcChainProvider.verifyTransfer for tokens', () => {
+  const mint = 'usdc-mint';
+  const tokenAccounts = {
+    'payer-usdc': { owner: 'payer', mint },
+    'fees-usdc': { owner: 'fees', mint },
+    'other-usdc': { owner: 'other', mint },
+    'buyer-usdc': { owner: 'buyer', mint },
+  };
+
+  it('accepts a transferChecked to the wallet\'s token account', async () => {
+    vi.spyOn(connection, 'getParsedTransaction').mockResolvedValue(parsedTransaction({
+      tokenAccounts,
+      instructions: [{
+        program: 'spl-token',
+        type: 'transferChecked',
+        info: { source: 'payer-usdc', destination: 'fees-usdc', mint, tokenAmount: { amount: '2500000', decimals: 6 } },
+      }],
+    }));
+    expect(await provider.verifyTransfer('sig', 'payer', 'fees', 2, mint)).toEqual({ valid: true, amount: 2.5 });
+    expect((await provider.verifyTransfer('sig', 'payer', 'fees', 2, 'other-mint')).valid).toBe(false);
+  });
+
+  it('takes each transfer\'s own source, destination and amount', async () => {
+    // payer pays 1 to other and buyer pays 5 to fees; neither paid 5 to fees
+    // on behalf of the other
+    vi.spyOn(connection, 'getParsedTransaction').mockResolvedValue(parsedTransaction({
+      tokenAccounts,
+      instructions: [
+        { program: 'spl-token', type: 'transfer', info: { source: 'payer-usdc', destination: 'other-usdc', amount: '1000000' } },
+        { program: 'spl-token', type: 'transfer', info: { source: 'buyer-usdc', destination: 'fees-usdc', amount: '5000000' } },
+      ],
+    }));
+    expect((await provider.verifyTransfer('sig', 'payer', 'fees', 1, mint)).valid).toBe(false);
+    expect((await provider.verifyTransfer('sig', 'buyer', 'other', 1, mint)).valid).toBe(false);
+    expect(await provider.verifyTransfer('sig', 'buyer', 'fees', 5, mint)).toEqual({ valid: true, amount: 5 });
+  });
+});
+
+describe('RpcChainProvider.verifyTransfer fallback', () => {
+  it('verifies over the fallback endpoint when the provider\'s fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(connection, 'getParsedTransaction').mockRejectedValue(new Error('503 Service Unavailable'));
+    const fallback = vi.spyOn(fallbackConnection, 'getParsedTransaction').mockResolvedValue(
+      parsedTransaction({ instructions: [systemTransfer('payer', 'fees', 1e8)] })
+    );
+
+    expect(await provider.verifyTransfer('sig', 'payer', 'fees', 0.1)).toEqual({ valid: true, amount: 0.1 });
+    expect(fallback).toHaveBeenCalledWith('sig', { commitment: 'confirmed', maxSupportedTransactionVersion: 0 });
+  });
+
+  it('does not ask the fallback endpoint about a transaction the provider answered for', async () => {
+    vi.spyOn(connection, 'getParsedTransaction').mockResolvedValue(null);
+    const fallback = vi.spyOn(fallbackConnection, 'getParsedTransaction');
+
+    expect(await provider.verifyTransfer('sig', 'payer', 'fees', 0.1)).toMatchObject({ error: 'Transaction not found' });
+    expect(fallback).not.toHaveBeenCalled();
+  });
+
+  it('fails the verification when both endpoints fail', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(connection, 'getParsedTransaction').mockRejectedValue(new Error('503 Service Unavailable'));
+    vi.spyOn(fallbackConnection, 'getParsedTransaction').mockRejectedValue(new Error('429 Too Many Requests'));
+
+    expect(await provider.verifyTransfer('sig', 'payer', 'fees', 0.1)).toEqual({
+      valid: false,
+      error: 'Failed to verify transaction',
+    });
+  });
+});
+
+describe('verifyParsedTransfer at finalized commitment', () => {
+  // VERIFY_COMMITMENT is read when the cluster module loads
+  async function loadFinalized() {
+    vi.stubEnv('VERIFY_COMMITMENT', 'finalized');
+    vi.resetModules();
+    return (await import("./rpc")).verifyParsedTransfer;
+  }
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('tells a transaction that is not finalized yet from a missing one', async () => {
+    const verifyParsedTransfer = await loadFinalized();
+    const lookup = {
+      getParsedTransaction: vi.fn().mockResolvedValue(null),
+      getSignatureStatuses: vi.fn()
+        .mockResolvedValueOnce({ value: [{ err: null, confirmationStatus: 'confirmed' }] })
+        .mockResolvedValueOnce({ value: [null] }),
+    } as unknown as Connection;
+
+    expect(await verifyParsedTransfer(lookup, 'sig', 'payer', 'fees', 0.1)).toMatchObject({
+      valid: false,
+      error: 'Transaction is not finalized yet',
+    });
+    expect(lookup.getParsedTransaction).toHaveBeenCalledWith('sig', { commitment: 'finalized', maxSupportedTransactionVersion: 0 });
+    expect(await verifyParsedTransfer(lookup, 'sig', 'payer', 'fees', 0.1)).toMatchObject({ error: 'Transaction not found' });
+  });
+});
+
+describe('RpcChainProvider.getTransferStatus', () => {
+  it('reports a landed transfer by its status', async () => {
+    vi.spyOn(connection, 'getBlockHeight').mockResolvedValue(10);
+    vi.spyOn(connection, 'getSignatureStatuses').mockResolvedValue({
+      context: { slot: 1 },
+      value: [{ slot: 1, confirmations: null, err: null, confirmationStatus: 'finalized' }],
+    });
+    expect(await provider.getTransferStatus('sig', 100)).toBe('confirmed');
+  });
+
+  it('expires an unknown transfer only past its last valid block height', async () => {
+    const blockHeight = vi.spyOn(connection, 'getBlockHeight');
+    vi.spyOn(connection, 'getSignatureStatuses').mockResolvedValue({ context: { slot: 1 }, value: [null] });
+
+    blockHeight.mockResolvedValueOnce(100);
+    expect(await provider.getTransferStatus('sig', 100)).toBe('pending');
+    blockHeight.mockResolvedValueOnce(101);
+    expect(await provider.getTransferStatus('sig', 100)).toBe('expired');
+  });
+
+  it('keeps an unknown transfer pending when its expiry is not known', async () => {
+    const blockHeight = vi.spyOn(connection, 'getBlockHeight').mockResolvedValue(1000);
+    vi.spyOn(connection, 'getSignatureStatuses').mockResolvedValue({ context: { slot: 1 }, value: [null] });
+
+    expect(await provider.getTransferStatus('sig')).toBe('pending');
+    expect(blockHeight).not.toHaveBeenCalled();
+  });
+});
+
+describe('RpcChainProvider.getOutgoingTransactionPage', () => {
+  const treasury = Keypair.generate().publicKey.toBase58();
+
+  // Signature info for a page of transactions, newest first
+  function signatures(count: number, firstBlockTime: number) {
+    return Array.from({ length: count }, (_, i) => ({
+      signature: `sig-${i}`,
+      slot: 1,
+      err: null,
+      memo: null,
+      blockTime: firstBlockTime - i,
+    }));
+  }
+
+  it('reads transfers from the wallet and points to the next page', async () => {
+    const history = vi.spyOn(connection, 'getSignaturesForAddress').mockResolvedValue(signatures(50, 2000));
+    vi.spyOn(connection, 'getParsedTransactions').mockImplementation(async (sigs) =>
+      (sigs as string[]).map(() => parsedTransaction({
+        instructions: [systemTransfer(treasury, 'recipient', 1e8), systemTransfer('other', treasury, 1e8)],
+      }))
+    );
+
+    const page = await provider.getOutgoingTransactionPage(treasury, 'sig-before');
+
+    expect(history.mock.calls[0][1]).toEqual({ limit: 50, before: 'sig-before' });
+    expect(page.payouts).toHaveLength(50);
+    expect(page.payouts[0]).toMatchObject({ signature: 'sig-0', to: 'recipient', amount: 0.1, timestamp: 2_000_000 });
+    expect(page.before).toBe('sig-49');
+    expect(page.oldestTimestamp).toBe(1_951_000);
+  });
+
+  it('ends on a short page', async () => {
+    vi.spyOn(connection, 'getSignaturesForAddress').mockResolvedValue(signatures(3, 2000).map(info => ({ ...info, err: 'failed' })));
+
+    expect(await provider.getOutgoingTransactionPage(treasury)).toEqual({
+      payouts: [],
+      before: undefined,
+      oldestTimestamp: 1_998_000,
+    });
+  });
+
+  it('throws when the history cannot be read, unlike getOutgoingTransactions', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(connection, 'getSignaturesForAddress').mockRejectedValue(new Error('429 Too Many Requests'));
+
+    await expect(provider.getOutgoingTransactionPage(treasury)).rejects.toThrow('429');
+    expect(await provider.getOutgoingTransactions(treasury)).toEqual([]);
+  });
+});
+
+describe('RpcChainProvider.prepareBatchTransfer', () => {
+  it('packs as many transfers as fit in one transaction', async () => {
+    stubBlockhash();
+    vi.spyOn(connection, 'getRecentPrioritizationFees').mockResolvedValue([]);
+    const transfers = Array.from({ length: 40 }, () => ({
+      toWallet: Keypair.generate().publicKey.toBase58(),
+      amount: 0.1,
+    }));
+
+    const batch = await provider.prepareBatchTransfer(transfers);
+
+    expect(batch.count).toBeGreaterThan(1);
+    expect(batch.count).toBeLessThan(40);
+    expect(batch.serialized.length).toBeLessThanOrEqual(PACKET_DATA_SIZE);
+    const transaction = Transaction.from(batch.serialized);
+    // The compute unit limit and price come first
+    expect(transaction.instructions).toHaveLength(batch.count + 2);
+    expect(transaction.verifySignatures()).toBe(true);
+  });
+});
+
+describe('RpcChainProvider priority fees', () => {
+  // Priority fee bid by a prepared SOL transfer, in micro-lamports per compute unit
+  async function priorityFee(): Promise<number> {
+    const prepared = await provider.prepareTransfer(Keypair.generate().publicKey.toBase58(), 0.1);
+    const [, price] = Transaction.from(prepared.serialized).instructions;
+    return Number(ComputeBudgetInstruction.decodeSetComputeUnitPrice(price).microLamports);
+  }
+
+  function recentFees(fees: number[]) {
+    vi.spyOn(connection, 'getRecentPrioritizationFees')
+      .mockResolvedValue(fees.map((prioritizationFee, slot) => ({ slot, prioritizationFee })));
+  }
+
+  it('bids the 75th percentile of recent fees on the treasury account', async () => {
+    stubBlockhash();
+    recentFees([400, 100, 300, 200]);
+    expect(await priorityFee()).toBe(300);
+  });
+
+  it('caps the bid at the maximum', async () => {
+    stubBlockhash();
+    recentFees([5_000_000]);
+    expect(await priorityFee()).toBe(100_000);
+  });
+
+  it('bids the minimum when recent fees cannot be read', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    stubBlockhash();
+    vi.spyOn(connection, 'getRecentPrioritizationFees').mockRejectedValue(new Error('Method not found'));
+    expect(await priorityFee()).toBe(0);
+  });
+});
+
+describe('RpcChainProvider.broadcastTransfer', () => {
+  const prepared = {
+    signature: 'sig',
+    serialized: Buffer.from('signed transaction'),
+    blockhash: 'blockhash',
+    lastValidBlockHeight: 100,
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reports a transaction rejected by simulation as failed', async () => {
+    vi.spyOn(connection, 'sendRawTransaction').mockRejectedValue(new SendTransactionError({
+      action: 'simulate',
+      signature: 'sig',
+      transactionMessage: 'insufficient funds',
+    }));
+
+    expect(await provider.broadcastTransfer(prepared)).toMatchObject({ status: 'failed' });
+  });
+
+  it('sends again until the transaction confirms', async () => {
+    const send = vi.spyOn(connection, 'sendRawTransaction').mockResolvedValue('sig');
+    vi.spyOn(provider, 'getTransferStatus')
+      .mockResolvedValueOnce('pending')
+      .mockResolvedValueOnce('pending')
+      .mockResolvedValueOnce('confirmed');
+
+    const result = provider.broadcastTransfer(prepared);
+    await vi.advanceTimersByTimeAsync(6_000);
+
+    expect(await result).toEqual({ status: 'confirmed', signature: 'sig' });
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it('reports an expired transaction as failed', async () => {
+    vi.spyOn(connection, 'sendRawTransaction').mockResolvedValue('sig');
+    vi.spyOn(provider, 'getTransferStatus').mockResolvedValue('expired');
+
+    const result = provider.broadcastTransfer(prepared);
+    await vi.advanceTimersByTimeAsync(2_000);
+
+    expect(await result).toMatchObject({ status: 'failed', error: 'Blockhash expired before the transaction landed' });
+  });
+
+  it('reports an unknown outcome when the status cannot be established in time', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(connection, 'sendRawTransaction').mockRejectedValue(new Error('socket hang up'));
+    vi.spyOn(provider, 'getTransferStatus').mockRejectedValue(new Error('socket hang up'));
+
+    const result = provider.broadcastTransfer(prepared);
+    await vi.advanceTimersByTimeAsync(120_000);
+
+    expect(await result).toMatchObject({ status: 'unknown' });
+  });
+});
+
+function stubBlockhash() {
+  vi.spyOn(connection, 'getLatestBlockhash').mockResolvedValue({
+    blockhash: Keypair.generate().publicKey.toBase58(),
+    lastValidBlockHeight: 100,
+  });
+}
@@ -0,0 +1,582 @@
+import {
+  Connection,
+  PublicKey,
+  Transaction,
+  SystemProgram,
+  ComputeBudgetProgram,
+  SendTransactionError,
+  PACKET_DATA_SIZE,
+  type ParsedInstruction,
+  type ParsedTransactionWithMeta,
+  type PartiallyDecodedInstruction,
+  type TransactionInstruction
+} from '@solana/web3.js';
+import {
+  getMint,
+  getAssociatedTokenAddressSync,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction
+} from '@solana/spl-token';
+import bs58 from 'bs58';
+import type { Payout } from "@shared/schema";
+import { envNumber } from "../../env";
+import { getTreasuryKeypair, TREASURY_WALLET } from "../solana";
+import { VERIFY_COMMITMENT, getExplorerTxUrl, getFallbackRpcUrl } from "./cluster";
+import { fetchWithRetry } from "./http";
+import type {
+  ChainProvider,
+  TransferVerification,
+  PaymentResult,
+  PreparedTransfer,
+  BatchTransfer,
+  PreparedBatchTransfer,
+  TransferStatus,
+  OutgoingTransactionPage
+} from "./types";
+
+// Transactions per page of wallet history
+const HISTORY_PAGE_SIZE = 50;
+// Bounds of the priority fee, in micro-lamports per compute unit
+const PRIORITY_FEE_MIN_MICROLAMPORTS = envNumber('PRIORITY_FEE_MIN_MICROLAMPORTS', 0);
+const PRIORITY_FEE_MAX_MICROLAMPORTS = envNumber('PRIORITY_FEE_MAX_MICROLAMPORTS', 100_000);
+// Percentile of recent fees paid to write the treasury account that a payout bids
+const PRIORITY_FEE_PERCENTILE = envNumber('PRIORITY_FEE_PERCENTILE', 75);
+// How often an unconfirmed transaction is checked and sent again
+const REBROADCAST_INTERVAL_MS = 2_000;
+// Longest a broadcast waits before reporting an unknown outcome; a blockhash
+// normally expires well within it
+const CONFIRM_TIMEOUT_MS = 120_000;
+
+// Compute unit limits, with headroom over what the instructions use. The
+// priority fee is charged on the limit, not on what is used.
+const BASE_COMPUTE_UNITS = 1_000;
+const SOL_TRANSFER_COMPUTE_UNITS = 300;
+const TOKEN_TRANSFER_COMPUTE_UNITS = 100_000;
+
+interface SystemTransfer {
+  source: string;
+  destination: string;
+  lamports: number;
+}
+
+interface TokenTransfer {
+  source: string; // owner wallets, not token accounts
+  destination: string;
+  mint: string;
+  amount: number;
+}
+
+/**
+ * Chain access over plain JSON-RPC. Works against any cluster, including a
+ * local solana-test-validator.
+ */
+export class RpcChainProvider implements ChainProvider {
+  readonly name: string = 'rpc';
+  protected connection: Connection;
+
+  // Verifies payments when this endpoint fails; null when it is the same one
+  protected fallbackConnection: Connection | null;
+
+  constructor(rpcUrl: string) {
+    this.connection = createConnection(rpcUrl);
+    const fallbackUrl = getFallbackRpcUrl();
+    this.fallbackConnection = fallbackUrl === rpcUrl ? null : createConnection(fallbackUrl);
+  }
+
+  getTreasuryAddress(): string {
+    return TREASURY_WALLET;
+  }
+
+  /**
+   * Verify a SOL or SPL token transfer between wallets, over the fallback
+   * RPC endpoint when this one cannot be reached
+   */
+  async verifyTransfer(
+    txSignature: string,
+    fromWallet: string,
+    toWallet: string,
+    minAmount: number,
+    mint?: string
+  ): Promise<TransferVerification> {
+    try {
+      return await verifyParsedTransfer(this.connection, txSignature, fromWallet, toWallet, minAmount, mint);
+    } catch (error) {
+      console.error('Error verifying transfer:', error);
+      return this.verifyWithFallback(txSignature, fromWallet, toWallet, minAmount, mint);
+    }
+  }
+
+  /**
+   * Verify a transfer from getParsedTransaction on the fallback RPC endpoint,
+   * after the primary source failed
+   */
+  protected async verifyWithFallback(
+    txSignature: string,
+    fromWallet: string,
+    toWallet: string,
+    minAmount: number,
+    mint?: string
+  ): Promise<TransferVerification> {
+    if (!this.fallbackConnection) {
+      return { valid: false, error: 'Failed to verify transaction' };
+    }
+    try {
+      return await verifyParsedTransfer(this.fallbackConnection, txSignature, fromWallet, toWallet, minAmount, mint);
+    } catch (error) {
+      console.error('Error verifying transfer with the fallback RPC endpoint:', error);
+      return { valid: false, error: 'Failed to verify transaction' };
+    }
+  }
+
+  /**
+   * Find payments made through a Solana Pay request by its reference key
+   */
+  async findReferenceSignatures(reference: string): Promise<string[]> {
+    try {
+      const signatures = await this.connection.getSignaturesForAddress(
+        new PublicKey(reference),
+        { limit: 20 }
+      );
+      return signatures
+        .filter(info => !info.err)
+        .map(info => info.signature)
+        .reverse();
+    } catch (error) {
+      console.error('Error finding reference transactions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get outgoing transactions from a wallet (for payouts list)
+   */
+  async getOutgoingTransactions(walletAddress: string): Promise<Payout[]> {
+    try {
+      const page = await this.getOutgoingTransactionPage(walletAddress);
+      return page.payouts;
+    } catch (error) {
+      console.error('Error fetching outgoing transactions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get outgoing transfers from one page of a wallet's transactions
+   */
+  async getOutgoingTransactionPage(walletAddress: string, before?: string): Promise<OutgoingTransactionPage> {
+    const signatures = await this.connection.getSignaturesForAddress(
+      new PublicKey(walletAddress),
+      { limit: HISTORY_PAGE_SIZE, before }
+    );
+    const oldest = signatures[signatures.length - 1];
+    const page = {
+      before: signatures.length === HISTORY_PAGE_SIZE ? oldest.signature : undefined,
+      oldestTimestamp: oldest?.blockTime ? oldest.blockTime * 1000 : undefined,
+    };
+    const succeeded = signatures.filter(info => !info.err);
+    if (succeeded.length === 0) return { payouts: [], ...page };
+
+    const transactions = await this.connection.getParsedTransactions(
+      succeeded.map(info => info.signature),
+      { commitment: 'confirmed', maxSupportedTransactionVersion: 0 }
+    );
+    const outgoing: Payout[] = [];
+
+    transactions.forEach((tx, i) => {
+      if (!tx) return;
+      const { signature, blockTime } = succeeded[i];
+      const system = getSystemTransfers(tx);
+
+      system.forEach((transfer, index) => {
+        if (transfer.source === walletAddress && transfer.lamports > 0) {
+          outgoing.push({
+            signature,
+            to: transfer.destination,
+            amount: transfer.lamports / 1e9,
+            timestamp: (blockTime ?? 0) * 1000,
+            status: 'confirmed',
+            index,
+            explorerUrl: getExplorerTxUrl(signature),
+          });
+        }
+      });
+
+      getTokenTransfers(tx).forEach((transfer, index) => {
+        if (transfer.source === walletAddress) {
+          outgoing.push({
+            signature,
+            to: transfer.destination,
+            amount: transfer.amount,
+            timestamp: (blockTime ?? 0) * 1000,
+            status: 'confirmed',
+            mint: transfer.mint,
+            index: system.length + index,
+            explorerUrl: getExplorerTxUrl(signature),
+          });
+        }
+      });
+    });
+
+    return { payouts: outgoing, ...page };
+  }
+
+  async prepareTransfer(toWallet: string, amount: number, mint?: string): Promise<PreparedTransfer> {
+    const keypair = getTreasuryKeypair();
+    const recipientPubkey = new PublicKey(toWallet);
+    const instructions = mint
+      ? await this.tokenTransferInstructions(recipientPubkey, amount, new PublicKey(mint))
+      : [
+          SystemProgram.transfer({
+            fromPubkey: keypair.publicKey,
+            toPubkey: recipientPubkey,
+            lamports: Math.floor(amount * 1e9),
+          }),
+        ];
+
+    const transaction = await this.newTransaction(
+      BASE_COMPUTE_UNITS + (mint ? TOKEN_TRANSFER_COMPUTE_UNITS : SOL_TRANSFER_COMPUTE_UNITS)
+    );
+    transaction.add(...instructions);
+    return signTransaction(transaction);
+  }
+
+  async prepareBatchTransfer(transfers: BatchTransfer[]): Promise<PreparedBatchTransfer> {
+    const treasury = getTreasuryKeypair().publicKey;
+    const transaction = await this.newTransaction(batchComputeUnits(transfers.length));
+
+    let count = 0;
+    for (const transfer of transfers) {
+      transaction.add(SystemProgram.transfer({
+        fromPubkey: treasury,
+        toPubkey: new PublicKey(transfer.toWallet),
+        lamports: Math.floor(transfer.amount * 1e9),
+      }));
+      if (count > 0 && transactionSize(transaction) > PACKET_DATA_SIZE) {
+        transaction.instructions.pop();
+        break;
+      }
+      count++;
+    }
+    // Same size as the limit it replaces, so the packing still holds
+    transaction.instructions[0] = ComputeBudgetProgram.setComputeUnitLimit({ units: batchComputeUnits(count) });
+
+    return { ...signTransaction(transaction), count };
+  }
+
+  /**
+   * Send a prepared transfer and keep sending it until it confirms, fails
+   * on chain or its blockhash expires. Only outcomes that rule out the
+   * transfer ever landing are reported as failed.
+   */
+  async broadcastTransfer(prepared: PreparedTransfer): Promise<PaymentResult> {
+    const { signature, lastValidBlockHeight } = prepared;
+
+    try {
+      // The first send is simulated: a rejected transaction is never forwarded
+      await this.connection.sendRawTransaction(prepared.serialized, { maxRetries: 0 });
+    } catch (error) {
+      if (error instanceof SendTransactionError) {
+        return { status: 'failed', signature, error: `Transaction rejected: ${error.message}` };
+      }
+      // The request may have reached the node before the connection failed
+      console.error('Error broadcasting transfer:', error);
+    }
+
+    const deadline = Date.now() + CONFIRM_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      await sleep(REBROADCAST_INTERVAL_MS);
+
+      let status: TransferStatus;
+      try {
+        status = await this.getTransferStatus(signature, lastValidBlockHeight);
+      } catch (error) {
+        console.error(`Error checking transfer ${signature}:`, error);
+        continue;
+      }
+
+      switch (status) {
+        case 'confirmed':
+          return { status: 'confirmed', signature };
+        case 'failed':
+          return { status: 'failed', signature, error: 'Transaction failed on chain' };
+        case 'expired':
+          return { status: 'failed', signature, error: 'Blockhash expired before the transaction landed' };
+        case 'pending':
+          // Validators drop transactions under load; sending again is harmless
+          await this.connection
+            .sendRawTransaction(prepared.serialized, { skipPreflight: true, maxRetries: 0 })
+            .catch(() => undefined);
+          break;
+      }
+    }
+
+    return { status: 'unknown', signature, error: 'Transaction was not confirmed in time' };
+  }
+
+  async getTransferStatus(signature: string, lastValidBlockHeight?: number): Promise<TransferStatus> {
+    // Read the block height first: if it is already past the transfer's expiry
+    // and the signature is still unknown afterwards, it can never land.
+    const expired = lastValidBlockHeight !== undefined
+      && await this.connection.getBlockHeight('confirmed') > lastValidBlockHeight;
+    const { value: [status] } = await this.connection.getSignatureStatuses([signature], {
+      searchTransactionHistory: true,
+    });
+
+    if (status) {
+      if (status.err) return 'failed';
+      if (status.confirmationStatus === 'confirmed' || status.confirmationStatus === 'finalized') {
+        return 'confirmed';
+      }
+      return 'pending';
+    }
+    return expired ? 'expired' : 'pending';
+  }
+
+  async getBalance(walletAddress: string, mint?: string): Promise<number> {
+    if (mint) {
+      const { value: accounts } = await this.connection.getParsedTokenAccountsByOwner(
+        new PublicKey(walletAddress),
+        { mint: new PublicKey(mint) }
+      );
+      return accounts.reduce(
+        (sum, account) => sum + Number(account.account.data.parsed.info.tokenAmount.uiAmountString),
+        0
+      );
+    }
+
+    const balance = await this.connection.getBalance(new PublicKey(walletAddress));
+    return balance / 1e9; // Convert lamports to SOL
+  }
+
+  /**
+   * Priority fee to bid, in micro-lamports per compute unit, from the fees
+   * recently paid by transactions that write the treasury account
+   */
+  protected async estimatePriorityFee(): Promise<number> {
+    const fees = await this.connection.getRecentPrioritizationFees({
+      lockedWritableAccounts: [getTreasuryKeypair().publicKey],
+    });
+    return percentile(fees.map(fee => fee.prioritizationFee), PRIORITY_FEE_PERCENTILE);
+  }
+
+  // Unsigned transaction from the treasury with a fresh blockhash and a
+  // priority fee. Its first instruction sets the compute unit limit.
+  private async newTransaction(computeUnits: number): Promise<Transaction> {
+    const [{ blockhash, lastValidBlockHeight }, estimate] = await Promise.all([
+      this.connection.getLatestBlockhash('confirmed'),
+      this.estimatePriorityFee().catch(error => {
+        console.error('Error estimating priority fee:', error);
+        return PRIORITY_FEE_MIN_MICROLAMPORTS;
+      }),
+    ]);
+    const microLamports = Math.round(
+      Math.min(Math.max(estimate, PRIORITY_FEE_MIN_MICROLAMPORTS), PRIORITY_FEE_MAX_MICROLAMPORTS)
+    );
+
+    return new Transaction({
+      feePayer: getTreasuryKeypair().publicKey,
+      blockhash,
+      lastValidBlockHeight,
+    }).add(
+      ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnits }),
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports })
+    );
+  }
+
+  // Create the recipient's token account if needed, then transfer from the
+  // treasury's token account. Works for both the Token and Token-2022 programs.
+  private async tokenTransferInstructions(
+    recipient: PublicKey,
+    amount: number,
+    mint: PublicKey
+  ): Promise<TransactionInstruction[]> {
+    const owner = getTreasuryKeypair().publicKey;
+    const mintAccount = await this.connection.getAccountInfo(mint, 'confirmed');
+    if (!mintAccount) {
+      throw new Error(`Mint ${mint.toBase58()} not found`);
+    }
+    const programId = mintAccount.owner;
+    const { decimals } = await getMint(this.connection, mint, 'confirmed', programId);
+
+    const source = getAssociatedTokenAddressSync(mint, owner, false, programId);
+    const destination = getAssociatedTokenAddressSync(mint, recipient, true, programId);
+
+    return [
+      createAssociatedTokenAccountIdempotentInstruction(owner, destination, recipient, mint, programId),
+      createTransferCheckedInstruction(
+        source,
+        mint,
+        destination,
+        owner,
+        BigInt(Math.round(amount * 10 ** decimals)),
+        decimals,
+        [],
+        programId
+      ),
+    ];
+  }
+}
+
+function createConnection(rpcUrl: string): Connection {
+  // Rate limits are retried by fetchWithRetry, not by the connection
+  return new Connection(rpcUrl, {
+    commitment: 'confirmed',
+    fetch: fetchWithRetry,
+    disableRetryOnRateLimit: true,
+  });
+}
+
+/**
+ * Verify a SOL or SPL token transfer from the standard getParsedTransaction
+ * output of any RPC endpoint, at VERIFY_COMMITMENT. Gives the same results
+ * as the Helius enhanced transactions API. Throws when the endpoint fails.
+ */
+export async function verifyParsedTransfer(
+  connection: Connection,
+  txSignature: string,
+  fromWallet: string,
+  toWallet: string,
+  minAmount: number,
+  mint?: string
+): Promise<TransferVerification> {
+  const tx = await connection.getParsedTransaction(txSignature, {
+    commitment: VERIFY_COMMITMENT,
+    maxSupportedTransactionVersion: 0,
+  });
+
+  if (!tx) {
+    if (VERIFY_COMMITMENT === 'finalized') {
+      // Tell a transaction still short of finalization from a missing one
+      const { value: [status] } = await connection.getSignatureStatuses([txSignature], {
+        searchTransactionHistory: true,
+      });
+      if (status && !status.err) {
+        return { valid: false, error: 'Transaction is not finalized yet' };
+      }
+    }
+    return { valid: false, error: 'Transaction not found' };
+  }
+
+  if (tx.meta?.err) {
+    return { valid: false, error: 'Transaction failed on chain' };
+  }
+
+  if (mint) {
+    for (const transfer of getTokenTransfers(tx)) {
+      if (
+        transfer.mint === mint &&
+        transfer.source === fromWallet &&
+        transfer.destination === toWallet &&
+        transfer.amount >= minAmount
+      ) {
+        return { valid: true, amount: transfer.amount };
+      }
+    }
+    return { valid: false, mismatch: true, error: 'No matching transfer found in transaction' };
+  }
+
+  for (const transfer of getSystemTransfers(tx)) {
+    if (
+      transfer.source === fromWallet &&
+      transfer.destination === toWallet &&
+      transfer.lamports >= minAmount * 1e9 // Convert SOL to lamports
+    ) {
+      return { valid: true, amount: transfer.lamports / 1e9 };
+    }
+  }
+
+  return { valid: false, mismatch: true, error: 'No matching transfer found in transaction' };
+}
+
+function signTransaction(transaction: Transaction): PreparedTransfer {
+  transaction.sign(getTreasuryKeypair());
+  return {
+    signature: bs58.encode(transaction.signature!),
+    serialized: transaction.serialize(),
+    blockhash: transaction.recentBlockhash!,
+    lastValidBlockHeight: transaction.lastValidBlockHeight!,
+  };
+}
+
+function batchComputeUnits(count: number): number {
+  return BASE_COMPUTE_UNITS + count * SOL_TRANSFER_COMPUTE_UNITS;
+}
+
+// Value below which the given percentage of the values fall; 0 when empty
+function percentile(values: number[], percent: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(Math.ceil((percent / 100) * sorted.length) - 1, sorted.length - 1);
+  return sorted[Math.max(index, 0)];
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Wire size of a transaction signed by the treasury alone
+function transactionSize(transaction: Transaction): number {
+  return transaction.serializeMessage().length + 1 + 64;
+}
+
+// Parsed instructions of a transaction, including those made by CPI
+function getParsedInstructions(tx: ParsedTransactionWithMeta): ParsedInstruction[] {
+  const instructions: (ParsedInstruction | PartiallyDecodedInstruction)[] = [
+    ...tx.transaction.message.instructions,
+    ...(tx.meta?.innerInstructions ?? []).flatMap(inner => inner.instructions),
+  ];
+  return instructions.filter((ix): ix is ParsedInstruction => 'parsed' in ix);
+}
+
+// System program transfers in a transaction, including those made by CPI
+function getSystemTransfers(tx: ParsedTransactionWithMeta): SystemTransfer[] {
+  const transfers: SystemTransfer[] = [];
+
+  for (const ix of getParsedInstructions(tx)) {
+    if (ix.program !== 'system') continue;
+    if (ix.parsed?.type !== 'transfer' && ix.parsed?.type !== 'transferWithSeed') continue;
+
+    const { source, destination, lamports } = ix.parsed.info;
+    transfers.push({ source, destination, lamports: Number(lamports) });
+  }
+
+  return transfers;
+}
+
+// SPL token transfers in a transaction, including those made by CPI. Each
+// transfer or transferChecked instruction is one transfer; its token accounts
+// are mapped to their owners and mint through the transaction's token balances.
+function getTokenTransfers(tx: ParsedTransactionWithMeta): TokenTransfer[] {
+  const { accountKeys } = tx.transaction.message;
+  const accounts = new Map<string, { owner?: string; mint: string; decimals: number }>();
+  for (const balance of [...(tx.meta?.preTokenBalances ?? []), ...(tx.meta?.postTokenBalances ?? [])]) {
+    accounts.set(accountKeys[balance.accountIndex].pubkey.toBase58(), {
+      owner: balance.owner,
+      mint: balance.mint,
+      decimals: balance.uiTokenAmount.decimals,
+    });
+  }
+
+  const transfers: TokenTransfer[] = [];
+  for (const ix of getParsedInstructions(tx)) {
+    if (ix.program !== 'spl-token' && ix.program !== 'spl-token-2022') continue;
+    const type = ix.parsed?.type;
+    if (type !== 'transfer' && type !== 'transferChecked') continue;
+
+    const info = ix.parsed.info;
+    const source = accounts.get(info.source);
+    const destination = accounts.get(info.destination);
+    const mint: string | undefined = info.mint ?? source?.mint ?? destination?.mint;
+    // The source account may have been closed in the same transaction; its
+    // authority is then the only owner on record
+    const sourceOwner = source?.owner ?? info.authority ?? info.multisigAuthority;
+    if (!mint || !sourceOwner || !destination?.owner) continue;
+
+    const amount = type === 'transferChecked'
+      ? Number(info.tokenAmount.amount) / 10 ** info.tokenAmount.decimals
+      : Number(info.amount) / 10 ** (source ?? destination).decimals;
+    transfers.push({ source: sourceOwner, destination: destination.owner, mint, amount });
+  }
+
+  return transfers;
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { mintLabel, resolveMint } from "./tokens";
+
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+describe('resolveMint', () => {
+  it('treats SOL and no currency as native SOL', () => {
+    expect(resolveMint(undefined)).toEqual({ success: true });
+    expect(resolveMint('sol')).toEqual({ success: true });
+  });
+
+  it('resolves known symbols on the configured cluster', () => {
+    expect(resolveMint('usdc')).toEqual({ success: true, mint: USDC });
+  });
+
+  it('accepts a mint address and rejects anything else', () => {
+    expect(resolveMint(USDC)).toEqual({ success: true, mint: USDC });
+    expect(resolveMint('DOGE')).toEqual({ success: false, error: 'Invalid reward mint' });
+  });
+});
+
+describe('mintLabel', () => {
+  it('names known mints by symbol', () => {
+    expect(mintLabel(undefined)).toBe('SOL');
+    expect(mintLabel(USDC)).toBe('USDC');
+    expect(mintLabel('So11111111111111111111111111111111111111112')).toBe('So11111111111111111111111111111111111111112');
+  });
+});
@@ -0,0 +1,53 @@
+import { PublicKey } from '@solana/web3.js';
+import { SOLANA_CLUSTER, type SolanaCluster } from "./cluster";
+
+// Well-known mints that can be referred to by symbol, per cluster
+const KNOWN_MINTS: Record<string, Partial<Record<SolanaCluster, string>>> = {
+  USDC: {
+    'mainnet-beta': 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+    devnet: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU',
+  },
+  USDT: {
+    'mainnet-beta': 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
+  },
+};
+
+export type MintResolution =
+  | { success: true; mint?: string }
+  | { success: false; error: string };
+
+/**
+ * Turn a reward currency given by a client into a mint address. Accepts
+ * "SOL" (or nothing) for native SOL, a known symbol such as "USDC", or a
+ * mint address.
+ */
+export function resolveMint(value: string | undefined): MintResolution {
+  if (!value || value.toUpperCase() === 'SOL') {
+    return { success: true };
+  }
+
+  const known = KNOWN_MINTS[value.toUpperCase()];
+  if (known) {
+    const mint = known[SOLANA_CLUSTER];
+    return mint
+      ? { success: true, mint }
+      : { success: false, error: `${value.toUpperCase()} is not available on ${SOLANA_CLUSTER}` };
+  }
+
+  try {
+    return { success: true, mint: new PublicKey(value).toBase58() };
+  } catch {
+    return { success: false, error: 'Invalid reward mint' };
+  }
+}
+
+/**
+ * Display name for a mint: its symbol when known, otherwise the address
+ */
+export function mintLabel(mint: string | undefined): string {
+  if (!mint) return 'SOL';
+  for (const [symbol, mints] of Object.entries(KNOWN_MINTS)) {
+    if (mints[SOLANA_CLUSTER] === mint) return symbol;
+  }
+  return mint;
+}
@@ -0,0 +1,114 @@
+import type { Payout } from "@shared/schema";
+
+export interface TransferVerification {
+  valid: boolean;
+  amount?: number;
+  error?: string;
+  // The transaction landed but does not make the required transfer: another
+  // payer, recipient or mint, or too little. Not worth checking again.
+  mismatch?: boolean;
+}
+
+// confirmed: landed successfully. failed: cannot move funds, because it was
+// rejected, landed with an error or expired unsent. unknown: may still land;
+// check getTransferStatus before sending anything in its place.
+export type PaymentResult =
+  | { status: 'confirmed'; signature: string }
+  | { status: 'failed'; signature: string; error: string }
+  | { status: 'unknown'; signature: string; error: string };
+
+// A signed transfer that has not been broadcast yet. The signature is known
+// up front, so callers can record it before sending.
+export interface PreparedTransfer {
+  signature: string;
+  serialized: Buffer;
+  blockhash: string;
+  lastValidBlockHeight: number;
+}
+
+// Outgoing transfers in one page of a wallet's transactions, newest first.
+// Pass `before` to read the next, older page; it is unset on the last page.
+// oldestTimestamp is the time of the page's oldest transaction, in ms.
+export interface OutgoingTransactionPage {
+  payouts: Payout[];
+  before?: string;
+  oldestTimestamp?: number;
+}
+
+// A SOL transfer from the treasury, one of several in a batch transaction
+export interface BatchTransfer {
+  toWallet: string;
+  amount: number;
+}
+
+// A signed batch transaction paying the first `count` transfers it was asked for
+export interface PreparedBatchTransfer extends PreparedTransfer {
+  count: number;
+}
+
+// Outgoing transfers in one page of a wallet's transactions. Pass `before`
+// to read the next, older page; it is unset on the last page.
+export interface OutgoingTransactionPage {
+  payouts: Payout[];
+  before?: string;
+}
+
+// confirmed: landed successfully; failed: landed with an error (no funds moved);
+// expired: never landed and can no longer land; pending: may still land
+export type TransferStatus = 'confirmed' | 'failed' | 'expired' | 'pending';
+
+/**
+ * Everything the platform reads from or writes to the chain
+ */
+export interface ChainProvider {
+  readonly name: string;
+
+  // Wallet that payouts are sent from
+  getTreasuryAddress(): string;
+
+  // Check that txSignature moved at least minAmount from one wallet to
+  // another, in SOL or, when a mint is given, in that SPL token
+  verifyTransfer(
+    txSignature: string,
+    fromWallet: string,
+    toWallet: string,
+    minAmount: number,
+    mint?: string
+  ): Promise<TransferVerification>;
+
+  // Signatures of successful transactions that include a Solana Pay
+  // reference key, oldest first
+  findReferenceSignatures(reference: string): Promise<string[]>;
+
+  // Recent SOL and SPL token transfers sent from a wallet, newest first
+  getOutgoingTransactions(walletAddress: string): Promise<Payout[]>;
+
+  // Outgoing transfers in the page of transactions older than `before`
+  // (the newest page without it). Throws when the page cannot be read.
+  getOutgoingTransactionPage(walletAddress: string, before?: string): Promise<OutgoingTransactionPage>;
+
+  // Build and sign a transfer from the treasury, in SOL or an SPL token. Token
+  // transfers create the recipient's associated token account when missing.
+  prepareTransfer(toWallet: string, amount: number, mint?: string): Promise<PreparedTransfer>;
+
+  // Build and sign one transaction paying SOL from the treasury to several
+  // wallets. Packs transfers from the front of the list for as long as the
+  // transaction stays within the size limit, and always includes the first.
+  prepareBatchTransfer(transfers: BatchTransfer[]): Promise<PreparedBatchTransfer>;
+
+  // Broadcast a prepared transfer and wait for confirmation, rebroadcasting
+  // until it lands or its blockhash expires
+  broadcastTransfer(prepared: PreparedTransfer): Promise<PaymentResult>;
+
+  // Without a lastValidBlockHeight an unknown signature is never 'expired'
+  getTransferStatus(signature: string, lastValidBlockHeight?: number): Promise<TransferStatus>;
+
+  // Balance in SOL, or in tokens of the given mint
+  getBalance(walletAddress: string, mint?: string, options?: BalanceReadOptions): Promise<number>;
+}
+
+export interface BalanceReadOptions {
+  // Read from the chain even where balances are cached; for safety checks
+  // that must not pass on a stale balance
+  fresh?: boolean;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { storage } from "../storage";
+import { chain, MockChainProvider } from "./chain";
+import {
+  drawTaskBudget,
+  releaseTaskBudget,
+  returnRejectedSlot,
+  taskBudget,
+  verifyEscrowDeposit
+} from "./escrow";
+
+const mockChain = chain as MockChainProvider;
+
+// An agent-funded task with its whole budget locked, as the create route
+// leaves it
+async function fundedTask(maxCompletions = 3) {
+  const agent = await storage.createAgent({ name: 'Test agent', walletAddress: `agent-wallet-${Math.random()}`, paymentTxSignature: 'tx-signature', paymentAmount: 0.1 });
+  const task = await storage.createTask({
+    title: 'Share the launch post',
+    description: 'Tell your followers about the launch',
+    instructions: 'Post a link to the launch announcement',
+    proofType: 'link',
+    reward: 0.1,
+    difficulty: 'easy',
+    category: 'social',
+    active: true,
+    maxCompletions,
+    agentId: agent.id,
+    escrowStatus: 'locked',
+  });
+  await storage.adjustEscrowBalance(agent.id, 'SOL', { locked: taskBudget(task) });
+  return { agent, task };
+}
+
+// An approval as the review route makes it: reserve a slot, then draw its reward
+async function approveOne(taskId: string) {
+  await storage.reserveTaskCompletion(taskId);
+  await drawTaskBudget((await storage.getTask(taskId))!);
+}
+
+describe('escrow', () => {
+  it('budgets the reward of every completion slot', () => {
+    expect(taskBudget({ reward: 0.1, maxCompletions: 3 })).toBe(0.3);
+    expect(taskBudget({ reward: 1, maxCompletions: undefined })).toBe(0);
+  });
+
+  it('credits the whole amount a deposit sends to the treasury', async () => {
+    const signature = mockChain.recordTransfer('depositor', mockChain.getTreasuryAddress(), 1.5);
+    expect(await verifyEscrowDeposit(signature, 'depositor')).toEqual({ valid: true, amount: 1.5 });
+    expect((await verifyEscrowDeposit(signature, 'someone-else')).valid).toBe(false);
+  });
+
+  it('releases only the budget of slots not yet taken', async () => {
+    const { agent, task } = await fundedTask();
+    await approveOne(task.id);
+
+    expect(await releaseTaskBudget(task.id)).toBe(0.2);
+    expect(await releaseTaskBudget(task.id)).toBe(0);
+    expect(await storage.getEscrowBalance(agent.id, 'SOL')).toMatchObject({ available: 0.2, locked: 0, spent: 0.1 });
+  });
+
+  it('returns the slot of a rejected payout to the locked budget', async () => {
+    const { agent, task } = await fundedTask();
+    await approveOne(task.id);
+
+    await returnRejectedSlot((await storage.getTask(task.id))!, 'application-1');
+
+    expect((await storage.getTask(task.id))?.totalCompletions).toBe(0);
+    expect(await storage.getEscrowBalance(agent.id, 'SOL')).toMatchObject({ locked: 0.3, spent: 0 });
+  });
+
+  it('returns the slot of a rejected payout to the agent once the budget was released', async () => {
+    const { agent, task } = await fundedTask();
+    await approveOne(task.id);
+    await releaseTaskBudget(task.id);
+
+    await returnRejectedSlot((await storage.getTask(task.id))!, 'application-1');
+
+    expect(await storage.getEscrowBalance(agent.id, 'SOL')).toMatchObject({ available: 0.3, locked: 0, spent: 0 });
+  });
+});
@@ -0,0 +1,159 @@
+import { storage, roundEscrowAmount } from "../storage";
+import { chain, type TransferVerification } from "./chain";
+import { recordEscrowDeposit, recordEscrowRelease } from "./ledger";
+import type { Agent, EscrowDeposit, Task } from "@shared/schema";
+
+// Failures carry the HTTP status to respond with
+export type EscrowDepositResult =
+  | { success: true; deposit: EscrowDeposit }
+  | { success: false; status: number; error: string; details?: string };
+
+/**
+ * Currency key of escrow balances: "SOL", or the SPL token mint
+ */
+export function escrowCurrency(mint?: string): string {
+  return mint ?? 'SOL';
+}
+
+/**
+ * What one completion of an agent-funded task costs its agent: the reward,
+ * plus the platform fee if it was charged at funding
+ */
+export function slotCost(task: Pick<Task, 'reward' | 'platformFee'>): number {
+  return roundEscrowAmount(task.reward + (task.platformFee ?? 0));
+}
+
+/**
+ * Budget an agent-funded task locks: the cost of every completion slot
+ */
+export function taskBudget(task: Pick<Task, 'reward' | 'maxCompletions' | 'platformFee'>): number {
+  return roundEscrowAmount(slotCost(task) * (task.maxCompletions ?? 0));
+}
+
+/**
+ * Verify that a deposit was sent from an agent's wallet to the treasury.
+ * The whole transferred amount is credited.
+ */
+export async function verifyEscrowDeposit(
+  txSignature: string,
+  fromWallet: string,
+  mint?: string
+): Promise<TransferVerification> {
+  return chain.verifyTransfer(txSignature, fromWallet, chain.getTreasuryAddress(), 0, mint);
+}
+
+/**
+ * Verify a deposit from an agent's wallet and credit it to the agent's
+ * available balance. Each payment can be redeemed once, for a deposit or a
+ * registration.
+ */
+export async function creditEscrowDeposit(
+  agent: Agent,
+  txSignature: string,
+  mint?: string
+): Promise<EscrowDepositResult> {
+  if (await storage.getConsumedSignature(txSignature)) {
+    return { success: false, status: 409, error: 'Payment signature has already been used' };
+  }
+
+  const verification = await verifyEscrowDeposit(txSignature, agent.walletAddress, mint);
+  if (!verification.valid || !verification.amount) {
+    return {
+      success: false,
+      status: 400,
+      error: 'Deposit verification failed',
+      details: verification.error ?? 'Transaction transfers nothing to the treasury',
+    };
+  }
+
+  const deposit: EscrowDeposit = {
+    signature: txSignature,
+    agentId: agent.id,
+    walletAddress: agent.walletAddress,
+    currency: escrowCurrency(mint),
+    amount: verification.amount,
+    createdAt: Date.now(),
+  };
+  const recorded = await storage.recordEscrowDeposit(deposit);
+  if (!recorded) {
+    return { success: false, status: 409, error: 'Payment signature has already been used' };
+  }
+  await recordEscrowDeposit(deposit);
+  return { success: true, deposit };
+}
+
+/**
+ * Move one approved completion's cost from the task's locked budget to
+ * spent
+ */
+export async function drawTaskBudget(task: Task): Promise<void> {
+  if (!task.agentId || !task.escrowStatus) return;
+
+  const cost = slotCost(task);
+  await storage.adjustEscrowBalance(task.agentId, escrowCurrency(task.rewardMint), {
+    locked: -cost,
+    spent: cost,
+  });
+}
+
+/**
+ * Give back the completion slot of a payout rejected after approval, held
+ * over a limit or cancelled because a rejection won the review. The slot can
+ * be taken again, and its reward returns to the task's locked budget, or to
+ * the agent's available escrow if the budget was released in the meantime.
+ */
+export async function returnRejectedSlot(task: Task, applicationId: string): Promise<void> {
+  await storage.releaseTaskCompletion(task.id);
+  if (!task.agentId || !task.escrowStatus) return;
+
+  const currency = escrowCurrency(task.rewardMint);
+  const cost = slotCost(task);
+  if (task.escrowStatus === 'released') {
+    // The release counted this slot as spent
+    await storage.adjustEscrowBalance(task.agentId, currency, { spent: -cost, available: cost });
+    await recordEscrowRelease(`escrow_release:${task.id}:${applicationId}`, task.agentId, currency, cost);
+  } else {
+    await storage.adjustEscrowBalance(task.agentId, currency, { spent: -cost, locked: cost });
+  }
+}
+
+/**
+ * Give a task's unspent budget back to its agent and stop further payouts
+ * from it. Returns the amount released, or 0 if nothing was locked.
+ */
+export async function releaseTaskBudget(taskId: string): Promise<number> {
+  // Flipping the status first makes new completion reservations fail, so the
+  // slot count read here cannot grow afterwards
+  const task = await storage.releaseTaskEscrow(taskId);
+  if (!task?.agentId) return 0;
+
+  const openSlots = Math.max((task.maxCompletions ?? 0) - task.totalCompletions, 0);
+  const remainder = roundEscrowAmount(slotCost(task) * openSlots);
+  if (remainder > 0) {
+    const currency = escrowCurrency(task.rewardMint);
+    await storage.adjustEscrowBalance(task.agentId, currency, {
+      locked: -remainder,
+      available: remainder,
+    });
+    await recordEscrowRelease(`escrow_release:${task.id}`, task.agentId, currency, remainder);
+  }
+  return remainder;
+}
+
+/**
+ * Undo the budget side of a completion slot that was reserved but not paid.
+ * Only needed when the task's escrow was released in between: the release
+ * counted that slot as spent.
+ */
+export async function refundReleasedSlot(taskId: string, applicationId: string): Promise<void> {
+  const task = await storage.getTask(taskId);
+  if (!task?.agentId || task.escrowStatus !== 'released') return;
+
+  const currency = escrowCurrency(task.rewardMint);
+  const cost = slotCost(task);
+  await storage.adjustEscrowBalance(task.agentId, currency, {
+    locked: -cost,
+    available: cost,
+  });
+  await recordEscrowRelease(`escrow_release:${task.id}:${applicationId}`, task.agentId, currency, cost);
+}
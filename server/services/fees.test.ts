@@ -0,0 +1,49 @@
+import { afterAll, describe, expect, it, vi } from "vitest";
+import type { Task } from "@shared/schema";
+
+// Fee settings are read when the module loads
+vi.hoisted(() => {
+  process.env.PLATFORM_FEE_PERCENT = '10';
+  process.env.PLATFORM_FEE_MODE = 'payout';
+});
+
+import { completionFee, fundingFee, getPlatformFeeConfig } from "./fees";
+
+afterAll(() => {
+  delete process.env.PLATFORM_FEE_PERCENT;
+  delete process.env.PLATFORM_FEE_MODE;
+});
+
+function task(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'task-1',
+    title: 'Share the launch post',
+    description: 'Tell your followers about the launch',
+    instructions: 'Post a link to the launch announcement',
+    proofType: 'link',
+    reward: 0.3,
+    difficulty: 'easy',
+    category: 'social',
+    active: true,
+    totalCompletions: 0,
+    createdAt: Date.now(),
+    ...overrides,
+  };
+}
+
+describe('platform fees', () => {
+  it('deducts the fee from each reward of an agent-funded task', () => {
+    expect(getPlatformFeeConfig()).toEqual({ percent: 10, mode: 'payout' });
+    expect(fundingFee(0.3)).toBeUndefined();
+    expect(completionFee(task({ agentId: 'agent-1', escrowStatus: 'locked' }))).toEqual({ fee: 0.03, payout: 0.27 });
+  });
+
+  it('charges platform-funded tasks nothing', () => {
+    expect(completionFee(task())).toEqual({ fee: 0, payout: 0.3 });
+  });
+
+  it('keeps the fee a task was funded with', () => {
+    expect(completionFee(task({ agentId: 'agent-1', escrowStatus: 'locked', platformFee: 0.05 })))
+      .toEqual({ fee: 0.05, payout: 0.3 });
+  });
+});
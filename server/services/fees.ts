@@ -0,0 +1,58 @@
+import { roundEscrowAmount } from "../storage";
+import { envNumber } from "../env";
+import type { Task } from "@shared/schema";
+
+// Share of each reward on agent-funded tasks the platform keeps, in percent
+const PLATFORM_FEE_PERCENT = envNumber('PLATFORM_FEE_PERCENT', 0);
+// "funding": agents pay the fee on top of the budget when they fund a task.
+// "payout": the fee is deducted from each reward when it is approved.
+const PLATFORM_FEE_MODE = process.env.PLATFORM_FEE_MODE || 'funding';
+
+if (PLATFORM_FEE_MODE !== 'funding' && PLATFORM_FEE_MODE !== 'payout') {
+  throw new Error(`Unknown PLATFORM_FEE_MODE "${PLATFORM_FEE_MODE}". Use "funding" or "payout"`);
+}
+if (PLATFORM_FEE_PERCENT >= 100) {
+  throw new Error('PLATFORM_FEE_PERCENT must be below 100');
+}
+
+export interface CompletionFee {
+  // Kept by the platform
+  fee: number;
+  // Sent to the worker
+  payout: number;
+}
+
+/**
+ * Fee settings, as shown to agents
+ */
+export function getPlatformFeeConfig(): { percent: number; mode: string } {
+  return { percent: PLATFORM_FEE_PERCENT, mode: PLATFORM_FEE_MODE };
+}
+
+/**
+ * Fee per completion an agent pays on top of the reward when funding a new
+ * task, or undefined when fees are not charged at funding
+ */
+export function fundingFee(reward: number): number | undefined {
+  if (PLATFORM_FEE_MODE !== 'funding' || PLATFORM_FEE_PERCENT === 0) return undefined;
+  return roundEscrowAmount(reward * PLATFORM_FEE_PERCENT / 100);
+}
+
+/**
+ * How one approved completion's cost splits between the platform and the
+ * worker. Platform-funded tasks pay no fee. A task funded with a fee keeps
+ * it even if the fee settings change later.
+ */
+export function completionFee(task: Task): CompletionFee {
+  if (!task.agentId) {
+    return { fee: 0, payout: task.reward };
+  }
+  if (task.platformFee !== undefined) {
+    return { fee: task.platformFee, payout: task.reward };
+  }
+  if (PLATFORM_FEE_MODE === 'payout') {
+    const fee = roundEscrowAmount(task.reward * PLATFORM_FEE_PERCENT / 100);
+    return { fee, payout: roundEscrowAmount(task.reward - fee) };
+  }
+  return { fee: 0, payout: task.reward };
+}
@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+import { storage } from "../storage";
+import { backfillLedger } from "./ledgerBackfill";
+import {
+  LEDGER_ACCOUNTS,
+  recordEscrowDeposit,
+  recordEscrowLock,
+  recordPayoutApproved,
+  recordPayoutRejected,
+  recordPayoutSent,
+  recordPlatformFee,
+  trialBalance
+} from "./ledger";
+import { getRevenueReport, getTotalPlatformFees } from "./revenue";
+import type { PayoutIntent, Task } from "@shared/schema";
+
+// Storage is shared by the whole file, so every test uses its own agent and
+// wallets and looks only at their accounts
+let sequence = 0;
+
+async function balanceOf(account: string): Promise<number> {
+  const balances = await storage.getLedgerBalances();
+  return balances.find(balance => balance.account === account && balance.currency === 'SOL')?.balance ?? 0;
+}
+
+async function agentTask() {
+  const n = ++sequence;
+  const agent = await storage.createAgent({ name: 'Test agent', walletAddress: `agent-wallet-${n}`, paymentTxSignature: `registration-${n}`, paymentAmount: 0.1 });
+  const task = await storage.createTask({
+    title: 'Share the launch post',
+    description: 'Tell your followers about the launch',
+    instructions: 'Post a link to the launch announcement',
+    proofType: 'link',
+    reward: 0.1,
+    difficulty: 'easy',
+    category: 'social',
+    active: true,
+    maxCompletions: 2,
+    agentId: agent.id,
+    escrowStatus: 'locked',
+  });
+  return { agent, task };
+}
+
+function payoutIntent(task: Task, overrides: Partial<PayoutIntent> = {}): PayoutIntent {
+  return {
+    applicationId: `application-${++sequence}`,
+    taskId: task.id,
+    walletAddress: `worker-${sequence}`,
+    amount: task.reward,
+    status: 'queued',
+    attempts: 0,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    ...overrides,
+  };
+}
+
+describe('ledger', () => {
+  it('sums balances per currency', () => {
+    expect(trialBalance([
+      { account: 'treasury', currency: 'SOL', balance: 0.3 },
+      { account: 'escrow:a:available', currency: 'SOL', balance: -0.1 },
+      { account: 'escrow:a:locked', currency: 'SOL', balance: -0.2 },
+      { account: 'treasury', currency: 'USDC', balance: 5 },
+    ])).toEqual({ SOL: 0, USDC: 5 });
+  });
+
+  it('books an agent-funded reward from deposit to payment', async () => {
+    const { agent, task } = await agentTask();
+    const intent = payoutIntent(task);
+
+    await recordEscrowDeposit({
+      signature: `deposit-${sequence}`,
+      agentId: agent.id,
+      walletAddress: agent.walletAddress,
+      currency: 'SOL',
+      amount: 1,
+      createdAt: Date.now(),
+    });
+    await recordEscrowLock(task, 'SOL', 0.2);
+    await recordPayoutApproved(intent, agent.id, 'SOL');
+    expect(await balanceOf(LEDGER_ACCOUNTS.payable(intent.walletAddress))).toBeCloseTo(-0.1);
+
+    await recordPayoutSent({ ...intent, status: 'confirmed', confirmedAt: Date.now() }, 'SOL');
+
+    expect(await balanceOf(LEDGER_ACCOUNTS.escrowAvailable(agent.id))).toBeCloseTo(-0.8);
+    expect(await balanceOf(LEDGER_ACCOUNTS.escrowLocked(agent.id))).toBeCloseTo(-0.1);
+    expect(await balanceOf(LEDGER_ACCOUNTS.payable(intent.walletAddress))).toBe(0);
+    expect(trialBalance(await storage.getLedgerBalances())).toEqual({ SOL: 0 });
+  });
+
+  it('posts each event once', async () => {
+    const { agent, task } = await agentTask();
+    const intent = payoutIntent(task);
+
+    expect(await recordPayoutApproved(intent, agent.id, 'SOL')).toBe(true);
+    expect(await recordPayoutApproved(intent, agent.id, 'SOL')).toBe(false);
+    expect(await balanceOf(LEDGER_ACCOUNTS.payable(intent.walletAddress))).toBeCloseTo(-0.1);
+  });
+
+  it('reverses the approval of a payout dropped for a rejection', async () => {
+    const { agent, task } = await agentTask();
+    const intent = payoutIntent(task);
+    await recordEscrowLock(task, 'SOL', 0.2);
+    await recordPayoutApproved(intent, agent.id, 'SOL');
+
+    await recordPayoutRejected({ ...intent, status: 'failed' }, agent.id, 'SOL');
+
+    expect(await balanceOf(LEDGER_ACCOUNTS.payable(intent.walletAddress))).toBe(0);
+    expect(await balanceOf(LEDGER_ACCOUNTS.escrowLocked(agent.id))).toBeCloseTo(-0.2);
+  });
+
+  it('books platform fees as revenue and refunds those of rejected payouts', async () => {
+    const { agent, task } = await agentTask();
+    const since = Date.now();
+    const feesBefore = await getTotalPlatformFees();
+    const paid = payoutIntent(task, { platformFee: 0.01 });
+    const rejected = payoutIntent(task, { platformFee: 0.01 });
+    await recordEscrowLock(task, 'SOL', 0.22);
+    for (const intent of [paid, rejected]) {
+      await recordPayoutApproved(intent, agent.id, 'SOL');
+      await recordPlatformFee(intent, agent.id, 'SOL');
+    }
+    expect(await getTotalPlatformFees()).toBeCloseTo(feesBefore + 0.02);
+
+    await recordPayoutRejected({ ...rejected, status: 'rejected' }, agent.id, 'SOL');
+
+    expect(await getTotalPlatformFees()).toBeCloseTo(feesBefore + 0.01);
+    expect(await balanceOf(LEDGER_ACCOUNTS.escrowLocked(agent.id))).toBeCloseTo(-0.11);
+    const report = await getRevenueReport(since, Date.now());
+    expect(report.currencies.find(summary => summary.currency === 'SOL'))
+      .toMatchObject({ platformFees: 0.01, feeCompletions: 1 });
+    expect(trialBalance(await storage.getLedgerBalances())).toEqual({ SOL: 0 });
+  });
+
+  it('backfills entries for records made before the ledger, once', async () => {
+    const { agent, task } = await agentTask();
+    await storage.recordEscrowDeposit({
+      signature: `deposit-${sequence}`,
+      agentId: agent.id,
+      walletAddress: agent.walletAddress,
+      currency: 'SOL',
+      amount: 1,
+      createdAt: Date.now(),
+    });
+    const application = await storage.createApplication(
+      { taskId: task.id, walletAddress: `worker-${++sequence}`, proofContent: 'https://example.com/1' },
+      task.title,
+      task.proofType
+    );
+    await storage.createPayoutIntent({
+      ...payoutIntent(task, { status: 'confirmed', confirmedAt: Date.now(), signature: 'payout-signature' }),
+      applicationId: application.id,
+      walletAddress: application.walletAddress,
+    });
+
+    expect(await backfillLedger()).toBeGreaterThan(0);
+    expect(await backfillLedger()).toBe(0);
+
+    expect(await balanceOf(LEDGER_ACCOUNTS.escrowAvailable(agent.id))).toBeCloseTo(-0.8);
+    expect(await balanceOf(LEDGER_ACCOUNTS.escrowLocked(agent.id))).toBeCloseTo(-0.1);
+    expect(await balanceOf(LEDGER_ACCOUNTS.payable(application.walletAddress))).toBe(0);
+    expect(trialBalance(await storage.getLedgerBalances())).toEqual({ SOL: 0 });
+  });
+});
@@ -0,0 +1,236 @@
+import { v4 as uuidv4 } from "uuid";
+import { storage, roundEscrowAmount } from "../storage";
+import type {
+  Agent,
+  EscrowDeposit,
+  JournalEntry,
+  JournalKind,
+  LedgerBalance,
+  PayoutIntent,
+  Task
+} from "@shared/schema";
+
+// Chart of accounts. Debits are positive: asset and expense accounts carry
+// debit balances, revenue and liability accounts credit balances.
+export const LEDGER_ACCOUNTS = {
+  // Asset: the treasury wallet, which holds escrow and pays rewards
+  treasury: 'treasury',
+  // Asset: the registration wallet
+  registration: 'registration',
+  registrationRevenue: 'revenue:registration',
+  platformFeeRevenue: 'revenue:platform_fees',
+  // Rewards of platform-funded tasks
+  rewardExpense: 'expense:rewards',
+  // Liability: deposits an agent can still spend
+  escrowAvailable: (agentId: string) => `escrow:${agentId}:available`,
+  // Liability: budgets of the agent's open tasks
+  escrowLocked: (agentId: string) => `escrow:${agentId}:locked`,
+  // Liability: approved rewards not yet sent to the recipient
+  payable: (wallet: string) => `payable:${wallet}`,
+};
+
+/**
+ * Post a transfer of an amount from one account to another: a debit to the
+ * first and a credit to the second. Each reference is posted once, so
+ * recording an event again is harmless.
+ *
+ * Failures are logged rather than thrown: the money has already moved by the
+ * time an entry is posted, and backfillLedger() posts anything missed.
+ */
+async function post(
+  kind: JournalKind,
+  reference: string,
+  currency: string,
+  debit: string,
+  credit: string,
+  amount: number,
+  createdAt: number = Date.now()
+): Promise<boolean> {
+  const rounded = roundEscrowAmount(amount);
+  if (rounded <= 0) return false;
+
+  const entry: JournalEntry = {
+    id: uuidv4(),
+    reference,
+    kind,
+    currency,
+    lines: [
+      { account: debit, amount: rounded },
+      { account: credit, amount: -rounded },
+    ],
+    createdAt,
+  };
+  try {
+    return await storage.postJournalEntry(entry);
+  } catch (error) {
+    console.error(`Error posting ledger entry ${reference}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Registration fee received in the registration wallet
+ */
+export async function recordRegistrationFee(agent: Agent, currency: string): Promise<boolean> {
+  // Free registrations move no funds
+  if (!agent.paymentTxSignature) return false;
+  return post(
+    'registration_fee',
+    `registration:${agent.paymentTxSignature}`,
+    currency,
+    LEDGER_ACCOUNTS.registration,
+    LEDGER_ACCOUNTS.registrationRevenue,
+    agent.paymentAmount,
+    agent.createdAt
+  );
+}
+
+/**
+ * Agent deposit received in the treasury, owed back to the agent as escrow
+ */
+export function recordEscrowDeposit(deposit: EscrowDeposit): Promise<boolean> {
+  return post(
+    'escrow_deposit',
+    `escrow_deposit:${deposit.signature}`,
+    deposit.currency,
+    LEDGER_ACCOUNTS.treasury,
+    LEDGER_ACCOUNTS.escrowAvailable(deposit.agentId),
+    deposit.amount,
+    deposit.createdAt
+  );
+}
+
+/**
+ * Budget of an agent-funded task set aside from the agent's escrow
+ */
+export function recordEscrowLock(task: Task, currency: string, amount: number): Promise<boolean> {
+  if (!task.agentId) return Promise.resolve(false);
+
+  return post(
+    'escrow_lock',
+    `escrow_lock:${task.id}`,
+    currency,
+    LEDGER_ACCOUNTS.escrowAvailable(task.agentId),
+    LEDGER_ACCOUNTS.escrowLocked(task.agentId),
+    amount,
+    task.createdAt
+  );
+}
+
+/**
+ * Locked budget refunded to the agent's available escrow
+ */
+export function recordEscrowRelease(
+  reference: string,
+  agentId: string,
+  currency: string,
+  amount: number,
+  createdAt?: number
+): Promise<boolean> {
+  return post(
+    'escrow_release',
+    reference,
+    currency,
+    LEDGER_ACCOUNTS.escrowLocked(agentId),
+    LEDGER_ACCOUNTS.escrowAvailable(agentId),
+    amount,
+    createdAt
+  );
+}
+
+/**
+ * Reward owed to a worker once their application is approved, funded by the
+ * escrow of the agent that created the task or, for platform tasks, expensed
+ */
+export function recordPayoutApproved(
+  intent: PayoutIntent,
+  fundingAgentId: string | undefined,
+  currency: string
+): Promise<boolean> {
+  return post(
+    'payout_approved',
+    `payout_approved:${intent.applicationId}`,
+    currency,
+    fundingAgentId ? LEDGER_ACCOUNTS.escrowLocked(fundingAgentId) : LEDGER_ACCOUNTS.rewardExpense,
+    LEDGER_ACCOUNTS.payable(intent.walletAddress),
+    intent.amount,
+    intent.createdAt
+  );
+}
+
+/**
+ * Platform fee on an approved completion, taken from the funding agent's
+ * locked escrow
+ */
+export function recordPlatformFee(intent: PayoutIntent, fundingAgentId: string, currency: string): Promise<boolean> {
+  return post(
+    'platform_fee',
+    `platform_fee:${intent.applicationId}`,
+    currency,
+    LEDGER_ACCOUNTS.escrowLocked(fundingAgentId),
+    LEDGER_ACCOUNTS.platformFeeRevenue,
+    intent.platformFee ?? 0,
+    intent.createdAt
+  );
+}
+
+/**
+ * Reward of a payout rejected after approval, held over a limit or dropped
+ * because a rejection won the review, no longer owed to the worker: returned
+ * to the funding agent's locked escrow along with its platform fee or, for
+ * platform tasks, taken off expenses
+ */
+export async function recordPayoutRejected(
+  intent: PayoutIntent,
+  fundingAgentId: string | undefined,
+  currency: string
+): Promise<boolean> {
+  const recorded = await post(
+    'payout_rejected',
+    `payout_rejected:${intent.applicationId}`,
+    currency,
+    LEDGER_ACCOUNTS.payable(intent.walletAddress),
+    fundingAgentId ? LEDGER_ACCOUNTS.escrowLocked(fundingAgentId) : LEDGER_ACCOUNTS.rewardExpense,
+    intent.amount,
+    intent.updatedAt
+  );
+  if (fundingAgentId) {
+    await post(
+      'payout_rejected',
+      `platform_fee_rejected:${intent.applicationId}`,
+      currency,
+      LEDGER_ACCOUNTS.platformFeeRevenue,
+      LEDGER_ACCOUNTS.escrowLocked(fundingAgentId),
+      intent.platformFee ?? 0,
+      intent.updatedAt
+    );
+  }
+  return recorded;
+}
+
+/**
+ * Reward sent from the treasury, settling what was owed to the worker
+ */
+export function recordPayoutSent(intent: PayoutIntent, currency: string): Promise<boolean> {
+  return post(
+    'payout_sent',
+    `payout_sent:${intent.applicationId}`,
+    currency,
+    LEDGER_ACCOUNTS.payable(intent.walletAddress),
+    LEDGER_ACCOUNTS.treasury,
+    intent.amount,
+    intent.confirmedAt
+  );
+}
+
+/**
+ * Sum of all balances per currency. Every entry is balanced, so each total
+ * is zero unless the ledger has been tampered with.
+ */
+export function trialBalance(balances: LedgerBalance[]): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const balance of balances) {
+    totals[balance.currency] = roundEscrowAmount((totals[balance.currency] ?? 0) + balance.balance);
+  }
+  return totals;
+}
@@ -0,0 +1,77 @@
+import { storage } from "../storage";
+import { escrowCurrency, slotCost, taskBudget } from "./escrow";
+import { REGISTRATION_MINT } from "./registration";
+import {
+  recordRegistrationFee,
+  recordEscrowDeposit,
+  recordEscrowLock,
+  recordEscrowRelease,
+  recordPayoutApproved,
+  recordPayoutRejected,
+  recordPayoutSent,
+  recordPlatformFee
+} from "./ledger";
+
+/**
+ * Post ledger entries for money movements recorded before the ledger existed,
+ * or missed because posting failed. Entries already in the ledger are skipped
+ * by reference, so this is safe to run repeatedly. Returns the number posted.
+ */
+export async function backfillLedger(): Promise<number> {
+  const [agents, deposits, tasks, intents] = await Promise.all([
+    storage.getAllAgents(),
+    storage.getAllEscrowDeposits(),
+    storage.getAllTasks(),
+    storage.getAllPayoutIntents(),
+  ]);
+  const results: boolean[] = [];
+
+  // Agents do not record the fee currency; assume it has not changed
+  for (const agent of agents) {
+    results.push(await recordRegistrationFee(agent, escrowCurrency(REGISTRATION_MINT)));
+  }
+
+  for (const deposit of deposits) {
+    results.push(await recordEscrowDeposit(deposit));
+  }
+
+  const taskAgents = new Map<string, string | undefined>();
+  for (const task of tasks) {
+    taskAgents.set(task.id, task.agentId);
+    if (!task.agentId || !task.escrowStatus) continue;
+
+    const currency = escrowCurrency(task.rewardMint);
+    results.push(await recordEscrowLock(task, currency, taskBudget(task)));
+    if (task.escrowStatus === 'released') {
+      // Whatever was not paid out went back to the agent
+      const openSlots = Math.max((task.maxCompletions ?? 0) - task.totalCompletions, 0);
+      results.push(await recordEscrowRelease(
+        `escrow_release:${task.id}`,
+        task.agentId,
+        currency,
+        slotCost(task) * openSlots
+      ));
+    }
+  }
+
+  // Rewards of deleted tasks are booked as platform-funded
+  for (const intent of intents) {
+    const currency = escrowCurrency(intent.mint);
+    const agentId = taskAgents.get(intent.taskId);
+    results.push(await recordPayoutApproved(intent, agentId, currency));
+    if (agentId) {
+      results.push(await recordPlatformFee(intent, agentId, currency));
+    }
+    if (intent.status === 'confirmed') {
+      results.push(await recordPayoutSent(intent, currency));
+    }
+    // A failed intent was dropped for a rejection if its application says so
+    const dropped = intent.status === 'failed'
+      && (await storage.getApplication(intent.applicationId))?.status === 'rejected';
+    if (intent.status === 'rejected' || dropped) {
+      results.push(await recordPayoutRejected(intent, agentId, currency));
+    }
+  }
+
+  return results.filter(Boolean).length;
+}
@@ -0,0 +1,143 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// Limits are read when the module loads
+vi.hoisted(() => {
+  process.env.PAYOUT_WALLET_DAILY_LIMIT = '0.25';
+  process.env.PAYOUT_TASK_DAILY_LIMIT = '0.5';
+});
+
+import { storage } from "../storage";
+import { mockAddress } from "./chain";
+import { reviewApplication } from "./approvals";
+import { processPayouts, rejectHeldPayout, releaseHeldPayout } from "./payouts";
+import { reservePayoutLimits } from "./limits";
+
+afterAll(() => {
+  delete process.env.PAYOUT_WALLET_DAILY_LIMIT;
+  delete process.env.PAYOUT_TASK_DAILY_LIMIT;
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+async function createTask() {
+  return storage.createTask({
+    title: 'Share the launch post',
+    description: 'Tell your followers about the launch',
+    instructions: 'Post a link to the launch announcement',
+    proofType: 'link',
+    reward: 0.1,
+    difficulty: 'easy',
+    category: 'social',
+    active: true,
+  });
+}
+
+async function approve(taskId: string, walletAddress: string) {
+  const application = await storage.createApplication(
+    { taskId, walletAddress, proofContent: 'https://example.com/1' },
+    'Share the launch post',
+    'link'
+  );
+  const result = await reviewApplication(application.id, 'approved', 'admin');
+  expect(result.success).toBe(true);
+  return (await storage.getPayoutIntent(application.id))!;
+}
+
+describe('reservePayoutLimits', () => {
+  it('refuses a payout over the per-wallet or per-task limit of the day', async () => {
+    const task = await createTask();
+    const wallet = mockAddress('limited-wallet');
+
+    expect(await reservePayoutLimits(wallet, task.id, 0.1)).toMatchObject({ allowed: true, day: expect.any(String) });
+    expect(await reservePayoutLimits(wallet, task.id, 0.1)).toMatchObject({ allowed: true });
+    expect(await reservePayoutLimits(wallet, task.id, 0.1)).toMatchObject({
+      allowed: false,
+      reason: expect.stringContaining(`Daily payout limit for wallet ${wallet} of 0.25 SOL`),
+    });
+
+    // Other wallets share what is left of the task's limit
+    const others = [mockAddress('other-1'), mockAddress('other-2'), mockAddress('other-3'), mockAddress('other-4')];
+    const checks = await Promise.all(others.map(other => reservePayoutLimits(other, task.id, 0.1)));
+    expect(checks.filter(check => check.allowed)).toHaveLength(3);
+    expect(checks.find(check => !check.allowed)?.reason).toContain(`Daily payout limit for task ${task.id}`);
+  });
+
+  it('does not limit currencies without a limit', async () => {
+    const task = await createTask();
+    const mint = mockAddress('unlimited-token');
+    for (let i = 0; i < 5; i++) {
+      expect((await reservePayoutLimits(mockAddress('token-wallet'), task.id, 1, mint)).allowed).toBe(true);
+    }
+  });
+});
+
+describe('held payouts', () => {
+  it('holds an approval over a limit until an admin overrides it', async () => {
+    const task = await createTask();
+    const wallet = mockAddress('held-wallet');
+    await approve(task.id, wallet);
+    await approve(task.id, wallet);
+
+    const held = await approve(task.id, wallet);
+    expect(held).toMatchObject({ status: 'held', heldReason: expect.stringContaining('for wallet') });
+    expect(held.limitDay).toBeUndefined();
+    expect((await storage.getApplication(held.applicationId))?.payoutStatus).toBe('held');
+
+    const released = await releaseHeldPayout(held, 'reviewer');
+    expect(released).toMatchObject({ status: 'queued', overriddenBy: 'reviewer', limitDay: expect.any(String) });
+    // The override counted toward the day, so the wallet is over its limit
+    expect((await reservePayoutLimits(wallet, mockAddress('no-task'), 0.01)).allowed).toBe(false);
+  });
+
+  it('rejects a held payout without sending it', async () => {
+    const task = await createTask();
+    const wallet = mockAddress('rejected-wallet');
+    await approve(task.id, wallet);
+    await approve(task.id, wallet);
+    const held = await approve(task.id, wallet);
+
+    const rejected = await rejectHeldPayout(held, 'reviewer');
+    await processPayouts();
+
+    expect(rejected).toMatchObject({ status: 'rejected', overriddenBy: 'reviewer' });
+    expect(await storage.getApplication(held.applicationId)).toMatchObject({ status: 'rejected', payoutStatus: 'rejected' });
+    expect((await storage.getTask(task.id))?.totalCompletions).toBe(2);
+  });
+
+  it('gives back the headroom of a payout cancelled by a rejection', async () => {
+    const task = await createTask();
+    const wallet = mockAddress('cancelled-wallet');
+    await approve(task.id, wallet);
+    const application = await storage.createApplication(
+      { taskId: task.id, walletAddress: wallet, proofContent: 'https://example.com/2' },
+      task.title,
+      task.proofType
+    );
+    // Approved as far as the intent, then a rejection wins the review
+    const limits = await reservePayoutLimits(wallet, task.id, 0.1);
+    await storage.reserveTaskCompletion(task.id);
+    await storage.createPayoutIntent({
+      applicationId: application.id,
+      taskId: task.id,
+      walletAddress: wallet,
+      amount: 0.1,
+      status: 'queued',
+      attempts: 0,
+      limitDay: limits.day,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+    await storage.transitionApplication(application.id, 'pending', { status: 'rejected' });
+
+    await processPayouts();
+
+    expect((await storage.getPayoutIntent(application.id))?.lastError).toBe('Application was rejected');
+    expect((await reservePayoutLimits(wallet, task.id, 0.1)).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,113 @@
+import { storage } from "../storage";
+import { mintLabel, resolveMint } from "./chain";
+import { escrowCurrency } from "./escrow";
+import type { PayoutIntent, PayoutLimitCounter } from "@shared/schema";
+
+// Most that may be approved for payout per UTC day: in total, to one wallet
+// and for one task. Each is a SOL amount or per-currency amounts (e.g.
+// "SOL:50,USDC:5000"); currencies without one are not limited.
+const PAYOUT_DAILY_LIMIT = parseLimits('PAYOUT_DAILY_LIMIT');
+const PAYOUT_WALLET_DAILY_LIMIT = parseLimits('PAYOUT_WALLET_DAILY_LIMIT');
+const PAYOUT_TASK_DAILY_LIMIT = parseLimits('PAYOUT_TASK_DAILY_LIMIT');
+
+export interface PayoutLimitCheck {
+  allowed: boolean;
+  // UTC day the payout was counted toward, when allowed
+  day?: string;
+  // Which limit the payout would exceed
+  reason?: string;
+}
+
+// What a payout counts toward the limits with
+type LimitedPayout = Pick<PayoutIntent, 'walletAddress' | 'taskId' | 'amount' | 'mint' | 'limitDay'>;
+
+interface NamedCounter extends PayoutLimitCounter {
+  name: string;
+}
+
+/**
+ * Count a new payout toward today's total, per-wallet and per-task limits.
+ * Storage adds it to all of them or to none, so concurrent approvals cannot
+ * share the same headroom, even on separate server instances. A payout that
+ * would exceed a limit is not counted.
+ */
+export async function reservePayoutLimits(
+  walletAddress: string,
+  taskId: string,
+  amount: number,
+  mint?: string
+): Promise<PayoutLimitCheck> {
+  const day = payoutLimitDay(Date.now());
+  const counters = limitCounters(day, walletAddress, taskId, mint);
+  const full = await storage.reservePayoutLimits(
+    counters.map(({ key, limit }) => ({ key, limit })),
+    amount
+  );
+  if (!full) return { allowed: true, day };
+
+  const counter = counters.find(counter => counter.key === full)!;
+  return {
+    allowed: false,
+    reason: `${counter.name} of ${counter.limit} ${mintLabel(mint)} exceeded: this payout of ${amount} does not fit in what is left today`,
+  };
+}
+
+/**
+ * Count a held payout an admin overrode toward the limits of its limitDay,
+ * whatever they allow
+ */
+export async function countOverriddenPayout(intent: LimitedPayout): Promise<void> {
+  if (!intent.limitDay) return;
+  const counters = limitCounters(intent.limitDay, intent.walletAddress, intent.taskId, intent.mint);
+  await storage.reservePayoutLimits(counters.map(({ key }) => ({ key })), intent.amount);
+}
+
+/**
+ * Take a payout that will never be sent back off the limits it counted
+ * toward. Held payouts were never counted.
+ */
+export async function releasePayoutLimits(intent: LimitedPayout): Promise<void> {
+  if (!intent.limitDay) return;
+  const counters = limitCounters(intent.limitDay, intent.walletAddress, intent.taskId, intent.mint);
+  await storage.releasePayoutLimits(counters.map(counter => counter.key), intent.amount);
+}
+
+// The configured limits a payout counts toward on a day
+function limitCounters(day: string, walletAddress: string, taskId: string, mint?: string): NamedCounter[] {
+  const currency = escrowCurrency(mint);
+  const counters: [string, string, Map<string, number>][] = [
+    ['Daily payout limit', `${day}:${currency}`, PAYOUT_DAILY_LIMIT],
+    [`Daily payout limit for wallet ${walletAddress}`, `${day}:${currency}:wallet:${walletAddress}`, PAYOUT_WALLET_DAILY_LIMIT],
+    [`Daily payout limit for task ${taskId}`, `${day}:${currency}:task:${taskId}`, PAYOUT_TASK_DAILY_LIMIT],
+  ];
+  return counters
+    .filter(([, , limits]) => limits.has(currency))
+    .map(([name, key, limits]) => ({ name, key, limit: limits.get(currency) }));
+}
+
+/**
+ * The UTC day (YYYY-MM-DD) whose limits a payout approved at this time counts
+ * toward
+ */
+export function payoutLimitDay(at: number): string {
+  return new Date(at).toISOString().slice(0, 10);
+}
+
+// Limits by currency from an environment variable
+function parseLimits(name: string): Map<string, number> {
+  const limits = new Map<string, number>();
+  const value = process.env[name]?.trim();
+  if (!value) return limits;
+
+  for (const entry of value.split(',')) {
+    const separator = entry.lastIndexOf(':');
+    const label = separator < 0 ? 'SOL' : entry.slice(0, separator).trim();
+    const limit = Number(entry.slice(separator + 1));
+    const resolved = resolveMint(label);
+    if (!resolved.success || !Number.isFinite(limit) || limit < 0) {
+      throw new Error(`${name} must be a SOL amount or "CURRENCY:amount" pairs, got "${entry}"`);
+    }
+    limits.set(escrowCurrency(resolved.mint), limit);
+  }
+  return limits;
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { storage } from "../storage";
+import { chain, mockAddress, MockChainProvider } from "./chain";
+import { enqueuePayout, processPayouts } from "./payouts";
+import {
+  backfillPayoutHistory,
+  decodePayoutCursor,
+  encodePayoutCursor,
+  getPayoutHistory,
+  recordChainPayouts
+} from "./payoutHistory";
+import type { PayoutRecord } from "@shared/schema";
+
+const mockChain = chain as MockChainProvider;
+const treasury = mockChain.getTreasuryAddress();
+
+async function pendingApplication(walletAddress: string) {
+  const task = await storage.createTask({
+    title: 'Share the launch post',
+    description: 'Tell your followers about the launch',
+    instructions: 'Post a link to the launch announcement',
+    proofType: 'link',
+    reward: 0.1,
+    difficulty: 'easy',
+    category: 'social',
+    active: true,
+  });
+  return storage.createApplication(
+    { taskId: task.id, walletAddress, proofContent: 'https://example.com/1' },
+    task.title,
+    task.proofType
+  );
+}
+
+function record(walletAddress: string, id: string, paidAt: number): PayoutRecord {
+  return { id, signature: `signature-${id}`, walletAddress, amount: 0.1, paidAt, recordedAt: paidAt };
+}
+
+describe('payout history', () => {
+  it('records a payout once the outbox confirms it', async () => {
+    const walletAddress = mockAddress('history-recipient');
+    const application = await pendingApplication(walletAddress);
+    await storage.reserveTaskCompletion(application.taskId);
+    await enqueuePayout(application, 0.1);
+
+    await processPayouts();
+
+    const { payouts } = await getPayoutHistory({ walletAddress, limit: 10 });
+    const { signature } = (await storage.getPayoutIntent(application.id))!;
+    expect(payouts).toEqual([expect.objectContaining({
+      id: application.id,
+      signature,
+      applicationId: application.id,
+      taskId: application.taskId,
+      taskTitle: 'Share the launch post',
+      explorerUrl: expect.stringContaining(signature!),
+    })]);
+  });
+
+  it('pages through the history newest first', async () => {
+    const walletAddress = mockAddress('paged-recipient');
+    for (const [id, paidAt] of [['a', 1000], ['b', 3000], ['c', 2000], ['d', 3000]] as const) {
+      await storage.recordPayout(record(walletAddress, id, paidAt));
+    }
+
+    const first = await getPayoutHistory({ walletAddress, limit: 3 });
+    expect(first.payouts.map(payout => payout.id)).toEqual(['d', 'b', 'c']);
+
+    const second = await getPayoutHistory({ walletAddress, limit: 3, before: decodePayoutCursor(first.nextCursor!)! });
+    expect(second.payouts.map(payout => payout.id)).toEqual(['a']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('rejects a cursor it did not issue', () => {
+    expect(decodePayoutCursor(encodePayoutCursor({ paidAt: 1000, id: 'app:1' }))).toEqual({ paidAt: 1000, id: 'app:1' });
+    expect(decodePayoutCursor('not-a-cursor')).toBeNull();
+    expect(decodePayoutCursor(Buffer.from('soon:app-1').toString('base64url'))).toBeNull();
+  });
+
+  it('records each transfer of a batch separately', async () => {
+    const wallets = [mockAddress('batch-history-a'), mockAddress('batch-history-b')];
+    const batch = await mockChain.prepareBatchTransfer(wallets.map(toWallet => ({ toWallet, amount: 0.1 })));
+    await mockChain.broadcastTransfer(batch);
+    const { payouts } = await mockChain.getOutgoingTransactionPage(treasury);
+
+    expect(await recordChainPayouts(payouts.filter(payout => payout.signature === batch.signature))).toBe(2);
+
+    for (const [index, walletAddress] of wallets.entries()) {
+      const { payouts: recorded } = await getPayoutHistory({ walletAddress, limit: 10 });
+      expect(recorded).toEqual([expect.objectContaining({ id: `${batch.signature}:${index}`, signature: batch.signature })]);
+    }
+  });
+
+  it('backfills transfers that paid an application, once', async () => {
+    // Paid before the outbox existed: the application holds the signature
+    const walletAddress = mockAddress('legacy-recipient');
+    const application = await pendingApplication(walletAddress);
+    const signature = mockChain.recordTransfer(treasury, walletAddress, 0.1);
+    await storage.updateApplication(application.id, { status: 'approved', payoutStatus: 'confirmed', txSignature: signature });
+    const stranger = mockAddress('backfill-stranger');
+    mockChain.recordTransfer(treasury, stranger, 0.3);
+
+    expect(await backfillPayoutHistory()).toBeGreaterThanOrEqual(1);
+    expect(await backfillPayoutHistory()).toBe(0);
+
+    const { payouts } = await getPayoutHistory({ walletAddress, limit: 10 });
+    expect(payouts).toEqual([expect.objectContaining({ id: application.id, signature, applicationId: application.id })]);
+    expect((await getPayoutHistory({ walletAddress: stranger, limit: 10 })).payouts).toEqual([]);
+  });
+});
@@ -0,0 +1,185 @@
+import { envNumber } from "../env";
+import { storage, type PayoutRecordQuery } from "../storage";
+import { chain, getExplorerTxUrl } from "./chain";
+import type { Application, Payout, PayoutIntent, PayoutRecord } from "@shared/schema";
+
+// Pages of treasury transactions (50 each) read by a backfill at most
+const PAYOUT_BACKFILL_MAX_PAGES = envNumber('PAYOUT_BACKFILL_MAX_PAGES', 20);
+export const PAYOUT_HISTORY_DEFAULT_LIMIT = 50;
+export const PAYOUT_HISTORY_MAX_LIMIT = 200;
+
+export type PayoutHistoryEntry = PayoutRecord & { explorerUrl: string };
+
+export interface PayoutHistoryPage {
+  payouts: PayoutHistoryEntry[];
+  // Pass as `cursor` to read the next page; null on the last page
+  nextCursor: string | null;
+}
+
+// What a treasury transfer can be linked to, by the signature that paid it
+interface PayoutLinks {
+  intents: Map<string, PayoutIntent[]>;
+  // Applications paid before the payout outbox have no intent
+  applications: Map<string, Application[]>;
+  applicationsById: Map<string, Application>;
+  // Applications already linked to a transfer in this run, so two transfers
+  // of a batch to the same wallet link to different applications
+  linked: Set<string>;
+}
+
+/**
+ * Record a payout the outbox has confirmed
+ */
+export function recordConfirmedPayout(intent: PayoutIntent, application: Application | null): Promise<boolean> {
+  return storage.recordPayout({
+    id: intent.applicationId,
+    signature: intent.signature!,
+    walletAddress: intent.walletAddress,
+    amount: intent.amount,
+    mint: intent.mint,
+    applicationId: intent.applicationId,
+    taskId: intent.taskId,
+    taskTitle: application?.taskTitle,
+    paidAt: intent.confirmedAt ?? intent.updatedAt,
+    recordedAt: Date.now(),
+  });
+}
+
+/**
+ * Record treasury transfers seen on chain, linked to the applications they
+ * paid. Returns the number not recorded before.
+ */
+export async function recordChainPayouts(payouts: Payout[]): Promise<number> {
+  if (!payouts.length) return 0;
+  return recordLinked(payouts, await loadPayoutLinks());
+}
+
+/**
+ * Record confirmed payouts, and the treasury's reward transfers on chain, that
+ * are missing from the payout history: payouts sent before the history
+ * existed or before the outbox existed. Only transfers that pay a payout
+ * intent or an application are recorded. Reads at most
+ * PAYOUT_BACKFILL_MAX_PAGES pages of treasury transactions. Safe to run
+ * repeatedly. Returns the number recorded.
+ */
+export async function backfillPayoutHistory(): Promise<number> {
+  const links = await loadPayoutLinks();
+  let recorded = 0;
+
+  const confirmed = Array.from(links.intents.values())
+    .flat()
+    .filter(intent => intent.status === 'confirmed');
+  for (const intent of confirmed) {
+    if (await recordConfirmedPayout(intent, links.applicationsById.get(intent.applicationId) ?? null)) {
+      recorded++;
+    }
+  }
+
+  const treasury = chain.getTreasuryAddress();
+  let before: string | undefined;
+  for (let page = 0; page < PAYOUT_BACKFILL_MAX_PAGES; page++) {
+    const history = await chain.getOutgoingTransactionPage(treasury, before);
+    recorded += await recordLinked(history.payouts, links, true);
+    if (!history.before) break;
+    before = history.before;
+  }
+
+  return recorded;
+}
+
+/**
+ * One page of the payout history, newest first
+ */
+export async function getPayoutHistory(
+  query: Omit<PayoutRecordQuery, 'limit'> & { limit: number }
+): Promise<PayoutHistoryPage> {
+  // One record past the page tells whether there is another page
+  const records = await storage.getPayoutRecords({ ...query, limit: query.limit + 1 });
+  const page = records.slice(0, query.limit);
+  const last = page[page.length - 1];
+
+  return {
+    payouts: page.map(record => ({ ...record, explorerUrl: getExplorerTxUrl(record.signature) })),
+    nextCursor: records.length > query.limit ? encodePayoutCursor(last) : null,
+  };
+}
+
+export function encodePayoutCursor(record: Pick<PayoutRecord, 'paidAt' | 'id'>): string {
+  return Buffer.from(`${record.paidAt}:${record.id}`).toString('base64url');
+}
+
+/**
+ * Position encoded in a cursor, or null if it is not one
+ */
+export function decodePayoutCursor(cursor: string): Pick<PayoutRecord, 'paidAt' | 'id'> | null {
+  const decoded = Buffer.from(cursor, 'base64url').toString();
+  const separator = decoded.indexOf(':');
+  const paidAt = Number(decoded.slice(0, separator));
+  const id = decoded.slice(separator + 1);
+  if (separator < 1 || !Number.isInteger(paidAt) || !id) return null;
+  return { paidAt, id };
+}
+
+async function loadPayoutLinks(): Promise<PayoutLinks> {
+  const [intents, applications] = await Promise.all([
+    storage.getAllPayoutIntents(),
+    storage.getAllApplications(),
+  ]);
+  const links: PayoutLinks = {
+    intents: new Map(),
+    applications: new Map(),
+    applicationsById: new Map(),
+    linked: new Set(),
+  };
+
+  for (const intent of intents) {
+    if (!intent.signature) continue;
+    links.intents.set(intent.signature, [...(links.intents.get(intent.signature) ?? []), intent]);
+  }
+  for (const application of applications) {
+    links.applicationsById.set(application.id, application);
+    if (application.txSignature) {
+      const paid = links.applications.get(application.txSignature) ?? [];
+      links.applications.set(application.txSignature, [...paid, application]);
+    }
+  }
+  return links;
+}
+
+async function recordLinked(payouts: Payout[], links: PayoutLinks, linkedOnly = false): Promise<number> {
+  let recorded = 0;
+  for (const payout of payouts) {
+    const record = linkPayout(payout, links);
+    if (linkedOnly && !record.applicationId) continue;
+    if (await storage.recordPayout(record)) recorded++;
+  }
+  return recorded;
+}
+
+// A history record for a treasury transfer, linked to the application it paid
+// when one matches its signature and recipient
+function linkPayout(payout: Payout, links: PayoutLinks): PayoutRecord {
+  const intent = links.intents.get(payout.signature)?.find(candidate =>
+    candidate.walletAddress === payout.to && !links.linked.has(candidate.applicationId)
+  );
+  const application = intent
+    ? links.applicationsById.get(intent.applicationId)
+    : links.applications.get(payout.signature)?.find(candidate =>
+        candidate.walletAddress === payout.to && !links.linked.has(candidate.id)
+      );
+  const applicationId = intent?.applicationId ?? application?.id;
+  if (applicationId) links.linked.add(applicationId);
+
+  return {
+    id: applicationId ?? `${payout.signature}:${payout.index}`,
+    signature: payout.signature,
+    walletAddress: payout.to,
+    amount: payout.amount,
+    mint: payout.mint,
+    applicationId,
+    taskId: intent?.taskId ?? application?.taskId,
+    taskTitle: application?.taskTitle,
+    paidAt: payout.timestamp,
+    recordedAt: Date.now(),
+  };
+}
@@ -0,0 +1,284 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { storage } from "../storage";
+import { chain, mockAddress, MockChainProvider, type PreparedTransfer } from "./chain";
+import { enqueuePayout, processPayouts, retryPayout } from "./payouts";
+import type { Application } from "@shared/schema";
+
+const mockChain = chain as MockChainProvider;
+
+// Every transfer the worker signs, oldest first, once per recipient of a batch
+const prepared: Array<PreparedTransfer & { toWallet: string }> = [];
+const prepareTransfer = mockChain.prepareTransfer.bind(mockChain);
+vi.spyOn(mockChain, 'prepareTransfer').mockImplementation(async (toWallet, amount, mint) => {
+  const transfer = await prepareTransfer(toWallet, amount, mint);
+  prepared.push({ ...transfer, toWallet });
+  return transfer;
+});
+const prepareBatchTransfer = mockChain.prepareBatchTransfer.bind(mockChain);
+vi.spyOn(mockChain, 'prepareBatchTransfer').mockImplementation(async (transfers) => {
+  const batch = await prepareBatchTransfer(transfers);
+  for (const { toWallet } of transfers.slice(0, batch.count)) {
+    prepared.push({ ...batch, toWallet });
+  }
+  return batch;
+});
+
+afterEach(() => {
+  mockChain.setBalance(mockChain.getTreasuryAddress(), 1000);
+});
+
+// Transfers signed for an application, oldest first. Storage is shared by
+// the whole file, so each application gets its own recipient wallet.
+function signed(application: Application): PreparedTransfer[] {
+  return prepared.filter(transfer => transfer.toWallet === application.walletAddress);
+}
+
+let recipients = 0;
+
+async function pendingApplication(maxCompletions = 2, rewardMint?: string): Promise<Application> {
+  const task = await storage.createTask({
+    title: 'Share the launch post',
+    description: 'Tell your followers about the launch',
+    instructions: 'Post a link to the launch announcement',
+    proofType: 'link',
+    reward: 0.1,
+    difficulty: 'easy',
+    category: 'social',
+    active: true,
+    maxCompletions,
+    rewardMint,
+  });
+  return storage.createApplication(
+    { taskId: task.id, walletAddress: `recipient-${++recipients}`, proofContent: 'https://example.com/1' },
+    task.title,
+    task.proofType
+  );
+}
+
+// What the review route does for an approval
+async function approve(application: Application, mint?: string): Promise<Application> {
+  await storage.reserveTaskCompletion(application.taskId);
+  await enqueuePayout(application, 0.1, mint);
+  await storage.transitionApplication(application.id, 'pending', { status: 'approved', payoutStatus: 'queued' });
+  return application;
+}
+
+describe('payout outbox', () => {
+  it('pays an approved application once and marks it paid', async () => {
+    const application = await approve(await pendingApplication());
+    const paidBefore = (await storage.getStats()).totalPayouts;
+
+    await processPayouts();
+    await processPayouts();
+
+    const [{ signature }] = signed(application);
+    expect(signed(application)).toHaveLength(1);
+    expect(await storage.getPayoutIntent(application.id)).toMatchObject({ status: 'confirmed', attempts: 1 });
+    expect(await storage.getApplication(application.id)).toMatchObject({
+      status: 'approved',
+      payoutStatus: 'confirmed',
+      txSignature: signature,
+    });
+    expect((await storage.getStats()).totalPayouts).toBeCloseTo(paidBefore + 0.1);
+  });
+
+  it('pays a token reward in the task\'s mint', async () => {
+    const mint = mockAddress('test-token');
+    mockChain.setBalance(mockChain.getTreasuryAddress(), 100, mint);
+    const application = await approve(await pendingApplication(2, mint), mint);
+    const paidBefore = (await storage.getStats()).totalPayouts;
+
+    await processPayouts();
+
+    expect((await storage.getPayoutIntent(application.id))?.status).toBe('confirmed');
+    expect(await mockChain.getBalance(application.walletAddress, mint)).toBeCloseTo(0.1);
+    expect(await mockChain.getBalance(application.walletAddress)).toBe(0);
+    // totalPayouts counts SOL only
+    expect((await storage.getStats()).totalPayouts).toBe(paidBefore);
+  });
+
+  it('allows one intent per application', async () => {
+    const application = await approve(await pendingApplication());
+    expect(await enqueuePayout(application, 0.1)).toBeNull();
+    await processPayouts();
+  });
+
+  it('checks the chain instead of signing again after an uncertain broadcast', async () => {
+    const application = await approve(await pendingApplication());
+    mockChain.dropNextBroadcasts();
+
+    await processPayouts();
+    const [transfer] = signed(application);
+    expect(await storage.getPayoutIntent(application.id)).toMatchObject({
+      status: 'sending',
+      signature: transfer.signature,
+    });
+
+    // Still unknown on chain but not expired: leave it alone
+    await processPayouts();
+    expect(signed(application)).toHaveLength(1);
+
+    // The transfer landed after all
+    await mockChain.broadcastTransfer(transfer);
+    await processPayouts();
+    expect(signed(application)).toHaveLength(1);
+    expect(await storage.getApplication(application.id)).toMatchObject({
+      payoutStatus: 'confirmed',
+      txSignature: transfer.signature,
+    });
+  });
+
+  it('signs a replacement only once the previous transfer expired', async () => {
+    const application = await approve(await pendingApplication());
+    mockChain.dropNextBroadcasts();
+    await processPayouts();
+
+    mockChain.advanceBlocks(200);
+    await processPayouts();
+    expect(await storage.getPayoutIntent(application.id)).toMatchObject({
+      status: 'queued',
+      lastError: 'Transaction expired before confirmation',
+    });
+
+    await processPayouts();
+    expect(signed(application)).toHaveLength(2);
+    expect(await storage.getPayoutIntent(application.id)).toMatchObject({
+      status: 'confirmed',
+      attempts: 2,
+      signature: signed(application)[1].signature,
+    });
+  });
+
+  it('fails after the last attempt and can be retried', async () => {
+    // The treasury holds none of the token, so every transfer lands with an
+    // error; its SOL stays above the floor that would pause payouts
+    const mint = mockAddress('unfunded-token');
+    const application = await approve(await pendingApplication(2, mint), mint);
+    for (let attempt = 1; attempt <= 5; attempt++) {
+      await processPayouts();
+      await processPayouts();
+    }
+
+    const failed = await storage.getPayoutIntent(application.id);
+    expect(failed).toMatchObject({ status: 'failed', attempts: 5, lastError: 'Transaction failed on chain' });
+    expect((await storage.getApplication(application.id))?.payoutStatus).toBe('failed');
+
+    mockChain.setBalance(mockChain.getTreasuryAddress(), 100, mint);
+    expect(await retryPayout(failed!)).toMatchObject({ status: 'queued', attempts: 0 });
+    await processPayouts();
+    expect(signed(application)).toHaveLength(6);
+    expect(await storage.getPayoutIntent(application.id)).toMatchObject({
+      status: 'confirmed',
+      signature: signed(application)[5].signature,
+    });
+  });
+
+  it('does not send the same intent twice from overlapping passes', async () => {
+    const application = await approve(await pendingApplication());
+
+    await Promise.all([processPayouts(), processPayouts(), processPayouts()]);
+
+    expect(signed(application)).toHaveLength(1);
+    expect((await storage.getPayoutIntent(application.id))?.status).toBe('confirmed');
+  });
+
+  it('finishes an approval whose status was never saved', async () => {
+    const application = await pendingApplication();
+    await storage.reserveTaskCompletion(application.taskId);
+    await enqueuePayout(application, 0.1);
+
+    await processPayouts();
+
+    expect(await storage.getApplication(application.id)).toMatchObject({ status: 'approved', payoutStatus: 'confirmed' });
+  });
+
+  it('drops the payout unsent when a rejection won the review', async () => {
+    const application = await pendingApplication(1);
+    await storage.reserveTaskCompletion(application.taskId);
+    await enqueuePayout(application, 0.1);
+    await storage.transitionApplication(application.id, 'pending', { status: 'rejected' });
+
+    await processPayouts();
+
+    expect(signed(application)).toEqual([]);
+    expect(await storage.getPayoutIntent(application.id)).toMatchObject({
+      status: 'failed',
+      lastError: 'Application was rejected',
+    });
+    expect((await storage.getApplication(application.id))?.status).toBe('rejected');
+    expect((await storage.getTask(application.taskId))?.totalCompletions).toBe(0);
+  });
+});
+
+describe('batch payouts', () => {
+  it('pays the first attempts of SOL payouts in shared transactions', async () => {
+    const applications: Application[] = [];
+    for (let i = 0; i < 25; i++) {
+      applications.push(await approve(await pendingApplication(1)));
+    }
+
+    await processPayouts();
+
+    // The mock chain fits 20 transfers in a transaction
+    const signatures = applications.map(application => signed(application)[0].signature);
+    expect(new Set(signatures).size).toBe(2);
+    for (const application of applications) {
+      expect(await storage.getApplication(application.id)).toMatchObject({
+        payoutStatus: 'confirmed',
+        txSignature: signed(application)[0].signature,
+      });
+      expect(await mockChain.getBalance(application.walletAddress)).toBeCloseTo(0.1);
+    }
+  });
+
+  it('sends token payouts on their own', async () => {
+    const mint = mockAddress('batch-token');
+    mockChain.setBalance(mockChain.getTreasuryAddress(), 100, mint);
+    const sol = await approve(await pendingApplication());
+    const token = await approve(await pendingApplication(2, mint), mint);
+
+    await processPayouts();
+
+    expect(signed(token)[0].signature).not.toBe(signed(sol)[0].signature);
+    expect((await storage.getPayoutIntent(token.id))?.status).toBe('confirmed');
+  });
+
+  it('retries each payout of an expired batch on its own', async () => {
+    const first = await approve(await pendingApplication());
+    const second = await approve(await pendingApplication());
+    mockChain.dropNextBroadcasts();
+    await processPayouts();
+    expect(signed(first)[0].signature).toBe(signed(second)[0].signature);
+
+    mockChain.advanceBlocks(200);
+    await processPayouts();
+    await processPayouts();
+
+    expect(signed(first)).toHaveLength(2);
+    expect(signed(first)[1].signature).not.toBe(signed(second)[1].signature);
+    for (const application of [first, second]) {
+      expect(await storage.getPayoutIntent(application.id)).toMatchObject({ status: 'confirmed', attempts: 2 });
+    }
+  });
+
+  it('drops a batch unsent when another worker claimed one of its payouts', async () => {
+    const first = await approve(await pendingApplication());
+    const second = await approve(await pendingApplication());
+    // Another worker claims the second payout while this batch is signed
+    vi.mocked(mockChain.prepareBatchTransfer).mockImplementationOnce(async (transfers) => {
+      const batch = await prepareBatchTransfer(transfers);
+      const intent = (await storage.getPayoutIntent(second.id))!;
+      await storage.transitionPayoutIntent(second.id, intent, { status: 'sending', attempts: 1, signature: 'other-worker' });
+      return batch;
+    });
+    const broadcasts = vi.spyOn(mockChain, 'broadcastTransfer');
+
+    await processPayouts();
+
+    expect(broadcasts).not.toHaveBeenCalled();
+    const handedBack = await storage.getPayoutIntent(first.id);
+    expect(handedBack).toMatchObject({ status: 'queued', attempts: 0 });
+    expect(handedBack?.signature).toBeUndefined();
+    broadcasts.mockRestore();
+  });
+});
@@ -0,0 +1,411 @@
+import { storage } from "../storage";
+import { envNumber } from "../env";
+import { chain, mintLabel, type PaymentResult, type PreparedTransfer } from "./chain";
+import { escrowCurrency, returnRejectedSlot } from "./escrow";
+import { recordPayoutRejected, recordPayoutSent } from "./ledger";
+import { countOverriddenPayout, payoutLimitDay, releasePayoutLimits } from "./limits";
+import { recordConfirmedPayout } from "./payoutHistory";
+import { checkTreasuryFloor } from "./treasury";
+import type { Application, PayoutIntent, PayoutIntentVersion } from "@shared/schema";
+
+const PAYOUT_WORKER_INTERVAL_MS = envNumber('PAYOUT_WORKER_INTERVAL_MS', 15_000);
+// Signed transfers per intent before it is marked failed
+const PAYOUT_MAX_ATTEMPTS = envNumber('PAYOUT_MAX_ATTEMPTS', 5);
+
+/**
+ * Queue the reward payment for an approved application, in SOL or in the
+ * given SPL token. A payout over a spending limit is held instead, with the
+ * limit as its reason; otherwise limitDay is the day it counted toward.
+ * Returns null if the application already has a payout intent.
+ */
+export async function enqueuePayout(
+  application: Application,
+  amount: number,
+  mint?: string,
+  { platformFee, heldReason, limitDay }: Pick<PayoutIntent, 'platformFee' | 'heldReason' | 'limitDay'> = {}
+): Promise<PayoutIntent | null> {
+  const now = Date.now();
+  const intent: PayoutIntent = {
+    applicationId: application.id,
+    taskId: application.taskId,
+    walletAddress: application.walletAddress,
+    amount,
+    mint,
+    platformFee,
+    status: heldReason ? 'held' : 'queued',
+    attempts: 0,
+    heldReason,
+    limitDay,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const created = await storage.createPayoutIntent(intent);
+  return created ? intent : null;
+}
+
+/**
+ * Put a failed payout back in the queue
+ */
+export async function retryPayout(intent: PayoutIntent): Promise<PayoutIntent | null> {
+  const retried = await storage.transitionPayoutIntent(intent.applicationId, versionOf(intent), {
+    status: 'queued',
+    attempts: 0,
+    signature: undefined,
+    lastValidBlockHeight: undefined,
+    updatedAt: Date.now(),
+  });
+  if (retried) {
+    await storage.updateApplication(intent.applicationId, { payoutStatus: 'queued' });
+  }
+  return retried;
+}
+
+/**
+ * Queue a payout held over a spending limit, on an admin's say-so. It then
+ * counts toward today's limits.
+ */
+export async function releaseHeldPayout(intent: PayoutIntent, admin: string): Promise<PayoutIntent | null> {
+  const now = Date.now();
+  const released = await storage.transitionPayoutIntent(intent.applicationId, versionOf(intent), {
+    status: 'queued',
+    overriddenBy: admin,
+    overriddenAt: now,
+    limitDay: payoutLimitDay(now),
+    updatedAt: now,
+  });
+  if (!released) return null;
+
+  await countOverriddenPayout(released);
+  await storage.updateApplication(intent.applicationId, { payoutStatus: 'queued' });
+  return released;
+}
+
+/**
+ * Refuse a payout held over a spending limit. It is never sent: the
+ * application is rejected, the completion slot freed and the reward returned
+ * to the task's budget.
+ */
+export async function rejectHeldPayout(intent: PayoutIntent, admin: string): Promise<PayoutIntent | null> {
+  const now = Date.now();
+  const rejected = await storage.transitionPayoutIntent(intent.applicationId, versionOf(intent), {
+    status: 'rejected',
+    lastError: `Rejected by ${admin}`,
+    overriddenBy: admin,
+    overriddenAt: now,
+    updatedAt: now,
+  });
+  if (!rejected) return null;
+
+  await storage.updateApplication(intent.applicationId, {
+    status: 'rejected',
+    payoutStatus: 'rejected',
+    reviewedAt: now,
+    reviewedBy: admin,
+  });
+  // A deleted task has no slots left to free, and its budget was released
+  // when it was deleted; the reward is booked as platform-funded
+  const task = await storage.getTask(intent.taskId);
+  if (task) {
+    await returnRejectedSlot(task, intent.applicationId);
+  }
+  await recordPayoutRejected(rejected, task?.agentId, escrowCurrency(intent.mint));
+  return rejected;
+}
+
+let processing = false;
+
+/**
+ * Work through every open payout intent once.
+ * A new transfer is only signed when the previous one for the same intent is
+ * known to have failed or expired, so an application is never paid twice.
+ * First attempts of SOL payouts are packed into batch transactions; token
+ * payouts and retries are sent one per transaction, so a transfer that keeps
+ * failing cannot hold up others. Nothing is sent while payouts are paused.
+ */
+export async function processPayouts(): Promise<void> {
+  if (processing) return;
+  processing = true;
+
+  try {
+    if (!(await checkTreasuryFloor())) return;
+
+    const intents = await storage.getOpenPayoutIntents();
+    const batchable: PayoutIntent[] = [];
+    for (const intent of intents) {
+      try {
+        if (intent.status === 'sending') {
+          await reconcilePayout(intent);
+        } else if (!intent.mint && intent.attempts === 0) {
+          // Batched intents are settled here, as sendPayout does for the others
+          if (await settleReview(intent)) {
+            batchable.push(intent);
+          } else {
+            await cancelPayout(intent);
+          }
+        } else {
+          await sendPayout(intent);
+        }
+      } catch (error) {
+        console.error(`Error processing payout for application ${intent.applicationId}:`, error);
+      }
+    }
+
+    await sendBatches(batchable);
+  } finally {
+    processing = false;
+  }
+}
+
+/**
+ * Process the outbox on an interval, starting with intents left over from a
+ * previous run
+ */
+export function startPayoutWorker(): NodeJS.Timeout {
+  const run = () => {
+    processPayouts().catch(error => console.error('Payout worker error:', error));
+  };
+  run();
+  return setInterval(run, PAYOUT_WORKER_INTERVAL_MS);
+}
+
+async function sendPayout(intent: PayoutIntent): Promise<void> {
+  if (!await settleReview(intent)) {
+    await cancelPayout(intent);
+    return;
+  }
+
+  if (intent.attempts >= PAYOUT_MAX_ATTEMPTS) {
+    await failPayout(intent, intent.lastError ?? 'Too many attempts');
+    return;
+  }
+
+  const prepared = await chain.prepareTransfer(intent.walletAddress, intent.amount, intent.mint);
+
+  // Record the signature before broadcasting. If another worker claimed the
+  // intent first, drop this transfer unsent.
+  const claimed = await storage.transitionPayoutIntent(intent.applicationId, versionOf(intent), {
+    status: 'sending',
+    attempts: intent.attempts + 1,
+    signature: prepared.signature,
+    lastValidBlockHeight: prepared.lastValidBlockHeight,
+    updatedAt: Date.now(),
+  });
+  if (!claimed) return;
+
+  await storage.updateApplication(intent.applicationId, { payoutStatus: 'sending' });
+
+  const result = await chain.broadcastTransfer(prepared);
+  await settlePayouts([claimed], result);
+}
+
+/**
+ * The intent is queued before the application's status is saved, so the
+ * review may still be pending: because the process died in between, or
+ * because a rejection is racing the approval. Settle it with the same
+ * compare-and-set as the review itself. Returns whether the application is
+ * approved and may be paid.
+ */
+async function settleReview(intent: PayoutIntent): Promise<boolean> {
+  const application = await storage.getApplication(intent.applicationId);
+  if (application?.status === 'pending') {
+    const approved = await storage.transitionApplication(intent.applicationId, 'pending', {
+      status: 'approved',
+      reviewedAt: Date.now(),
+      payoutStatus: 'queued',
+    });
+    if (approved) return true;
+    return (await storage.getApplication(intent.applicationId))?.status === 'approved';
+  }
+  return application?.status === 'approved';
+}
+
+async function sendBatches(intents: PayoutIntent[]): Promise<void> {
+  let remaining = intents;
+  while (remaining.length > 0) {
+    const prepared = await chain.prepareBatchTransfer(
+      remaining.map(intent => ({ toWallet: intent.walletAddress, amount: intent.amount }))
+    );
+    const batch = remaining.slice(0, prepared.count);
+    remaining = remaining.slice(prepared.count);
+
+    try {
+      await sendBatch(batch, prepared);
+    } catch (error) {
+      console.error(`Error sending payout batch ${prepared.signature}:`, error);
+    }
+  }
+}
+
+async function sendBatch(intents: PayoutIntent[], prepared: PreparedTransfer): Promise<void> {
+  // Claim every intent with the batch signature before broadcasting. If
+  // another worker claimed one first, hand back the others and drop the
+  // transaction unsent. Should the process die in between, the claimed
+  // intents expire and are retried one by one.
+  const claimed: PayoutIntent[] = [];
+  for (const intent of intents) {
+    const updated = await storage.transitionPayoutIntent(intent.applicationId, versionOf(intent), {
+      status: 'sending',
+      attempts: intent.attempts + 1,
+      signature: prepared.signature,
+      lastValidBlockHeight: prepared.lastValidBlockHeight,
+      updatedAt: Date.now(),
+    });
+    if (!updated) {
+      await unclaimPayouts(claimed);
+      return;
+    }
+    claimed.push(updated);
+  }
+
+  for (const intent of claimed) {
+    await storage.updateApplication(intent.applicationId, { payoutStatus: 'sending' });
+  }
+
+  const result = await chain.broadcastTransfer(prepared);
+  await settlePayouts(claimed, result);
+}
+
+// Apply the outcome of a broadcast to the intents it paid. An unknown outcome
+// leaves them in "sending": the transfer may still land, so they are only
+// reconciled against the chain on a later pass.
+async function settlePayouts(intents: PayoutIntent[], result: PaymentResult): Promise<void> {
+  switch (result.status) {
+    case 'confirmed':
+      for (const intent of intents) {
+        await confirmPayout(intent);
+      }
+      break;
+    case 'failed':
+      for (const intent of intents) {
+        await requeuePayout(intent, result.error);
+      }
+      break;
+    case 'unknown':
+      console.warn(`Outcome of payout transfer ${result.signature} is unknown: ${result.error}`);
+      break;
+  }
+}
+
+// Undo claims for a transaction that was never broadcast
+async function unclaimPayouts(intents: PayoutIntent[]): Promise<void> {
+  for (const intent of intents) {
+    await storage.transitionPayoutIntent(intent.applicationId, versionOf(intent), {
+      status: 'queued',
+      attempts: intent.attempts - 1,
+      signature: undefined,
+      lastValidBlockHeight: undefined,
+      updatedAt: Date.now(),
+    });
+  }
+}
+
+async function reconcilePayout(intent: PayoutIntent): Promise<void> {
+  if (!intent.signature || intent.lastValidBlockHeight === undefined) {
+    await requeuePayout(intent, 'Missing transfer signature');
+    return;
+  }
+
+  const status = await chain.getTransferStatus(intent.signature, intent.lastValidBlockHeight);
+  switch (status) {
+    case 'confirmed':
+      await confirmPayout(intent);
+      break;
+    case 'failed':
+      await requeuePayout(intent, 'Transaction failed on chain');
+      break;
+    case 'expired':
+      await requeuePayout(intent, 'Transaction expired before confirmation');
+      break;
+    case 'pending':
+      // Still able to land; check again on the next pass
+      break;
+  }
+}
+
+async function confirmPayout(intent: PayoutIntent): Promise<void> {
+  const now = Date.now();
+
+  // The application is updated first: if the process dies before the intent
+  // is marked confirmed, reconciliation repeats this harmlessly.
+  const application = await storage.updateApplication(intent.applicationId, {
+    status: 'approved',
+    payoutStatus: 'confirmed',
+    txSignature: intent.signature,
+    paidAt: now,
+  });
+
+  const confirmed = await storage.transitionPayoutIntent(intent.applicationId, versionOf(intent), {
+    status: 'confirmed',
+    lastError: undefined,
+    confirmedAt: now,
+    updatedAt: now,
+  });
+  if (confirmed) {
+    await recordPayoutSent(confirmed, escrowCurrency(intent.mint));
+    await recordConfirmedPayout(confirmed, application);
+    // totalPayouts is denominated in SOL
+    if (!intent.mint) {
+      await storage.incrementStat('totalPayouts', intent.amount);
+    }
+    console.log(`Payment sent: ${intent.amount} ${mintLabel(intent.mint)} to ${intent.walletAddress}, signature: ${intent.signature}`);
+  }
+}
+
+async function requeuePayout(intent: PayoutIntent, reason: string): Promise<void> {
+  if (intent.attempts >= PAYOUT_MAX_ATTEMPTS) {
+    await failPayout(intent, reason);
+    return;
+  }
+
+  const requeued = await storage.transitionPayoutIntent(intent.applicationId, versionOf(intent), {
+    status: 'queued',
+    signature: undefined,
+    lastValidBlockHeight: undefined,
+    lastError: reason,
+    updatedAt: Date.now(),
+  });
+  if (requeued) {
+    await storage.updateApplication(intent.applicationId, { payoutStatus: 'queued' });
+  }
+}
+
+async function failPayout(intent: PayoutIntent, reason: string): Promise<void> {
+  const failed = await storage.transitionPayoutIntent(intent.applicationId, versionOf(intent), {
+    status: 'failed',
+    lastError: reason,
+    updatedAt: Date.now(),
+  });
+  if (failed) {
+    await storage.updateApplication(intent.applicationId, { payoutStatus: 'failed' });
+    console.error(`Payout for application ${intent.applicationId} failed: ${reason}`);
+  }
+}
+
+// The application was rejected before anything was signed: drop the intent
+// and free the completion slot the approval reserved
+async function cancelPayout(intent: PayoutIntent): Promise<void> {
+  const cancelled = await storage.transitionPayoutIntent(intent.applicationId, versionOf(intent), {
+    status: 'failed',
+    lastError: 'Application was rejected',
+    updatedAt: Date.now(),
+  });
+  if (!cancelled) return;
+  await releasePayoutLimits(cancelled);
+
+  // A deleted task has no slots left to free, and its budget was released
+  // when it was deleted; the reward is booked as platform-funded
+  const task = await storage.getTask(intent.taskId);
+  if (task) {
+    await returnRejectedSlot(task, intent.applicationId);
+  }
+  await recordPayoutRejected(cancelled, task?.agentId, escrowCurrency(intent.mint));
+}
+
+function versionOf(intent: PayoutIntent): PayoutIntentVersion {
+  return {
+    status: intent.status,
+    attempts: intent.attempts,
+    signature: intent.signature,
+  };
+}
@@ -0,0 +1,154 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { storage } from "../storage";
+import { chain, mockAddress, MockChainProvider } from "./chain";
+import { getLatestReconciliation, runReconciliation } from "./reconciliation";
+
+const mockChain = chain as MockChainProvider;
+const treasury = mockChain.getTreasuryAddress();
+const DAY_MS = 24 * 60 * 60_000;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// An application whose payout was confirmed with the given signature
+async function confirmedPayout(
+  signature: string,
+  { amount = 0.1, walletAddress = mockAddress(`recipient:${signature}`), lastValidBlockHeight }: {
+    amount?: number;
+    walletAddress?: string;
+    lastValidBlockHeight?: number;
+  } = {}
+) {
+  const task = await storage.createTask({
+    title: 'Share the launch post',
+    description: 'Tell your followers about the launch',
+    instructions: 'Post a link to the launch announcement',
+    proofType: 'link',
+    reward: amount,
+    difficulty: 'easy',
+    category: 'social',
+    active: true,
+  });
+  const application = await storage.createApplication(
+    { taskId: task.id, walletAddress, proofContent: 'https://example.com/1' },
+    task.title,
+    task.proofType
+  );
+  await storage.updateApplication(application.id, { status: 'approved', payoutStatus: 'confirmed', txSignature: signature });
+  await storage.createPayoutIntent({
+    applicationId: application.id,
+    taskId: task.id,
+    walletAddress: application.walletAddress,
+    amount,
+    status: 'confirmed',
+    attempts: 1,
+    signature,
+    lastValidBlockHeight,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    confirmedAt: Date.now(),
+  });
+  return application;
+}
+
+describe('reconciliation', () => {
+  it('reports treasury transfers that pay no application and stores the report', async () => {
+    const signature = mockChain.recordTransfer(treasury, mockAddress('stranger'), 0.5);
+
+    const report = await runReconciliation();
+
+    expect(report.status).toBe('completed');
+    expect(report.discrepancies).toContainEqual(expect.objectContaining({ type: 'orphan_outflow', signature }));
+    expect(await getLatestReconciliation()).toEqual(report);
+  });
+
+  it('reports a payout that differs from its transfer', async () => {
+    const application = await confirmedPayout('pending-signature', { amount: 0.2 });
+    const signature = mockChain.recordTransfer(treasury, application.walletAddress, 0.1);
+    await storage.updateApplication(application.id, { txSignature: signature });
+    const intent = await storage.getPayoutIntent(application.id);
+    await storage.transitionPayoutIntent(application.id, intent!, { signature });
+
+    const report = await runReconciliation();
+
+    expect(report.discrepancies).toContainEqual(expect.objectContaining({
+      type: 'amount_mismatch',
+      signature,
+      applicationId: application.id,
+    }));
+  });
+
+  it('matches each transfer of a batch to its own payout', async () => {
+    const wallets = [mockAddress('batch-a'), mockAddress('batch-b')];
+    const batch = await mockChain.prepareBatchTransfer(wallets.map(toWallet => ({ toWallet, amount: 0.1 })));
+    await mockChain.broadcastTransfer(batch);
+    for (const walletAddress of wallets) {
+      await confirmedPayout(batch.signature, { walletAddress });
+    }
+
+    const report = await runReconciliation();
+
+    expect(report.discrepancies.filter(discrepancy => discrepancy.signature === batch.signature)).toEqual([]);
+  });
+
+  it('pages through every transfer within the lookback', async () => {
+    const signatures = Array.from({ length: 60 }, (_, i) => mockChain.recordTransfer(treasury, mockAddress(`paged-${i}`), 0.01));
+
+    const report = await runReconciliation();
+
+    const orphans = report.discrepancies.map(discrepancy => discrepancy.signature);
+    expect(orphans).toEqual(expect.arrayContaining(signatures));
+    expect(report.checked.outflows).toBeGreaterThanOrEqual(60);
+  });
+
+  it('stops paging once a page reaches past the lookback', async () => {
+    const now = Date.now();
+    vi.spyOn(Date, 'now').mockReturnValue(now - 30 * DAY_MS);
+    const old = Array.from({ length: 120 }, (_, i) => mockChain.recordTransfer(treasury, mockAddress(`old-${i}`), 0.01));
+    vi.mocked(Date.now).mockReturnValue(now);
+    const pages = vi.spyOn(mockChain, 'getOutgoingTransactionPage');
+
+    const report = await runReconciliation();
+
+    // The oldest transfers are pages past the first one to reach them
+    const read = await Promise.all(pages.mock.results.map(result => result.value));
+    expect(read.flatMap(page => page.payouts).map(payout => payout.signature)).not.toContain(old[0]);
+    expect(report.discrepancies.map(discrepancy => discrepancy.signature)).not.toContain(old[119]);
+  });
+
+  it('looks up a payout without an expiry height by signature only', async () => {
+    const application = await confirmedPayout(mockAddress('never-landed'));
+    mockChain.advanceBlocks(1000);
+
+    const report = await runReconciliation();
+
+    expect(report.discrepancies).toContainEqual(expect.objectContaining({
+      type: 'missing_confirmation',
+      applicationId: application.id,
+      actual: 'pending',
+    }));
+  });
+
+  it('marks the run failed when the chain cannot be read, keeping what it found', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const signature = mockChain.recordTransfer(treasury, mockAddress('before-failure'), 0.5);
+    await confirmedPayout(mockAddress('status-unreadable'), { lastValidBlockHeight: 1 });
+    vi.spyOn(mockChain, 'getTransferStatus').mockRejectedValue(new Error('RPC unavailable'));
+
+    const report = await runReconciliation();
+
+    expect(report).toMatchObject({ status: 'failed', error: 'RPC unavailable' });
+    expect(report.discrepancies).toContainEqual(expect.objectContaining({ type: 'orphan_outflow', signature }));
+    expect(await getLatestReconciliation()).toEqual(report);
+  });
+
+  it('marks the run failed when a page of history cannot be read', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(mockChain, 'getOutgoingTransactionPage').mockRejectedValue(new Error('429 Too Many Requests'));
+
+    const report = await runReconciliation();
+
+    expect(report).toMatchObject({ status: 'failed', error: '429 Too Many Requests' });
+  });
+});
@@ -0,0 +1,279 @@
+import { storage } from "../storage";
+import { envNumber } from "../env";
+import { chain, mintLabel } from "./chain";
+import { verifyRegistrationPayment } from "./registration";
+import type {
+  Application,
+  Discrepancy,
+  Payout,
+  PayoutIntent,
+  ReconciliationReport
+} from "@shared/schema";
+
+const RECONCILIATION_INTERVAL_MS = envNumber('RECONCILIATION_INTERVAL_MS', 60 * 60_000);
+// Transfers, payouts and registrations older than this are not checked again
+const RECONCILIATION_LOOKBACK_MS = envNumber('RECONCILIATION_LOOKBACK_MS', 7 * 24 * 60 * 60_000);
+
+// Wait after a webhook reports treasury activity, so a burst of transactions
+// is reconciled in one run
+const RECONCILIATION_DEBOUNCE_MS = 30_000;
+
+let running: Promise<ReconciliationReport> | null = null;
+let scheduled: NodeJS.Timeout | null = null;
+
+/**
+ * Report of the last reconciliation run, if any has run
+ */
+export function getLatestReconciliation(): Promise<ReconciliationReport | null> {
+  return storage.getReconciliationReport();
+}
+
+/**
+ * Compare treasury transactions and registration payments on chain with the
+ * applications and agents that account for them, and store the report. A run
+ * that cannot read the chain is reported as failed, with the discrepancies
+ * found before the error. A run already in progress is joined rather than
+ * started again.
+ */
+export function runReconciliation(): Promise<ReconciliationReport> {
+  if (!running) {
+    running = reconcile().finally(() => {
+      running = null;
+    });
+  }
+  return running;
+}
+
+/**
+ * Reconcile soon, once activity has settled. Calls before the run starts
+ * share it.
+ */
+export function scheduleReconciliation(): void {
+  if (scheduled) return;
+  scheduled = setTimeout(() => {
+    scheduled = null;
+    runReconciliation().catch(error => console.error('Reconciliation error:', error));
+  }, RECONCILIATION_DEBOUNCE_MS);
+}
+
+/**
+ * Reconcile on an interval, starting now
+ */
+export function startReconciliationWorker(): NodeJS.Timeout {
+  const run = () => {
+    runReconciliation()
+      .then(report => {
+        if (report.status === 'failed') {
+          console.error('Reconciliation failed:', report.error);
+        } else if (report.discrepancies.length) {
+          console.warn(`Reconciliation found ${report.discrepancies.length} discrepancies`);
+        }
+      })
+      .catch(error => console.error('Reconciliation error:', error));
+  };
+  run();
+  return setInterval(run, RECONCILIATION_INTERVAL_MS);
+}
+
+async function reconcile(): Promise<ReconciliationReport> {
+  const startedAt = Date.now();
+  const since = startedAt - RECONCILIATION_LOOKBACK_MS;
+  const report: ReconciliationReport = {
+    status: 'completed',
+    startedAt,
+    finishedAt: startedAt,
+    since,
+    checked: { outflows: 0, payouts: 0, registrations: 0 },
+    discrepancies: [],
+  };
+
+  try {
+    await check(report);
+  } catch (error) {
+    console.error('Error reconciling:', error);
+    report.status = 'failed';
+    report.error = error instanceof Error ? error.message : 'Reconciliation failed';
+  }
+
+  report.finishedAt = Date.now();
+  await storage.saveReconciliationReport(report);
+  return report;
+}
+
+// Every treasury outflow within the lookback, newest first, read a page at a time
+async function getRecentOutflows(since: number): Promise<Payout[]> {
+  const treasury = chain.getTreasuryAddress();
+  const outflows: Payout[] = [];
+  let before: string | undefined;
+  do {
+    const page = await chain.getOutgoingTransactionPage(treasury, before);
+    outflows.push(...page.payouts.filter(payout => payout.timestamp >= since));
+    if (page.oldestTimestamp !== undefined && page.oldestTimestamp < since) break;
+    before = page.before;
+  } while (before);
+  return outflows;
+}
+
+// Add the discrepancies found to the report as they are found, so that a
+// failed run still reports them
+async function check(report: ReconciliationReport): Promise<void> {
+  const { since, checked, discrepancies } = report;
+
+  const [outflows, intents, applications, agents] = await Promise.all([
+    getRecentOutflows(since),
+    storage.getAllPayoutIntents(),
+    storage.getAllApplications(),
+    storage.getAllAgents(),
+  ]);
+  checked.outflows = outflows.length;
+
+  // A batch transaction pays several intents under one signature
+  const intentsBySignature = new Map<string, PayoutIntent[]>();
+  for (const intent of intents) {
+    if (!intent.signature) continue;
+    const batch = intentsBySignature.get(intent.signature) ?? [];
+    batch.push(intent);
+    intentsBySignature.set(intent.signature, batch);
+  }
+  // Applications paid before the payout outbox have no intent
+  const applicationsBySignature = new Map<string, Application>();
+  const applicationsById = new Map<string, Application>();
+  for (const application of applications) {
+    applicationsById.set(application.id, application);
+    if (application.txSignature) applicationsBySignature.set(application.txSignature, application);
+  }
+
+  // Every treasury outflow should pay an application
+  const seen = new Set<string>();
+  const matched = new Set<PayoutIntent>();
+  for (const outflow of outflows) {
+    seen.add(outflow.signature);
+    const batch = intentsBySignature.get(outflow.signature);
+    if (batch) {
+      const intent = batch.find(candidate => candidate.walletAddress === outflow.to && !matched.has(candidate))
+        ?? (batch.length === 1 ? batch[0] : undefined);
+      if (intent) {
+        matched.add(intent);
+        discrepancies.push(...compareOutflow(outflow, intent));
+      } else {
+        discrepancies.push({
+          type: 'recipient_mismatch',
+          signature: outflow.signature,
+          expected: batch.map(candidate => candidate.walletAddress).join(', '),
+          actual: outflow.to,
+          details: 'Batch transfer went to a wallet none of its applications belong to',
+        });
+      }
+    } else if (!applicationsBySignature.has(outflow.signature)) {
+      discrepancies.push({
+        type: 'orphan_outflow',
+        signature: outflow.signature,
+        actual: `${outflow.amount} ${mintLabel(outflow.mint)} to ${outflow.to}`,
+        details: 'Treasury transfer does not match any application payout',
+      });
+    }
+  }
+
+  // Every recent payout recorded as confirmed should have landed
+  const confirmed = intents.filter(intent => intent.status === 'confirmed' && (intent.confirmedAt ?? 0) >= since);
+  checked.payouts = confirmed.length;
+  for (const intent of confirmed) {
+    const application = applicationsById.get(intent.applicationId);
+    if (!intent.signature || application?.txSignature !== intent.signature) {
+      discrepancies.push({
+        type: 'missing_confirmation',
+        signature: intent.signature,
+        applicationId: intent.applicationId,
+        details: 'Application does not record the signature of its confirmed payout',
+      });
+      continue;
+    }
+    // Outflows are known to have confirmed; only older payouts need a lookup
+    if (seen.has(intent.signature)) continue;
+
+    // Payouts sent before their expiry height was recorded can only be
+    // looked up by signature
+    const status = await chain.getTransferStatus(intent.signature, intent.lastValidBlockHeight);
+    if (status !== 'confirmed') {
+      discrepancies.push({
+        type: 'missing_confirmation',
+        signature: intent.signature,
+        applicationId: intent.applicationId,
+        actual: status,
+        details: 'Payout is recorded as confirmed but its transaction is not',
+      });
+    }
+  }
+
+  // Every recent paid registration should have been paid for
+  const registrations = agents.filter(agent => agent.createdAt >= since && agent.paymentTxSignature);
+  checked.registrations = registrations.length;
+  for (const agent of registrations) {
+    const verification = await verifyRegistrationPayment(
+      agent.paymentTxSignature!,
+      agent.walletAddress,
+      agent.paymentAmount
+    );
+    if (!verification.valid) {
+      discrepancies.push({
+        type: 'unverified_registration',
+        signature: agent.paymentTxSignature,
+        agentId: agent.id,
+        details: verification.error ?? 'Registration payment did not verify',
+      });
+    } else if (!sameAmount(verification.amount ?? 0, agent.paymentAmount)) {
+      discrepancies.push({
+        type: 'amount_mismatch',
+        signature: agent.paymentTxSignature,
+        agentId: agent.id,
+        expected: String(agent.paymentAmount),
+        actual: String(verification.amount),
+        details: 'Registration payment differs from the amount recorded for the agent',
+      });
+    }
+  }
+}
+
+function compareOutflow(outflow: Payout, intent: PayoutIntent): Discrepancy[] {
+  // Creating a recipient's token account moves SOL for rent in the same
+  // transaction; only the token transfer is the payout
+  if ((outflow.mint ?? null) !== (intent.mint ?? null)) {
+    return intent.mint && !outflow.mint ? [] : [{
+      type: 'amount_mismatch',
+      signature: outflow.signature,
+      applicationId: intent.applicationId,
+      expected: mintLabel(intent.mint),
+      actual: mintLabel(outflow.mint),
+      details: 'Payout was sent in a different currency',
+    }];
+  }
+
+  const discrepancies: Discrepancy[] = [];
+  if (outflow.to !== intent.walletAddress) {
+    discrepancies.push({
+      type: 'recipient_mismatch',
+      signature: outflow.signature,
+      applicationId: intent.applicationId,
+      expected: intent.walletAddress,
+      actual: outflow.to,
+      details: 'Payout went to a different wallet than the application',
+    });
+  }
+  if (!sameAmount(outflow.amount, intent.amount)) {
+    discrepancies.push({
+      type: 'amount_mismatch',
+      signature: outflow.signature,
+      applicationId: intent.applicationId,
+      expected: `${intent.amount} ${mintLabel(intent.mint)}`,
+      actual: `${outflow.amount} ${mintLabel(outflow.mint)}`,
+      details: 'Payout amount differs from the reward',
+    });
+  }
+  return discrepancies;
+}
+
+// Transfers are rounded to the currency's smallest unit, so amounts that
+// differ by less than a micro-unit are equal
+function sameAmount(a: number, b: number): boolean {
+  return Math.abs(a - b) < 1e-6;
+}
@@ -0,0 +1,163 @@
+import { envNumber } from "../env";
+import { storage, roundEscrowAmount } from "../storage";
+import { chain, resolveMint, type TransferVerification } from "./chain";
+import { escrowCurrency } from "./escrow";
+import { recordRegistrationFee } from "./ledger";
+import type { Agent, NewAgent, RegistrationPlan, RegistrationQuote } from "@shared/schema";
+
+export const REGISTRATION_WALLET = process.env.REGISTRATION_WALLET || "CKpRpJ2JTi7LuvoMRp4wKdzZbW6gZHhY612Rz5fLwpJ8";
+// Currency of the registration fee: SOL (default), a symbol such as "USDC" or a mint address
+const REGISTRATION_CURRENCY = resolveMint(process.env.REGISTRATION_CURRENCY);
+if (!REGISTRATION_CURRENCY.success) {
+  throw new Error(`Invalid REGISTRATION_CURRENCY: ${REGISTRATION_CURRENCY.error}`);
+}
+export const REGISTRATION_MINT = REGISTRATION_CURRENCY.mint;
+// Price of the default plan when REGISTRATION_PLANS is not set
+const REGISTRATION_FEE = envNumber('REGISTRATION_FEE', 0.1);
+// Plans agents choose from when registering, as "name:price:taskQuota" entries
+// (e.g. "basic:0.1:10,pro:1"); a plan without a quota may create any number
+// of tasks. The first plan is the default.
+const REGISTRATION_PLANS = parsePlans(process.env.REGISTRATION_PLANS);
+// Promo codes as "CODE:percentOff" entries (e.g. "LAUNCH:50,PARTNER:100")
+const REGISTRATION_PROMO_CODES = parsePromoCodes(process.env.REGISTRATION_PROMO_CODES);
+// Wallets that register on any plan for free
+const REGISTRATION_FREE_WALLETS = new Set(
+  (process.env.REGISTRATION_FREE_WALLETS ?? '').split(',').map(wallet => wallet.trim()).filter(Boolean)
+);
+
+export type RegistrationQuoteResult =
+  | { success: true; quote: RegistrationQuote }
+  | { success: false; error: string };
+
+// Failures carry the HTTP status to respond with
+export type RegistrationResult =
+  | { success: true; agent: Agent }
+  | { success: false; status: number; error: string };
+
+/**
+ * Plans on offer, in the order they are listed
+ */
+export function getRegistrationPlans(): RegistrationPlan[] {
+  return REGISTRATION_PLANS.map(plan => ({ ...plan }));
+}
+
+/**
+ * What a wallet pays to register on a plan (the default plan if none is
+ * given), after any promo code. Allowlisted wallets pay nothing.
+ */
+export function quoteRegistration(
+  walletAddress: string,
+  planName?: string,
+  promoCode?: string
+): RegistrationQuoteResult {
+  const plan = planName ? REGISTRATION_PLANS.find(candidate => candidate.name === planName) : REGISTRATION_PLANS[0];
+  if (!plan) {
+    return {
+      success: false,
+      error: `Unknown plan "${planName}". Available plans: ${REGISTRATION_PLANS.map(candidate => candidate.name).join(', ')}`,
+    };
+  }
+
+  let price = plan.price;
+  let code: string | undefined;
+  if (promoCode) {
+    code = promoCode.trim().toUpperCase();
+    const percentOff = REGISTRATION_PROMO_CODES.get(code);
+    if (percentOff === undefined) {
+      return { success: false, error: 'Invalid promo code' };
+    }
+    price = roundEscrowAmount(price * (100 - percentOff) / 100);
+  }
+  if (REGISTRATION_FREE_WALLETS.has(walletAddress)) {
+    price = 0;
+  }
+
+  return {
+    success: true,
+    quote: { plan: plan.name, taskQuota: plan.taskQuota, price, promoCode: code },
+  };
+}
+
+/**
+ * Verify that at least the given registration price was paid from a wallet
+ * to the registration wallet
+ */
+export async function verifyRegistrationPayment(
+  txSignature: string,
+  fromWallet: string,
+  amount: number,
+  mint: string | undefined = REGISTRATION_MINT
+): Promise<TransferVerification> {
+  return chain.verifyTransfer(txSignature, fromWallet, REGISTRATION_WALLET, amount, mint);
+}
+
+/**
+ * Create an agent whose payment, if any, has been verified. The payment
+ * signature is claimed atomically, so only one concurrent registration can
+ * redeem it, and handed back if the agent cannot be created.
+ */
+export async function createRegisteredAgent(newAgent: NewAgent): Promise<RegistrationResult> {
+  const signature = newAgent.paymentTxSignature;
+  if (signature) {
+    const consumed = await storage.consumeSignature({
+      signature,
+      purpose: 'registration',
+      walletAddress: newAgent.walletAddress,
+      consumedAt: Date.now(),
+    });
+    if (!consumed) {
+      return { success: false, status: 409, error: 'Payment signature has already been used' };
+    }
+  }
+
+  let agent: Agent;
+  try {
+    agent = await storage.createAgent(newAgent);
+  } catch (error) {
+    if (signature) {
+      await storage.releaseSignature(signature);
+    }
+    throw error;
+  }
+  await recordRegistrationFee(agent, escrowCurrency(REGISTRATION_MINT));
+  return { success: true, agent };
+}
+
+function parsePlans(value: string | undefined): RegistrationPlan[] {
+  if (!value?.trim()) {
+    return [{ name: 'basic', price: REGISTRATION_FEE }];
+  }
+
+  const plans: RegistrationPlan[] = [];
+  for (const entry of value.split(',')) {
+    const [name, price, quota, ...rest] = entry.split(':').map(part => part.trim());
+    const plan: RegistrationPlan = { name, price: Number(price) };
+    if (quota) plan.taskQuota = Number(quota);
+
+    const valid = name && price && !rest.length && Number.isFinite(plan.price) && plan.price >= 0 &&
+      (plan.taskQuota === undefined || (Number.isInteger(plan.taskQuota) && plan.taskQuota >= 0));
+    if (!valid) {
+      throw new Error(`REGISTRATION_PLANS must be "name:price" or "name:price:taskQuota" entries, got "${entry}"`);
+    }
+    if (plans.some(existing => existing.name === name)) {
+      throw new Error(`REGISTRATION_PLANS lists plan "${name}" more than once`);
+    }
+    plans.push(plan);
+  }
+  return plans;
+}
+
+function parsePromoCodes(value: string | undefined): Map<string, number> {
+  const codes = new Map<string, number>();
+  for (const entry of (value ?? '').split(',')) {
+    if (!entry.trim()) continue;
+    const separator = entry.lastIndexOf(':');
+    const code = entry.slice(0, separator).trim().toUpperCase();
+    const percentOff = Number(entry.slice(separator + 1));
+    if (separator < 1 || !code || !Number.isFinite(percentOff) || percentOff <= 0 || percentOff > 100) {
+      throw new Error(`REGISTRATION_PROMO_CODES must be "CODE:percentOff" entries, got "${entry}"`);
+    }
+    codes.set(code, percentOff);
+  }
+  return codes;
+}
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { storage } from "../storage";
+import { chain, mockAddress, MockChainProvider } from "./chain";
+import { REGISTRATION_WALLET } from "./registration";
+import {
+  checkRegistrationIntent,
+  createRegistrationIntent,
+  processRegistrationIntents,
+  solanaPayUrl
+} from "./registrationIntents";
+import type { RegistrationIntent } from "@shared/schema";
+
+const mockChain = chain as MockChainProvider;
+
+let alerts: ReturnType<typeof vi.spyOn>;
+
+beforeEach(() => {
+  alerts = vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+let wallets = 0;
+
+// A pending intent for a fresh wallet on the default plan
+async function pendingIntent(): Promise<RegistrationIntent> {
+  const created = await createRegistrationIntent('Test agent', mockAddress(`intent-wallet-${++wallets}`));
+  if (!created.success) throw new Error(created.error);
+  return created.intent;
+}
+
+// Pay an intent from a wallet, tagging the transfer with its reference
+function pay(intent: RegistrationIntent, { from = intent.walletAddress, amount = intent.amount } = {}): string {
+  return mockChain.recordTransfer(from, REGISTRATION_WALLET, amount, { reference: intent.reference });
+}
+
+describe('registration intents', () => {
+  it('asks for the plan price with the intent\'s reference key', async () => {
+    const intent = await pendingIntent();
+
+    expect(intent).toMatchObject({ plan: 'basic', amount: 0.1, status: 'pending' });
+    expect(solanaPayUrl(intent)).toBe(
+      `solana:${REGISTRATION_WALLET}?amount=0.1&reference=${intent.reference}` +
+      '&label=MoltBoss&message=Agent%20registration%20%28basic%20plan%29'
+    );
+  });
+
+  it('refuses a wallet that is already an agent', async () => {
+    const intent = await pendingIntent();
+    pay(intent);
+    await checkRegistrationIntent(intent);
+
+    const again = await createRegistrationIntent('Test agent', intent.walletAddress);
+    expect(again).toMatchObject({ success: false, status: 400, error: 'Wallet already registered as an agent' });
+  });
+
+  it('creates the agent once the payment lands', async () => {
+    const intent = await pendingIntent();
+    expect(await checkRegistrationIntent(intent)).toMatchObject({ status: 'pending' });
+
+    const signature = pay(intent);
+    const completed = await checkRegistrationIntent(intent);
+
+    const agent = await storage.getAgentByWallet(intent.walletAddress);
+    expect(agent).toMatchObject({ plan: 'basic', paymentTxSignature: signature, paymentAmount: 0.1 });
+    expect(completed).toMatchObject({ status: 'completed', signature, agentId: agent!.id });
+  });
+
+  it('creates one agent from concurrent checks', async () => {
+    const intent = await pendingIntent();
+    pay(intent);
+
+    await Promise.all([checkRegistrationIntent(intent), processRegistrationIntents(), checkRegistrationIntent(intent)]);
+
+    const agents = await storage.getAllAgents();
+    expect(agents.filter(agent => agent.walletAddress === intent.walletAddress)).toHaveLength(1);
+    expect((await storage.getRegistrationIntent(intent.id))?.status).toBe('completed');
+  });
+
+  it('fails and alerts on a payment from another wallet', async () => {
+    const intent = await pendingIntent();
+    const signature = pay(intent, { from: mockAddress('someone-else') });
+
+    const failed = await checkRegistrationIntent(intent);
+
+    expect(failed).toMatchObject({ status: 'failed', signature });
+    expect(failed.error).toMatch(/^Payment does not match the intent/);
+    expect(alerts).toHaveBeenCalledWith(expect.stringContaining('registration_intent_failed'));
+    expect(await storage.getAgentByWallet(intent.walletAddress)).toBeNull();
+  });
+
+  it('expires an unpaid intent and still accepts a late payment', async () => {
+    const intent = await pendingIntent();
+    vi.spyOn(Date, 'now').mockReturnValue(intent.expiresAt + 1);
+
+    const expired = await checkRegistrationIntent(intent);
+    expect(expired.status).toBe('expired');
+
+    pay(intent);
+    const completed = await checkRegistrationIntent(expired);
+    expect(completed.status).toBe('completed');
+    expect(await storage.getAgentByWallet(intent.walletAddress)).not.toBeNull();
+  });
+
+  it('stops looking for a late payment after the window', async () => {
+    const intent = await pendingIntent();
+    vi.spyOn(Date, 'now').mockReturnValue(intent.expiresAt + 1);
+    const expired = await checkRegistrationIntent(intent);
+
+    vi.mocked(Date.now).mockReturnValue(intent.expiresAt + 25 * 60 * 60_000);
+    pay(intent);
+
+    expect(await checkRegistrationIntent(expired)).toMatchObject({ status: 'expired' });
+    expect(await storage.getAgentByWallet(intent.walletAddress)).toBeNull();
+  });
+});
@@ -0,0 +1,235 @@
+import { v4 as uuidv4 } from "uuid";
+import { Keypair } from "@solana/web3.js";
+import { envNumber } from "../env";
+import { storage } from "../storage";
+import { chain } from "./chain";
+import {
+  createRegisteredAgent,
+  quoteRegistration,
+  verifyRegistrationPayment,
+  REGISTRATION_MINT,
+  REGISTRATION_WALLET
+} from "./registration";
+import { sendAlert } from "./alerts";
+import type { RegistrationIntent } from "@shared/schema";
+
+// How long an agent has to pay a registration intent
+const REGISTRATION_INTENT_TTL_MS = envNumber('REGISTRATION_INTENT_TTL_MS', 30 * 60_000);
+const REGISTRATION_INTENT_POLL_INTERVAL_MS = envNumber('REGISTRATION_INTENT_POLL_INTERVAL_MS', 10_000);
+// How long after expiring an intent is still checked for a late payment
+const REGISTRATION_LATE_PAYMENT_WINDOW_MS = envNumber('REGISTRATION_LATE_PAYMENT_WINDOW_MS', 24 * 60 * 60_000);
+// Expired intents are looked up this often, as finding them reads every intent
+const LATE_PAYMENT_CHECK_INTERVAL_MS = 60_000;
+// Shown by wallets when they open the payment request
+const SOLANA_PAY_LABEL = 'MoltBoss';
+
+export type RegistrationIntentResult =
+  | { success: true; intent: RegistrationIntent; url: string }
+  | { success: false; status: number; error: string };
+
+// Checks in progress by intent id, so the worker and a status request do
+// not look up the same intent at once
+const checking = new Map<string, Promise<RegistrationIntent>>();
+let lastLatePaymentCheck = 0;
+
+/**
+ * Start a registration paid through Solana Pay. The returned URL asks the
+ * agent's wallet to pay the plan price with the intent's reference key.
+ */
+export async function createRegistrationIntent(
+  name: string,
+  walletAddress: string,
+  plan?: string,
+  promoCode?: string
+): Promise<RegistrationIntentResult> {
+  if (await storage.getAgentByWallet(walletAddress)) {
+    return { success: false, status: 400, error: 'Wallet already registered as an agent' };
+  }
+
+  const quoted = quoteRegistration(walletAddress, plan, promoCode);
+  if (!quoted.success) {
+    return { success: false, status: 400, error: quoted.error };
+  }
+  const { quote } = quoted;
+  if (quote.price === 0) {
+    return {
+      success: false,
+      status: 400,
+      error: 'Registration is free for this wallet. Register with POST /api/agent/register',
+    };
+  }
+
+  const now = Date.now();
+  const intent: RegistrationIntent = {
+    id: uuidv4(),
+    reference: Keypair.generate().publicKey.toBase58(),
+    name,
+    walletAddress,
+    plan: quote.plan,
+    taskQuota: quote.taskQuota,
+    promoCode: quote.promoCode,
+    amount: quote.price,
+    mint: REGISTRATION_MINT,
+    status: 'pending',
+    createdAt: now,
+    expiresAt: now + REGISTRATION_INTENT_TTL_MS,
+    updatedAt: now,
+  };
+  await storage.createRegistrationIntent(intent);
+  return { success: true, intent, url: solanaPayUrl(intent) };
+}
+
+/**
+ * Solana Pay transfer request URL for an intent
+ */
+export function solanaPayUrl(intent: RegistrationIntent): string {
+  const params = new URLSearchParams({ amount: formatAmount(intent.amount) });
+  if (intent.mint) params.set('spl-token', intent.mint);
+  params.set('reference', intent.reference);
+  params.set('label', SOLANA_PAY_LABEL);
+  params.set('message', `Agent registration (${intent.plan} plan)`);
+  return `solana:${REGISTRATION_WALLET}?${params.toString().replace(/\+/g, '%20')}`;
+}
+
+/**
+ * Look for a pending intent's payment on chain and create the agent once it
+ * has landed. An intent past its expiry gets a last look before it expires,
+ * and is looked up for a late payment for REGISTRATION_LATE_PAYMENT_WINDOW_MS
+ * more. Returns the intent as it stands afterwards.
+ */
+export function checkRegistrationIntent(intent: RegistrationIntent): Promise<RegistrationIntent> {
+  if (intent.status !== 'pending' && !awaitsLatePayment(intent)) return Promise.resolve(intent);
+
+  let check = checking.get(intent.id);
+  if (!check) {
+    check = settleIntent(intent).finally(() => {
+      checking.delete(intent.id);
+    });
+    checking.set(intent.id, check);
+  }
+  return check;
+}
+
+/**
+ * Check every pending intent once, and about once a minute the intents that
+ * expired recently
+ */
+export async function processRegistrationIntents(): Promise<void> {
+  const intents = await storage.getPendingRegistrationIntents();
+  if (Date.now() - lastLatePaymentCheck >= LATE_PAYMENT_CHECK_INTERVAL_MS) {
+    lastLatePaymentCheck = Date.now();
+    const all = await storage.getAllRegistrationIntents();
+    intents.push(...all.filter(awaitsLatePayment));
+  }
+  for (const intent of intents) {
+    try {
+      await checkRegistrationIntent(intent);
+    } catch (error) {
+      console.error(`Error checking registration intent ${intent.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Check pending intents on an interval, starting now
+ */
+export function startRegistrationIntentWorker(): NodeJS.Timeout {
+  const run = () => {
+    processRegistrationIntents().catch(error => console.error('Registration intent worker error:', error));
+  };
+  run();
+  return setInterval(run, REGISTRATION_INTENT_POLL_INTERVAL_MS);
+}
+
+// Whether an intent expired recently enough that a payment may still arrive
+function awaitsLatePayment(intent: RegistrationIntent): boolean {
+  return intent.status === 'expired' && Date.now() <= intent.expiresAt + REGISTRATION_LATE_PAYMENT_WINDOW_MS;
+}
+
+async function settleIntent(intent: RegistrationIntent): Promise<RegistrationIntent> {
+  const expired = Date.now() > intent.expiresAt;
+  let mismatched: { signature: string; error: string } | undefined;
+
+  for (const signature of await chain.findReferenceSignatures(intent.reference)) {
+    const verification = await verifyRegistrationPayment(
+      signature,
+      intent.walletAddress,
+      intent.amount,
+      intent.mint
+    );
+    if (verification.valid) {
+      return completeIntent(intent, signature, verification.amount!);
+    }
+    if (verification.mismatch) {
+      mismatched ??= { signature, error: verification.error ?? 'Payment does not match the intent' };
+    }
+  }
+
+  // Paid with the intent's reference, but from another wallet or short
+  if (mismatched) {
+    return failIntent(intent, mismatched.signature, `Payment does not match the intent: ${mismatched.error}`);
+  }
+  if (expired && intent.status === 'pending') {
+    return (await transition(intent, { status: 'expired' })) ?? intent;
+  }
+  return intent;
+}
+
+async function completeIntent(
+  intent: RegistrationIntent,
+  signature: string,
+  amount: number
+): Promise<RegistrationIntent> {
+  const existing = await storage.getAgentByWallet(intent.walletAddress);
+  if (existing) {
+    // The payment was also submitted to POST /api/agent/register
+    if (existing.paymentTxSignature === signature) {
+      return (await transition(intent, { status: 'completed', signature, agentId: existing.id })) ?? intent;
+    }
+    return failIntent(intent, signature, 'Wallet already registered as an agent');
+  }
+
+  const registered = await createRegisteredAgent({
+    name: intent.name,
+    walletAddress: intent.walletAddress,
+    paymentTxSignature: signature,
+    paymentAmount: amount,
+    plan: intent.plan,
+    taskQuota: intent.taskQuota,
+    promoCode: intent.promoCode,
+  });
+  if (!registered.success) {
+    // Another process is redeeming the same payment; the next check finds
+    // the agent it created
+    return intent;
+  }
+
+  const completed = await transition(intent, { status: 'completed', signature, agentId: registered.agent.id });
+  return completed ?? (await storage.getRegistrationIntent(intent.id)) ?? intent;
+}
+
+// A payment landed that no agent can be created for, so it needs a refund
+async function failIntent(intent: RegistrationIntent, signature: string, error: string): Promise<RegistrationIntent> {
+  const failed = await transition(intent, { status: 'failed', signature, error });
+  if (!failed) return intent;
+
+  await sendAlert({
+    event: 'registration_intent_failed',
+    message: `Registration intent ${intent.id} was paid but no agent was created: ${error}`,
+    details: { intentId: intent.id, walletAddress: intent.walletAddress, signature, amount: intent.amount },
+  });
+  return failed;
+}
+
+// Pending intents, and expired ones paid late, move on from the status read
+function transition(
+  intent: RegistrationIntent,
+  updates: Partial<RegistrationIntent>
+): Promise<RegistrationIntent | null> {
+  return storage.transitionRegistrationIntent(intent.id, intent.status, { ...updates, updatedAt: Date.now() });
+}
+
+// Solana Pay amounts are plain decimals, never exponents
+function formatAmount(amount: number): string {
+  return amount.toFixed(9).replace(/\.?0+$/, '');
+}
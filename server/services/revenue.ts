@@ -0,0 +1,67 @@
+import { storage, roundEscrowAmount } from "../storage";
+import { escrowCurrency } from "./escrow";
+import { LEDGER_ACCOUNTS } from "./ledger";
+import type { JournalEntry, RevenueReport, RevenueSummary } from "@shared/schema";
+
+/**
+ * Registration and platform fee income recorded in the ledger between two
+ * times, in total and per day
+ */
+export async function getRevenueReport(since: number | null, until: number): Promise<RevenueReport> {
+  const accounts = [LEDGER_ACCOUNTS.registrationRevenue, LEDGER_ACCOUNTS.platformFeeRevenue];
+  const entries = (await Promise.all(accounts.map(account => storage.getJournalEntries(account))))
+    .flat()
+    .filter(entry => (since === null || entry.createdAt >= since) && entry.createdAt <= until);
+
+  const currencies = new Map<string, RevenueSummary>();
+  const days = new Map<string, RevenueSummary & { date: string }>();
+  for (const entry of entries) {
+    const date = new Date(entry.createdAt).toISOString().slice(0, 10);
+    const day = days.get(`${date}:${entry.currency}`) ?? { date, ...emptySummary(entry.currency) };
+    days.set(`${date}:${entry.currency}`, day);
+    const total = currencies.get(entry.currency) ?? emptySummary(entry.currency);
+    currencies.set(entry.currency, total);
+
+    addEntry(total, entry);
+    addEntry(day, entry);
+  }
+
+  return {
+    since,
+    until,
+    currencies: Array.from(currencies.values()).sort((a, b) => a.currency.localeCompare(b.currency)),
+    days: Array.from(days.values())
+      .sort((a, b) => a.date.localeCompare(b.date) || a.currency.localeCompare(b.currency)),
+  };
+}
+
+/**
+ * Platform fees booked in SOL, less those refunded for rejected payouts
+ */
+export async function getTotalPlatformFees(): Promise<number> {
+  const balances = await storage.getLedgerBalances();
+  const revenue = balances.find(balance =>
+    balance.account === LEDGER_ACCOUNTS.platformFeeRevenue && balance.currency === escrowCurrency()
+  );
+  // Revenue accounts are credited, so their balance is negative
+  return revenue ? roundEscrowAmount(-revenue.balance) : 0;
+}
+
+function emptySummary(currency: string): RevenueSummary {
+  return { currency, registrationFees: 0, platformFees: 0, total: 0, registrations: 0, feeCompletions: 0 };
+}
+
+// Revenue accounts are credited, so their lines are negative
+function addEntry(summary: RevenueSummary, entry: JournalEntry): void {
+  for (const line of entry.lines) {
+    if (line.account === LEDGER_ACCOUNTS.registrationRevenue) {
+      summary.registrationFees = roundEscrowAmount(summary.registrationFees - line.amount);
+      summary.registrations++;
+    } else if (line.account === LEDGER_ACCOUNTS.platformFeeRevenue) {
+      summary.platformFees = roundEscrowAmount(summary.platformFees - line.amount);
+      // Fees of rejected payouts are refunded with a debit
+      summary.feeCompletions += line.amount < 0 ? 1 : -1;
+    }
+  }
+  summary.total = roundEscrowAmount(summary.registrationFees + summary.platformFees);
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { storage } from "../storage";
+import { backfillConsumedSignatures } from "./signatures";
+
+describe('backfillConsumedSignatures', () => {
+  it('records the payment of every existing agent once', async () => {
+    const agent = await storage.createAgent({ name: 'Test agent', walletAddress: 'agent-wallet', paymentTxSignature: 'old-registration-sig', paymentAmount: 0.1 });
+
+    expect(await backfillConsumedSignatures()).toBe(1);
+    expect(await backfillConsumedSignatures()).toBe(0);
+    expect(await storage.getConsumedSignature('old-registration-sig')).toEqual({
+      signature: 'old-registration-sig',
+      purpose: 'registration',
+      walletAddress: 'agent-wallet',
+      consumedAt: agent.createdAt,
+    });
+  });
+});
@@ -0,0 +1,23 @@
+import { storage } from "../storage";
+
+/**
+ * Record the payment signatures of agents registered before signatures were
+ * tracked, so they cannot be redeemed again. Safe to run repeatedly.
+ */
+export async function backfillConsumedSignatures(): Promise<number> {
+  const agents = await storage.getAllAgents();
+  let added = 0;
+
+  for (const agent of agents) {
+    if (!agent.paymentTxSignature) continue;
+    const consumed = await storage.consumeSignature({
+      signature: agent.paymentTxSignature,
+      purpose: 'registration',
+      walletAddress: agent.walletAddress,
+      consumedAt: agent.createdAt,
+    });
+    if (consumed) added++;
+  }
+
+  return added;
+}
@@ -1,98 +1,35 @@
-import { 
-  Connection, 
-  Keypair, 
-  PublicKey, 
-  Transaction, 
-  SystemProgram, 
-  sendAndConfirmTransaction 
-} from '@solana/web3.js';
+import { Keypair, PublicKey } from '@solana/web3.js';
 import bs58 from 'bs58';
 
-const HELIUS_API_KEY = process.env.HELIUS_API_KEY!;
-const TREASURY_PRIVATE_KEY = process.env.TREASURY_PRIVATE_KEY!;
+const TREASURY_PRIVATE_KEY = process.env.TREASURY_PRIVATE_KEY;
+const DEFAULT_TREASURY_WALLET = "PXpVKE42sXTnAqRqbKidaTKgCrkgexFrSNQXdxppJZR";
 
-// Initialize Solana connection with Helius RPC
-const connection = new Connection(
-  `https://mainnet.helius-rpc.com/?api-key=${HELIUS_API_KEY}`,
-  'confirmed'
-);
+// Only needed to send payouts; reads, deposits and webhooks work without it
+const treasuryKeypair: Keypair | null = TREASURY_PRIVATE_KEY
+  ? Keypair.fromSecretKey(bs58.decode(TREASURY_PRIVATE_KEY))
+  : null;
 
-// Initialize treasury keypair from private key
-let treasuryKeypair: Keypair | null = null;
+// The one treasury address depositors are shown and payouts are checked
+// against: TREASURY_WALLET, else the private key's address
+export const TREASURY_WALLET = process.env.TREASURY_WALLET
+  || treasuryKeypair?.publicKey.toBase58()
+  || DEFAULT_TREASURY_WALLET;
 
-function getTreasuryKeypair(): Keypair {
+if (treasuryKeypair && treasuryKeypair.publicKey.toBase58() !== TREASURY_WALLET) {
+  throw new Error(
+    `TREASURY_PRIVATE_KEY belongs to ${treasuryKeypair.publicKey.toBase58()}, not TREASURY_WALLET ${TREASURY_WALLET}`
+  );
+}
+
+export function getTreasuryKeypair(): Keypair {
   if (!treasuryKeypair) {
-    if (!TREASURY_PRIVATE_KEY) {
-      throw new Error('TREASURY_PRIVATE_KEY not configured');
-    }
-    treasuryKeypair = Keypair.fromSecretKey(bs58.decode(TREASURY_PRIVATE_KEY));
+    throw new Error('TREASURY_PRIVATE_KEY not configured');
   }
   return treasuryKeypair;
 }
 
 export function getTreasuryPublicKey(): string {
-  return getTreasuryKeypair().publicKey.toBase58();
-}
-
-interface PaymentResult {
-  success: boolean;
-  signature?: string;
-  error?: string;
-}
-
-/**
- * Send SOL payment from treasury to a recipient wallet
- */
-export async function sendPayment(toWallet: string, amountSOL: number): Promise<PaymentResult> {
-  try {
-    const keypair = getTreasuryKeypair();
-    const recipientPubkey = new PublicKey(toWallet);
-    const lamports = Math.floor(amountSOL * 1e9);
-
-    // Create transfer instruction
-    const transaction = new Transaction().add(
-      SystemProgram.transfer({
-        fromPubkey: keypair.publicKey,
-        toPubkey: recipientPubkey,
-        lamports,
-      })
-    );
-
-    // Send and confirm transaction
-    const signature = await sendAndConfirmTransaction(
-      connection,
-      transaction,
-      [keypair],
-      {
-        commitment: 'confirmed',
-        maxRetries: 3,
-      }
-    );
-
-    console.log(`Payment sent: ${amountSOL} SOL to ${toWallet}, signature: ${signature}`);
-    
-    return { success: true, signature };
-  } catch (error) {
-    console.error('Error sending payment:', error);
-    return { 
-      success: false, 
-      error: error instanceof Error ? error.message : 'Failed to send payment' 
-    };
-  }
-}
-
-/**
- * Get treasury wallet balance
- */
-export async function getTreasuryBalance(): Promise<number> {
-  try {
-    const keypair = getTreasuryKeypair();
-    const balance = await connection.getBalance(keypair.publicKey);
-    return balance / 1e9; // Convert lamports to SOL
-  } catch (error) {
-    console.error('Error fetching treasury balance:', error);
-    return 0;
-  }
+  return TREASURY_WALLET;
 }
 
 /**
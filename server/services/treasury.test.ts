@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { storage } from "../storage";
+import { chain, mockAddress, MockChainProvider } from "./chain";
+import {
+  checkPayoutCoverage,
+  checkTreasuryFloor,
+  getTreasuryStatus,
+  pausePayouts,
+  resumePayouts
+} from "./treasury";
+
+const mockChain = chain as MockChainProvider;
+const treasury = mockChain.getTreasuryAddress();
+
+let alerts: ReturnType<typeof vi.spyOn>;
+
+beforeEach(() => {
+  alerts = vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  mockChain.setBalance(treasury, 1000);
+  await storage.setPayoutBreaker({ paused: false });
+});
+
+// An unpaid payout of the given reward
+async function unpaid(amount: number, mint?: string) {
+  return storage.createPayoutIntent({
+    applicationId: mockAddress(`application:${Math.random()}`),
+    taskId: 'task-1',
+    walletAddress: mockAddress('recipient'),
+    amount,
+    mint,
+    status: 'queued',
+    attempts: 0,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  });
+}
+
+describe('checkPayoutCoverage', () => {
+  it('counts unpaid rewards and their fees against the balance', async () => {
+    mockChain.setBalance(treasury, 5);
+    await unpaid(4.9);
+
+    expect((await checkPayoutCoverage(0.05)).covered).toBe(true);
+    expect(await checkPayoutCoverage(0.1)).toMatchObject({
+      covered: false,
+      error: expect.stringContaining('Treasury holds 5 SOL'),
+    });
+  });
+
+  it('checks a token reward against the token balance and SOL for rent', async () => {
+    const mint = mockAddress('coverage-token');
+    mockChain.setBalance(treasury, 20, mint);
+
+    expect((await checkPayoutCoverage(20, mint)).covered).toBe(true);
+    expect((await checkPayoutCoverage(20.5, mint)).covered).toBe(false);
+
+    mockChain.setBalance(treasury, 0.001);
+    expect(await checkPayoutCoverage(1, mint)).toMatchObject({
+      covered: false,
+      error: expect.stringContaining('SOL'),
+    });
+  });
+});
+
+describe('checkTreasuryFloor', () => {
+  it('pauses payouts below the floor and resumes them once the balance is back', async () => {
+    mockChain.setBalance(treasury, 0.5);
+    expect(await checkTreasuryFloor()).toBe(false);
+    expect(await storage.getPayoutBreaker()).toMatchObject({ paused: true, reason: 'low_balance' });
+
+    expect(await checkTreasuryFloor()).toBe(false);
+    expect(alerts).toHaveBeenCalledTimes(1);
+    expect(alerts).toHaveBeenCalledWith(expect.stringContaining('treasury_low_balance'));
+
+    mockChain.setBalance(treasury, 2);
+    expect(await checkTreasuryFloor()).toBe(true);
+    expect(await storage.getPayoutBreaker()).toEqual({ paused: false });
+    expect(alerts).toHaveBeenLastCalledWith(expect.stringContaining('treasury_recovered'));
+  });
+
+  it('keeps a manual pause until payouts are resumed', async () => {
+    const paused = await pausePayouts();
+    expect(paused).toMatchObject({ paused: true, reason: 'manual' });
+
+    expect(await checkTreasuryFloor()).toBe(false);
+    expect(await storage.getPayoutBreaker()).toEqual(paused);
+
+    expect(await resumePayouts()).toEqual({ paused: false });
+    expect(await checkTreasuryFloor()).toBe(true);
+  });
+
+  it('keeps the stored state when the balance cannot be read', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await storage.setPayoutBreaker({ paused: true, reason: 'low_balance', since: 1 });
+    vi.spyOn(mockChain, 'getBalance').mockRejectedValue(new Error('RPC unavailable'));
+
+    expect(await checkTreasuryFloor()).toBe(false);
+    expect((await storage.getPayoutBreaker()).paused).toBe(true);
+  });
+});
+
+describe('getTreasuryStatus', () => {
+  it('reports balances, liabilities and the pause state', async () => {
+    const mint = mockAddress('status-token');
+    mockChain.setBalance(treasury, 10);
+    mockChain.setBalance(treasury, 3, mint);
+    await unpaid(2, mint);
+    await pausePayouts();
+
+    const status = await getTreasuryStatus();
+
+    expect(status.address).toBe(treasury);
+    expect(status.payouts).toMatchObject({ paused: true, reason: 'manual' });
+    const token = status.currencies.find(currency => currency.balance === 3);
+    expect(token).toMatchObject({ liabilities: 2, unpaidPayouts: 1, available: 1 });
+  });
+});
@@ -0,0 +1,190 @@
+import { storage, roundEscrowAmount } from "../storage";
+import { envNumber } from "../env";
+import { chain, mintLabel } from "./chain";
+import { escrowCurrency } from "./escrow";
+import { sendAlert } from "./alerts";
+import type {
+  PayoutBreaker,
+  PayoutIntent,
+  PayoutPauseReason,
+  TreasuryCurrencyStatus,
+  TreasuryStatus
+} from "@shared/schema";
+
+// SOL balance below which automatic payouts are paused
+const TREASURY_MIN_BALANCE = envNumber('TREASURY_MIN_BALANCE', 1);
+// Network fee of one payout transaction, in SOL: the base fee plus the
+// priority fee of a token payout at the default PRIORITY_FEE_MAX_MICROLAMPORTS
+const PAYOUT_FEE = 0.000016;
+// Rent of a recipient's token account, paid by the treasury when it creates one
+const TOKEN_ACCOUNT_RENT = 0.00203928;
+// Confirmed payouts over this window set the burn rate behind the runway
+const RUNWAY_WINDOW_MS = 7 * 24 * 60 * 60_000;
+
+export interface PayoutCoverage {
+  covered: boolean;
+  error?: string;
+}
+
+/**
+ * Whether the treasury can pay a new reward on top of every unpaid one,
+ * including the network fees of all of them
+ */
+export async function checkPayoutCoverage(amount: number, mint?: string): Promise<PayoutCoverage> {
+  const unpaid = await getUnpaidIntents();
+  const treasury = chain.getTreasuryAddress();
+  const currency = escrowCurrency(mint);
+
+  const solNeeded = roundEscrowAmount(
+    liabilitiesIn(unpaid, 'SOL') + feeReserve(unpaid) + payoutFee(mint) + (mint ? 0 : amount)
+  );
+  const solBalance = await chain.getBalance(treasury, undefined, { fresh: true });
+  if (solBalance < solNeeded) {
+    return {
+      covered: false,
+      error: `Treasury holds ${solBalance} SOL; unpaid rewards and fees including this one need ${solNeeded} SOL`,
+    };
+  }
+
+  if (mint) {
+    const needed = roundEscrowAmount(liabilitiesIn(unpaid, currency) + amount);
+    const balance = await chain.getBalance(treasury, mint, { fresh: true });
+    if (balance < needed) {
+      return {
+        covered: false,
+        error: `Treasury holds ${balance} ${mintLabel(mint)}; unpaid rewards including this one need ${needed}`,
+      };
+    }
+  }
+
+  return { covered: true };
+}
+
+/**
+ * Balances, unpaid liabilities and runway of the treasury
+ */
+export async function getTreasuryStatus(): Promise<TreasuryStatus> {
+  const [unpaid, intents, breaker] = await Promise.all([
+    getUnpaidIntents(),
+    storage.getAllPayoutIntents(),
+    storage.getPayoutBreaker(),
+  ]);
+  const treasury = chain.getTreasuryAddress();
+  const reserve = feeReserve(unpaid);
+
+  const mints = new Map<string, string | undefined>([['SOL', undefined]]);
+  for (const intent of unpaid) {
+    mints.set(escrowCurrency(intent.mint), intent.mint);
+  }
+
+  const currencies: TreasuryCurrencyStatus[] = [];
+  for (const [currency, mint] of Array.from(mints)) {
+    const balance = await chain.getBalance(treasury, mint);
+    const liabilities = liabilitiesIn(unpaid, currency);
+    currencies.push({
+      currency,
+      balance,
+      liabilities,
+      unpaidPayouts: unpaid.filter(intent => escrowCurrency(intent.mint) === currency).length,
+      available: roundEscrowAmount(balance - liabilities - (mint ? 0 : reserve)),
+    });
+  }
+
+  const since = Date.now() - RUNWAY_WINDOW_MS;
+  const recentlyPaid = intents
+    .filter(intent => intent.status === 'confirmed' && !intent.mint && (intent.confirmedAt ?? 0) >= since)
+    .reduce((sum, intent) => sum + intent.amount, 0);
+  const dailyRate = recentlyPaid / (RUNWAY_WINDOW_MS / (24 * 60 * 60_000));
+  const solAvailable = currencies[0].available;
+
+  return {
+    address: treasury,
+    floor: TREASURY_MIN_BALANCE,
+    feeReserve: reserve,
+    currencies,
+    runwayDays: dailyRate > 0 ? Math.max(solAvailable, 0) / dailyRate : null,
+    payouts: breaker,
+  };
+}
+
+/**
+ * Check the SOL balance against the floor before payouts are sent. Pauses
+ * payouts and alerts when the balance falls below it; resumes them once the
+ * balance is back, unless an admin paused them. Returns whether payouts may
+ * be sent. The pause state is kept in storage, so every instance sees it.
+ */
+export async function checkTreasuryFloor(): Promise<boolean> {
+  const breaker = await storage.getPayoutBreaker();
+  if (breaker.paused && breaker.reason === 'manual') return false;
+
+  let balance: number;
+  try {
+    balance = await chain.getBalance(chain.getTreasuryAddress(), undefined, { fresh: true });
+  } catch (error) {
+    // Keep the current state until the balance can be read again
+    console.error('Error checking treasury balance:', error);
+    return !breaker.paused;
+  }
+
+  if (balance < TREASURY_MIN_BALANCE && !breaker.paused) {
+    await setBreaker('low_balance');
+    await sendAlert({
+      event: 'treasury_low_balance',
+      message: `Treasury balance ${balance} SOL is below the ${TREASURY_MIN_BALANCE} SOL floor; payouts are paused`,
+      details: { balance, floor: TREASURY_MIN_BALANCE },
+    });
+  } else if (balance >= TREASURY_MIN_BALANCE && breaker.paused) {
+    await setBreaker(null);
+    await sendAlert({
+      event: 'treasury_recovered',
+      message: `Treasury balance ${balance} SOL is back above the floor; payouts resumed`,
+      details: { balance, floor: TREASURY_MIN_BALANCE },
+    });
+  }
+  return balance >= TREASURY_MIN_BALANCE;
+}
+
+/**
+ * Stop automatic payouts until resumePayouts() is called
+ */
+export function pausePayouts(): Promise<PayoutBreaker> {
+  return setBreaker('manual');
+}
+
+/**
+ * Lift a pause. Payouts pause again on the next pass if the balance is still
+ * below the floor.
+ */
+export function resumePayouts(): Promise<PayoutBreaker> {
+  return setBreaker(null);
+}
+
+async function setBreaker(reason: PayoutPauseReason | null): Promise<PayoutBreaker> {
+  const breaker: PayoutBreaker = reason ? { paused: true, reason, since: Date.now() } : { paused: false };
+  await storage.setPayoutBreaker(breaker);
+  return breaker;
+}
+
+// Approved rewards that have not been paid, including failed payouts an
+// admin may still retry
+async function getUnpaidIntents(): Promise<PayoutIntent[]> {
+  const intents = await storage.getAllPayoutIntents();
+  return intents.filter(intent => intent.status !== 'confirmed' && intent.status !== 'rejected');
+}
+
+function liabilitiesIn(intents: PayoutIntent[], currency: string): number {
+  return roundEscrowAmount(
+    intents
+      .filter(intent => escrowCurrency(intent.mint) === currency)
+      .reduce((sum, intent) => sum + intent.amount, 0)
+  );
+}
+
+function feeReserve(intents: PayoutIntent[]): number {
+  return roundEscrowAmount(intents.reduce((sum, intent) => sum + payoutFee(intent.mint), 0));
+}
+
+// Token payouts may also have to create the recipient's token account
+function payoutFee(mint?: string): number {
+  return mint ? PAYOUT_FEE + TOKEN_ACCOUNT_RENT : PAYOUT_FEE;
+}
@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { generateKeyPairSync, sign, type KeyObject } from "crypto";
+import bs58 from "bs58";
+import { checkApplicationWalletProof, createWalletChallenge, verifyWalletProof } from "./walletProof";
+import type { Task } from "@shared/schema";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// A wallet and the key that signs for it
+function newWallet(): { address: string; privateKey: KeyObject } {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const address = bs58.encode(Buffer.from(publicKey.export({ format: 'jwk' }).x!, 'base64url'));
+  return { address, privateKey };
+}
+
+// What a wallet's signMessage returns, base58 encoded
+function signMessage(wallet: { privateKey: KeyObject }, message: string): string {
+  return bs58.encode(sign(null, Buffer.from(message), wallet.privateKey));
+}
+
+// A challenge for the wallet, signed by it
+async function signedProof(wallet: ReturnType<typeof newWallet>) {
+  const challenge = await createWalletChallenge(wallet.address);
+  return { nonce: challenge.nonce, signature: signMessage(wallet, challenge.message) };
+}
+
+describe('wallet proofs', () => {
+  it('issues a challenge naming the wallet', async () => {
+    const { address } = newWallet();
+    const challenge = await createWalletChallenge(address);
+
+    expect(challenge.nonce).toMatch(/^[0-9a-f]{32}$/);
+    expect(challenge.message).toContain(`Wallet: ${address}`);
+    expect(challenge.message).toContain(`Nonce: ${challenge.nonce}`);
+    expect(challenge.expiresAt - challenge.createdAt).toBe(5 * 60_000);
+  });
+
+  it('accepts the wallet\'s signature of its challenge once', async () => {
+    const wallet = newWallet();
+    const proof = await signedProof(wallet);
+
+    expect(await verifyWalletProof(wallet.address, proof)).toEqual({ success: true });
+    expect(await verifyWalletProof(wallet.address, proof)).toMatchObject({
+      success: false,
+      error: 'Unknown or already used wallet challenge',
+    });
+  });
+
+  it('rejects a signature by another key, and uses up the challenge', async () => {
+    const wallet = newWallet();
+    const challenge = await createWalletChallenge(wallet.address);
+    const forged = { nonce: challenge.nonce, signature: signMessage(newWallet(), challenge.message) };
+
+    expect(await verifyWalletProof(wallet.address, forged)).toMatchObject({ error: 'Invalid wallet signature' });
+    const retried = { nonce: challenge.nonce, signature: signMessage(wallet, challenge.message) };
+    expect(await verifyWalletProof(wallet.address, retried)).toMatchObject({ error: 'Unknown or already used wallet challenge' });
+  });
+
+  it('rejects a signature of another message or that is not one', async () => {
+    const wallet = newWallet();
+    const challenge = await createWalletChallenge(wallet.address);
+    const other = await createWalletChallenge(wallet.address);
+
+    const otherMessage = { nonce: challenge.nonce, signature: signMessage(wallet, `${challenge.message}\n`) };
+    expect(await verifyWalletProof(wallet.address, otherMessage)).toMatchObject({ error: 'Invalid wallet signature' });
+    expect(await verifyWalletProof(wallet.address, { nonce: other.nonce, signature: 'not-base58!' })).toMatchObject({
+      error: 'Invalid wallet signature',
+    });
+  });
+
+  it('rejects a challenge issued for another wallet', async () => {
+    const wallet = newWallet();
+    const someoneElse = newWallet();
+    const proof = await signedProof(someoneElse);
+
+    expect(await verifyWalletProof(wallet.address, proof)).toMatchObject({
+      error: 'Wallet challenge was issued for a different wallet',
+    });
+  });
+
+  it('rejects an expired challenge', async () => {
+    const wallet = newWallet();
+    const proof = await signedProof(wallet);
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 5 * 60_000 + 1);
+
+    expect(await verifyWalletProof(wallet.address, proof)).toMatchObject({ error: 'Wallet challenge expired' });
+  });
+
+  it('requires a proof only for tasks that ask for one', async () => {
+    const wallet = newWallet();
+    const task = { requireWalletProof: true } as Task;
+
+    expect(await checkApplicationWalletProof({} as Task, wallet.address)).toEqual({ success: true });
+    expect(await checkApplicationWalletProof(task, wallet.address)).toMatchObject({
+      success: false,
+      error: 'This task requires proof of wallet ownership',
+    });
+    expect(await checkApplicationWalletProof(task, wallet.address, await signedProof(wallet))).toEqual({
+      success: true,
+      walletVerified: true,
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { createPublicKey, randomBytes, verify } from "crypto";
+import { PublicKey } from "@solana/web3.js";
+import bs58 from "bs58";
+import { envNumber } from "../env";
+import { storage } from "../storage";
+import type { Task, WalletChallenge, WalletProof } from "@shared/schema";
+
+// How long an applicant has to sign a wallet challenge and submit it
+const WALLET_CHALLENGE_TTL_MS = envNumber('WALLET_CHALLENGE_TTL_MS', 5 * 60_000);
+// DER prefix that turns a raw 32-byte ed25519 public key into an SPKI key
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+export type WalletProofResult =
+  | { success: true }
+  | { success: false; status: number; error: string };
+
+export type ApplicationWalletProofResult =
+  | { success: true; walletVerified?: boolean }
+  | { success: false; status: number; error: string; details?: string };
+
+/**
+ * Issue a single-use challenge for a wallet. Its message is signed with the
+ * wallet (signMessage) and sent back as an application's walletProof.
+ */
+export async function createWalletChallenge(walletAddress: string): Promise<WalletChallenge> {
+  const now = Date.now();
+  const nonce = randomBytes(16).toString('hex');
+  const expiresAt = now + WALLET_CHALLENGE_TTL_MS;
+  const challenge: WalletChallenge = {
+    nonce,
+    walletAddress,
+    message: challengeMessage(walletAddress, nonce, expiresAt),
+    createdAt: now,
+    expiresAt,
+  };
+  await storage.createWalletChallenge(challenge);
+  return challenge;
+}
+
+/**
+ * Check that walletAddress signed a challenge issued for it. The challenge is
+ * used up whether or not the signature is valid.
+ */
+export async function verifyWalletProof(walletAddress: string, proof: WalletProof): Promise<WalletProofResult> {
+  const challenge = await storage.consumeWalletChallenge(proof.nonce);
+  if (!challenge) {
+    return { success: false, status: 400, error: 'Unknown or already used wallet challenge' };
+  }
+  if (Date.now() > challenge.expiresAt) {
+    return { success: false, status: 400, error: 'Wallet challenge expired' };
+  }
+  if (challenge.walletAddress !== walletAddress) {
+    return { success: false, status: 400, error: 'Wallet challenge was issued for a different wallet' };
+  }
+  if (!isValidSignature(walletAddress, challenge.message, proof.signature)) {
+    return { success: false, status: 400, error: 'Invalid wallet signature' };
+  }
+  return { success: true };
+}
+
+/**
+ * Check an application's wallet proof, if it has one, and that tasks with
+ * requireWalletProof get one. walletVerified is set when the proof is valid.
+ */
+export async function checkApplicationWalletProof(
+  task: Task,
+  walletAddress: string,
+  walletProof?: WalletProof
+): Promise<ApplicationWalletProofResult> {
+  if (walletProof) {
+    const verified = await verifyWalletProof(walletAddress, walletProof);
+    return verified.success ? { success: true, walletVerified: true } : verified;
+  }
+  if (task.requireWalletProof) {
+    return {
+      success: false,
+      status: 400,
+      error: 'This task requires proof of wallet ownership',
+      details: 'Request a challenge from POST /api/wallet-challenges, sign its message with the wallet and send it as walletProof',
+    };
+  }
+  return { success: true };
+}
+
+// Text a wallet shows its owner before signing
+function challengeMessage(walletAddress: string, nonce: string, expiresAt: number): string {
+  return [
+    'MoltBoss wallet verification',
+    '',
+    'Sign this message to prove you own this wallet. It is not a transaction and costs nothing.',
+    '',
+    `Wallet: ${walletAddress}`,
+    `Nonce: ${nonce}`,
+    `Expires: ${new Date(expiresAt).toISOString()}`,
+  ].join('\n');
+}
+
+// Whether signature is the wallet's ed25519 signature of message's UTF-8 bytes
+function isValidSignature(walletAddress: string, message: string, signature: string): boolean {
+  try {
+    const signatureBytes = bs58.decode(signature);
+    if (signatureBytes.length !== 64) return false;
+
+    const key = createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, new PublicKey(walletAddress).toBuffer()]),
+      format: 'der',
+      type: 'spki',
+    });
+    return verify(null, Buffer.from(message), key, signatureBytes);
+  } catch {
+    return false;
+  }
+}
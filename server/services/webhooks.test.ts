@@ -0,0 +1,120 @@
+import { afterAll, describe, expect, it, vi } from "vitest";
+
+// The secret is read when the module loads
+vi.hoisted(() => {
+  process.env.HELIUS_WEBHOOK_SECRET = 'webhook-secret';
+});
+
+// Outflows schedule a run 30 seconds later; only whether they do matters here
+vi.mock("./reconciliation", () => ({ scheduleReconciliation: vi.fn() }));
+
+import { storage } from "../storage";
+import { chain, mockAddress, MockChainProvider } from "./chain";
+import { REGISTRATION_WALLET } from "./registration";
+import { createRegistrationIntent } from "./registrationIntents";
+import { scheduleReconciliation } from "./reconciliation";
+import {
+  authenticateHeliusWebhook,
+  heliusWebhookPayloadSchema,
+  ingestHeliusTransactions,
+  isHeliusWebhookConfigured,
+  type HeliusWebhookTransaction
+} from "./webhooks";
+
+const mockChain = chain as MockChainProvider;
+const treasury = mockChain.getTreasuryAddress();
+
+afterAll(() => {
+  delete process.env.HELIUS_WEBHOOK_SECRET;
+});
+
+// A transaction as Helius reports a SOL transfer that landed on the mock chain
+function nativeTransfer(
+  from: string,
+  to: string,
+  amount: number,
+  options: { reference?: string } = {}
+): HeliusWebhookTransaction {
+  const signature = mockChain.recordTransfer(from, to, amount, options);
+  return {
+    signature,
+    timestamp: 1_700_000_000,
+    nativeTransfers: [{ fromUserAccount: from, toUserAccount: to, amount: Math.round(amount * 1e9) }],
+    accountData: [from, to, options.reference].filter(Boolean).map(account => ({ account: account! })),
+  };
+}
+
+describe('webhook auth', () => {
+  it('accepts only the configured secret', () => {
+    expect(isHeliusWebhookConfigured()).toBe(true);
+    expect(authenticateHeliusWebhook('webhook-secret')).toBe(true);
+    expect(authenticateHeliusWebhook('webhook-secreT')).toBe(false);
+    expect(authenticateHeliusWebhook('webhook')).toBe(false);
+    expect(authenticateHeliusWebhook(undefined)).toBe(false);
+  });
+
+  it('keeps only the fields it reads and refuses a payload that is not a batch', () => {
+    const [tx] = heliusWebhookPayloadSchema.parse([{ ...nativeTransfer('a', 'b', 1), type: 'TRANSFER', fee: 5000 }]);
+    expect(tx).not.toHaveProperty('type');
+    expect(heliusWebhookPayloadSchema.safeParse({ signature: 'not-a-batch' }).success).toBe(false);
+  });
+});
+
+describe('webhook ingestion', () => {
+  it('stores each platform wallet transfer once, however often it is delivered', async () => {
+    const tx = nativeTransfer(mockAddress('stranger'), REGISTRATION_WALLET, 0.5);
+    const unrelated = nativeTransfer(mockAddress('stranger'), mockAddress('someone'), 0.5);
+
+    expect(await ingestHeliusTransactions([tx, unrelated])).toMatchObject({ transactions: 2, transfers: 1 });
+    expect(await ingestHeliusTransactions([tx])).toMatchObject({ transfers: 0 });
+
+    const stored = (await storage.getAllChainTransfers()).filter(transfer => transfer.signature === tx.signature);
+    expect(stored).toEqual([expect.objectContaining({
+      id: `${tx.signature}:0`,
+      wallet: 'registration',
+      direction: 'in',
+      amount: 0.5,
+      timestamp: 1_700_000_000_000,
+    })]);
+  });
+
+  it('skips failed transactions', async () => {
+    const tx = { ...nativeTransfer(mockAddress('stranger'), treasury, 0.5), transactionError: { InstructionError: [0, 'Custom'] } };
+
+    expect(await ingestHeliusTransactions([tx])).toMatchObject({ transfers: 0 });
+  });
+
+  it('completes the registration intent whose reference the payment carries', async () => {
+    const wallet = mockAddress('webhook-registrant');
+    const created = await createRegistrationIntent('Test agent', wallet);
+    if (!created.success) throw new Error(created.error);
+    const tx = nativeTransfer(wallet, REGISTRATION_WALLET, 0.1, { reference: created.intent.reference });
+
+    expect(await ingestHeliusTransactions([tx])).toMatchObject({ registrations: 1 });
+    expect(await storage.getRegistrationIntent(created.intent.id)).toMatchObject({ status: 'completed', signature: tx.signature });
+    expect(await storage.getAgentByWallet(wallet)).not.toBeNull();
+  });
+
+  it('credits a deposit from an agent\'s wallet once', async () => {
+    const agent = await storage.createAgent({
+      name: 'Test agent',
+      walletAddress: mockAddress('webhook-depositor'),
+      paymentTxSignature: 'tx-signature',
+      paymentAmount: 0.1,
+    });
+    const tx = nativeTransfer(agent.walletAddress, treasury, 2);
+
+    expect(await ingestHeliusTransactions([tx])).toMatchObject({ deposits: 1 });
+    expect(await ingestHeliusTransactions([tx])).toMatchObject({ deposits: 0 });
+    expect(await storage.getEscrowBalance(agent.id, 'SOL')).toMatchObject({ available: 2, deposited: 2 });
+  });
+
+  it('schedules a reconciliation after a treasury outflow', async () => {
+    vi.mocked(scheduleReconciliation).mockClear();
+    await ingestHeliusTransactions([nativeTransfer(mockAddress('stranger'), treasury, 0.5)]);
+    expect(scheduleReconciliation).not.toHaveBeenCalled();
+
+    await ingestHeliusTransactions([nativeTransfer(treasury, mockAddress('recipient'), 0.1)]);
+    expect(scheduleReconciliation).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,193 @@
+import { timingSafeEqual, randomBytes } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import { storage } from "../storage";
+import { chain } from "./chain";
+import { creditEscrowDeposit } from "./escrow";
+import { recordChainPayouts } from "./payoutHistory";
+import { REGISTRATION_WALLET } from "./registration";
+import { checkRegistrationIntent } from "./registrationIntents";
+import { scheduleReconciliation } from "./reconciliation";
+import type { ChainTransfer, RegistrationIntent } from "@shared/schema";
+
+// Helius sends the webhook's auth header value in Authorization. Webhooks
+// are refused while it is unset.
+const HELIUS_WEBHOOK_SECRET = process.env.HELIUS_WEBHOOK_SECRET;
+// When set, every authenticated payload is saved there for replaying
+const HELIUS_WEBHOOK_RECORD_DIR = process.env.HELIUS_WEBHOOK_RECORD_DIR;
+
+// The parts of a Helius enhanced transaction the platform reads
+const heliusTransactionSchema = z.object({
+  signature: z.string(),
+  timestamp: z.number(),
+  transactionError: z.unknown().optional(),
+  nativeTransfers: z.array(z.object({
+    fromUserAccount: z.string(),
+    toUserAccount: z.string(),
+    amount: z.number(), // lamports
+  })).nullish(),
+  tokenTransfers: z.array(z.object({
+    fromUserAccount: z.string(),
+    toUserAccount: z.string(),
+    mint: z.string(),
+    tokenAmount: z.number(), // token units, not base units
+  })).nullish(),
+  // Every account in the transaction, including Solana Pay references
+  accountData: z.array(z.object({ account: z.string() })).nullish(),
+});
+
+export const heliusWebhookPayloadSchema = z.array(heliusTransactionSchema);
+export type HeliusWebhookTransaction = z.infer<typeof heliusTransactionSchema>;
+
+export interface WebhookIngestResult {
+  transactions: number;
+  // Transfers of the platform wallets not seen before
+  transfers: number;
+  // Registration intents completed
+  registrations: number;
+  // Agent deposits credited
+  deposits: number;
+}
+
+export function isHeliusWebhookConfigured(): boolean {
+  return Boolean(HELIUS_WEBHOOK_SECRET);
+}
+
+/**
+ * Whether an Authorization header carries the webhook secret
+ */
+export function authenticateHeliusWebhook(authorization: string | undefined): boolean {
+  if (!HELIUS_WEBHOOK_SECRET || !authorization) return false;
+  const expected = Buffer.from(HELIUS_WEBHOOK_SECRET);
+  const actual = Buffer.from(authorization);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Save a raw payload to HELIUS_WEBHOOK_RECORD_DIR, if set, so it can be
+ * replayed with script/replay-helius-webhook.ts
+ */
+export async function recordWebhookPayload(body: Buffer): Promise<void> {
+  if (!HELIUS_WEBHOOK_RECORD_DIR) return;
+  try {
+    await mkdir(HELIUS_WEBHOOK_RECORD_DIR, { recursive: true });
+    const file = `helius-${Date.now()}-${randomBytes(4).toString('hex')}.json`;
+    await writeFile(path.join(HELIUS_WEBHOOK_RECORD_DIR, file), body);
+  } catch (error) {
+    console.error('Error recording webhook payload:', error);
+  }
+}
+
+/**
+ * Store the transfers of the registration wallet and treasury in a batch of
+ * transactions and act on them: complete registration intents paid with
+ * their reference, credit deposits from agent wallets, and add treasury
+ * outflows to the payout history and schedule a reconciliation. Payments
+ * are verified on chain before they count, as for requests that carry a
+ * signature. Safe to run again on the same payload.
+ */
+export async function ingestHeliusTransactions(
+  transactions: HeliusWebhookTransaction[]
+): Promise<WebhookIngestResult> {
+  const result: WebhookIngestResult = { transactions: transactions.length, transfers: 0, registrations: 0, deposits: 0 };
+  const treasury = chain.getTreasuryAddress();
+  let pendingIntents: RegistrationIntent[] | null = null;
+
+  for (const tx of transactions) {
+    if (tx.transactionError) continue;
+
+    const transfers = watchedTransfers(tx, treasury);
+    for (const transfer of transfers) {
+      if (await storage.recordChainTransfer(transfer)) result.transfers++;
+    }
+
+    // Solana Pay payments carry the intent's reference as an extra account
+    if (transfers.some(transfer => transfer.wallet === 'registration' && transfer.direction === 'in')) {
+      pendingIntents ??= await storage.getPendingRegistrationIntents();
+      const accounts = new Set((tx.accountData ?? []).map(data => data.account));
+      for (const intent of pendingIntents.filter(candidate => accounts.has(candidate.reference))) {
+        const settled = await checkRegistrationIntent(intent);
+        if (settled.status === 'completed') result.registrations++;
+      }
+    }
+
+    // A signature can be redeemed once, so a transaction credits at most
+    // one deposit: the first transfer into the treasury from an agent
+    for (const transfer of transfers) {
+      if (transfer.wallet !== 'treasury' || transfer.direction !== 'in') continue;
+      const agent = await storage.getAgentByWallet(transfer.from);
+      if (!agent) continue;
+
+      const credited = await creditEscrowDeposit(agent, tx.signature, transfer.mint);
+      if (credited.success) {
+        result.deposits++;
+      } else if (credited.status !== 409) {
+        console.warn(`Webhook deposit ${tx.signature} was not credited: ${credited.details ?? credited.error}`);
+      }
+      break;
+    }
+
+    const outflows = transfers.filter(transfer => transfer.wallet === 'treasury' && transfer.direction === 'out');
+    if (outflows.length) {
+      await recordChainPayouts(outflows.map(transfer => ({
+        signature: transfer.signature,
+        to: transfer.to,
+        amount: transfer.amount,
+        timestamp: transfer.timestamp,
+        status: 'confirmed',
+        mint: transfer.mint,
+        index: Number(transfer.id.slice(transfer.id.lastIndexOf(':') + 1)),
+      })));
+      scheduleReconciliation();
+    }
+  }
+
+  return result;
+}
+
+// SOL and token transfers that move funds into or out of a platform wallet
+function watchedTransfers(tx: HeliusWebhookTransaction, treasury: string): ChainTransfer[] {
+  const moves = [
+    ...(tx.nativeTransfers ?? []).map(transfer => ({
+      from: transfer.fromUserAccount,
+      to: transfer.toUserAccount,
+      amount: transfer.amount / 1e9,
+      mint: undefined as string | undefined,
+    })),
+    ...(tx.tokenTransfers ?? []).map(transfer => ({
+      from: transfer.fromUserAccount,
+      to: transfer.toUserAccount,
+      amount: transfer.tokenAmount,
+      mint: transfer.mint,
+    })),
+  ];
+  const wallets: [ChainTransfer['wallet'], string][] = [
+    ['registration', REGISTRATION_WALLET],
+    ['treasury', treasury],
+  ];
+  const receivedAt = Date.now();
+
+  const transfers: ChainTransfer[] = [];
+  moves.forEach((move, index) => {
+    if (!(move.amount > 0)) return;
+    for (const [wallet, address] of wallets) {
+      const direction = move.to === address ? 'in' : move.from === address ? 'out' : null;
+      if (!direction) continue;
+      transfers.push({
+        id: `${tx.signature}:${index}`,
+        signature: tx.signature,
+        wallet,
+        direction,
+        from: move.from,
+        to: move.to,
+        amount: move.amount,
+        mint: move.mint,
+        timestamp: tx.timestamp * 1000,
+        receivedAt,
+      });
+      break;
+    }
+  });
+  return transfers;
+}
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { InsertTask } from "@shared/schema";
+import { DualWriteStorage } from "./dualWrite";
+import { PgStorage } from "./pg";
+import { RedisStorage } from "./redis";
+import { verifyStorage } from "./migrate";
+import { createTestRedisClient } from "../test/upstash";
+import { createTestDatabase } from "../test/postgres";
+
+function taskInput(overrides: Partial<InsertTask> = {}): InsertTask {
+  return {
+    title: 'Share the launch post',
+    description: 'Tell your followers about the launch',
+    instructions: 'Post a link to the launch announcement',
+    proofType: 'link',
+    reward: 0.1,
+    difficulty: 'easy',
+    category: 'social',
+    active: true,
+    ...overrides,
+  };
+}
+
+describe('DualWriteStorage', () => {
+  let primary: RedisStorage;
+  let secondary: PgStorage;
+  let storage: DualWriteStorage;
+
+  beforeEach(async () => {
+    primary = new RedisStorage(createTestRedisClient());
+    secondary = new PgStorage(await createTestDatabase());
+    storage = new DualWriteStorage(primary, secondary);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('mirrors every write to the secondary with the same ids', async () => {
+    const task = await storage.createTask(taskInput({ maxCompletions: 3 }));
+    const agent = await storage.createAgent({ name: 'Test agent', walletAddress: 'agent-wallet', paymentTxSignature: 'tx-signature', paymentAmount: 0.1 });
+    const app = await storage.createApplication(
+      { taskId: task.id, walletAddress: 'wallet-1', proofContent: 'https://example.com/1' },
+      task.title,
+      task.proofType
+    );
+    await storage.transitionApplication(app.id, 'pending', { status: 'approved', payoutStatus: 'queued' });
+    await storage.createPayoutIntent({
+      applicationId: app.id,
+      taskId: task.id,
+      walletAddress: app.walletAddress,
+      amount: 0.1,
+      status: 'queued',
+      attempts: 0,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+    await storage.transitionPayoutIntent(app.id, { status: 'queued', attempts: 0 }, {
+      status: 'sending',
+      attempts: 1,
+      signature: 'payout-signature',
+    });
+    await storage.reserveTaskCompletion(task.id);
+    await storage.reserveAgentTask(agent.id);
+    await storage.incrementStat('totalPayouts', 0.1);
+    await storage.updateTask(task.id, { active: false });
+
+    expect(await secondary.getTask(task.id)).toMatchObject({ active: false, totalCompletions: 1 });
+    expect((await secondary.getAgentByApiKey(agent.apiKey))?.tasksCreated).toBe(1);
+    expect((await secondary.getApplication(app.id))?.status).toBe('approved');
+    expect((await secondary.getPayoutIntent(app.id))?.signature).toBe('payout-signature');
+    expect((await verifyStorage(primary, secondary)).ok).toBe(true);
+
+    await storage.deleteTask(task.id);
+    expect(await secondary.getTask(task.id)).toBeNull();
+  });
+
+  it('reads from the primary only', async () => {
+    const task = await primary.createTask(taskInput());
+    expect((await storage.getTask(task.id))?.id).toBe(task.id);
+    expect(await secondary.getTask(task.id)).toBeNull();
+  });
+
+  it('lets the primary decide spending limits and mirrors what it counted', async () => {
+    const counters = [{ key: 'day:SOL', limit: 0.2 }];
+    // The secondary is already full, so only an unconditional add can land
+    await secondary.reservePayoutLimits([{ key: 'day:SOL' }], 0.2);
+
+    expect(await storage.reservePayoutLimits(counters, 0.1)).toBeNull();
+    expect(await secondary.reservePayoutLimits([{ key: 'day:SOL', limit: 0.3 }], 0.1)).toBe('day:SOL');
+
+    await storage.releasePayoutLimits(['day:SOL'], 0.1);
+    expect(await secondary.reservePayoutLimits([{ key: 'day:SOL', limit: 0.3 }], 0.1)).toBeNull();
+    expect(await primary.reservePayoutLimits(counters, 0.3)).toBe('day:SOL');
+  });
+
+  it('logs a failed mirror write without failing the request', async () => {
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(secondary, 'importTask').mockRejectedValue(new Error('connection refused'));
+
+    const task = await storage.createTask(taskInput());
+
+    expect(await primary.getTask(task.id)).not.toBeNull();
+    expect(await secondary.getTask(task.id)).toBeNull();
+    expect(errors).toHaveBeenCalledWith(
+      '[dual-write] Failed to mirror createTask to secondary storage:',
+      expect.any(Error)
+    );
+  });
+});
@@ -0,0 +1,506 @@
+import type {
+  Task,
+  NewTask,
+  Application,
+  ApplicationStatus,
+  ApplicationApproval,
+  NewApplication,
+  Agent,
+  NewAgent,
+  RegistrationIntent,
+  RegistrationIntentStatus,
+  WalletChallenge,
+  Stats,
+  PayoutIntent,
+  PayoutIntentVersion,
+  PayoutRecord,
+  ConsumedSignature,
+  EscrowBalance,
+  EscrowBalanceChanges,
+  EscrowDeposit,
+  ChainTransfer,
+  JournalEntry,
+  LedgerBalance,
+  ReconciliationReport,
+  PayoutBreaker,
+  PayoutLimitCounter
+} from "@shared/schema";
+import type { IStorage, IStorageImport, PayoutRecordQuery } from "./types";
+
+/**
+ * Storage wrapper for backend cutovers.
+ * Reads and writes go to the primary, which stays the source of truth. Every
+ * record a write touches is then copied, ids included, to the secondary.
+ * Secondary failures are logged but never fail the request. Re-run the
+ * migration verify step to repair any gaps.
+ */
+export class DualWriteStorage implements IStorage {
+  constructor(
+    private primary: IStorage,
+    private secondary: IStorage & IStorageImport
+  ) {}
+
+  // ========== TASKS ==========
+
+  async createTask(insertTask: NewTask): Promise<Task> {
+    const task = await this.primary.createTask(insertTask);
+    await this.mirror('createTask', async () => {
+      await this.secondary.importTask(task);
+      await this.mirrorStats();
+    });
+    return task;
+  }
+
+  getTask(id: string): Promise<Task | null> {
+    return this.primary.getTask(id);
+  }
+
+  getAllTasks(): Promise<Task[]> {
+    return this.primary.getAllTasks();
+  }
+
+  getActiveTasks(): Promise<Task[]> {
+    return this.primary.getActiveTasks();
+  }
+
+  async updateTask(id: string, updates: Partial<Task>): Promise<Task | null> {
+    const task = await this.primary.updateTask(id, updates);
+    if (task) {
+      await this.mirror('updateTask', () => this.secondary.importTask(task));
+    }
+    return task;
+  }
+
+  async deleteTask(id: string): Promise<boolean> {
+    const deleted = await this.primary.deleteTask(id);
+    if (deleted) {
+      await this.mirror('deleteTask', async () => {
+        await this.secondary.deleteTask(id);
+      });
+    }
+    return deleted;
+  }
+
+  async reserveTaskCompletion(id: string): Promise<boolean> {
+    const reserved = await this.primary.reserveTaskCompletion(id);
+    if (reserved) {
+      await this.mirror('reserveTaskCompletion', async () => {
+        await this.mirrorTask(id);
+        await this.mirrorStats();
+      });
+    }
+    return reserved;
+  }
+
+  async releaseTaskCompletion(id: string): Promise<void> {
+    await this.primary.releaseTaskCompletion(id);
+    await this.mirror('releaseTaskCompletion', async () => {
+      await this.mirrorTask(id);
+      await this.mirrorStats();
+    });
+  }
+
+  async releaseTaskEscrow(id: string): Promise<Task | null> {
+    const task = await this.primary.releaseTaskEscrow(id);
+    if (task) {
+      await this.mirror('releaseTaskEscrow', () => this.secondary.importTask(task));
+    }
+    return task;
+  }
+
+  // ========== APPLICATIONS ==========
+
+  async createApplication(
+    app: NewApplication,
+    taskTitle: string,
+    proofType: string
+  ): Promise<Application> {
+    const application = await this.primary.createApplication(app, taskTitle, proofType);
+    await this.mirror('createApplication', async () => {
+      await this.secondary.importApplication(application);
+      await this.mirrorStats();
+    });
+    return application;
+  }
+
+  getApplication(id: string): Promise<Application | null> {
+    return this.primary.getApplication(id);
+  }
+
+  getAllApplications(): Promise<Application[]> {
+    return this.primary.getAllApplications();
+  }
+
+  getPendingApplications(): Promise<Application[]> {
+    return this.primary.getPendingApplications();
+  }
+
+  getApplicationsByTask(taskId: string): Promise<Application[]> {
+    return this.primary.getApplicationsByTask(taskId);
+  }
+
+  async updateApplication(id: string, updates: Partial<Application>): Promise<Application | null> {
+    const app = await this.primary.updateApplication(id, updates);
+    if (app) {
+      await this.mirror('updateApplication', () => this.secondary.importApplication(app));
+    }
+    return app;
+  }
+
+  async transitionApplication(
+    id: string,
+    from: ApplicationStatus,
+    updates: Partial<Application>
+  ): Promise<Application | null> {
+    const app = await this.primary.transitionApplication(id, from, updates);
+    if (app) {
+      await this.mirror('transitionApplication', () => this.secondary.importApplication(app));
+    }
+    return app;
+  }
+
+  async addApplicationApproval(approval: ApplicationApproval): Promise<boolean> {
+    const added = await this.primary.addApplicationApproval(approval);
+    if (added) {
+      await this.mirror('addApplicationApproval', () => this.secondary.importApplicationApproval(approval));
+    }
+    return added;
+  }
+
+  getApplicationApprovals(applicationId: string): Promise<ApplicationApproval[]> {
+    return this.primary.getApplicationApprovals(applicationId);
+  }
+
+  getAllApplicationApprovals(): Promise<ApplicationApproval[]> {
+    return this.primary.getAllApplicationApprovals();
+  }
+
+  // ========== PAYOUT OUTBOX ==========
+
+  async createPayoutIntent(intent: PayoutIntent): Promise<boolean> {
+    const created = await this.primary.createPayoutIntent(intent);
+    if (created) {
+      await this.mirror('createPayoutIntent', () => this.secondary.importPayoutIntent(intent));
+    }
+    return created;
+  }
+
+  getPayoutIntent(applicationId: string): Promise<PayoutIntent | null> {
+    return this.primary.getPayoutIntent(applicationId);
+  }
+
+  getOpenPayoutIntents(): Promise<PayoutIntent[]> {
+    return this.primary.getOpenPayoutIntents();
+  }
+
+  getAllPayoutIntents(): Promise<PayoutIntent[]> {
+    return this.primary.getAllPayoutIntents();
+  }
+
+  async transitionPayoutIntent(
+    applicationId: string,
+    expected: PayoutIntentVersion,
+    updates: Partial<PayoutIntent>
+  ): Promise<PayoutIntent | null> {
+    const intent = await this.primary.transitionPayoutIntent(applicationId, expected, updates);
+    if (intent) {
+      await this.mirror('transitionPayoutIntent', () => this.secondary.importPayoutIntent(intent));
+    }
+    return intent;
+  }
+
+  // ========== PAYOUT HISTORY ==========
+
+  async recordPayout(record: PayoutRecord): Promise<boolean> {
+    const recorded = await this.primary.recordPayout(record);
+    if (recorded) {
+      await this.mirror('recordPayout', () => this.secondary.importPayoutRecord(record));
+    }
+    return recorded;
+  }
+
+  getPayoutRecords(query: PayoutRecordQuery): Promise<PayoutRecord[]> {
+    return this.primary.getPayoutRecords(query);
+  }
+
+  // ========== AGENTS ==========
+
+  async createAgent(newAgent: NewAgent): Promise<Agent> {
+    const agent = await this.primary.createAgent(newAgent);
+    await this.mirror('createAgent', async () => {
+      await this.secondary.importAgent(agent);
+      await this.mirrorStats();
+    });
+    return agent;
+  }
+
+  getAgent(id: string): Promise<Agent | null> {
+    return this.primary.getAgent(id);
+  }
+
+  getAgentByApiKey(apiKey: string): Promise<Agent | null> {
+    return this.primary.getAgentByApiKey(apiKey);
+  }
+
+  getAgentByWallet(wallet: string): Promise<Agent | null> {
+    return this.primary.getAgentByWallet(wallet);
+  }
+
+  getAllAgents(): Promise<Agent[]> {
+    return this.primary.getAllAgents();
+  }
+
+  async reserveAgentTask(id: string): Promise<boolean> {
+    const reserved = await this.primary.reserveAgentTask(id);
+    if (reserved) await this.mirror('reserveAgentTask', () => this.mirrorAgent(id));
+    return reserved;
+  }
+
+  async releaseAgentTask(id: string): Promise<void> {
+    await this.primary.releaseAgentTask(id);
+    await this.mirror('releaseAgentTask', () => this.mirrorAgent(id));
+  }
+
+  // ========== REGISTRATION INTENTS ==========
+
+  async createRegistrationIntent(intent: RegistrationIntent): Promise<void> {
+    await this.primary.createRegistrationIntent(intent);
+    await this.mirror('createRegistrationIntent', () => this.secondary.importRegistrationIntent(intent));
+  }
+
+  getRegistrationIntent(id: string): Promise<RegistrationIntent | null> {
+    return this.primary.getRegistrationIntent(id);
+  }
+
+  getPendingRegistrationIntents(): Promise<RegistrationIntent[]> {
+    return this.primary.getPendingRegistrationIntents();
+  }
+
+  getAllRegistrationIntents(): Promise<RegistrationIntent[]> {
+    return this.primary.getAllRegistrationIntents();
+  }
+
+  async transitionRegistrationIntent(
+    id: string,
+    expected: RegistrationIntentStatus,
+    updates: Partial<RegistrationIntent>
+  ): Promise<RegistrationIntent | null> {
+    const intent = await this.primary.transitionRegistrationIntent(id, expected, updates);
+    if (intent) {
+      await this.mirror('transitionRegistrationIntent', () => this.secondary.importRegistrationIntent(intent));
+    }
+    return intent;
+  }
+
+  // ========== WALLET CHALLENGES ==========
+
+  // Challenges expire within minutes and are not migrated, so they stay on
+  // the primary. One issued just before a cutover has to be requested again.
+  createWalletChallenge(challenge: WalletChallenge): Promise<void> {
+    return this.primary.createWalletChallenge(challenge);
+  }
+
+  consumeWalletChallenge(nonce: string): Promise<WalletChallenge | null> {
+    return this.primary.consumeWalletChallenge(nonce);
+  }
+
+  // ========== CONSUMED SIGNATURES ==========
+
+  async consumeSignature(record: ConsumedSignature): Promise<boolean> {
+    const consumed = await this.primary.consumeSignature(record);
+    if (consumed) {
+      await this.mirror('consumeSignature', () => this.secondary.importConsumedSignature(record));
+    }
+    return consumed;
+  }
+
+  getConsumedSignature(signature: string): Promise<ConsumedSignature | null> {
+    return this.primary.getConsumedSignature(signature);
+  }
+
+  getAllConsumedSignatures(): Promise<ConsumedSignature[]> {
+    return this.primary.getAllConsumedSignatures();
+  }
+
+  async releaseSignature(signature: string): Promise<void> {
+    await this.primary.releaseSignature(signature);
+    await this.mirror('releaseSignature', () => this.secondary.releaseSignature(signature));
+  }
+
+  // ========== AGENT ESCROW ==========
+
+  async recordEscrowDeposit(deposit: EscrowDeposit): Promise<boolean> {
+    const recorded = await this.primary.recordEscrowDeposit(deposit);
+    if (recorded) {
+      await this.mirror('recordEscrowDeposit', async () => {
+        const consumed = await this.primary.getConsumedSignature(deposit.signature);
+        if (consumed) await this.secondary.importConsumedSignature(consumed);
+        await this.secondary.importEscrowDeposit(deposit);
+        await this.mirrorEscrowBalance(deposit.agentId, deposit.currency);
+      });
+    }
+    return recorded;
+  }
+
+  getEscrowDeposits(agentId: string): Promise<EscrowDeposit[]> {
+    return this.primary.getEscrowDeposits(agentId);
+  }
+
+  getAllEscrowDeposits(): Promise<EscrowDeposit[]> {
+    return this.primary.getAllEscrowDeposits();
+  }
+
+  getEscrowBalance(agentId: string, currency: string): Promise<EscrowBalance | null> {
+    return this.primary.getEscrowBalance(agentId, currency);
+  }
+
+  getEscrowBalances(agentId: string): Promise<EscrowBalance[]> {
+    return this.primary.getEscrowBalances(agentId);
+  }
+
+  getAllEscrowBalances(): Promise<EscrowBalance[]> {
+    return this.primary.getAllEscrowBalances();
+  }
+
+  async lockEscrowFunds(agentId: string, currency: string, amount: number): Promise<boolean> {
+    const locked = await this.primary.lockEscrowFunds(agentId, currency, amount);
+    if (locked) {
+      await this.mirror('lockEscrowFunds', () => this.mirrorEscrowBalance(agentId, currency));
+    }
+    return locked;
+  }
+
+  async adjustEscrowBalance(agentId: string, currency: string, changes: EscrowBalanceChanges): Promise<void> {
+    await this.primary.adjustEscrowBalance(agentId, currency, changes);
+    await this.mirror('adjustEscrowBalance', () => this.mirrorEscrowBalance(agentId, currency));
+  }
+
+  // ========== CHAIN TRANSFERS ==========
+
+  async recordChainTransfer(transfer: ChainTransfer): Promise<boolean> {
+    const recorded = await this.primary.recordChainTransfer(transfer);
+    if (recorded) {
+      await this.mirror('recordChainTransfer', () => this.secondary.importChainTransfer(transfer));
+    }
+    return recorded;
+  }
+
+  getAllChainTransfers(): Promise<ChainTransfer[]> {
+    return this.primary.getAllChainTransfers();
+  }
+
+  // ========== LEDGER ==========
+
+  async postJournalEntry(entry: JournalEntry): Promise<boolean> {
+    const posted = await this.primary.postJournalEntry(entry);
+    if (posted) {
+      await this.mirror('postJournalEntry', async () => {
+        await this.secondary.importJournalEntry(entry);
+        await this.mirrorLedgerBalances(entry);
+      });
+    }
+    return posted;
+  }
+
+  getJournalEntries(account?: string, limit?: number): Promise<JournalEntry[]> {
+    return this.primary.getJournalEntries(account, limit);
+  }
+
+  getLedgerBalances(): Promise<LedgerBalance[]> {
+    return this.primary.getLedgerBalances();
+  }
+
+  // ========== RECONCILIATION ==========
+
+  async saveReconciliationReport(report: ReconciliationReport): Promise<void> {
+    await this.primary.saveReconciliationReport(report);
+    await this.mirror('saveReconciliationReport', () => this.secondary.saveReconciliationReport(report));
+  }
+
+  getReconciliationReport(): Promise<ReconciliationReport | null> {
+    return this.primary.getReconciliationReport();
+  }
+
+  // ========== SPENDING LIMITS ==========
+
+  // The primary decides; the secondary adds the same amount without limits
+  async reservePayoutLimits(counters: PayoutLimitCounter[], amount: number): Promise<string | null> {
+    const full = await this.primary.reservePayoutLimits(counters, amount);
+    if (!full) {
+      await this.mirror('reservePayoutLimits', async () => {
+        await this.secondary.reservePayoutLimits(counters.map(({ key }) => ({ key })), amount);
+      });
+    }
+    return full;
+  }
+
+  async releasePayoutLimits(keys: string[], amount: number): Promise<void> {
+    await this.primary.releasePayoutLimits(keys, amount);
+    await this.mirror('releasePayoutLimits', () => this.secondary.releasePayoutLimits(keys, amount));
+  }
+
+  // ========== TREASURY ==========
+
+  getPayoutBreaker(): Promise<PayoutBreaker> {
+    return this.primary.getPayoutBreaker();
+  }
+
+  async setPayoutBreaker(breaker: PayoutBreaker): Promise<void> {
+    await this.primary.setPayoutBreaker(breaker);
+    await this.mirror('setPayoutBreaker', () => this.secondary.setPayoutBreaker(breaker));
+  }
+
+  // ========== STATS ==========
+
+  getStats(): Promise<Stats> {
+    return this.primary.getStats();
+  }
+
+  async incrementStat(key: keyof Stats, amount?: number): Promise<void> {
+    await this.primary.incrementStat(key, amount);
+    await this.mirror('incrementStat', () => this.mirrorStats());
+  }
+
+  // ========== MIRRORING ==========
+
+  private async mirrorTask(id: string): Promise<void> {
+    const task = await this.primary.getTask(id);
+    if (task) await this.secondary.importTask(task);
+  }
+
+  private async mirrorAgent(id: string): Promise<void> {
+    const agent = await this.primary.getAgent(id);
+    if (agent) await this.secondary.importAgent(agent);
+  }
+
+  // Balances are copied whole, like the stats below
+  private async mirrorEscrowBalance(agentId: string, currency: string): Promise<void> {
+    const balance = await this.primary.getEscrowBalance(agentId, currency);
+    if (balance) await this.secondary.importEscrowBalance(balance);
+  }
+
+  // The balances of every account the entry posted to
+  private async mirrorLedgerBalances(entry: JournalEntry): Promise<void> {
+    const accounts = new Set(entry.lines.map(line => line.account));
+    const balances = await this.primary.getLedgerBalances();
+    for (const balance of balances) {
+      if (balance.currency === entry.currency && accounts.has(balance.account)) {
+        await this.secondary.importLedgerBalance(balance);
+      }
+    }
+  }
+
+  // Counters are copied whole rather than incremented so the secondary
+  // converges even after a missed write.
+  private async mirrorStats(): Promise<void> {
+    await this.secondary.importStats(await this.primary.getStats());
+  }
+
+  private async mirror(operation: string, write: () => Promise<void>): Promise<void> {
+    try {
+      await write();
+    } catch (error) {
+      console.error(`[dual-write] Failed to mirror ${operation} to secondary storage:`, error);
+    }
+  }
+}
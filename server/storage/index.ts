@@ -0,0 +1,46 @@
+import type { IStorage } from "./types";
+import { RedisStorage, createRedisClient } from "./redis";
+import { MemoryStorage } from "./memory";
+import { PgStorage } from "./pg";
+import { DualWriteStorage } from "./dualWrite";
+import { createDb } from "../db";
+
+export type { IStorage, PayoutRecordQuery } from "./types";
+export { RedisStorage } from "./redis";
+export { MemoryStorage } from "./memory";
+export { PgStorage } from "./pg";
+export { DualWriteStorage } from "./dualWrite";
+export { roundEscrowAmount } from "./utils";
+
+// Storage backend: "redis" (default), "postgres", "memory", or "dual" to
+// write to both Redis and PostgreSQL during a cutover
+const STORAGE_BACKEND = process.env.STORAGE_BACKEND || "redis";
+// With "dual": which backend is read from and is the source of truth
+const DUAL_WRITE_PRIMARY = process.env.DUAL_WRITE_PRIMARY || "redis";
+
+function createStorage(): IStorage {
+  switch (STORAGE_BACKEND) {
+    case "redis":
+      return new RedisStorage(createRedisClient());
+    case "postgres":
+      return new PgStorage(createDb());
+    case "dual": {
+      const redis = new RedisStorage(createRedisClient());
+      const pg = new PgStorage(createDb());
+      if (DUAL_WRITE_PRIMARY === "postgres") {
+        return new DualWriteStorage(pg, redis);
+      }
+      if (DUAL_WRITE_PRIMARY !== "redis") {
+        throw new Error(`Unknown DUAL_WRITE_PRIMARY "${DUAL_WRITE_PRIMARY}". Use "redis" or "postgres"`);
+      }
+      return new DualWriteStorage(redis, pg);
+    }
+    case "memory":
+      console.warn('Using in-memory storage: data will be lost on restart');
+      return new MemoryStorage();
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${STORAGE_BACKEND}". Use "redis", "postgres", "memory" or "dual"`);
+  }
+}
+
+export const storage = createStorage();
@@ -0,0 +1,763 @@
+import { v4 as uuidv4 } from "uuid";
+import type {
+  Task,
+  NewTask,
+  Application,
+  ApplicationStatus,
+  ApplicationApproval,
+  NewApplication,
+  Agent,
+  NewAgent,
+  RegistrationIntent,
+  RegistrationIntentStatus,
+  WalletChallenge,
+  Stats,
+  PayoutIntent,
+  PayoutIntentVersion,
+  PayoutRecord,
+  ConsumedSignature,
+  EscrowBalance,
+  EscrowBalanceChanges,
+  EscrowDeposit,
+  ChainTransfer,
+  JournalEntry,
+  LedgerBalance,
+  ReconciliationReport,
+  PayoutBreaker,
+  PayoutLimitCounter
+} from "@shared/schema";
+import type { IStorage, IStorageImport, PayoutRecordQuery } from "./types";
+import {
+  generateApiKey,
+  isOpenPayoutStatus,
+  matchesPayoutVersion,
+  applyPayoutUpdates,
+  applyEscrowChanges,
+  roundEscrowAmount,
+  selectPayoutRecords
+} from "./utils";
+
+/**
+ * In-process storage for local development and tests.
+ * Mirrors the key and set layout of RedisStorage so list ordering and
+ * membership behave the same; returned objects are copies, as they would be
+ * after a Redis round trip.
+ */
+export class MemoryStorage implements IStorage, IStorageImport {
+  private tasks = new Map<string, Task>();
+  private allTasks = new Set<string>();
+  private activeTasks = new Set<string>();
+
+  private applications = new Map<string, Application>();
+  private allApplications = new Set<string>();
+  private pendingApplications = new Set<string>();
+  private taskApplications = new Map<string, Set<string>>();
+  // Approvals by application id, then by reviewer
+  private applicationApprovals = new Map<string, Map<string, ApplicationApproval>>();
+
+  private payoutIntents = new Map<string, PayoutIntent>();
+  private payoutRecords = new Map<string, PayoutRecord>();
+
+  private agents = new Map<string, Agent>();
+  private agentsByApiKey = new Map<string, string>();
+  private agentsByWallet = new Map<string, string>();
+  private allAgents = new Set<string>();
+
+  private registrationIntents = new Map<string, RegistrationIntent>();
+
+  private walletChallenges = new Map<string, WalletChallenge>();
+
+  private consumedSignatures = new Map<string, ConsumedSignature>();
+
+  private escrowBalances = new Map<string, EscrowBalance>(); // by escrowKey()
+  private escrowDeposits = new Map<string, EscrowDeposit>();
+
+  private chainTransfers = new Map<string, ChainTransfer>();
+
+  private journalEntries = new Map<string, JournalEntry>();
+  private journalReferences = new Set<string>();
+  private ledgerBalances = new Map<string, LedgerBalance>(); // by ledgerKey()
+
+  private reconciliationReport: ReconciliationReport | null = null;
+  private payoutLimitUsage = new Map<string, number>();
+  private payoutBreaker: PayoutBreaker = { paused: false };
+
+  private stats = new Map<keyof Stats, number>();
+
+  // ========== TASKS ==========
+
+  async createTask(insertTask: NewTask): Promise<Task> {
+    const id = uuidv4();
+    const task: Task = {
+      ...insertTask,
+      id,
+      totalCompletions: 0,
+      createdAt: Date.now(),
+    };
+
+    this.tasks.set(id, clone(task));
+    this.allTasks.add(id);
+    if (task.active) {
+      this.activeTasks.add(id);
+    }
+    await this.incrementStat('totalTasks');
+
+    return task;
+  }
+
+  async getTask(id: string): Promise<Task | null> {
+    const task = this.tasks.get(id);
+    return task ? clone(task) : null;
+  }
+
+  async getAllTasks(): Promise<Task[]> {
+    const tasks: Task[] = [];
+    for (const id of Array.from(this.allTasks)) {
+      const task = await this.getTask(id);
+      if (task) tasks.push(task);
+    }
+    return tasks.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async getActiveTasks(): Promise<Task[]> {
+    const tasks: Task[] = [];
+    for (const id of Array.from(this.activeTasks)) {
+      const task = await this.getTask(id);
+      if (task && task.active) tasks.push(task);
+    }
+    return tasks.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async updateTask(id: string, updates: Partial<Task>): Promise<Task | null> {
+    const task = this.tasks.get(id);
+    if (!task) return null;
+
+    const updatedTask: Task = { ...task, ...clone(updates), id };
+    this.tasks.set(id, updatedTask);
+
+    // Update active set
+    if (updates.active !== undefined) {
+      if (updates.active) {
+        this.activeTasks.add(id);
+      } else {
+        this.activeTasks.delete(id);
+      }
+    }
+
+    return clone(updatedTask);
+  }
+
+  async deleteTask(id: string): Promise<boolean> {
+    if (!this.tasks.has(id)) return false;
+
+    this.tasks.delete(id);
+    this.allTasks.delete(id);
+    this.activeTasks.delete(id);
+
+    return true;
+  }
+
+  // No await between the check and the write, so this is atomic
+  async reserveTaskCompletion(id: string): Promise<boolean> {
+    const task = this.tasks.get(id);
+    if (!task) return false;
+    if (task.maxCompletions && task.totalCompletions >= task.maxCompletions) return false;
+    if (task.escrowStatus === 'released') return false;
+
+    task.totalCompletions += 1;
+    this.stats.set('totalCompletedTasks', (this.stats.get('totalCompletedTasks') || 0) + 1);
+    return true;
+  }
+
+  async releaseTaskCompletion(id: string): Promise<void> {
+    const task = this.tasks.get(id);
+    if (!task || task.totalCompletions <= 0) return;
+
+    task.totalCompletions -= 1;
+    this.stats.set('totalCompletedTasks', (this.stats.get('totalCompletedTasks') || 0) - 1);
+  }
+
+  async releaseTaskEscrow(id: string): Promise<Task | null> {
+    const task = this.tasks.get(id);
+    if (!task || task.escrowStatus !== 'locked') return null;
+
+    task.escrowStatus = 'released';
+    return clone(task);
+  }
+
+  // ========== APPLICATIONS ==========
+
+  async createApplication(
+    app: NewApplication,
+    taskTitle: string,
+    proofType: string
+  ): Promise<Application> {
+    const id = uuidv4();
+    const application: Application = {
+      id,
+      taskId: app.taskId,
+      taskTitle,
+      walletAddress: app.walletAddress,
+      proofType,
+      proofContent: app.proofContent,
+      walletVerified: app.walletVerified,
+      status: 'pending',
+      submittedAt: Date.now(),
+    };
+
+    this.applications.set(id, clone(application));
+    this.allApplications.add(id);
+    this.pendingApplications.add(id);
+    this.addTaskApplication(app.taskId, id);
+    await this.incrementStat('totalApplications');
+
+    return application;
+  }
+
+  async getApplication(id: string): Promise<Application | null> {
+    const app = this.applications.get(id);
+    return app ? clone(app) : null;
+  }
+
+  async getAllApplications(): Promise<Application[]> {
+    return this.collectApplications(this.allApplications);
+  }
+
+  async getPendingApplications(): Promise<Application[]> {
+    const applications = await this.collectApplications(this.pendingApplications);
+    return applications.filter(app => app.status === 'pending');
+  }
+
+  async getApplicationsByTask(taskId: string): Promise<Application[]> {
+    return this.collectApplications(this.taskApplications.get(taskId));
+  }
+
+  async updateApplication(id: string, updates: Partial<Application>): Promise<Application | null> {
+    const app = this.applications.get(id);
+    if (!app) return null;
+
+    const updatedApp: Application = { ...app, ...clone(updates), id };
+    this.applications.set(id, updatedApp);
+
+    // Update pending set if status changed
+    if (updates.status && updates.status !== 'pending') {
+      this.pendingApplications.delete(id);
+    }
+
+    return clone(updatedApp);
+  }
+
+  async transitionApplication(
+    id: string,
+    from: ApplicationStatus,
+    updates: Partial<Application>
+  ): Promise<Application | null> {
+    const app = this.applications.get(id);
+    if (!app || app.status !== from) return null;
+    return this.updateApplication(id, updates);
+  }
+
+  async addApplicationApproval(approval: ApplicationApproval): Promise<boolean> {
+    const approvals = this.approvalsOf(approval.applicationId);
+    if (approvals.has(approval.reviewer)) return false;
+    approvals.set(approval.reviewer, clone(approval));
+    return true;
+  }
+
+  async getApplicationApprovals(applicationId: string): Promise<ApplicationApproval[]> {
+    return Array.from(this.applicationApprovals.get(applicationId)?.values() ?? [])
+      .map(clone)
+      .sort((a, b) => a.approvedAt - b.approvedAt);
+  }
+
+  async getAllApplicationApprovals(): Promise<ApplicationApproval[]> {
+    return Array.from(this.applicationApprovals.values())
+      .flatMap(approvals => Array.from(approvals.values()))
+      .map(clone)
+      .sort((a, b) => a.approvedAt - b.approvedAt);
+  }
+
+  private approvalsOf(applicationId: string): Map<string, ApplicationApproval> {
+    let approvals = this.applicationApprovals.get(applicationId);
+    if (!approvals) {
+      approvals = new Map();
+      this.applicationApprovals.set(applicationId, approvals);
+    }
+    return approvals;
+  }
+
+  private addTaskApplication(taskId: string, id: string): void {
+    let ids = this.taskApplications.get(taskId);
+    if (!ids) {
+      ids = new Set();
+      this.taskApplications.set(taskId, ids);
+    }
+    ids.add(id);
+  }
+
+  private async collectApplications(ids: Set<string> | undefined): Promise<Application[]> {
+    if (!ids) return [];
+
+    const applications: Application[] = [];
+    for (const id of Array.from(ids)) {
+      const app = await this.getApplication(id);
+      if (app) applications.push(app);
+    }
+    return applications.sort((a, b) => b.submittedAt - a.submittedAt);
+  }
+
+  // ========== PAYOUT OUTBOX ==========
+
+  async createPayoutIntent(intent: PayoutIntent): Promise<boolean> {
+    if (this.payoutIntents.has(intent.applicationId)) return false;
+    this.payoutIntents.set(intent.applicationId, clone(intent));
+    return true;
+  }
+
+  async getPayoutIntent(applicationId: string): Promise<PayoutIntent | null> {
+    const intent = this.payoutIntents.get(applicationId);
+    return intent ? clone(intent) : null;
+  }
+
+  async getOpenPayoutIntents(): Promise<PayoutIntent[]> {
+    return Array.from(this.payoutIntents.values())
+      .filter(intent => isOpenPayoutStatus(intent.status))
+      .map(clone)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async getAllPayoutIntents(): Promise<PayoutIntent[]> {
+    return Array.from(this.payoutIntents.values())
+      .map(clone)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async transitionPayoutIntent(
+    applicationId: string,
+    expected: PayoutIntentVersion,
+    updates: Partial<PayoutIntent>
+  ): Promise<PayoutIntent | null> {
+    const intent = this.payoutIntents.get(applicationId);
+    if (!intent || !matchesPayoutVersion(intent, expected)) return null;
+
+    const updated = applyPayoutUpdates(intent, { ...updates, applicationId });
+    this.payoutIntents.set(applicationId, clone(updated));
+    return updated;
+  }
+
+  // ========== PAYOUT HISTORY ==========
+
+  async recordPayout(record: PayoutRecord): Promise<boolean> {
+    if (this.payoutRecords.has(record.id)) return false;
+    this.payoutRecords.set(record.id, clone(record));
+    return true;
+  }
+
+  async getPayoutRecords(query: PayoutRecordQuery): Promise<PayoutRecord[]> {
+    return selectPayoutRecords(Array.from(this.payoutRecords.values()), query).map(clone);
+  }
+
+  // ========== AGENTS ==========
+
+  async createAgent(newAgent: NewAgent): Promise<Agent> {
+    const id = uuidv4();
+    const apiKey = generateApiKey();
+
+    const agent: Agent = {
+      id,
+      ...newAgent,
+      apiKey,
+      createdAt: Date.now(),
+      active: true,
+      tasksCreated: 0,
+    };
+
+    this.agents.set(id, clone(agent));
+    this.agentsByApiKey.set(apiKey, id);
+    this.agentsByWallet.set(agent.walletAddress, id);
+    this.allAgents.add(id);
+    await this.incrementStat('totalAgents');
+
+    return agent;
+  }
+
+  async getAgent(id: string): Promise<Agent | null> {
+    const agent = this.agents.get(id);
+    return agent ? clone(agent) : null;
+  }
+
+  async getAgentByApiKey(apiKey: string): Promise<Agent | null> {
+    const agentId = this.agentsByApiKey.get(apiKey);
+    if (!agentId) return null;
+    return this.getAgent(agentId);
+  }
+
+  async getAgentByWallet(wallet: string): Promise<Agent | null> {
+    const agentId = this.agentsByWallet.get(wallet);
+    if (!agentId) return null;
+    return this.getAgent(agentId);
+  }
+
+  async getAllAgents(): Promise<Agent[]> {
+    const agents: Agent[] = [];
+    for (const id of Array.from(this.allAgents)) {
+      const agent = await this.getAgent(id);
+      if (agent) agents.push(agent);
+    }
+    return agents.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async reserveAgentTask(id: string): Promise<boolean> {
+    const agent = this.agents.get(id);
+    if (!agent) return false;
+    if (agent.taskQuota !== undefined && agent.tasksCreated >= agent.taskQuota) return false;
+    agent.tasksCreated += 1;
+    return true;
+  }
+
+  async releaseAgentTask(id: string): Promise<void> {
+    const agent = this.agents.get(id);
+    if (agent && agent.tasksCreated > 0) {
+      agent.tasksCreated -= 1;
+    }
+  }
+
+  // ========== REGISTRATION INTENTS ==========
+
+  async createRegistrationIntent(intent: RegistrationIntent): Promise<void> {
+    this.registrationIntents.set(intent.id, clone(intent));
+  }
+
+  async getRegistrationIntent(id: string): Promise<RegistrationIntent | null> {
+    const intent = this.registrationIntents.get(id);
+    return intent ? clone(intent) : null;
+  }
+
+  async getPendingRegistrationIntents(): Promise<RegistrationIntent[]> {
+    return Array.from(this.registrationIntents.values())
+      .filter(intent => intent.status === 'pending')
+      .map(clone)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async getAllRegistrationIntents(): Promise<RegistrationIntent[]> {
+    return Array.from(this.registrationIntents.values())
+      .map(clone)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async transitionRegistrationIntent(
+    id: string,
+    expected: RegistrationIntentStatus,
+    updates: Partial<RegistrationIntent>
+  ): Promise<RegistrationIntent | null> {
+    const intent = this.registrationIntents.get(id);
+    if (!intent || intent.status !== expected) return null;
+
+    const updated: RegistrationIntent = { ...intent, ...updates, id };
+    this.registrationIntents.set(id, clone(updated));
+    return updated;
+  }
+
+  // ========== WALLET CHALLENGES ==========
+
+  async createWalletChallenge(challenge: WalletChallenge): Promise<void> {
+    // Unused challenges are never read again once expired
+    const now = Date.now();
+    for (const expired of Array.from(this.walletChallenges.values()).filter(c => c.expiresAt < now)) {
+      this.walletChallenges.delete(expired.nonce);
+    }
+    this.walletChallenges.set(challenge.nonce, clone(challenge));
+  }
+
+  async consumeWalletChallenge(nonce: string): Promise<WalletChallenge | null> {
+    const challenge = this.walletChallenges.get(nonce);
+    if (!challenge) return null;
+    this.walletChallenges.delete(nonce);
+    return clone(challenge);
+  }
+
+  // ========== CONSUMED SIGNATURES ==========
+
+  async consumeSignature(record: ConsumedSignature): Promise<boolean> {
+    if (this.consumedSignatures.has(record.signature)) return false;
+    this.consumedSignatures.set(record.signature, clone(record));
+    return true;
+  }
+
+  async getConsumedSignature(signature: string): Promise<ConsumedSignature | null> {
+    const record = this.consumedSignatures.get(signature);
+    return record ? clone(record) : null;
+  }
+
+  async getAllConsumedSignatures(): Promise<ConsumedSignature[]> {
+    return Array.from(this.consumedSignatures.values())
+      .map(clone)
+      .sort((a, b) => b.consumedAt - a.consumedAt);
+  }
+
+  async releaseSignature(signature: string): Promise<void> {
+    this.consumedSignatures.delete(signature);
+  }
+
+  // ========== AGENT ESCROW ==========
+
+  async recordEscrowDeposit(deposit: EscrowDeposit): Promise<boolean> {
+    const consumed = await this.consumeSignature({
+      signature: deposit.signature,
+      purpose: 'escrow_deposit',
+      walletAddress: deposit.walletAddress,
+      consumedAt: deposit.createdAt,
+    });
+    if (!consumed) return false;
+
+    this.escrowDeposits.set(deposit.signature, clone(deposit));
+    await this.adjustEscrowBalance(deposit.agentId, deposit.currency, {
+      available: deposit.amount,
+      deposited: deposit.amount,
+    });
+    return true;
+  }
+
+  async getEscrowDeposits(agentId: string): Promise<EscrowDeposit[]> {
+    const deposits = await this.getAllEscrowDeposits();
+    return deposits.filter(deposit => deposit.agentId === agentId);
+  }
+
+  async getAllEscrowDeposits(): Promise<EscrowDeposit[]> {
+    return Array.from(this.escrowDeposits.values())
+      .map(clone)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async getEscrowBalance(agentId: string, currency: string): Promise<EscrowBalance | null> {
+    const balance = this.escrowBalances.get(escrowKey(agentId, currency));
+    return balance ? clone(balance) : null;
+  }
+
+  async getEscrowBalances(agentId: string): Promise<EscrowBalance[]> {
+    const balances = await this.getAllEscrowBalances();
+    return balances.filter(balance => balance.agentId === agentId);
+  }
+
+  async getAllEscrowBalances(): Promise<EscrowBalance[]> {
+    return Array.from(this.escrowBalances.values())
+      .map(clone)
+      .sort((a, b) => (a.agentId + a.currency).localeCompare(b.agentId + b.currency));
+  }
+
+  async lockEscrowFunds(agentId: string, currency: string, amount: number): Promise<boolean> {
+    const key = escrowKey(agentId, currency);
+    const balance = this.escrowBalances.get(key);
+    if (!balance || balance.available < roundEscrowAmount(amount)) return false;
+
+    this.escrowBalances.set(key, applyEscrowChanges(balance, agentId, currency, {
+      available: -amount,
+      locked: amount,
+    }));
+    return true;
+  }
+
+  async adjustEscrowBalance(agentId: string, currency: string, changes: EscrowBalanceChanges): Promise<void> {
+    const key = escrowKey(agentId, currency);
+    const balance = this.escrowBalances.get(key) ?? null;
+    this.escrowBalances.set(key, applyEscrowChanges(balance, agentId, currency, changes));
+  }
+
+  // ========== CHAIN TRANSFERS ==========
+
+  async recordChainTransfer(transfer: ChainTransfer): Promise<boolean> {
+    if (this.chainTransfers.has(transfer.id)) return false;
+    this.chainTransfers.set(transfer.id, clone(transfer));
+    return true;
+  }
+
+  async getAllChainTransfers(): Promise<ChainTransfer[]> {
+    return Array.from(this.chainTransfers.values())
+      .map(clone)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  // ========== LEDGER ==========
+
+  async postJournalEntry(entry: JournalEntry): Promise<boolean> {
+    if (this.journalReferences.has(entry.reference)) return false;
+
+    this.journalReferences.add(entry.reference);
+    this.journalEntries.set(entry.id, clone(entry));
+    for (const line of entry.lines) {
+      const key = ledgerKey(line.account, entry.currency);
+      const balance = this.ledgerBalances.get(key)?.balance ?? 0;
+      this.ledgerBalances.set(key, {
+        account: line.account,
+        currency: entry.currency,
+        balance: roundEscrowAmount(balance + line.amount),
+      });
+    }
+    return true;
+  }
+
+  async getJournalEntries(account?: string, limit?: number): Promise<JournalEntry[]> {
+    const entries = Array.from(this.journalEntries.values())
+      .filter(entry => !account || entry.lines.some(line => line.account === account))
+      .sort((a, b) => b.createdAt - a.createdAt);
+    return entries.slice(0, limit ?? entries.length).map(clone);
+  }
+
+  async getLedgerBalances(): Promise<LedgerBalance[]> {
+    return Array.from(this.ledgerBalances.values())
+      .map(clone)
+      .sort((a, b) => (a.account + a.currency).localeCompare(b.account + b.currency));
+  }
+
+  // ========== RECONCILIATION ==========
+
+  async saveReconciliationReport(report: ReconciliationReport): Promise<void> {
+    this.reconciliationReport = clone(report);
+  }
+
+  async getReconciliationReport(): Promise<ReconciliationReport | null> {
+    return this.reconciliationReport ? clone(this.reconciliationReport) : null;
+  }
+
+  // ========== SPENDING LIMITS ==========
+
+  async reservePayoutLimits(counters: PayoutLimitCounter[], amount: number): Promise<string | null> {
+    const full = counters.find(counter =>
+      counter.limit !== undefined && roundEscrowAmount(this.payoutLimitUsed(counter.key) + amount) > counter.limit
+    );
+    if (full) return full.key;
+
+    for (const { key } of counters) {
+      this.payoutLimitUsage.set(key, roundEscrowAmount(this.payoutLimitUsed(key) + amount));
+    }
+    return null;
+  }
+
+  async releasePayoutLimits(keys: string[], amount: number): Promise<void> {
+    for (const key of keys) {
+      if (this.payoutLimitUsage.has(key)) {
+        this.payoutLimitUsage.set(key, Math.max(0, roundEscrowAmount(this.payoutLimitUsed(key) - amount)));
+      }
+    }
+  }
+
+  private payoutLimitUsed(key: string): number {
+    return this.payoutLimitUsage.get(key) ?? 0;
+  }
+
+  // ========== TREASURY ==========
+
+  async getPayoutBreaker(): Promise<PayoutBreaker> {
+    return clone(this.payoutBreaker);
+  }
+
+  async setPayoutBreaker(breaker: PayoutBreaker): Promise<void> {
+    this.payoutBreaker = clone(breaker);
+  }
+
+  // ========== STATS ==========
+
+  async getStats(): Promise<Stats> {
+    return {
+      totalTasks: this.stats.get('totalTasks') || 0,
+      totalApplications: this.stats.get('totalApplications') || 0,
+      totalPayouts: this.stats.get('totalPayouts') || 0,
+      totalAgents: this.stats.get('totalAgents') || 0,
+      totalCompletedTasks: this.stats.get('totalCompletedTasks') || 0,
+    };
+  }
+
+  async incrementStat(key: keyof Stats, amount: number = 1): Promise<void> {
+    this.stats.set(key, (this.stats.get(key) || 0) + amount);
+  }
+
+  // ========== IMPORT ==========
+
+  async importTask(task: Task): Promise<void> {
+    this.tasks.set(task.id, clone(task));
+    this.allTasks.add(task.id);
+    if (task.active) {
+      this.activeTasks.add(task.id);
+    } else {
+      this.activeTasks.delete(task.id);
+    }
+  }
+
+  async importApplication(app: Application): Promise<void> {
+    this.applications.set(app.id, clone(app));
+    this.allApplications.add(app.id);
+    if (app.status === 'pending') {
+      this.pendingApplications.add(app.id);
+    } else {
+      this.pendingApplications.delete(app.id);
+    }
+    this.addTaskApplication(app.taskId, app.id);
+  }
+
+  async importApplicationApproval(approval: ApplicationApproval): Promise<void> {
+    this.approvalsOf(approval.applicationId).set(approval.reviewer, clone(approval));
+  }
+
+  async importAgent(agent: Agent): Promise<void> {
+    this.agents.set(agent.id, clone(agent));
+    this.agentsByApiKey.set(agent.apiKey, agent.id);
+    this.agentsByWallet.set(agent.walletAddress, agent.id);
+    this.allAgents.add(agent.id);
+  }
+
+  async importRegistrationIntent(intent: RegistrationIntent): Promise<void> {
+    this.registrationIntents.set(intent.id, clone(intent));
+  }
+
+  async importStats(stats: Stats): Promise<void> {
+    for (const [key, value] of Object.entries(stats)) {
+      this.stats.set(key as keyof Stats, value);
+    }
+  }
+
+  async importPayoutIntent(intent: PayoutIntent): Promise<void> {
+    this.payoutIntents.set(intent.applicationId, clone(intent));
+  }
+
+  async importPayoutRecord(record: PayoutRecord): Promise<void> {
+    this.payoutRecords.set(record.id, clone(record));
+  }
+
+  async importConsumedSignature(record: ConsumedSignature): Promise<void> {
+    this.consumedSignatures.set(record.signature, clone(record));
+  }
+
+  async importEscrowBalance(balance: EscrowBalance): Promise<void> {
+    this.escrowBalances.set(escrowKey(balance.agentId, balance.currency), clone(balance));
+  }
+
+  async importEscrowDeposit(deposit: EscrowDeposit): Promise<void> {
+    this.escrowDeposits.set(deposit.signature, clone(deposit));
+  }
+
+  async importChainTransfer(transfer: ChainTransfer): Promise<void> {
+    this.chainTransfers.set(transfer.id, clone(transfer));
+  }
+
+  async importJournalEntry(entry: JournalEntry): Promise<void> {
+    this.journalEntries.set(entry.id, clone(entry));
+    this.journalReferences.add(entry.reference);
+  }
+
+  async importLedgerBalance(balance: LedgerBalance): Promise<void> {
+    this.ledgerBalances.set(ledgerKey(balance.account, balance.currency), clone(balance));
+  }
+}
+
+function escrowKey(agentId: string, currency: string): string {
+  return `${agentId}:${currency}`;
+}
+
+function ledgerKey(account: string, currency: string): string {
+  return `${currency}:${account}`;
+}
+
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
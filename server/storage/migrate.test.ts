@@ -0,0 +1,156 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { InsertTask } from "@shared/schema";
+import { RedisStorage } from "./redis";
+import { PgStorage } from "./pg";
+import { MemoryStorage } from "./memory";
+import { copyStorage, verifyStorage, type MigrationState } from "./migrate";
+import { createTestRedisClient } from "../test/upstash";
+import { createTestDatabase } from "../test/postgres";
+
+function taskInput(overrides: Partial<InsertTask> = {}): InsertTask {
+  return {
+    title: 'Share the launch post',
+    description: 'Tell your followers about the launch',
+    instructions: 'Post a link to the launch announcement',
+    proofType: 'link',
+    reward: 0.1,
+    difficulty: 'easy',
+    category: 'social',
+    active: true,
+    ...overrides,
+  };
+}
+
+// A Redis store with a bit of everything, as production would have
+async function seed(source: RedisStorage) {
+  const task = await source.createTask(taskInput({ maxCompletions: 5 }));
+  const inactive = await source.createTask(taskInput({ title: 'Old task', active: false }));
+  await source.reserveTaskCompletion(task.id);
+  const agent = await source.createAgent({ name: 'Test agent', walletAddress: 'agent-wallet', paymentTxSignature: 'tx-signature', paymentAmount: 0.1 });
+  await source.reserveAgentTask(agent.id);
+  const pending = await source.createApplication(
+    { taskId: task.id, walletAddress: 'wallet-1', proofContent: 'https://example.com/1' },
+    task.title,
+    task.proofType
+  );
+  const approved = await source.createApplication(
+    { taskId: inactive.id, walletAddress: 'wallet-2', proofContent: 'https://example.com/2' },
+    inactive.title,
+    inactive.proofType
+  );
+  await source.updateApplication(approved.id, { status: 'approved', txSignature: 'payout-signature' });
+  await source.createPayoutIntent({
+    applicationId: approved.id,
+    taskId: inactive.id,
+    walletAddress: approved.walletAddress,
+    amount: 0.1,
+    status: 'confirmed',
+    attempts: 1,
+    signature: 'payout-signature',
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  });
+  await source.incrementStat('totalPayouts', 0.1);
+  return { task, inactive, agent, pending, approved };
+}
+
+describe('Redis to PostgreSQL migration', () => {
+  let source: RedisStorage;
+  let target: PgStorage;
+
+  beforeEach(async () => {
+    source = new RedisStorage(createTestRedisClient());
+    target = new PgStorage(await createTestDatabase());
+  });
+
+  it('copies every record with its id and verifies the copy', async () => {
+    const { task, agent, pending, approved } = await seed(source);
+
+    await copyStorage(source, target);
+
+    expect(await target.getTask(task.id)).toEqual(await source.getTask(task.id));
+    expect((await target.getAgentByApiKey(agent.apiKey))?.id).toBe(agent.id);
+    expect((await target.getPendingApplications()).map(app => app.id)).toEqual([pending.id]);
+    expect((await target.getApplication(approved.id))?.txSignature).toBe('payout-signature');
+    expect(await target.getPayoutIntent(approved.id)).toEqual(await source.getPayoutIntent(approved.id));
+    expect(await target.getStats()).toEqual(await source.getStats());
+
+    const report = await verifyStorage(source, target);
+    expect(report.ok).toBe(true);
+    expect(report.entities.tasks).toMatchObject({ sourceCount: 2, targetCount: 2, match: true });
+    expect(report.entities.applications.targetCount).toBe(2);
+  });
+
+  it('can be run again without duplicating records', async () => {
+    await seed(source);
+    await copyStorage(source, target);
+    await copyStorage(source, target);
+
+    expect(await target.getAllTasks()).toHaveLength(2);
+    expect((await verifyStorage(source, target)).ok).toBe(true);
+  });
+
+  it('resumes after the last copied batch', async () => {
+    for (let i = 0; i < 5; i++) {
+      await source.createTask(taskInput({ title: `Task ${i}` }));
+    }
+
+    // Stop after the first batch of two tasks
+    let saved: MigrationState | undefined;
+    await expect(copyStorage(source, target, {
+      batchSize: 2,
+      onProgress: (state) => {
+        saved = structuredClone(state);
+        throw new Error('interrupted');
+      },
+    })).rejects.toThrow('interrupted');
+    expect(await target.getAllTasks()).toHaveLength(2);
+
+    let batches = 0;
+    const state = await copyStorage(source, target, {
+      state: saved,
+      batchSize: 2,
+      onProgress: () => { batches++; },
+    });
+    // Two batches for the other three tasks, then one for the stats
+    expect(batches).toBe(3);
+    expect(state.statsCopied).toBe(true);
+    expect(await target.getAllTasks()).toHaveLength(5);
+    expect((await verifyStorage(source, target)).ok).toBe(true);
+  });
+
+  it('imports applications of deleted tasks detached', async () => {
+    const { inactive } = await seed(source);
+    await source.deleteTask(inactive.id);
+
+    await copyStorage(source, target);
+
+    const report = await verifyStorage(source, target);
+    expect(report.detachedApplications).toBe(1);
+    expect(report.ok).toBe(true);
+  });
+
+  it('fails verification when the target differs', async () => {
+    const { task } = await seed(source);
+    await copyStorage(source, target);
+    await target.updateTask(task.id, { reward: 5 });
+
+    const report = await verifyStorage(source, target);
+    expect(report.ok).toBe(false);
+    expect(report.entities.tasks.match).toBe(false);
+    expect(report.entities.agents.match).toBe(true);
+  });
+});
+
+describe('verifyStorage', () => {
+  it('reports agents whose API key resolves to another agent', async () => {
+    const source = new MemoryStorage();
+    const first = await source.createAgent({ name: 'First agent', walletAddress: 'wallet-1', paymentTxSignature: 'tx-1', paymentAmount: 0.1 });
+    const second = await source.createAgent({ name: 'Second agent', walletAddress: 'wallet-2', paymentTxSignature: 'tx-2', paymentAmount: 0.1 });
+    await source.importAgent({ ...second, apiKey: first.apiKey });
+
+    const report = await verifyStorage(source, new MemoryStorage());
+    expect(report.brokenApiKeys).toEqual([first.id]);
+    expect(report.ok).toBe(false);
+  });
+});
@@ -0,0 +1,305 @@
+import { createHash } from "crypto";
+import type { z } from "zod";
+import {
+  taskSchema,
+  applicationSchema,
+  applicationApprovalSchema,
+  agentSchema,
+  registrationIntentSchema,
+  payoutIntentSchema,
+  payoutRecordSchema,
+  consumedSignatureSchema,
+  escrowBalanceSchema,
+  escrowDepositSchema,
+  chainTransferSchema,
+  journalEntrySchema,
+  ledgerBalanceSchema,
+  type Task,
+  type Application,
+  type ApplicationApproval,
+  type Agent,
+  type RegistrationIntent,
+  type PayoutIntent,
+  type PayoutRecord,
+  type ConsumedSignature,
+  type EscrowBalance,
+  type EscrowDeposit,
+  type ChainTransfer,
+  type JournalEntry,
+  type LedgerBalance
+} from "@shared/schema";
+import type { IStorage, IStorageImport } from "./types";
+
+interface EntityCopier<T> {
+  load(storage: IStorage): Promise<T[]>;
+  import(target: IStorageImport, record: T): Promise<void>;
+  key(record: T): string;
+  // Normalized form used for checksums
+  canonical(record: T): unknown;
+}
+
+function copier<T>(entity: EntityCopier<T>): EntityCopier<unknown> {
+  return entity as EntityCopier<unknown>;
+}
+
+// Copied in this order: tasks first so applications can reference them,
+// applications before the approvals and payout intents that reference them,
+// agents before their escrow. Wallet challenges are short-lived and not copied.
+const ENTITIES = {
+  tasks: copier<Task>({
+    load: (storage) => storage.getAllTasks(),
+    import: (target, task) => target.importTask(task),
+    key: (task) => task.id,
+    canonical: (task) => parseOr(taskSchema, task),
+  }),
+  agents: copier<Agent>({
+    load: (storage) => storage.getAllAgents(),
+    import: (target, agent) => target.importAgent(agent),
+    key: (agent) => agent.id,
+    canonical: (agent) => parseOr(agentSchema, agent),
+  }),
+  registrationIntents: copier<RegistrationIntent>({
+    load: (storage) => storage.getAllRegistrationIntents(),
+    import: (target, intent) => target.importRegistrationIntent(intent),
+    key: (intent) => intent.id,
+    canonical: (intent) => parseOr(registrationIntentSchema, intent),
+  }),
+  applications: copier<Application>({
+    load: (storage) => storage.getAllApplications(),
+    import: (target, app) => target.importApplication(app),
+    key: (app) => app.id,
+    canonical: (app) => parseOr(applicationSchema, app),
+  }),
+  applicationApprovals: copier<ApplicationApproval>({
+    load: (storage) => storage.getAllApplicationApprovals(),
+    import: (target, approval) => target.importApplicationApproval(approval),
+    key: (approval) => `${approval.applicationId}:${approval.reviewer}`,
+    canonical: (approval) => parseOr(applicationApprovalSchema, approval),
+  }),
+  payoutIntents: copier<PayoutIntent>({
+    load: (storage) => storage.getAllPayoutIntents(),
+    import: (target, intent) => target.importPayoutIntent(intent),
+    key: (intent) => intent.applicationId,
+    canonical: (intent) => parseOr(payoutIntentSchema, intent),
+  }),
+  consumedSignatures: copier<ConsumedSignature>({
+    load: (storage) => storage.getAllConsumedSignatures(),
+    import: (target, record) => target.importConsumedSignature(record),
+    key: (record) => record.signature,
+    canonical: (record) => parseOr(consumedSignatureSchema, record),
+  }),
+  escrowBalances: copier<EscrowBalance>({
+    load: (storage) => storage.getAllEscrowBalances(),
+    import: (target, balance) => target.importEscrowBalance(balance),
+    key: (balance) => `${balance.agentId}:${balance.currency}`,
+    canonical: (balance) => parseOr(escrowBalanceSchema, balance),
+  }),
+  escrowDeposits: copier<EscrowDeposit>({
+    load: (storage) => storage.getAllEscrowDeposits(),
+    import: (target, deposit) => target.importEscrowDeposit(deposit),
+    key: (deposit) => deposit.signature,
+    canonical: (deposit) => parseOr(escrowDepositSchema, deposit),
+  }),
+  payoutRecords: copier<PayoutRecord>({
+    load: (storage) => storage.getPayoutRecords({}),
+    import: (target, record) => target.importPayoutRecord(record),
+    key: (record) => record.id,
+    canonical: (record) => parseOr(payoutRecordSchema, record),
+  }),
+  chainTransfers: copier<ChainTransfer>({
+    load: (storage) => storage.getAllChainTransfers(),
+    import: (target, transfer) => target.importChainTransfer(transfer),
+    key: (transfer) => transfer.id,
+    canonical: (transfer) => parseOr(chainTransferSchema, transfer),
+  }),
+  journalEntries: copier<JournalEntry>({
+    load: (storage) => storage.getJournalEntries(),
+    import: (target, entry) => target.importJournalEntry(entry),
+    key: (entry) => entry.id,
+    canonical: (entry) => parseOr(journalEntrySchema, entry),
+  }),
+  ledgerBalances: copier<LedgerBalance>({
+    load: (storage) => storage.getLedgerBalances(),
+    import: (target, balance) => target.importLedgerBalance(balance),
+    key: (balance) => `${balance.currency}:${balance.account}`,
+    canonical: (balance) => parseOr(ledgerBalanceSchema, balance),
+  }),
+};
+
+type EntityKind = keyof typeof ENTITIES;
+
+const ENTITY_ORDER = Object.keys(ENTITIES) as EntityKind[];
+
+export interface MigrationState {
+  // Last key copied per entity; records are copied in key order
+  cursors: Partial<Record<EntityKind, string>>;
+  statsCopied: boolean;
+}
+
+export interface MigrationOptions {
+  state?: MigrationState;
+  // Called after every batch so the caller can persist progress
+  onProgress?: (state: MigrationState) => void | Promise<void>;
+  batchSize?: number;
+}
+
+export interface EntityReport {
+  sourceCount: number;
+  targetCount: number;
+  sourceChecksum: string;
+  targetChecksum: string;
+  match: boolean;
+}
+
+export interface VerificationReport {
+  ok: boolean;
+  entities: Record<EntityKind | 'stats', EntityReport>;
+  // Agents whose API key does not resolve back to them in the source
+  brokenApiKeys: string[];
+  // Applications whose task was deleted before the migration
+  detachedApplications: number;
+}
+
+export function emptyMigrationState(): MigrationState {
+  return { cursors: {}, statsCopied: false };
+}
+
+/**
+ * Copy every record and the stats counters from one backend to another,
+ * keeping ids. Safe to re-run: resumes after the last copied key, and imports
+ * overwrite rather than duplicate.
+ */
+export async function copyStorage(
+  source: IStorage,
+  target: IStorageImport,
+  options: MigrationOptions = {}
+): Promise<MigrationState> {
+  const state = options.state ?? emptyMigrationState();
+  const batchSize = options.batchSize ?? 100;
+
+  for (const kind of ENTITY_ORDER) {
+    const entity = ENTITIES[kind];
+    const records = sortByKey(await entity.load(source), entity.key);
+    const cursor = state.cursors[kind];
+    const pending = cursor ? records.filter(record => entity.key(record) > cursor) : records;
+
+    for (let i = 0; i < pending.length; i += batchSize) {
+      const batch = pending.slice(i, i + batchSize);
+      for (const record of batch) {
+        await entity.import(target, record);
+      }
+      state.cursors[kind] = entity.key(batch[batch.length - 1]);
+      await options.onProgress?.(state);
+    }
+  }
+
+  if (!state.statsCopied) {
+    await target.importStats(await source.getStats());
+    state.statsCopied = true;
+    await options.onProgress?.(state);
+  }
+
+  return state;
+}
+
+/**
+ * Compare counts and content checksums of both backends
+ */
+export async function verifyStorage(source: IStorage, target: IStorage): Promise<VerificationReport> {
+  const sourceTasks = await source.getAllTasks();
+  const sourceApps = await source.getAllApplications();
+  const sourceAgents = await source.getAllAgents();
+
+  // Applications of deleted tasks are stored detached by relational backends
+  const taskIds = new Set(sourceTasks.map(task => task.id));
+  const detachedApplications = sourceApps.filter(app => !taskIds.has(app.taskId)).length;
+  const normalize = (kind: EntityKind, record: unknown): unknown => {
+    const app = record as Application;
+    return kind === 'applications' && !taskIds.has(app.taskId) ? { ...app, taskId: '' } : record;
+  };
+
+  const entities = {} as VerificationReport['entities'];
+  for (const kind of ENTITY_ORDER) {
+    const entity = ENTITIES[kind];
+    const [sourceRecords, targetRecords] = await Promise.all([entity.load(source), entity.load(target)]);
+    const canonical = (records: unknown[]) => records.map(record => ({
+      key: entity.key(record),
+      value: entity.canonical(normalize(kind, record)),
+    }));
+    entities[kind] = compare(canonical(sourceRecords), canonical(targetRecords));
+  }
+
+  const [sourceStats, targetStats] = await Promise.all([source.getStats(), target.getStats()]);
+  entities.stats = compare(
+    [{ key: 'stats', value: sourceStats }],
+    [{ key: 'stats', value: targetStats }]
+  );
+
+  const brokenApiKeys: string[] = [];
+  for (const agent of sourceAgents) {
+    const resolved = await source.getAgentByApiKey(agent.apiKey);
+    if (resolved?.id !== agent.id) brokenApiKeys.push(agent.id);
+  }
+
+  return {
+    ok: Object.values(entities).every(entity => entity.match) && brokenApiKeys.length === 0,
+    entities,
+    brokenApiKeys,
+    detachedApplications,
+  };
+}
+
+function sortByKey<T>(records: T[], key: (record: T) => string): T[] {
+  return [...records].sort((a, b) => {
+    const ka = key(a);
+    const kb = key(b);
+    return ka < kb ? -1 : ka > kb ? 1 : 0;
+  });
+}
+
+// Parse through the Zod schema so defaults and unknown keys are treated the
+// same on both sides; records that fail to parse are compared as stored.
+function parseOr<T>(schema: z.ZodType<T>, record: T): T {
+  const parsed = schema.safeParse(record);
+  return parsed.success ? parsed.data : record;
+}
+
+interface Keyed {
+  key: string;
+  value: unknown;
+}
+
+function compare(source: Keyed[], target: Keyed[]): EntityReport {
+  const sourceChecksum = checksum(source);
+  const targetChecksum = checksum(target);
+  return {
+    sourceCount: source.length,
+    targetCount: target.length,
+    sourceChecksum,
+    targetChecksum,
+    match: source.length === target.length && sourceChecksum === targetChecksum,
+  };
+}
+
+function checksum(records: Keyed[]): string {
+  const hash = createHash('sha256');
+  for (const record of sortByKey(records, r => r.key)) {
+    hash.update(stableStringify(record.value));
+    hash.update('\n');
+  }
+  return hash.digest('hex');
+}
+
+// JSON with sorted keys and undefined fields dropped
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined && v !== null)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,1105 @@
+import { v4 as uuidv4 } from "uuid";
+import { and, asc, desc, eq, gt, gte, inArray, isNull, lt, lte, ne, or, sql, TransactionRollbackError, type AnyColumn } from "drizzle-orm";
+import {
+  tasks,
+  applications,
+  applicationApprovals,
+  agents,
+  registrationIntents,
+  walletChallenges,
+  platformStats,
+  payoutIntents,
+  payoutRecords,
+  consumedSignatures,
+  escrowBalances,
+  escrowDeposits,
+  chainTransfers,
+  journalEntries,
+  journalLines,
+  ledgerBalances,
+  reconciliationReports,
+  payoutBreakers,
+  payoutLimitUsage,
+  type Task,
+  type NewTask,
+  type Application,
+  type ApplicationStatus,
+  type ApplicationApproval,
+  type NewApplication,
+  type Agent,
+  type NewAgent,
+  type RegistrationIntent,
+  type RegistrationIntentStatus,
+  type WalletChallenge,
+  type Stats,
+  type PayoutIntent,
+  type PayoutIntentVersion,
+  type PayoutRecord,
+  type ConsumedSignature,
+  type EscrowBalance,
+  type EscrowBalanceChanges,
+  type EscrowDeposit,
+  type ChainTransfer,
+  type JournalEntry,
+  type LedgerBalance,
+  type ReconciliationReport,
+  type PayoutBreaker,
+  type PayoutLimitCounter
+} from "@shared/schema";
+import type { Database } from "../db";
+import type { IStorage, IStorageImport, PayoutRecordQuery } from "./types";
+import { generateApiKey, roundEscrowAmount } from "./utils";
+
+type TaskRow = typeof tasks.$inferSelect;
+type ApplicationRow = typeof applications.$inferSelect;
+type AgentRow = typeof agents.$inferSelect;
+type PayoutIntentRow = typeof payoutIntents.$inferSelect;
+type PayoutRecordRow = typeof payoutRecords.$inferSelect;
+type RegistrationIntentRow = typeof registrationIntents.$inferSelect;
+type ChainTransferRow = typeof chainTransfers.$inferSelect;
+type JournalEntryRow = typeof journalEntries.$inferSelect;
+type JournalLineRow = typeof journalLines.$inferSelect;
+
+// Anything that can run writes: the database itself or an open transaction
+type Executor = Pick<Database, 'insert' | 'update'>;
+
+export class PgStorage implements IStorage, IStorageImport {
+  constructor(private db: Database) {}
+
+  // ========== TASKS ==========
+
+  async createTask(insertTask: NewTask): Promise<Task> {
+    const task: Task = {
+      ...insertTask,
+      id: uuidv4(),
+      totalCompletions: 0,
+      createdAt: Date.now(),
+    };
+
+    await this.db.transaction(async (tx) => {
+      await tx.insert(tasks).values(task);
+      await incrementStatWith(tx, 'totalTasks', 1);
+    });
+
+    return task;
+  }
+
+  async getTask(id: string): Promise<Task | null> {
+    const [row] = await this.db.select().from(tasks).where(eq(tasks.id, id));
+    return row ? toTask(row) : null;
+  }
+
+  async getAllTasks(): Promise<Task[]> {
+    const rows = await this.db.select().from(tasks).orderBy(desc(tasks.createdAt));
+    return rows.map(toTask);
+  }
+
+  async getActiveTasks(): Promise<Task[]> {
+    const rows = await this.db
+      .select()
+      .from(tasks)
+      .where(eq(tasks.active, true))
+      .orderBy(desc(tasks.createdAt));
+    return rows.map(toTask);
+  }
+
+  async updateTask(id: string, updates: Partial<Task>): Promise<Task | null> {
+    const { id: _id, ...changes } = updates;
+    if (!Object.keys(changes).length) return this.getTask(id);
+
+    const [row] = await this.db
+      .update(tasks)
+      .set(changes)
+      .where(eq(tasks.id, id))
+      .returning();
+    return row ? toTask(row) : null;
+  }
+
+  async deleteTask(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(tasks)
+      .where(eq(tasks.id, id))
+      .returning({ id: tasks.id });
+    return deleted.length > 0;
+  }
+
+  // The slot check lives in the UPDATE's WHERE clause, so concurrent
+  // reservations serialize on the row lock
+  async reserveTaskCompletion(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const updated = await tx
+        .update(tasks)
+        .set({ totalCompletions: sql`${tasks.totalCompletions} + 1` })
+        .where(and(
+          eq(tasks.id, id),
+          or(isNull(tasks.maxCompletions), lt(tasks.totalCompletions, tasks.maxCompletions)),
+          or(isNull(tasks.escrowStatus), ne(tasks.escrowStatus, 'released'))
+        ))
+        .returning({ id: tasks.id });
+      if (!updated.length) return false;
+
+      await incrementStatWith(tx, 'totalCompletedTasks', 1);
+      return true;
+    });
+  }
+
+  async releaseTaskCompletion(id: string): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      const updated = await tx
+        .update(tasks)
+        .set({ totalCompletions: sql`${tasks.totalCompletions} - 1` })
+        .where(and(eq(tasks.id, id), gt(tasks.totalCompletions, 0)))
+        .returning({ id: tasks.id });
+      if (updated.length) {
+        await incrementStatWith(tx, 'totalCompletedTasks', -1);
+      }
+    });
+  }
+
+  async releaseTaskEscrow(id: string): Promise<Task | null> {
+    const [row] = await this.db
+      .update(tasks)
+      .set({ escrowStatus: 'released' })
+      .where(and(eq(tasks.id, id), eq(tasks.escrowStatus, 'locked')))
+      .returning();
+    return row ? toTask(row) : null;
+  }
+
+  // ========== APPLICATIONS ==========
+
+  async createApplication(
+    app: NewApplication,
+    taskTitle: string,
+    proofType: string
+  ): Promise<Application> {
+    const application: Application = {
+      id: uuidv4(),
+      taskId: app.taskId,
+      taskTitle,
+      walletAddress: app.walletAddress,
+      proofType,
+      proofContent: app.proofContent,
+      walletVerified: app.walletVerified,
+      status: 'pending',
+      submittedAt: Date.now(),
+    };
+
+    await this.db.transaction(async (tx) => {
+      await tx.insert(applications).values(application);
+      await incrementStatWith(tx, 'totalApplications', 1);
+    });
+
+    return application;
+  }
+
+  async getApplication(id: string): Promise<Application | null> {
+    const [row] = await this.db.select().from(applications).where(eq(applications.id, id));
+    return row ? toApplication(row) : null;
+  }
+
+  async getAllApplications(): Promise<Application[]> {
+    const rows = await this.db
+      .select()
+      .from(applications)
+      .orderBy(desc(applications.submittedAt));
+    return rows.map(toApplication);
+  }
+
+  async getPendingApplications(): Promise<Application[]> {
+    const rows = await this.db
+      .select()
+      .from(applications)
+      .where(eq(applications.status, 'pending'))
+      .orderBy(desc(applications.submittedAt));
+    return rows.map(toApplication);
+  }
+
+  async getApplicationsByTask(taskId: string): Promise<Application[]> {
+    const rows = await this.db
+      .select()
+      .from(applications)
+      .where(eq(applications.taskId, taskId))
+      .orderBy(desc(applications.submittedAt));
+    return rows.map(toApplication);
+  }
+
+  async updateApplication(id: string, updates: Partial<Application>): Promise<Application | null> {
+    const { id: _id, ...changes } = updates;
+    if (!Object.keys(changes).length) return this.getApplication(id);
+
+    const [row] = await this.db
+      .update(applications)
+      .set(changes)
+      .where(eq(applications.id, id))
+      .returning();
+    return row ? toApplication(row) : null;
+  }
+
+  async transitionApplication(
+    id: string,
+    from: ApplicationStatus,
+    updates: Partial<Application>
+  ): Promise<Application | null> {
+    const { id: _id, ...changes } = updates;
+    // The status is always set, so the SET clause is never empty
+    const [row] = await this.db
+      .update(applications)
+      .set({ ...changes, status: changes.status ?? from })
+      .where(and(eq(applications.id, id), eq(applications.status, from)))
+      .returning();
+    return row ? toApplication(row) : null;
+  }
+
+  async addApplicationApproval(approval: ApplicationApproval): Promise<boolean> {
+    const inserted = await this.db
+      .insert(applicationApprovals)
+      .values(approval)
+      .onConflictDoNothing({ target: [applicationApprovals.applicationId, applicationApprovals.reviewer] })
+      .returning({ reviewer: applicationApprovals.reviewer });
+    return inserted.length > 0;
+  }
+
+  async getApplicationApprovals(applicationId: string): Promise<ApplicationApproval[]> {
+    return this.db
+      .select()
+      .from(applicationApprovals)
+      .where(eq(applicationApprovals.applicationId, applicationId))
+      .orderBy(asc(applicationApprovals.approvedAt));
+  }
+
+  async getAllApplicationApprovals(): Promise<ApplicationApproval[]> {
+    return this.db
+      .select()
+      .from(applicationApprovals)
+      .orderBy(asc(applicationApprovals.approvedAt));
+  }
+
+  // ========== PAYOUT OUTBOX ==========
+
+  async createPayoutIntent(intent: PayoutIntent): Promise<boolean> {
+    const inserted = await this.db
+      .insert(payoutIntents)
+      .values(intent)
+      .onConflictDoNothing({ target: payoutIntents.applicationId })
+      .returning({ applicationId: payoutIntents.applicationId });
+    return inserted.length > 0;
+  }
+
+  async getPayoutIntent(applicationId: string): Promise<PayoutIntent | null> {
+    const [row] = await this.db
+      .select()
+      .from(payoutIntents)
+      .where(eq(payoutIntents.applicationId, applicationId));
+    return row ? toPayoutIntent(row) : null;
+  }
+
+  async getOpenPayoutIntents(): Promise<PayoutIntent[]> {
+    const rows = await this.db
+      .select()
+      .from(payoutIntents)
+      .where(inArray(payoutIntents.status, ['queued', 'sending']))
+      .orderBy(asc(payoutIntents.createdAt));
+    return rows.map(toPayoutIntent);
+  }
+
+  async getAllPayoutIntents(): Promise<PayoutIntent[]> {
+    const rows = await this.db
+      .select()
+      .from(payoutIntents)
+      .orderBy(desc(payoutIntents.createdAt));
+    return rows.map(toPayoutIntent);
+  }
+
+  async transitionPayoutIntent(
+    applicationId: string,
+    expected: PayoutIntentVersion,
+    updates: Partial<PayoutIntent>
+  ): Promise<PayoutIntent | null> {
+    // Undefined values become NULL so those columns are cleared
+    const { applicationId: _id, ...changes } = updates;
+    const values = Object.fromEntries(
+      Object.entries(changes).map(([key, value]) => [key, value ?? null])
+    );
+
+    const [row] = await this.db
+      .update(payoutIntents)
+      .set(values)
+      .where(and(
+        eq(payoutIntents.applicationId, applicationId),
+        eq(payoutIntents.status, expected.status),
+        eq(payoutIntents.attempts, expected.attempts),
+        expected.signature
+          ? eq(payoutIntents.signature, expected.signature)
+          : isNull(payoutIntents.signature)
+      ))
+      .returning();
+    return row ? toPayoutIntent(row) : null;
+  }
+
+  // ========== PAYOUT HISTORY ==========
+
+  async recordPayout(record: PayoutRecord): Promise<boolean> {
+    const inserted = await this.db
+      .insert(payoutRecords)
+      .values(record)
+      .onConflictDoNothing({ target: payoutRecords.id })
+      .returning({ id: payoutRecords.id });
+    return inserted.length > 0;
+  }
+
+  async getPayoutRecords(query: PayoutRecordQuery): Promise<PayoutRecord[]> {
+    const { walletAddress, taskId, since, until, before, limit } = query;
+    const conditions = [];
+    if (walletAddress !== undefined) conditions.push(eq(payoutRecords.walletAddress, walletAddress));
+    if (taskId !== undefined) conditions.push(eq(payoutRecords.taskId, taskId));
+    if (since !== undefined) conditions.push(gte(payoutRecords.paidAt, since));
+    if (until !== undefined) conditions.push(lt(payoutRecords.paidAt, until));
+    if (before !== undefined) {
+      conditions.push(or(
+        lt(payoutRecords.paidAt, before.paidAt),
+        and(eq(payoutRecords.paidAt, before.paidAt), lt(payoutRecords.id, before.id))
+      ));
+    }
+
+    const rows = this.db
+      .select()
+      .from(payoutRecords)
+      .where(and(...conditions))
+      .orderBy(desc(payoutRecords.paidAt), desc(payoutRecords.id))
+      .$dynamic();
+    if (limit !== undefined) {
+      rows.limit(limit);
+    }
+    return (await rows).map(toPayoutRecord);
+  }
+
+  // ========== AGENTS ==========
+
+  async createAgent(newAgent: NewAgent): Promise<Agent> {
+    const agent: Agent = {
+      id: uuidv4(),
+      ...newAgent,
+      apiKey: generateApiKey(),
+      createdAt: Date.now(),
+      active: true,
+      tasksCreated: 0,
+    };
+
+    await this.db.transaction(async (tx) => {
+      await tx.insert(agents).values(agent);
+      await incrementStatWith(tx, 'totalAgents', 1);
+    });
+
+    return agent;
+  }
+
+  async getAgent(id: string): Promise<Agent | null> {
+    const [row] = await this.db.select().from(agents).where(eq(agents.id, id));
+    return row ? toAgent(row) : null;
+  }
+
+  async getAgentByApiKey(apiKey: string): Promise<Agent | null> {
+    const [row] = await this.db.select().from(agents).where(eq(agents.apiKey, apiKey));
+    return row ? toAgent(row) : null;
+  }
+
+  async getAgentByWallet(wallet: string): Promise<Agent | null> {
+    const [row] = await this.db.select().from(agents).where(eq(agents.walletAddress, wallet));
+    return row ? toAgent(row) : null;
+  }
+
+  async getAllAgents(): Promise<Agent[]> {
+    const rows = await this.db.select().from(agents).orderBy(desc(agents.createdAt));
+    return rows.map(toAgent);
+  }
+
+  async reserveAgentTask(id: string): Promise<boolean> {
+    const rows = await this.db
+      .update(agents)
+      .set({ tasksCreated: sql`${agents.tasksCreated} + 1` })
+      .where(and(
+        eq(agents.id, id),
+        or(isNull(agents.taskQuota), lt(agents.tasksCreated, agents.taskQuota))
+      ))
+      .returning({ id: agents.id });
+    return rows.length > 0;
+  }
+
+  async releaseAgentTask(id: string): Promise<void> {
+    await this.db
+      .update(agents)
+      .set({ tasksCreated: sql`greatest(${agents.tasksCreated} - 1, 0)` })
+      .where(eq(agents.id, id));
+  }
+
+  // ========== REGISTRATION INTENTS ==========
+
+  async createRegistrationIntent(intent: RegistrationIntent): Promise<void> {
+    await this.db.insert(registrationIntents).values(intent);
+  }
+
+  async getRegistrationIntent(id: string): Promise<RegistrationIntent | null> {
+    const [row] = await this.db
+      .select()
+      .from(registrationIntents)
+      .where(eq(registrationIntents.id, id));
+    return row ? toRegistrationIntent(row) : null;
+  }
+
+  async getPendingRegistrationIntents(): Promise<RegistrationIntent[]> {
+    const rows = await this.db
+      .select()
+      .from(registrationIntents)
+      .where(eq(registrationIntents.status, 'pending'))
+      .orderBy(asc(registrationIntents.createdAt));
+    return rows.map(toRegistrationIntent);
+  }
+
+  async getAllRegistrationIntents(): Promise<RegistrationIntent[]> {
+    const rows = await this.db
+      .select()
+      .from(registrationIntents)
+      .orderBy(desc(registrationIntents.createdAt));
+    return rows.map(toRegistrationIntent);
+  }
+
+  async transitionRegistrationIntent(
+    id: string,
+    expected: RegistrationIntentStatus,
+    updates: Partial<RegistrationIntent>
+  ): Promise<RegistrationIntent | null> {
+    const { id: _id, ...values } = updates;
+    const [row] = await this.db
+      .update(registrationIntents)
+      .set(values)
+      .where(and(eq(registrationIntents.id, id), eq(registrationIntents.status, expected)))
+      .returning();
+    return row ? toRegistrationIntent(row) : null;
+  }
+
+  // ========== WALLET CHALLENGES ==========
+
+  async createWalletChallenge(challenge: WalletChallenge): Promise<void> {
+    // Unused challenges are never read again once expired
+    await this.db.delete(walletChallenges).where(lt(walletChallenges.expiresAt, Date.now()));
+    await this.db.insert(walletChallenges).values(challenge);
+  }
+
+  async consumeWalletChallenge(nonce: string): Promise<WalletChallenge | null> {
+    const [row] = await this.db
+      .delete(walletChallenges)
+      .where(eq(walletChallenges.nonce, nonce))
+      .returning();
+    return row ?? null;
+  }
+
+  // ========== CONSUMED SIGNATURES ==========
+
+  async consumeSignature(record: ConsumedSignature): Promise<boolean> {
+    const inserted = await this.db
+      .insert(consumedSignatures)
+      .values(record)
+      .onConflictDoNothing({ target: consumedSignatures.signature })
+      .returning({ signature: consumedSignatures.signature });
+    return inserted.length > 0;
+  }
+
+  async getConsumedSignature(signature: string): Promise<ConsumedSignature | null> {
+    const [row] = await this.db
+      .select()
+      .from(consumedSignatures)
+      .where(eq(consumedSignatures.signature, signature));
+    return row ? { ...row, purpose: row.purpose as ConsumedSignature['purpose'] } : null;
+  }
+
+  async getAllConsumedSignatures(): Promise<ConsumedSignature[]> {
+    const rows = await this.db
+      .select()
+      .from(consumedSignatures)
+      .orderBy(desc(consumedSignatures.consumedAt));
+    return rows.map(row => ({ ...row, purpose: row.purpose as ConsumedSignature['purpose'] }));
+  }
+
+  async releaseSignature(signature: string): Promise<void> {
+    await this.db.delete(consumedSignatures).where(eq(consumedSignatures.signature, signature));
+  }
+
+  // ========== AGENT ESCROW ==========
+
+  async recordEscrowDeposit(deposit: EscrowDeposit): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const consumed = await tx
+        .insert(consumedSignatures)
+        .values({
+          signature: deposit.signature,
+          purpose: 'escrow_deposit',
+          walletAddress: deposit.walletAddress,
+          consumedAt: deposit.createdAt,
+        })
+        .onConflictDoNothing({ target: consumedSignatures.signature })
+        .returning({ signature: consumedSignatures.signature });
+      if (!consumed.length) return false;
+
+      await tx.insert(escrowDeposits).values(deposit);
+      await adjustEscrowWith(tx, deposit.agentId, deposit.currency, {
+        available: deposit.amount,
+        deposited: deposit.amount,
+      });
+      return true;
+    });
+  }
+
+  async getEscrowDeposits(agentId: string): Promise<EscrowDeposit[]> {
+    return this.db
+      .select()
+      .from(escrowDeposits)
+      .where(eq(escrowDeposits.agentId, agentId))
+      .orderBy(desc(escrowDeposits.createdAt));
+  }
+
+  async getAllEscrowDeposits(): Promise<EscrowDeposit[]> {
+    return this.db.select().from(escrowDeposits).orderBy(desc(escrowDeposits.createdAt));
+  }
+
+  async getEscrowBalance(agentId: string, currency: string): Promise<EscrowBalance | null> {
+    const [row] = await this.db
+      .select()
+      .from(escrowBalances)
+      .where(and(eq(escrowBalances.agentId, agentId), eq(escrowBalances.currency, currency)));
+    return row ?? null;
+  }
+
+  async getEscrowBalances(agentId: string): Promise<EscrowBalance[]> {
+    return this.db
+      .select()
+      .from(escrowBalances)
+      .where(eq(escrowBalances.agentId, agentId))
+      .orderBy(asc(escrowBalances.currency));
+  }
+
+  async getAllEscrowBalances(): Promise<EscrowBalance[]> {
+    return this.db
+      .select()
+      .from(escrowBalances)
+      .orderBy(asc(escrowBalances.agentId), asc(escrowBalances.currency));
+  }
+
+  // The balance check lives in the UPDATE's WHERE clause, as with task slots
+  async lockEscrowFunds(agentId: string, currency: string, amount: number): Promise<boolean> {
+    const updated = await this.db
+      .update(escrowBalances)
+      .set({
+        available: addRounded(escrowBalances.available, -amount),
+        locked: addRounded(escrowBalances.locked, amount),
+        updatedAt: Date.now(),
+      })
+      .where(and(
+        eq(escrowBalances.agentId, agentId),
+        eq(escrowBalances.currency, currency),
+        gte(escrowBalances.available, roundEscrowAmount(amount))
+      ))
+      .returning({ agentId: escrowBalances.agentId });
+    return updated.length > 0;
+  }
+
+  async adjustEscrowBalance(agentId: string, currency: string, changes: EscrowBalanceChanges): Promise<void> {
+    await adjustEscrowWith(this.db, agentId, currency, changes);
+  }
+
+  // ========== CHAIN TRANSFERS ==========
+
+  async recordChainTransfer(transfer: ChainTransfer): Promise<boolean> {
+    const inserted = await this.db
+      .insert(chainTransfers)
+      .values(transfer)
+      .onConflictDoNothing({ target: chainTransfers.id })
+      .returning({ id: chainTransfers.id });
+    return inserted.length > 0;
+  }
+
+  async getAllChainTransfers(): Promise<ChainTransfer[]> {
+    const rows = await this.db
+      .select()
+      .from(chainTransfers)
+      .orderBy(desc(chainTransfers.timestamp));
+    return rows.map(toChainTransfer);
+  }
+
+  // ========== LEDGER ==========
+
+  async postJournalEntry(entry: JournalEntry): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const { lines, ...values } = entry;
+      const inserted = await tx
+        .insert(journalEntries)
+        .values(values)
+        .onConflictDoNothing({ target: journalEntries.reference })
+        .returning({ id: journalEntries.id });
+      if (!inserted.length) return false;
+
+      await tx.insert(journalLines).values(
+        lines.map((line, position) => ({ entryId: entry.id, position, ...line }))
+      );
+      for (const line of lines) {
+        await tx
+          .insert(ledgerBalances)
+          .values({ account: line.account, currency: entry.currency, balance: roundEscrowAmount(line.amount) })
+          .onConflictDoUpdate({
+            target: [ledgerBalances.account, ledgerBalances.currency],
+            set: { balance: addRounded(ledgerBalances.balance, line.amount) },
+          });
+      }
+      return true;
+    });
+  }
+
+  async getJournalEntries(account?: string, limit?: number): Promise<JournalEntry[]> {
+    const query = this.db.select().from(journalEntries).$dynamic();
+    if (account) {
+      query.where(inArray(
+        journalEntries.id,
+        this.db.select({ id: journalLines.entryId }).from(journalLines).where(eq(journalLines.account, account))
+      ));
+    }
+    query.orderBy(desc(journalEntries.createdAt));
+    if (limit !== undefined) {
+      query.limit(limit);
+    }
+    const rows = await query;
+    if (!rows.length) return [];
+
+    const lines = await this.db
+      .select()
+      .from(journalLines)
+      .where(inArray(journalLines.entryId, rows.map(row => row.id)))
+      .orderBy(asc(journalLines.position));
+    return rows.map(row => toJournalEntry(row, lines));
+  }
+
+  async getLedgerBalances(): Promise<LedgerBalance[]> {
+    return this.db
+      .select()
+      .from(ledgerBalances)
+      .orderBy(asc(ledgerBalances.account), asc(ledgerBalances.currency));
+  }
+
+  // ========== RECONCILIATION ==========
+
+  async saveReconciliationReport(report: ReconciliationReport): Promise<void> {
+    await this.db
+      .insert(reconciliationReports)
+      .values({ id: 'latest', report })
+      .onConflictDoUpdate({ target: reconciliationReports.id, set: { report } });
+  }
+
+  async getReconciliationReport(): Promise<ReconciliationReport | null> {
+    const [row] = await this.db.select().from(reconciliationReports).where(eq(reconciliationReports.id, 'latest'));
+    return row?.report ?? null;
+  }
+
+  // ========== SPENDING LIMITS ==========
+
+  // Each limit check lives in its counter's UPDATE, as with task slots; a
+  // full counter rolls back those already added to
+  async reservePayoutLimits(counters: PayoutLimitCounter[], amount: number): Promise<string | null> {
+    let full: string | null = null;
+    try {
+      await this.db.transaction(async (tx) => {
+        for (const counter of counters) {
+          await tx
+            .insert(payoutLimitUsage)
+            .values({ key: counter.key, amount: 0 })
+            .onConflictDoNothing({ target: payoutLimitUsage.key });
+          const used = addRounded(payoutLimitUsage.amount, amount);
+          const updated = await tx
+            .update(payoutLimitUsage)
+            .set({ amount: used })
+            .where(and(
+              eq(payoutLimitUsage.key, counter.key),
+              counter.limit === undefined ? undefined : lte(used, counter.limit)
+            ))
+            .returning({ key: payoutLimitUsage.key });
+          if (!updated.length) {
+            full = counter.key;
+            tx.rollback();
+          }
+        }
+      });
+    } catch (error) {
+      if (!(error instanceof TransactionRollbackError)) throw error;
+    }
+    return full;
+  }
+
+  async releasePayoutLimits(keys: string[], amount: number): Promise<void> {
+    if (!keys.length) return;
+    await this.db
+      .update(payoutLimitUsage)
+      .set({ amount: sql`greatest(${addRounded(payoutLimitUsage.amount, -amount)}, 0)` })
+      .where(inArray(payoutLimitUsage.key, keys));
+  }
+
+  // ========== TREASURY ==========
+
+  async getPayoutBreaker(): Promise<PayoutBreaker> {
+    const [row] = await this.db.select().from(payoutBreakers).where(eq(payoutBreakers.id, 'payouts'));
+    if (!row?.paused) return { paused: false };
+    return { paused: true, reason: row.reason ?? undefined, since: row.since ?? undefined };
+  }
+
+  async setPayoutBreaker(breaker: PayoutBreaker): Promise<void> {
+    const values = { paused: breaker.paused, reason: breaker.reason ?? null, since: breaker.since ?? null };
+    await this.db
+      .insert(payoutBreakers)
+      .values({ id: 'payouts', ...values })
+      .onConflictDoUpdate({ target: payoutBreakers.id, set: values });
+  }
+
+  // ========== STATS ==========
+
+  async getStats(): Promise<Stats> {
+    const rows = await this.db.select().from(platformStats);
+    const data = Object.fromEntries(rows.map(row => [row.key, row.value]));
+    return {
+      totalTasks: Number(data.totalTasks) || 0,
+      totalApplications: Number(data.totalApplications) || 0,
+      totalPayouts: Number(data.totalPayouts) || 0,
+      totalAgents: Number(data.totalAgents) || 0,
+      totalCompletedTasks: Number(data.totalCompletedTasks) || 0,
+    };
+  }
+
+  async incrementStat(key: keyof Stats, amount: number = 1): Promise<void> {
+    await incrementStatWith(this.db, key, amount);
+  }
+
+  // ========== IMPORT ==========
+
+  async importTask(task: Task): Promise<void> {
+    const { id, ...values } = task;
+    await this.db
+      .insert(tasks)
+      .values(task)
+      .onConflictDoUpdate({ target: tasks.id, set: values });
+  }
+
+  // Applications whose task no longer exists are imported detached,
+  // the same state deleting a task leaves behind.
+  async importApplication(app: Application): Promise<void> {
+    const [task] = await this.db
+      .select({ id: tasks.id })
+      .from(tasks)
+      .where(eq(tasks.id, app.taskId));
+    const row = { ...app, taskId: task ? app.taskId : null };
+    const { id, ...values } = row;
+    await this.db
+      .insert(applications)
+      .values(row)
+      .onConflictDoUpdate({ target: applications.id, set: values });
+  }
+
+  async importApplicationApproval(approval: ApplicationApproval): Promise<void> {
+    await this.db
+      .insert(applicationApprovals)
+      .values(approval)
+      .onConflictDoUpdate({
+        target: [applicationApprovals.applicationId, applicationApprovals.reviewer],
+        set: { approvedAt: approval.approvedAt },
+      });
+  }
+
+  async importAgent(agent: Agent): Promise<void> {
+    const { id, ...values } = agent;
+    await this.db
+      .insert(agents)
+      .values(agent)
+      .onConflictDoUpdate({ target: agents.id, set: values });
+  }
+
+  async importRegistrationIntent(intent: RegistrationIntent): Promise<void> {
+    const { id, ...values } = intent;
+    await this.db
+      .insert(registrationIntents)
+      .values(intent)
+      .onConflictDoUpdate({ target: registrationIntents.id, set: values });
+  }
+
+  async importStats(stats: Stats): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      for (const [key, value] of Object.entries(stats)) {
+        await tx
+          .insert(platformStats)
+          .values({ key, value })
+          .onConflictDoUpdate({ target: platformStats.key, set: { value } });
+      }
+    });
+  }
+
+  async importConsumedSignature(record: ConsumedSignature): Promise<void> {
+    const { signature, ...values } = record;
+    await this.db
+      .insert(consumedSignatures)
+      .values(record)
+      .onConflictDoUpdate({ target: consumedSignatures.signature, set: values });
+  }
+
+  async importPayoutIntent(intent: PayoutIntent): Promise<void> {
+    const { applicationId, ...values } = intent;
+    await this.db
+      .insert(payoutIntents)
+      .values(intent)
+      .onConflictDoUpdate({ target: payoutIntents.applicationId, set: values });
+  }
+
+  async importPayoutRecord(record: PayoutRecord): Promise<void> {
+    const { id, ...values } = record;
+    await this.db
+      .insert(payoutRecords)
+      .values(record)
+      .onConflictDoUpdate({ target: payoutRecords.id, set: values });
+  }
+
+  async importEscrowBalance(balance: EscrowBalance): Promise<void> {
+    const { agentId, currency, ...values } = balance;
+    await this.db
+      .insert(escrowBalances)
+      .values(balance)
+      .onConflictDoUpdate({ target: [escrowBalances.agentId, escrowBalances.currency], set: values });
+  }
+
+  async importEscrowDeposit(deposit: EscrowDeposit): Promise<void> {
+    const { signature, ...values } = deposit;
+    await this.db
+      .insert(escrowDeposits)
+      .values(deposit)
+      .onConflictDoUpdate({ target: escrowDeposits.signature, set: values });
+  }
+
+  async importChainTransfer(transfer: ChainTransfer): Promise<void> {
+    const { id, ...values } = transfer;
+    await this.db
+      .insert(chainTransfers)
+      .values(transfer)
+      .onConflictDoUpdate({ target: chainTransfers.id, set: values });
+  }
+
+  async importJournalEntry(entry: JournalEntry): Promise<void> {
+    const { lines, ...values } = entry;
+    await this.db.transaction(async (tx) => {
+      await tx
+        .insert(journalEntries)
+        .values(values)
+        .onConflictDoUpdate({ target: journalEntries.id, set: values });
+      await tx.delete(journalLines).where(eq(journalLines.entryId, entry.id));
+      await tx.insert(journalLines).values(
+        lines.map((line, position) => ({ entryId: entry.id, position, ...line }))
+      );
+    });
+  }
+
+  async importLedgerBalance(balance: LedgerBalance): Promise<void> {
+    await this.db
+      .insert(ledgerBalances)
+      .values(balance)
+      .onConflictDoUpdate({
+        target: [ledgerBalances.account, ledgerBalances.currency],
+        set: { balance: balance.balance },
+      });
+  }
+}
+
+
+async function incrementStatWith(db: Executor, key: keyof Stats, amount: number): Promise<void> {
+  await db
+    .insert(platformStats)
+    .values({ key, value: amount })
+    .onConflictDoUpdate({
+      target: platformStats.key,
+      set: { value: sql`${platformStats.value} + ${amount}` },
+    });
+}
+
+async function adjustEscrowWith(
+  db: Executor,
+  agentId: string,
+  currency: string,
+  changes: EscrowBalanceChanges
+): Promise<void> {
+  const now = Date.now();
+  await db
+    .insert(escrowBalances)
+    .values({
+      agentId,
+      currency,
+      available: roundEscrowAmount(changes.available ?? 0),
+      locked: roundEscrowAmount(changes.locked ?? 0),
+      spent: roundEscrowAmount(changes.spent ?? 0),
+      deposited: roundEscrowAmount(changes.deposited ?? 0),
+      updatedAt: now,
+    })
+    .onConflictDoUpdate({
+      target: [escrowBalances.agentId, escrowBalances.currency],
+      set: {
+        available: addRounded(escrowBalances.available, changes.available ?? 0),
+        locked: addRounded(escrowBalances.locked, changes.locked ?? 0),
+        spent: addRounded(escrowBalances.spent, changes.spent ?? 0),
+        deposited: addRounded(escrowBalances.deposited, changes.deposited ?? 0),
+        updatedAt: now,
+      },
+    });
+}
+
+// column + delta, rounded to 9 decimals like roundEscrowAmount()
+function addRounded(column: AnyColumn, delta: number) {
+  return sql<number>`round((${column} + ${delta})::numeric, 9)::double precision`;
+}
+
+// ========== ROW MAPPING ==========
+// Nullable columns come back as null; the Zod types use optional fields.
+
+function toTask(row: TaskRow): Task {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    instructions: row.instructions,
+    proofType: row.proofType as Task['proofType'],
+    reward: row.reward,
+    rewardMint: row.rewardMint ?? undefined,
+    difficulty: row.difficulty as Task['difficulty'],
+    category: row.category,
+    active: row.active,
+    totalCompletions: row.totalCompletions,
+    maxCompletions: row.maxCompletions ?? undefined,
+    agentId: row.agentId ?? undefined,
+    escrowStatus: (row.escrowStatus ?? undefined) as Task['escrowStatus'],
+    platformFee: row.platformFee ?? undefined,
+    requireWalletProof: row.requireWalletProof ?? undefined,
+    createdAt: row.createdAt,
+  };
+}
+
+function toApplication(row: ApplicationRow): Application {
+  return {
+    id: row.id,
+    taskId: row.taskId ?? '',
+    taskTitle: row.taskTitle,
+    walletAddress: row.walletAddress,
+    proofType: row.proofType,
+    proofContent: row.proofContent,
+    status: row.status as Application['status'],
+    submittedAt: row.submittedAt,
+    reviewedAt: row.reviewedAt ?? undefined,
+    reviewedBy: row.reviewedBy ?? undefined,
+    platformFee: row.platformFee ?? undefined,
+    paidAt: row.paidAt ?? undefined,
+    txSignature: row.txSignature ?? undefined,
+    payoutStatus: (row.payoutStatus ?? undefined) as Application['payoutStatus'],
+    walletVerified: row.walletVerified ?? undefined,
+  };
+}
+
+function toAgent(row: AgentRow): Agent {
+  return {
+    id: row.id,
+    name: row.name,
+    walletAddress: row.walletAddress,
+    apiKey: row.apiKey,
+    paymentTxSignature: row.paymentTxSignature ?? undefined,
+    paymentAmount: row.paymentAmount,
+    plan: row.plan ?? undefined,
+    taskQuota: row.taskQuota ?? undefined,
+    promoCode: row.promoCode ?? undefined,
+    createdAt: row.createdAt,
+    active: row.active,
+    tasksCreated: row.tasksCreated,
+  };
+}
+
+function toRegistrationIntent(row: RegistrationIntentRow): RegistrationIntent {
+  return {
+    id: row.id,
+    reference: row.reference,
+    name: row.name,
+    walletAddress: row.walletAddress,
+    plan: row.plan,
+    taskQuota: row.taskQuota ?? undefined,
+    promoCode: row.promoCode ?? undefined,
+    amount: row.amount,
+    mint: row.mint ?? undefined,
+    status: row.status as RegistrationIntentStatus,
+    signature: row.signature ?? undefined,
+    agentId: row.agentId ?? undefined,
+    error: row.error ?? undefined,
+    createdAt: row.createdAt,
+    expiresAt: row.expiresAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function toChainTransfer(row: ChainTransferRow): ChainTransfer {
+  return {
+    id: row.id,
+    signature: row.signature,
+    wallet: row.wallet as ChainTransfer['wallet'],
+    direction: row.direction as ChainTransfer['direction'],
+    from: row.from,
+    to: row.to,
+    amount: row.amount,
+    mint: row.mint ?? undefined,
+    timestamp: row.timestamp,
+    receivedAt: row.receivedAt,
+  };
+}
+
+function toPayoutRecord(row: PayoutRecordRow): PayoutRecord {
+  return {
+    id: row.id,
+    signature: row.signature,
+    walletAddress: row.walletAddress,
+    amount: row.amount,
+    mint: row.mint ?? undefined,
+    applicationId: row.applicationId ?? undefined,
+    taskId: row.taskId ?? undefined,
+    taskTitle: row.taskTitle ?? undefined,
+    paidAt: row.paidAt,
+    recordedAt: row.recordedAt,
+  };
+}
+
+function toPayoutIntent(row: PayoutIntentRow): PayoutIntent {
+  return {
+    applicationId: row.applicationId,
+    taskId: row.taskId,
+    walletAddress: row.walletAddress,
+    amount: row.amount,
+    mint: row.mint ?? undefined,
+    platformFee: row.platformFee ?? undefined,
+    status: row.status as PayoutIntent['status'],
+    attempts: row.attempts,
+    signature: row.signature ?? undefined,
+    lastValidBlockHeight: row.lastValidBlockHeight ?? undefined,
+    lastError: row.lastError ?? undefined,
+    heldReason: row.heldReason ?? undefined,
+    overriddenBy: row.overriddenBy ?? undefined,
+    overriddenAt: row.overriddenAt ?? undefined,
+    limitDay: row.limitDay ?? undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    confirmedAt: row.confirmedAt ?? undefined,
+  };
+}
+
+function toJournalEntry(row: JournalEntryRow, lines: JournalLineRow[]): JournalEntry {
+  return {
+    id: row.id,
+    reference: row.reference,
+    kind: row.kind as JournalEntry['kind'],
+    currency: row.currency,
+    lines: lines
+      .filter(line => line.entryId === row.id)
+      .map(line => ({ account: line.account, amount: line.amount })),
+    memo: row.memo ?? undefined,
+    createdAt: row.createdAt,
+  };
+}
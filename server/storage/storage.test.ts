@@ -0,0 +1,672 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { InsertTask, PayoutIntent, ReconciliationReport, RegistrationIntent } from "@shared/schema";
+import type { IStorage, PayoutRecordQuery } from "./types";
+import { MemoryStorage } from "./memory";
+import { RedisStorage } from "./redis";
+import { PgStorage } from "./pg";
+import { createTestRedisClient } from "../test/upstash";
+import { createTestDatabase } from "../test/postgres";
+
+// Every backend has to list and filter records the same way
+const backends: Array<[string, () => IStorage | Promise<IStorage>]> = [
+  ['memory', () => new MemoryStorage()],
+  ['redis', () => new RedisStorage(createTestRedisClient())],
+  ['postgres', async () => new PgStorage(await createTestDatabase())],
+];
+
+function taskInput(overrides: Partial<InsertTask> = {}): InsertTask {
+  return {
+    title: 'Share the launch post',
+    description: 'Tell your followers about the launch',
+    instructions: 'Post a link to the launch announcement',
+    proofType: 'link',
+    reward: 0.1,
+    difficulty: 'easy',
+    category: 'social',
+    active: true,
+    ...overrides,
+  };
+}
+
+describe.each(backends)('%s storage', (_name, createStorage) => {
+  let storage: IStorage;
+  let now = 1_700_000_000_000;
+
+  beforeEach(async () => {
+    storage = await createStorage();
+    // Each record gets its own timestamp, so ordering is deterministic
+    vi.spyOn(Date, 'now').mockImplementation(() => (now += 1000));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('tasks', () => {
+    it('lists tasks newest first and only active ones as active', async () => {
+      const first = await storage.createTask(taskInput({ title: 'first' }));
+      const second = await storage.createTask(taskInput({ title: 'second', active: false }));
+      const third = await storage.createTask(taskInput({ title: 'third' }));
+
+      expect((await storage.getAllTasks()).map(t => t.id)).toEqual([third.id, second.id, first.id]);
+      expect((await storage.getActiveTasks()).map(t => t.id)).toEqual([third.id, first.id]);
+      expect((await storage.getStats()).totalTasks).toBe(3);
+    });
+
+    it('moves a task in and out of the active list when updated', async () => {
+      const task = await storage.createTask(taskInput());
+
+      const updated = await storage.updateTask(task.id, { active: false, reward: 0.2 });
+      expect(updated).toMatchObject({ id: task.id, active: false, reward: 0.2, title: task.title });
+      expect(await storage.getActiveTasks()).toEqual([]);
+
+      await storage.updateTask(task.id, { active: true });
+      expect((await storage.getActiveTasks()).map(t => t.id)).toEqual([task.id]);
+    });
+
+    it('keeps the id when an update carries another one', async () => {
+      const task = await storage.createTask(taskInput());
+      const updated = await storage.updateTask(task.id, { id: 'other' });
+      expect(updated?.id).toBe(task.id);
+      expect(await storage.getTask('other')).toBeNull();
+    });
+
+    it('returns null or false for unknown tasks', async () => {
+      expect(await storage.getTask('missing')).toBeNull();
+      expect(await storage.updateTask('missing', { active: false })).toBeNull();
+      expect(await storage.deleteTask('missing')).toBe(false);
+    });
+
+    it('removes a deleted task from every list', async () => {
+      const task = await storage.createTask(taskInput());
+      expect(await storage.deleteTask(task.id)).toBe(true);
+
+      expect(await storage.getTask(task.id)).toBeNull();
+      expect(await storage.getAllTasks()).toEqual([]);
+      expect(await storage.getActiveTasks()).toEqual([]);
+    });
+
+    it('counts completions on the task and in the stats', async () => {
+      const task = await storage.createTask(taskInput());
+      expect(await storage.reserveTaskCompletion(task.id)).toBe(true);
+      expect(await storage.reserveTaskCompletion(task.id)).toBe(true);
+
+      expect((await storage.getTask(task.id))?.totalCompletions).toBe(2);
+      expect((await storage.getStats()).totalCompletedTasks).toBe(2);
+    });
+
+    it('reserves no more completions than the task allows, even concurrently', async () => {
+      const task = await storage.createTask(taskInput({ maxCompletions: 2 }));
+
+      const reserved = await Promise.all([1, 2, 3, 4].map(() => storage.reserveTaskCompletion(task.id)));
+
+      expect(reserved.filter(Boolean)).toHaveLength(2);
+      expect((await storage.getTask(task.id))?.totalCompletions).toBe(2);
+      expect(await storage.reserveTaskCompletion('missing')).toBe(false);
+    });
+
+    it('gives back a released completion, but never below zero', async () => {
+      const task = await storage.createTask(taskInput({ maxCompletions: 1 }));
+      await storage.reserveTaskCompletion(task.id);
+      await storage.releaseTaskCompletion(task.id);
+      await storage.releaseTaskCompletion(task.id);
+
+      expect((await storage.getTask(task.id))?.totalCompletions).toBe(0);
+      expect((await storage.getStats()).totalCompletedTasks).toBe(0);
+      expect(await storage.reserveTaskCompletion(task.id)).toBe(true);
+    });
+
+    it('keeps completions reserved after an update', async () => {
+      const task = await storage.createTask(taskInput({ maxCompletions: 3 }));
+      await storage.reserveTaskCompletion(task.id);
+
+      const updated = await storage.updateTask(task.id, { title: 'Renamed' });
+
+      expect(updated).toMatchObject({ title: 'Renamed', totalCompletions: 1, maxCompletions: 3 });
+    });
+
+    it('does not share objects with the caller', async () => {
+      const task = await storage.createTask(taskInput());
+      const read = await storage.getTask(task.id);
+      read!.title = 'changed';
+      expect((await storage.getTask(task.id))?.title).toBe(task.title);
+    });
+  });
+
+  describe('applications', () => {
+    it('lists pending applications newest first until they are decided', async () => {
+      const task = await storage.createTask(taskInput());
+      const first = await storage.createApplication(
+        { taskId: task.id, walletAddress: 'wallet-1', proofContent: 'https://example.com/1' },
+        task.title,
+        task.proofType
+      );
+      const second = await storage.createApplication(
+        { taskId: task.id, walletAddress: 'wallet-2', proofContent: 'https://example.com/2' },
+        task.title,
+        task.proofType
+      );
+      expect(first).toMatchObject({ status: 'pending', taskTitle: task.title, proofType: 'link' });
+      expect((await storage.getPendingApplications()).map(a => a.id)).toEqual([second.id, first.id]);
+
+      const approved = await storage.updateApplication(first.id, { status: 'approved', reviewedAt: Date.now() });
+      expect(approved?.status).toBe('approved');
+
+      expect((await storage.getPendingApplications()).map(a => a.id)).toEqual([second.id]);
+      expect((await storage.getAllApplications()).map(a => a.id)).toEqual([second.id, first.id]);
+      expect((await storage.getApplicationsByTask(task.id)).map(a => a.id)).toEqual([second.id, first.id]);
+      expect((await storage.getStats()).totalApplications).toBe(2);
+    });
+
+    it('saves only one of two racing reviews', async () => {
+      const task = await storage.createTask(taskInput());
+      const app = await storage.createApplication(
+        { taskId: task.id, walletAddress: 'wallet-1', proofContent: 'https://example.com/1' },
+        task.title,
+        task.proofType
+      );
+
+      const [approved, rejected] = await Promise.all([
+        storage.transitionApplication(app.id, 'pending', { status: 'approved', payoutStatus: 'queued' }),
+        storage.transitionApplication(app.id, 'pending', { status: 'rejected' }),
+      ]);
+
+      expect(approved).toMatchObject({ id: app.id, status: 'approved', payoutStatus: 'queued' });
+      expect(rejected).toBeNull();
+      expect((await storage.getApplication(app.id))?.status).toBe('approved');
+      expect(await storage.getPendingApplications()).toEqual([]);
+      expect(await storage.transitionApplication('missing', 'pending', { status: 'rejected' })).toBeNull();
+    });
+
+    it('returns no applications for a task without any', async () => {
+      expect(await storage.getApplicationsByTask('missing')).toEqual([]);
+      expect(await storage.updateApplication('missing', { status: 'rejected' })).toBeNull();
+    });
+  });
+
+  describe('application approvals', () => {
+    it('records each admin\'s approval once, even concurrently', async () => {
+      const task = await storage.createTask(taskInput());
+      const [first, second] = await Promise.all(['wallet-1', 'wallet-2'].map(walletAddress =>
+        storage.createApplication({ taskId: task.id, walletAddress, proofContent: 'https://example.com/1' }, task.title, task.proofType)
+      ));
+      const approval = { applicationId: first.id, reviewer: 'alice', approvedAt: 1000 };
+
+      const added = await Promise.all([
+        storage.addApplicationApproval(approval),
+        storage.addApplicationApproval({ ...approval, approvedAt: 2000 }),
+      ]);
+      expect(added.filter(Boolean)).toHaveLength(1);
+
+      await storage.addApplicationApproval({ applicationId: first.id, reviewer: 'bob', approvedAt: 3000 });
+      await storage.addApplicationApproval({ applicationId: second.id, reviewer: 'alice', approvedAt: 4000 });
+
+      const approvals = await storage.getApplicationApprovals(first.id);
+      expect(approvals.map(a => a.reviewer)).toEqual(['alice', 'bob']);
+      expect(await storage.getApplicationApprovals('missing')).toEqual([]);
+      expect(await storage.getAllApplicationApprovals()).toHaveLength(3);
+    });
+  });
+
+  describe('payout intents', () => {
+    // Intents belong to a stored application
+    async function intent(overrides: Partial<PayoutIntent> = {}): Promise<PayoutIntent> {
+      const task = await storage.createTask(taskInput());
+      const app = await storage.createApplication(
+        { taskId: task.id, walletAddress: 'wallet-1', proofContent: 'https://example.com/1' },
+        task.title,
+        task.proofType
+      );
+      return {
+        applicationId: app.id,
+        taskId: task.id,
+        walletAddress: app.walletAddress,
+        amount: 0.1,
+        status: 'queued',
+        attempts: 0,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        ...overrides,
+      };
+    }
+
+    it('keeps the first intent of an application', async () => {
+      const first = await intent();
+      expect(await storage.createPayoutIntent(first)).toBe(true);
+      expect(await storage.createPayoutIntent({ ...first, amount: 5 })).toBe(false);
+      expect((await storage.getPayoutIntent(first.applicationId))?.amount).toBe(0.1);
+      expect(await storage.getPayoutIntent('missing')).toBeNull();
+    });
+
+    it('applies a transition only to the expected version', async () => {
+      const created = await intent();
+      await storage.createPayoutIntent(created);
+      const { applicationId } = created;
+      const queued = { status: 'queued' as const, attempts: 0, signature: undefined };
+
+      const sending = await storage.transitionPayoutIntent(applicationId, queued, {
+        status: 'sending',
+        attempts: 1,
+        signature: 'sig-1',
+        lastValidBlockHeight: 100,
+      });
+      expect(sending).toMatchObject({ status: 'sending', attempts: 1, signature: 'sig-1' });
+
+      // A second worker still holding the queued version loses
+      const raced = await storage.transitionPayoutIntent(applicationId, queued, {
+        status: 'sending',
+        attempts: 1,
+        signature: 'sig-2',
+      });
+      expect(raced).toBeNull();
+
+      const requeued = await storage.transitionPayoutIntent(
+        applicationId,
+        { status: 'sending', attempts: 1, signature: 'sig-1' },
+        { status: 'queued', signature: undefined, lastValidBlockHeight: undefined, lastError: 'expired' }
+      );
+      expect(requeued).toMatchObject({ status: 'queued', attempts: 1, lastError: 'expired' });
+      expect((await storage.getPayoutIntent(applicationId))?.signature ?? undefined).toBeUndefined();
+    });
+
+    it('lists queued and sending intents as open', async () => {
+      const failed = await intent();
+      const queued = await intent();
+      const confirmed = await intent({ status: 'confirmed' });
+      for (const created of [failed, queued, confirmed]) {
+        await storage.createPayoutIntent(created);
+      }
+      await storage.transitionPayoutIntent(failed.applicationId, { status: 'queued', attempts: 0 }, { status: 'failed' });
+
+      expect((await storage.getOpenPayoutIntents()).map(i => i.applicationId)).toEqual([queued.applicationId]);
+      expect(await storage.getAllPayoutIntents()).toHaveLength(3);
+    });
+  });
+
+  describe('agents', () => {
+    it('finds an agent by id, API key and wallet', async () => {
+      const agent = await storage.createAgent({ name: 'Test agent', walletAddress: 'agent-wallet', paymentTxSignature: 'tx-signature', paymentAmount: 0.1 });
+      expect(agent).toMatchObject({ active: true, tasksCreated: 0, paymentAmount: 0.1 });
+      expect(agent.apiKey).toMatch(/^mb_[A-Za-z0-9]{32}$/);
+
+      expect((await storage.getAgent(agent.id))?.name).toBe('Test agent');
+      expect((await storage.getAgentByApiKey(agent.apiKey))?.id).toBe(agent.id);
+      expect((await storage.getAgentByWallet('agent-wallet'))?.id).toBe(agent.id);
+      expect(await storage.getAgentByApiKey('mb_unknown')).toBeNull();
+      expect(await storage.getAgentByWallet('unknown')).toBeNull();
+    });
+
+    it('lists agents newest first and counts their tasks', async () => {
+      const first = await storage.createAgent({ name: 'first', walletAddress: 'wallet-1', paymentTxSignature: 'tx-1', paymentAmount: 0.1 });
+      const second = await storage.createAgent({ name: 'second', walletAddress: 'wallet-2', paymentTxSignature: 'tx-2', paymentAmount: 0.1 });
+      await storage.reserveAgentTask(first.id);
+
+      expect((await storage.getAllAgents()).map(a => a.id)).toEqual([second.id, first.id]);
+      expect((await storage.getAgent(first.id))?.tasksCreated).toBe(1);
+      expect((await storage.getStats()).totalAgents).toBe(2);
+    });
+
+    it('reserves tasks up to the quota, even concurrently', async () => {
+      const agent = await storage.createAgent({
+        name: 'Test agent',
+        walletAddress: 'agent-wallet',
+        paymentTxSignature: 'tx-signature',
+        paymentAmount: 0.1,
+        plan: 'basic',
+        taskQuota: 2,
+      });
+
+      const results = await Promise.all([1, 2, 3, 4].map(() => storage.reserveAgentTask(agent.id)));
+
+      expect(results.filter(Boolean)).toHaveLength(2);
+      expect((await storage.getAgent(agent.id))?.tasksCreated).toBe(2);
+      expect(await storage.reserveAgentTask('missing')).toBe(false);
+    });
+
+    it('gives a released task back to the quota', async () => {
+      const agent = await storage.createAgent({
+        name: 'Test agent',
+        walletAddress: 'agent-wallet',
+        paymentTxSignature: 'tx-signature',
+        paymentAmount: 0.1,
+        taskQuota: 1,
+      });
+      await storage.releaseAgentTask(agent.id);
+      expect((await storage.getAgent(agent.id))?.tasksCreated).toBe(0);
+
+      expect(await storage.reserveAgentTask(agent.id)).toBe(true);
+      expect(await storage.reserveAgentTask(agent.id)).toBe(false);
+      await storage.releaseAgentTask(agent.id);
+      expect(await storage.reserveAgentTask(agent.id)).toBe(true);
+    });
+  });
+
+  describe('registration intents', () => {
+    const intent = (id: string, createdAt: number): RegistrationIntent => ({
+      id,
+      reference: `reference-${id}`,
+      name: 'Test agent',
+      walletAddress: 'agent-wallet-address-0000000000000',
+      plan: 'basic',
+      amount: 0.1,
+      status: 'pending',
+      createdAt,
+      expiresAt: createdAt + 60_000,
+      updatedAt: createdAt,
+    });
+
+    it('lists pending intents oldest first and all intents newest first', async () => {
+      await storage.createRegistrationIntent(intent('first', 1000));
+      await storage.createRegistrationIntent(intent('second', 2000));
+      await storage.transitionRegistrationIntent('first', 'pending', { status: 'expired' });
+
+      expect((await storage.getPendingRegistrationIntents()).map(i => i.id)).toEqual(['second']);
+      expect((await storage.getAllRegistrationIntents()).map(i => i.id)).toEqual(['second', 'first']);
+      expect(await storage.getRegistrationIntent('missing')).toBeNull();
+    });
+
+    it('moves an intent on from the expected status once, even concurrently', async () => {
+      await storage.createRegistrationIntent(intent('intent-1', Date.now()));
+
+      const results = await Promise.all(['sig-1', 'sig-2', 'sig-3'].map(signature =>
+        storage.transitionRegistrationIntent('intent-1', 'pending', { status: 'completed', signature })
+      ));
+
+      const won = results.filter(Boolean);
+      expect(won).toHaveLength(1);
+      expect(await storage.getRegistrationIntent('intent-1')).toMatchObject({
+        status: 'completed',
+        signature: won[0]!.signature,
+      });
+      expect(await storage.transitionRegistrationIntent('intent-1', 'pending', { status: 'expired' })).toBeNull();
+    });
+  });
+
+  describe('consumed signatures', () => {
+    const record = (signature: string) => ({
+      signature,
+      purpose: 'registration' as const,
+      walletAddress: 'agent-wallet',
+      consumedAt: Date.now(),
+    });
+
+    it('consumes a signature once, even concurrently', async () => {
+      const results = await Promise.all([1, 2, 3].map(() => storage.consumeSignature(record('sig-1'))));
+
+      expect(results.filter(Boolean)).toHaveLength(1);
+      expect(await storage.getConsumedSignature('sig-1')).toMatchObject({ signature: 'sig-1', purpose: 'registration' });
+      expect(await storage.getConsumedSignature('sig-2')).toBeNull();
+      expect((await storage.getAllConsumedSignatures()).map(r => r.signature)).toEqual(['sig-1']);
+    });
+
+    it('can consume a released signature again', async () => {
+      await storage.consumeSignature(record('sig-1'));
+      await storage.releaseSignature('sig-1');
+
+      expect(await storage.getConsumedSignature('sig-1')).toBeNull();
+      expect(await storage.getAllConsumedSignatures()).toEqual([]);
+      expect(await storage.consumeSignature(record('sig-1'))).toBe(true);
+    });
+  });
+
+  describe('payout records', () => {
+    const record = (id: string, paidAt: number, walletAddress = 'wallet-1', taskId = 'task-1') => ({
+      id,
+      signature: `signature-${id}`,
+      walletAddress,
+      amount: 0.1,
+      taskId,
+      paidAt,
+      recordedAt: paidAt,
+    });
+
+    it('records each payout once, even concurrently', async () => {
+      const results = await Promise.all([1, 2, 3].map(() => storage.recordPayout(record('app-1', 1000))));
+
+      expect(results.filter(Boolean)).toHaveLength(1);
+      expect(await storage.getPayoutRecords({})).toEqual([expect.objectContaining({ id: 'app-1' })]);
+    });
+
+    it('filters and pages records newest first', async () => {
+      await storage.recordPayout(record('a', 1000));
+      await storage.recordPayout(record('b', 2000));
+      await storage.recordPayout(record('c', 2000));
+      await storage.recordPayout(record('d', 3000, 'wallet-2', 'task-2'));
+
+      const ids = async (query: PayoutRecordQuery) => (await storage.getPayoutRecords(query)).map(r => r.id);
+      expect(await ids({})).toEqual(['d', 'c', 'b', 'a']);
+      expect(await ids({ limit: 2 })).toEqual(['d', 'c']);
+      expect(await ids({ before: { paidAt: 2000, id: 'c' } })).toEqual(['b', 'a']);
+      expect(await ids({ walletAddress: 'wallet-1', since: 2000 })).toEqual(['c', 'b']);
+      expect(await ids({ taskId: 'task-2' })).toEqual(['d']);
+      expect(await ids({ until: 2000 })).toEqual(['a']);
+    });
+  });
+
+  describe('chain transfers', () => {
+    it('records each transfer once and lists them newest first', async () => {
+      const transfer = (id: string, timestamp: number) => ({
+        id,
+        signature: id.split(':')[0],
+        wallet: 'treasury' as const,
+        direction: 'in' as const,
+        from: 'agent-wallet',
+        to: 'treasury-wallet',
+        amount: 0.5,
+        timestamp,
+        receivedAt: timestamp,
+      });
+
+      const results = await Promise.all([1, 2].map(() => storage.recordChainTransfer(transfer('sig-1:0', 1000))));
+      await storage.recordChainTransfer(transfer('sig-2:0', 2000));
+
+      expect(results.filter(Boolean)).toHaveLength(1);
+      expect((await storage.getAllChainTransfers()).map(t => t.id)).toEqual(['sig-2:0', 'sig-1:0']);
+    });
+  });
+
+  describe('wallet challenges', () => {
+    it('hands a challenge out once, even concurrently', async () => {
+      const challenge = {
+        nonce: 'nonce-1',
+        walletAddress: 'agent-wallet',
+        message: 'Sign this message',
+        createdAt: Date.now(),
+        expiresAt: Date.now() + 60_000,
+      };
+      await storage.createWalletChallenge(challenge);
+
+      const results = await Promise.all([1, 2, 3].map(() => storage.consumeWalletChallenge('nonce-1')));
+
+      expect(results.filter(Boolean)).toEqual([challenge]);
+      expect(await storage.consumeWalletChallenge('missing')).toBeNull();
+    });
+  });
+
+  describe('escrow', () => {
+    const deposit = (agentId: string, signature: string, amount: number) => ({
+      signature,
+      agentId,
+      walletAddress: 'agent-wallet',
+      currency: 'SOL',
+      amount,
+      createdAt: Date.now(),
+    });
+
+    it('credits a deposit once, even concurrently', async () => {
+      const agent = await storage.createAgent({ name: 'Test agent', walletAddress: 'agent-wallet', paymentTxSignature: 'tx-signature', paymentAmount: 0.1 });
+
+      const results = await Promise.all([1, 2, 3].map(() => storage.recordEscrowDeposit(deposit(agent.id, 'deposit-1', 2))));
+
+      expect(results.filter(Boolean)).toHaveLength(1);
+      expect(await storage.getConsumedSignature('deposit-1')).toMatchObject({ purpose: 'escrow_deposit' });
+      expect(await storage.getEscrowBalance(agent.id, 'SOL')).toMatchObject({ available: 2, deposited: 2, locked: 0 });
+      expect((await storage.getEscrowDeposits(agent.id)).map(d => d.signature)).toEqual(['deposit-1']);
+    });
+
+    it('locks no more than is available, even concurrently', async () => {
+      const agent = await storage.createAgent({ name: 'Test agent', walletAddress: 'agent-wallet', paymentTxSignature: 'tx-signature', paymentAmount: 0.1 });
+      await storage.recordEscrowDeposit(deposit(agent.id, 'deposit-1', 1));
+
+      const results = await Promise.all([1, 2, 3].map(() => storage.lockEscrowFunds(agent.id, 'SOL', 0.4)));
+
+      expect(results.filter(Boolean)).toHaveLength(2);
+      expect(await storage.getEscrowBalance(agent.id, 'SOL')).toMatchObject({ available: 0.2, locked: 0.8 });
+      expect(await storage.lockEscrowFunds(agent.id, 'USDC', 0.1)).toBe(false);
+    });
+
+    it('applies signed changes without float drift', async () => {
+      const agent = await storage.createAgent({ name: 'Test agent', walletAddress: 'agent-wallet', paymentTxSignature: 'tx-signature', paymentAmount: 0.1 });
+      await storage.adjustEscrowBalance(agent.id, 'SOL', { available: 0.3, deposited: 0.3 });
+      for (let i = 0; i < 3; i++) {
+        await storage.adjustEscrowBalance(agent.id, 'SOL', { available: -0.1, spent: 0.1 });
+      }
+
+      expect(await storage.getEscrowBalance(agent.id, 'SOL')).toMatchObject({ available: 0, spent: 0.3 });
+      expect((await storage.getEscrowBalances(agent.id)).map(b => b.currency)).toEqual(['SOL']);
+      expect(await storage.getAllEscrowBalances()).toHaveLength(1);
+    });
+
+    it('releases a task\'s escrow once and stops its reservations', async () => {
+      const agent = await storage.createAgent({ name: 'Test agent', walletAddress: 'agent-wallet', paymentTxSignature: 'tx-signature', paymentAmount: 0.1 });
+      const task = await storage.createTask({ ...taskInput({ maxCompletions: 3 }), agentId: agent.id, escrowStatus: 'locked' });
+      await storage.reserveTaskCompletion(task.id);
+
+      const released = await storage.releaseTaskEscrow(task.id);
+      expect(released).toMatchObject({ escrowStatus: 'released', totalCompletions: 1 });
+      expect(await storage.releaseTaskEscrow(task.id)).toBeNull();
+      expect(await storage.reserveTaskCompletion(task.id)).toBe(false);
+    });
+  });
+
+  describe('ledger', () => {
+    const entry = (reference: string, debit: string, credit: string, amount: number) => ({
+      id: `entry-${reference}`,
+      reference,
+      kind: 'escrow_deposit' as const,
+      currency: 'SOL',
+      lines: [
+        { account: debit, amount },
+        { account: credit, amount: -amount },
+      ],
+      createdAt: Date.now(),
+    });
+
+    it('posts an entry once per reference, even concurrently', async () => {
+      const results = await Promise.all([1, 2, 3].map(i => storage.postJournalEntry({
+        ...entry('deposit-1', 'treasury', 'escrow:a:available', 1),
+        id: `entry-${i}`,
+      })));
+
+      expect(results.filter(Boolean)).toHaveLength(1);
+      expect(await storage.getJournalEntries()).toHaveLength(1);
+      expect(await storage.getLedgerBalances()).toEqual(expect.arrayContaining([
+        expect.objectContaining({ account: 'treasury', currency: 'SOL', balance: 1 }),
+        expect.objectContaining({ account: 'escrow:a:available', currency: 'SOL', balance: -1 }),
+      ]));
+    });
+
+    it('lists entries newest first, by account and up to a limit', async () => {
+      await storage.postJournalEntry(entry('deposit-1', 'treasury', 'escrow:a:available', 1));
+      await storage.postJournalEntry(entry('deposit-2', 'treasury', 'escrow:b:available', 2));
+      await storage.postJournalEntry(entry('lock-1', 'escrow:a:available', 'escrow:a:locked', 0.5));
+
+      expect((await storage.getJournalEntries()).map(e => e.reference)).toEqual(['lock-1', 'deposit-2', 'deposit-1']);
+      expect((await storage.getJournalEntries(undefined, 2)).map(e => e.reference)).toEqual(['lock-1', 'deposit-2']);
+      expect((await storage.getJournalEntries('escrow:a:available')).map(e => e.reference)).toEqual(['lock-1', 'deposit-1']);
+      expect(await storage.getJournalEntries('escrow:c:available')).toEqual([]);
+
+      const balances = await storage.getLedgerBalances();
+      expect(balances.find(b => b.account === 'escrow:a:available')?.balance).toBe(-0.5);
+      expect(balances.find(b => b.account === 'treasury')?.balance).toBe(3);
+    });
+  });
+
+  describe('reconciliation reports', () => {
+    it('keeps only the latest report', async () => {
+      expect(await storage.getReconciliationReport()).toBeNull();
+
+      const report: ReconciliationReport = {
+        status: 'completed',
+        startedAt: 1000,
+        finishedAt: 2000,
+        since: 0,
+        checked: { outflows: 1, payouts: 1, registrations: 0 },
+        discrepancies: [{ type: 'orphan_outflow', signature: 'tx-1', actual: '0.1 SOL to wallet-1' }],
+      };
+      await storage.saveReconciliationReport(report);
+      await storage.saveReconciliationReport({ ...report, status: 'failed', error: 'RPC unavailable' });
+
+      expect(await storage.getReconciliationReport()).toEqual({ ...report, status: 'failed', error: 'RPC unavailable' });
+    });
+  });
+
+  describe('spending limits', () => {
+    it('adds to every counter or to none', async () => {
+      const counters = [{ key: 'day:SOL', limit: 1 }, { key: 'day:SOL:wallet:w1', limit: 0.25 }];
+
+      expect(await storage.reservePayoutLimits(counters, 0.1)).toBeNull();
+      expect(await storage.reservePayoutLimits(counters, 0.1)).toBeNull();
+      expect(await storage.reservePayoutLimits(counters, 0.1)).toBe('day:SOL:wallet:w1');
+
+      // The refused payout was not added to the total either
+      const total = [{ key: 'day:SOL', limit: 0.3 }];
+      expect(await storage.reservePayoutLimits(total, 0.1)).toBeNull();
+      expect(await storage.reservePayoutLimits(total, 0.1)).toBe('day:SOL');
+    });
+
+    it('lets no more through than the limit allows, even concurrently', async () => {
+      const counters = [{ key: 'day:SOL:task:t1', limit: 0.3 }];
+
+      const full = await Promise.all([1, 2, 3, 4, 5].map(() => storage.reservePayoutLimits(counters, 0.1)));
+
+      expect(full.filter(key => key === null)).toHaveLength(3);
+    });
+
+    it('always adds to a counter without a limit', async () => {
+      const counters = [{ key: 'day:SOL:wallet:w1', limit: 0.1 }];
+      expect(await storage.reservePayoutLimits([{ key: 'day:SOL:wallet:w1' }], 5)).toBeNull();
+      expect(await storage.reservePayoutLimits(counters, 0.1)).toBe('day:SOL:wallet:w1');
+    });
+
+    it('gives back released amounts, but never below zero', async () => {
+      const counters = [{ key: 'day:SOL', limit: 0.2 }];
+      await storage.reservePayoutLimits(counters, 0.2);
+      await storage.releasePayoutLimits(['day:SOL', 'other'], 0.1);
+
+      expect(await storage.reservePayoutLimits(counters, 0.1)).toBeNull();
+      expect(await storage.reservePayoutLimits(counters, 0.1)).toBe('day:SOL');
+
+      await storage.releasePayoutLimits(['day:SOL'], 5);
+      expect(await storage.reservePayoutLimits(counters, 0.2)).toBeNull();
+    });
+  });
+
+  describe('payout breaker', () => {
+    it('is not paused until set, then keeps the last state', async () => {
+      expect(await storage.getPayoutBreaker()).toEqual({ paused: false });
+
+      await storage.setPayoutBreaker({ paused: true, reason: 'low_balance', since: 1000 });
+      expect(await storage.getPayoutBreaker()).toEqual({ paused: true, reason: 'low_balance', since: 1000 });
+
+      await storage.setPayoutBreaker({ paused: false });
+      expect(await storage.getPayoutBreaker()).toEqual({ paused: false });
+    });
+  });
+
+  describe('stats', () => {
+    it('starts at zero and adds the given amount', async () => {
+      expect(await storage.getStats()).toEqual({
+        totalTasks: 0,
+        totalApplications: 0,
+        totalPayouts: 0,
+        totalAgents: 0,
+        totalCompletedTasks: 0,
+      });
+
+      await storage.incrementStat('totalPayouts', 0.25);
+      await storage.incrementStat('totalPayouts');
+      expect((await storage.getStats()).totalPayouts).toBe(1.25);
+    });
+  });
+});
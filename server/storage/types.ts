@@ -0,0 +1,210 @@
+import type {
+  Task,
+  NewTask,
+  Application,
+  ApplicationStatus,
+  ApplicationApproval,
+  NewApplication,
+  Agent,
+  NewAgent,
+  RegistrationIntent,
+  RegistrationIntentStatus,
+  WalletChallenge,
+  Stats,
+  PayoutIntent,
+  PayoutIntentVersion,
+  PayoutRecord,
+  ConsumedSignature,
+  EscrowBalance,
+  EscrowBalanceChanges,
+  EscrowDeposit,
+  ChainTransfer,
+  JournalEntry,
+  LedgerBalance,
+  ReconciliationReport,
+  PayoutBreaker,
+  PayoutLimitCounter
+} from "@shared/schema";
+
+// Filters of a payout history page. Records are ordered newest first by
+// paidAt, then id; `before` resumes after the last record of a previous page.
+export interface PayoutRecordQuery {
+  walletAddress?: string;
+  taskId?: string;
+  // paidAt range, inclusive of since and exclusive of until
+  since?: number;
+  until?: number;
+  before?: Pick<PayoutRecord, 'paidAt' | 'id'>;
+  limit?: number;
+}
+
+// Storage interface
+export interface IStorage {
+  // Tasks
+  createTask(task: NewTask): Promise<Task>;
+  getTask(id: string): Promise<Task | null>;
+  getAllTasks(): Promise<Task[]>;
+  getActiveTasks(): Promise<Task[]>;
+  updateTask(id: string, updates: Partial<Task>): Promise<Task | null>;
+  deleteTask(id: string): Promise<boolean>;
+  // Atomically count one completion if the task still has a free slot.
+  // Returns false when the task is missing, already full or its escrow has
+  // been released.
+  reserveTaskCompletion(id: string): Promise<boolean>;
+  // Give back a slot taken by reserveTaskCompletion (e.g. the payment failed)
+  releaseTaskCompletion(id: string): Promise<void>;
+  // Atomically mark a task's escrow released. Returns the task as of that
+  // moment, or null if the task is missing or its escrow was not locked.
+  releaseTaskEscrow(id: string): Promise<Task | null>;
+
+  // Applications
+  createApplication(app: NewApplication, taskTitle: string, proofType: string): Promise<Application>;
+  getApplication(id: string): Promise<Application | null>;
+  getAllApplications(): Promise<Application[]>;
+  getPendingApplications(): Promise<Application[]>;
+  getApplicationsByTask(taskId: string): Promise<Application[]>;
+  updateApplication(id: string, updates: Partial<Application>): Promise<Application | null>;
+  // Compare-and-set: applies updates only if the application's status is
+  // still `from`, so two reviews can never both win
+  transitionApplication(
+    id: string,
+    from: ApplicationStatus,
+    updates: Partial<Application>
+  ): Promise<Application | null>;
+  // Record an admin's approval; returns false if that admin already approved
+  addApplicationApproval(approval: ApplicationApproval): Promise<boolean>;
+  // Approvals of one application, oldest first
+  getApplicationApprovals(applicationId: string): Promise<ApplicationApproval[]>;
+  getAllApplicationApprovals(): Promise<ApplicationApproval[]>;
+
+  // Payout outbox
+  // Insert unless the application already has an intent; returns false if it does
+  createPayoutIntent(intent: PayoutIntent): Promise<boolean>;
+  getPayoutIntent(applicationId: string): Promise<PayoutIntent | null>;
+  // Queued and sending intents, oldest first
+  getOpenPayoutIntents(): Promise<PayoutIntent[]>;
+  getAllPayoutIntents(): Promise<PayoutIntent[]>;
+  // Compare-and-set: applies updates only if the stored intent still matches
+  // `expected`. Fields set to undefined in `updates` are cleared.
+  transitionPayoutIntent(
+    applicationId: string,
+    expected: PayoutIntentVersion,
+    updates: Partial<PayoutIntent>
+  ): Promise<PayoutIntent | null>;
+
+  // Payout history
+  // Insert unless a record with the same id exists; returns false if it does
+  recordPayout(record: PayoutRecord): Promise<boolean>;
+  getPayoutRecords(query: PayoutRecordQuery): Promise<PayoutRecord[]>;
+
+  // Agents
+  createAgent(agent: NewAgent): Promise<Agent>;
+  getAgent(id: string): Promise<Agent | null>;
+  getAgentByApiKey(apiKey: string): Promise<Agent | null>;
+  getAgentByWallet(wallet: string): Promise<Agent | null>;
+  getAllAgents(): Promise<Agent[]>;
+  // Atomically count a task the agent is about to create; false once its
+  // plan's task quota is reached or the agent is unknown
+  reserveAgentTask(id: string): Promise<boolean>;
+  // Give back a reserved task that was never created
+  releaseAgentTask(id: string): Promise<void>;
+
+  // Registration intents
+  createRegistrationIntent(intent: RegistrationIntent): Promise<void>;
+  getRegistrationIntent(id: string): Promise<RegistrationIntent | null>;
+  // Pending intents, oldest first
+  getPendingRegistrationIntents(): Promise<RegistrationIntent[]>;
+  getAllRegistrationIntents(): Promise<RegistrationIntent[]>;
+  // Compare-and-set: applies updates only if the intent still has the
+  // expected status. Returns null when it does not.
+  transitionRegistrationIntent(
+    id: string,
+    expected: RegistrationIntentStatus,
+    updates: Partial<RegistrationIntent>
+  ): Promise<RegistrationIntent | null>;
+
+  // Wallet challenges
+  createWalletChallenge(challenge: WalletChallenge): Promise<void>;
+  // Atomically remove and return a challenge, so each can be used once.
+  // Returns null if it does not exist or was already used.
+  consumeWalletChallenge(nonce: string): Promise<WalletChallenge | null>;
+
+  // Consumed payment signatures
+  // Atomically record a signature as used; returns false if it already was
+  consumeSignature(record: ConsumedSignature): Promise<boolean>;
+  getConsumedSignature(signature: string): Promise<ConsumedSignature | null>;
+  getAllConsumedSignatures(): Promise<ConsumedSignature[]>;
+  // Undo consumeSignature when the action it paid for could not be completed
+  releaseSignature(signature: string): Promise<void>;
+
+  // Agent escrow
+  // Atomically consume the deposit's signature, record the deposit and
+  // credit the agent's available balance. Returns false if the signature
+  // was already used.
+  recordEscrowDeposit(deposit: EscrowDeposit): Promise<boolean>;
+  // Deposits of one agent, newest first
+  getEscrowDeposits(agentId: string): Promise<EscrowDeposit[]>;
+  getAllEscrowDeposits(): Promise<EscrowDeposit[]>;
+  getEscrowBalance(agentId: string, currency: string): Promise<EscrowBalance | null>;
+  getEscrowBalances(agentId: string): Promise<EscrowBalance[]>;
+  getAllEscrowBalances(): Promise<EscrowBalance[]>;
+  // Atomically move amount from available to locked; returns false when
+  // less than amount is available
+  lockEscrowFunds(agentId: string, currency: string, amount: number): Promise<boolean>;
+  // Apply signed changes to a balance, creating it if needed
+  adjustEscrowBalance(agentId: string, currency: string, changes: EscrowBalanceChanges): Promise<void>;
+
+  // Chain transfers
+  // Insert unless a transfer with the same id exists; returns false if it does
+  recordChainTransfer(transfer: ChainTransfer): Promise<boolean>;
+  // Newest first
+  getAllChainTransfers(): Promise<ChainTransfer[]>;
+
+  // Ledger
+  // Atomically store a balanced entry and apply its lines to the account
+  // balances. Returns false if an entry with the same reference exists.
+  postJournalEntry(entry: JournalEntry): Promise<boolean>;
+  // Entries that touch an account (all entries without one), newest first
+  getJournalEntries(account?: string, limit?: number): Promise<JournalEntry[]>;
+  getLedgerBalances(): Promise<LedgerBalance[]>;
+
+  // Reconciliation
+  // Replace the stored report with the latest run's
+  saveReconciliationReport(report: ReconciliationReport): Promise<void>;
+  getReconciliationReport(): Promise<ReconciliationReport | null>;
+
+  // Spending limits
+  // Atomically add amount to every counter, or to none when that would take
+  // one past its limit. Returns the key of the first such counter, or null
+  // once added.
+  reservePayoutLimits(counters: PayoutLimitCounter[], amount: number): Promise<string | null>;
+  // Take amount back off the counters
+  releasePayoutLimits(keys: string[], amount: number): Promise<void>;
+
+  // Treasury: whether automatic payouts are paused. Not paused until first set.
+  getPayoutBreaker(): Promise<PayoutBreaker>;
+  setPayoutBreaker(breaker: PayoutBreaker): Promise<void>;
+
+  // Stats
+  getStats(): Promise<Stats>;
+  incrementStat(key: keyof Stats, amount?: number): Promise<void>;
+}
+
+// Bulk writes that keep existing ids. Used to copy records between backends
+// (migrations and dual-write mirroring); each call overwrites any existing copy.
+export interface IStorageImport {
+  importTask(task: Task): Promise<void>;
+  importApplication(app: Application): Promise<void>;
+  importApplicationApproval(approval: ApplicationApproval): Promise<void>;
+  importAgent(agent: Agent): Promise<void>;
+  importRegistrationIntent(intent: RegistrationIntent): Promise<void>;
+  importStats(stats: Stats): Promise<void>;
+  importPayoutIntent(intent: PayoutIntent): Promise<void>;
+  importPayoutRecord(record: PayoutRecord): Promise<void>;
+  importConsumedSignature(record: ConsumedSignature): Promise<void>;
+  importEscrowBalance(balance: EscrowBalance): Promise<void>;
+  importEscrowDeposit(deposit: EscrowDeposit): Promise<void>;
+  importChainTransfer(transfer: ChainTransfer): Promise<void>;
+  importJournalEntry(entry: JournalEntry): Promise<void>;
+  importLedgerBalance(balance: LedgerBalance): Promise<void>;
+}
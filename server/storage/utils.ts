@@ -0,0 +1,83 @@
+import type {
+  PayoutIntent,
+  PayoutIntentVersion,
+  PayoutStatus,
+  PayoutRecord,
+  EscrowBalance,
+  EscrowBalanceChanges
+} from "@shared/schema";
+import type { PayoutRecordQuery } from "./types";
+
+// API Key generation
+export function generateApiKey(): string {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let result = 'mb_';
+  for (let i = 0; i < 32; i++) {
+    result += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return result;
+}
+
+export function isOpenPayoutStatus(status: PayoutStatus): boolean {
+  return status === 'queued' || status === 'sending';
+}
+
+// Missing and undefined signatures compare equal
+export function matchesPayoutVersion(intent: PayoutIntent, expected: PayoutIntentVersion): boolean {
+  return intent.status === expected.status &&
+    intent.attempts === expected.attempts &&
+    (intent.signature ?? null) === (expected.signature ?? null);
+}
+
+// Merge updates into an intent, removing fields explicitly set to undefined
+export function applyPayoutUpdates(intent: PayoutIntent, updates: Partial<PayoutIntent>): PayoutIntent {
+  const merged: Record<string, unknown> = { ...intent };
+  for (const [key, value] of Object.entries(updates)) {
+    if (value === undefined) {
+      delete merged[key];
+    } else {
+      merged[key] = value;
+    }
+  }
+  return merged as PayoutIntent;
+}
+
+// Filter, order and page payout records held in memory, as the database
+// query does
+export function selectPayoutRecords(records: PayoutRecord[], query: PayoutRecordQuery): PayoutRecord[] {
+  const { walletAddress, taskId, since, until, before, limit } = query;
+  const selected = records
+    .filter(record =>
+      (walletAddress === undefined || record.walletAddress === walletAddress) &&
+      (taskId === undefined || record.taskId === taskId) &&
+      (since === undefined || record.paidAt >= since) &&
+      (until === undefined || record.paidAt < until) &&
+      (before === undefined || record.paidAt < before.paidAt ||
+        (record.paidAt === before.paidAt && record.id < before.id))
+    )
+    .sort((a, b) => b.paidAt - a.paidAt || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0));
+  return selected.slice(0, limit ?? selected.length);
+}
+
+// Escrow amounts are kept at 9 decimals so repeated float additions cannot
+// leave a balance a hair short of what was deposited
+export function roundEscrowAmount(amount: number): number {
+  return Math.round(amount * 1e9) / 1e9;
+}
+
+export function applyEscrowChanges(
+  balance: EscrowBalance | null,
+  agentId: string,
+  currency: string,
+  changes: EscrowBalanceChanges
+): EscrowBalance {
+  const current = balance ?? { agentId, currency, available: 0, locked: 0, spent: 0, deposited: 0, updatedAt: 0 };
+  return {
+    ...current,
+    available: roundEscrowAmount(current.available + (changes.available ?? 0)),
+    locked: roundEscrowAmount(current.locked + (changes.locked ?? 0)),
+    spent: roundEscrowAmount(current.spent + (changes.spent ?? 0)),
+    deposited: roundEscrowAmount(current.deposited + (changes.deposited ?? 0)),
+    updatedAt: Date.now(),
+  };
+}
@@ -0,0 +1,81 @@
+-- Minimal stand-in for the cjson library that Redis exposes to scripts.
+-- ioredis-mock runs Lua without it; this covers what the storage scripts
+-- use. Like cjson, empty tables encode as objects and numbers use %.14g.
+cjson = { null = setmetatable({}, { __tostring = function() return 'null' end }) }
+
+local escapes = { ['"'] = '\\"', ['\\'] = '\\\\', ['\n'] = '\\n', ['\r'] = '\\r', ['\t'] = '\\t' }
+
+local function encode(v)
+  local t = type(v)
+  if v == nil or v == cjson.null then return 'null' end
+  if t == 'boolean' then return tostring(v) end
+  if t == 'number' then return string.format('%.14g', v) end
+  if t == 'string' then
+    return '"' .. v:gsub('[%c"\\]', function(c)
+      return escapes[c] or string.format('\\u%04x', c:byte())
+    end) .. '"'
+  end
+  local parts = {}
+  if #v > 0 then
+    for i = 1, #v do parts[i] = encode(v[i]) end
+    return '[' .. table.concat(parts, ',') .. ']'
+  end
+  for k, val in pairs(v) do parts[#parts + 1] = encode(tostring(k)) .. ':' .. encode(val) end
+  return '{' .. table.concat(parts, ',') .. '}'
+end
+
+function cjson.decode(s)
+  local pos = 1
+  local function skip() pos = s:find('[^ \t\r\n]', pos) or #s + 1 end
+
+  local function str()
+    local out, i = {}, pos + 1
+    while true do
+      local c = s:sub(i, i)
+      if c == '"' then pos = i + 1; return table.concat(out) end
+      if c == '\\' then
+        local e = s:sub(i + 1, i + 1)
+        if e == 'u' then
+          out[#out + 1] = utf8.char(tonumber(s:sub(i + 2, i + 5), 16)); i = i + 6
+        else
+          out[#out + 1] = ({ n = '\n', r = '\r', t = '\t', b = '\b', f = '\f' })[e] or e; i = i + 2
+        end
+      else
+        out[#out + 1] = c; i = i + 1
+      end
+    end
+  end
+
+  local value
+  function value()
+    skip()
+    local c = s:sub(pos, pos)
+    if c == '{' or c == '[' then
+      local result, close = {}, c == '{' and '}' or ']'
+      pos = pos + 1; skip()
+      if s:sub(pos, pos) == close then pos = pos + 1; return result end
+      while true do
+        if close == '}' then
+          skip(); local k = str(); skip(); pos = pos + 1
+          result[k] = value()
+        else
+          result[#result + 1] = value()
+        end
+        skip()
+        local d = s:sub(pos, pos); pos = pos + 1
+        if d == close then return result end
+      end
+    elseif c == '"' then return str()
+    elseif s:sub(pos, pos + 3) == 'true' then pos = pos + 4; return true
+    elseif s:sub(pos, pos + 4) == 'false' then pos = pos + 5; return false
+    elseif s:sub(pos, pos + 3) == 'null' then pos = pos + 4; return cjson.null
+    end
+    local num = s:match('^-?[%d.eE+-]+', pos)
+    pos = pos + #num
+    return tonumber(num)
+  end
+
+  return value()
+end
+
+cjson.encode = encode
@@ -0,0 +1,32 @@
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { getTableName, is, sql } from "drizzle-orm";
+import { PgTable } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+import type { Database } from "../db";
+
+let database: Promise<Database> | undefined;
+
+/**
+ * A PostgreSQL database for tests: PGlite (Postgres compiled to WASM) in
+ * process, with the schema pushed the way `npm run db:push` would. It is
+ * created once per test file, and every call empties its tables.
+ */
+export async function createTestDatabase(): Promise<Database> {
+  database ??= (async () => {
+    const { generateDrizzleJson, generateMigration } = await import("drizzle-kit/api");
+    const client = new PGlite();
+    const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+    for (const statement of statements) {
+      await client.exec(statement);
+    }
+    return drizzle(client, { schema }) as unknown as Database;
+  })();
+
+  const db = await database;
+  const tables = Object.values(schema)
+    .filter(value => is(value, PgTable))
+    .map(table => `"${getTableName(table as PgTable)}"`);
+  await db.execute(sql.raw(`TRUNCATE ${tables.join(', ')}`));
+  return db;
+}
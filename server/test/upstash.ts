@@ -0,0 +1,41 @@
+import fs from "fs";
+import path from "path";
+import { Redis } from "@upstash/redis";
+import RedisMock from "ioredis-mock";
+
+const CJSON = fs.readFileSync(path.join(import.meta.dirname, "cjson.lua"), "utf8");
+
+// Position of the first option argument of commands that take options
+const OPTIONS_FROM: Record<string, number> = { set: 2, zrange: 3 };
+
+// ioredis-mock shares data between instances with the same host
+let databases = 0;
+
+/**
+ * An Upstash client whose REST calls run against an in-process ioredis-mock,
+ * so RedisStorage and its Lua scripts can be tested without a server. Each
+ * call gets a fresh, empty database.
+ */
+export function createTestRedisClient(): Redis {
+  const mock: any = new RedisMock({ host: `test-${++databases}` });
+  return new Redis({
+    request: async (req: any) => {
+      const [command, ...args] = (req.body as unknown[]).map(String);
+      const name = command.toLowerCase();
+      // ioredis-mock only recognizes upper-case options, e.g. SET ... NX
+      for (let i = OPTIONS_FROM[name] ?? args.length; i < args.length; i++) {
+        if (/^[a-z]+$/.test(args[i])) args[i] = args[i].toUpperCase();
+      }
+      if (name === "eval") args[0] = `${CJSON}\n${args[0]}`;
+      try {
+        const result = await mock[name](...args);
+        // The REST API returns hashes as flat field/value arrays
+        if (name === "hgetall") return { result: Object.entries(result).flat() };
+        // A nil reply is null over REST
+        return { result: result ?? null };
+      } catch (error) {
+        return { error: (error as Error).message };
+      }
+    },
+  } as any);
+}
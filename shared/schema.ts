@@ -1,4 +1,16 @@
 import { z } from "zod";
+import {
+  pgTable,
+  text,
+  varchar,
+  boolean,
+  integer,
+  bigint,
+  doublePrecision,
+  jsonb,
+  index,
+  primaryKey,
+} from "drizzle-orm/pg-core";
 
 // Task Schema
 export const proofTypeSchema = z.enum(['tweet_link', 'image', 'link', 'text']);
@@ -7,6 +19,11 @@ export type ProofType = z.infer<typeof proofTypeSchema>;
 export const difficultySchema = z.enum(['easy', 'medium', 'hard']);
 export type Difficulty = z.infer<typeof difficultySchema>;
 
+// locked: the creating agent's escrow holds the unspent budget;
+// released: the remainder went back to the agent and no more payouts are made
+export const escrowStatusSchema = z.enum(['locked', 'released']);
+export type EscrowStatus = z.infer<typeof escrowStatusSchema>;
+
 export const taskSchema = z.object({
   id: z.string(),
   title: z.string().min(1),
@@ -14,11 +31,21 @@ export const taskSchema = z.object({
   instructions: z.string().min(1),
   proofType: proofTypeSchema,
   reward: z.number().positive(),
+  // SPL token mint the reward is paid in; SOL when unset
+  rewardMint: z.string().min(32).max(44).optional(),
   difficulty: difficultySchema,
   category: z.string().min(1),
   active: z.boolean().default(true),
   totalCompletions: z.number().int().nonnegative().default(0),
   maxCompletions: z.number().int().positive().optional(),
+  // Agent that created and funds the task; unset for treasury-funded tasks
+  agentId: z.string().optional(),
+  escrowStatus: escrowStatusSchema.optional(),
+  // Platform fee per completion the agent paid on top of the reward when
+  // funding the task
+  platformFee: z.number().nonnegative().optional(),
+  // Applicants must prove they own their wallet with a signed challenge
+  requireWalletProof: z.boolean().optional(),
   createdAt: z.number(),
 });
 
@@ -27,14 +54,27 @@ export type Task = z.infer<typeof taskSchema>;
 export const insertTaskSchema = taskSchema.omit({ 
   id: true, 
   totalCompletions: true, 
+  agentId: true,
+  escrowStatus: true,
+  platformFee: true,
   createdAt: true 
 });
 export type InsertTask = z.infer<typeof insertTaskSchema>;
 
+// What storage needs to create a task, including its funding
+export type NewTask = InsertTask & Pick<Task, 'agentId' | 'escrowStatus' | 'platformFee'>;
+
 // Application Schema
 export const applicationStatusSchema = z.enum(['pending', 'approved', 'rejected']);
 export type ApplicationStatus = z.infer<typeof applicationStatusSchema>;
 
+// queued: waiting for the worker; sending: a signed transfer may be in flight;
+// confirmed: paid; failed: gave up after too many attempts (admin can retry)
+// held: over a spending limit; waits for an admin override before it is queued
+// rejected: a held payout an admin refused; it is never sent
+export const payoutStatusSchema = z.enum(['held', 'queued', 'sending', 'confirmed', 'failed', 'rejected']);
+export type PayoutStatus = z.infer<typeof payoutStatusSchema>;
+
 export const applicationSchema = z.object({
   id: z.string(),
   taskId: z.string(),
@@ -45,27 +85,129 @@ export const applicationSchema = z.object({
   status: applicationStatusSchema.default('pending'),
   submittedAt: z.number(),
   reviewedAt: z.number().optional(),
+  // Admin who rejected the application or gave its final approval
+  reviewedBy: z.string().optional(),
+  // Platform fee earned on this completion, in the reward's currency
+  platformFee: z.number().nonnegative().optional(),
   paidAt: z.number().optional(),
   txSignature: z.string().optional(),
+  payoutStatus: payoutStatusSchema.optional(),
+  // The applicant signed a wallet challenge with walletAddress
+  walletVerified: z.boolean().optional(),
 });
 
 export type Application = z.infer<typeof applicationSchema>;
 
+// A wallet challenge signed by the applicant's wallet
+export const walletProofSchema = z.object({
+  nonce: z.string(),
+  // Base58 ed25519 signature of the challenge message
+  signature: z.string().min(1),
+});
+export type WalletProof = z.infer<typeof walletProofSchema>;
+
 export const insertApplicationSchema = z.object({
   taskId: z.string(),
   walletAddress: z.string().min(32).max(44),
   proofContent: z.string().min(1),
+  walletProof: walletProofSchema.optional(),
 });
 export type InsertApplication = z.infer<typeof insertApplicationSchema>;
 
+// What storage needs to create an application, once any wallet proof is checked
+export type NewApplication = Omit<InsertApplication, 'walletProof'> & Pick<Application, 'walletVerified'>;
+
+// Wallet Challenge Schema
+// A single-use nonce an applicant signs with their wallet to prove they own it
+export const walletChallengeSchema = z.object({
+  nonce: z.string(),
+  walletAddress: z.string().min(32).max(44),
+  // The exact text the wallet signs
+  message: z.string(),
+  createdAt: z.number(),
+  expiresAt: z.number(),
+});
+
+export type WalletChallenge = z.infer<typeof walletChallengeSchema>;
+
+export const createWalletChallengeSchema = walletChallengeSchema.pick({ walletAddress: true });
+
+// Application Approval Schema
+// One admin's approval of an application. Rewards above the multi-approval
+// threshold are queued once enough distinct admins have approved.
+export const applicationApprovalSchema = z.object({
+  applicationId: z.string(),
+  reviewer: z.string(),
+  approvedAt: z.number(),
+});
+
+export type ApplicationApproval = z.infer<typeof applicationApprovalSchema>;
+
+// Approve several applications at once; their payouts are sent in batches
+export const batchApprovalSchema = z.object({
+  applicationIds: z.array(z.string()).min(1).max(100),
+});
+
+// Payout Intent Schema (payout outbox, one per approved application)
+export const payoutIntentSchema = z.object({
+  applicationId: z.string(),
+  taskId: z.string(),
+  walletAddress: z.string().min(32).max(44),
+  amount: z.number().positive(),
+  // SPL token mint; SOL when unset
+  mint: z.string().optional(),
+  // Platform fee earned on the completion; amount is what the worker receives
+  platformFee: z.number().nonnegative().optional(),
+  status: payoutStatusSchema,
+  // Number of transfers signed so far
+  attempts: z.number().int().nonnegative(),
+  // Signature and expiry of the latest signed transfer
+  signature: z.string().optional(),
+  lastValidBlockHeight: z.number().int().optional(),
+  lastError: z.string().optional(),
+  // Spending limit the payout exceeded when it was approved
+  heldReason: z.string().optional(),
+  // Admin who released or rejected a held payout, and when
+  overriddenBy: z.string().optional(),
+  overriddenAt: z.number().optional(),
+  // UTC day (YYYY-MM-DD) whose spending limits the payout counts toward;
+  // unset while it is held
+  limitDay: z.string().optional(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  confirmedAt: z.number().optional(),
+});
+
+export type PayoutIntent = z.infer<typeof payoutIntentSchema>;
+
+// Fields that identify one version of a payout intent for compare-and-set
+export type PayoutIntentVersion = Pick<PayoutIntent, 'status' | 'attempts' | 'signature'>;
+
+// Spending Limit Schema
+// A counter of what was approved for payout on one UTC day in one currency:
+// in total, to one wallet or for one task. A counter without a limit is
+// added to regardless, as for a payout an admin overrode.
+export const payoutLimitCounterSchema = z.object({
+  key: z.string(),
+  limit: z.number().optional(),
+});
+
+export type PayoutLimitCounter = z.infer<typeof payoutLimitCounterSchema>;
+
 // Agent Schema
 export const agentSchema = z.object({
   id: z.string(),
   name: z.string().min(1),
   walletAddress: z.string().min(32).max(44),
   apiKey: z.string(),
-  paymentTxSignature: z.string(),
-  paymentAmount: z.number().positive(),
+  // Unset for agents that registered for free
+  paymentTxSignature: z.string().optional(),
+  paymentAmount: z.number().nonnegative(),
+  // Registration plan; agents registered before plans existed have none
+  plan: z.string().optional(),
+  // Most tasks the agent may create, from its plan; unset means no limit
+  taskQuota: z.number().int().nonnegative().optional(),
+  promoCode: z.string().optional(),
   createdAt: z.number(),
   active: z.boolean().default(true),
   tasksCreated: z.number().int().nonnegative().default(0),
@@ -73,13 +215,201 @@ export const agentSchema = z.object({
 
 export type Agent = z.infer<typeof agentSchema>;
 
+// What storage needs to create an agent, including how it paid
+export type NewAgent = Pick<
+  Agent,
+  'name' | 'walletAddress' | 'paymentTxSignature' | 'paymentAmount' | 'plan' | 'taskQuota' | 'promoCode'
+>;
+
 export const registerAgentSchema = z.object({
   name: z.string().min(1),
   wallet: z.string().min(32).max(44),
-  txSignature: z.string().min(1),
+  // Not needed when the registration is free
+  txSignature: z.string().min(1).optional(),
+  plan: z.string().min(1).optional(),
+  promoCode: z.string().min(1).optional(),
 });
 export type RegisterAgent = z.infer<typeof registerAgentSchema>;
 
+// Registration Plans
+// Priced in REGISTRATION_CURRENCY
+export const registrationPlanSchema = z.object({
+  name: z.string(),
+  price: z.number().nonnegative(),
+  taskQuota: z.number().int().nonnegative().optional(),
+});
+
+export type RegistrationPlan = z.infer<typeof registrationPlanSchema>;
+
+// Price a wallet pays for a plan after promo codes and allowlisting
+export const registrationQuoteSchema = z.object({
+  plan: z.string(),
+  taskQuota: z.number().int().nonnegative().optional(),
+  price: z.number().nonnegative(),
+  promoCode: z.string().optional(),
+});
+
+export type RegistrationQuote = z.infer<typeof registrationQuoteSchema>;
+
+// Registration Intent Schema
+// A Solana Pay request for a registration fee. The payment carries the
+// intent's reference key, so the server can find it on chain and create the
+// agent without the agent submitting a signature.
+// pending: waiting for the payment; completed: the agent was created;
+// failed: a payment landed but no agent could be created for it;
+// expired: no payment arrived in time
+export const registrationIntentStatusSchema = z.enum(['pending', 'completed', 'failed', 'expired']);
+export type RegistrationIntentStatus = z.infer<typeof registrationIntentStatusSchema>;
+
+export const registrationIntentSchema = z.object({
+  id: z.string(),
+  // Public key added to the payment transaction; not a signer
+  reference: z.string(),
+  name: z.string().min(1),
+  walletAddress: z.string().min(32).max(44),
+  plan: z.string(),
+  taskQuota: z.number().int().nonnegative().optional(),
+  promoCode: z.string().optional(),
+  // Price to pay, in the mint's units (SOL when unset)
+  amount: z.number().positive(),
+  mint: z.string().optional(),
+  status: registrationIntentStatusSchema,
+  signature: z.string().optional(),
+  agentId: z.string().optional(),
+  error: z.string().optional(),
+  createdAt: z.number(),
+  expiresAt: z.number(),
+  updatedAt: z.number(),
+});
+
+export type RegistrationIntent = z.infer<typeof registrationIntentSchema>;
+
+export const createRegistrationIntentSchema = registerAgentSchema.omit({ txSignature: true });
+
+// Consumed Signature Schema
+// Payment transactions that have already been redeemed, so each can be used once
+export const signaturePurposeSchema = z.enum(['registration', 'escrow_deposit']);
+export type SignaturePurpose = z.infer<typeof signaturePurposeSchema>;
+
+export const consumedSignatureSchema = z.object({
+  signature: z.string(),
+  purpose: signaturePurposeSchema,
+  walletAddress: z.string(),
+  consumedAt: z.number(),
+});
+
+export type ConsumedSignature = z.infer<typeof consumedSignatureSchema>;
+
+// Escrow Schemas
+// Funds an agent has deposited to pay for its own tasks, per currency
+// ("SOL" or an SPL token mint). Amounts are rounded to 9 decimals.
+export const escrowBalanceSchema = z.object({
+  agentId: z.string(),
+  currency: z.string(),
+  // Free to fund new tasks
+  available: z.number(),
+  // Budget of open tasks not yet paid out
+  locked: z.number(),
+  // Paid out to task completers
+  spent: z.number(),
+  deposited: z.number(),
+  updatedAt: z.number(),
+});
+
+export type EscrowBalance = z.infer<typeof escrowBalanceSchema>;
+
+// Signed changes applied to a balance
+export type EscrowBalanceChanges = Partial<Pick<EscrowBalance, 'available' | 'locked' | 'spent' | 'deposited'>>;
+
+export const escrowDepositSchema = z.object({
+  signature: z.string(),
+  agentId: z.string(),
+  walletAddress: z.string(),
+  currency: z.string(),
+  amount: z.number().positive(),
+  createdAt: z.number(),
+});
+
+export type EscrowDeposit = z.infer<typeof escrowDepositSchema>;
+
+export const escrowDepositRequestSchema = z.object({
+  txSignature: z.string().min(1),
+  // "SOL" (default), a token symbol or a mint address
+  currency: z.string().optional(),
+});
+
+// Chain Transfer Schema
+// A transfer into or out of a platform wallet, as reported by a chain webhook
+export const chainTransferWalletSchema = z.enum(['registration', 'treasury']);
+export type ChainTransferWallet = z.infer<typeof chainTransferWalletSchema>;
+
+export const chainTransferSchema = z.object({
+  // {signature}:{position of the transfer in the transaction}
+  id: z.string(),
+  signature: z.string(),
+  // Platform wallet the transfer moves funds into or out of
+  wallet: chainTransferWalletSchema,
+  direction: z.enum(['in', 'out']),
+  from: z.string(),
+  to: z.string(),
+  amount: z.number().positive(),
+  // SPL token mint; SOL when unset
+  mint: z.string().optional(),
+  // Block time
+  timestamp: z.number(),
+  receivedAt: z.number(),
+});
+
+export type ChainTransfer = z.infer<typeof chainTransferSchema>;
+
+// Ledger Schemas
+// Double-entry journal of every movement of funds. Accounts are named by
+// path: "treasury", "registration", "revenue:registration",
+// "revenue:platform_fees", "expense:rewards",
+// "escrow:{agentId}:available", "escrow:{agentId}:locked", "payable:{wallet}".
+export const journalKindSchema = z.enum([
+  'registration_fee',
+  'escrow_deposit',
+  'escrow_lock',
+  'escrow_release',
+  'payout_approved',
+  'platform_fee',
+  'payout_rejected',
+  'payout_sent',
+]);
+export type JournalKind = z.infer<typeof journalKindSchema>;
+
+// Positive amounts are debits, negative amounts credits
+export const journalLineSchema = z.object({
+  account: z.string(),
+  amount: z.number(),
+});
+
+export type JournalLine = z.infer<typeof journalLineSchema>;
+
+export const journalEntrySchema = z.object({
+  id: z.string(),
+  // Identifies the event being recorded; an event is posted at most once
+  reference: z.string(),
+  kind: journalKindSchema,
+  currency: z.string(),
+  // Sum to zero
+  lines: z.array(journalLineSchema).min(2),
+  memo: z.string().optional(),
+  createdAt: z.number(),
+});
+
+export type JournalEntry = z.infer<typeof journalEntrySchema>;
+
+export const ledgerBalanceSchema = z.object({
+  account: z.string(),
+  currency: z.string(),
+  // Debits minus credits
+  balance: z.number(),
+});
+
+export type LedgerBalance = z.infer<typeof ledgerBalanceSchema>;
+
 // Platform Stats Schema
 export const statsSchema = z.object({
   totalTasks: z.number().int().nonnegative().default(0),
@@ -98,6 +428,404 @@ export const payoutSchema = z.object({
   amount: z.number(),
   timestamp: z.number(),
   status: z.string(),
+  // SPL token mint; SOL when unset
+  mint: z.string().optional(),
+  // Position of the transfer among its transaction's transfers
+  index: z.number().int().nonnegative(),
+  explorerUrl: z.string().optional(),
 });
 
 export type Payout = z.infer<typeof payoutSchema>;
+
+// Payout History Schema
+// A payment sent from the treasury, recorded when the payout outbox confirms
+// it or backfilled from the chain
+export const payoutRecordSchema = z.object({
+  // Application id for reward payments; {signature}:{transfer index} for
+  // treasury transfers that pay no application
+  id: z.string(),
+  signature: z.string(),
+  walletAddress: z.string(),
+  amount: z.number().positive(),
+  // SPL token mint; SOL when unset
+  mint: z.string().optional(),
+  applicationId: z.string().optional(),
+  taskId: z.string().optional(),
+  taskTitle: z.string().optional(),
+  // Confirmation or block time
+  paidAt: z.number(),
+  recordedAt: z.number(),
+});
+
+export type PayoutRecord = z.infer<typeof payoutRecordSchema>;
+
+// Reconciliation Schemas
+// orphan_outflow: a treasury transfer no application accounts for;
+// missing_confirmation: a payout recorded as paid whose transaction did not
+// confirm; amount_mismatch / recipient_mismatch: the chain disagrees with the
+// record; unverified_registration: a registration payment that does not verify
+export const discrepancyTypeSchema = z.enum([
+  'orphan_outflow',
+  'missing_confirmation',
+  'amount_mismatch',
+  'recipient_mismatch',
+  'unverified_registration',
+]);
+export type DiscrepancyType = z.infer<typeof discrepancyTypeSchema>;
+
+export const discrepancySchema = z.object({
+  type: discrepancyTypeSchema,
+  signature: z.string().optional(),
+  applicationId: z.string().optional(),
+  agentId: z.string().optional(),
+  expected: z.string().optional(),
+  actual: z.string().optional(),
+  details: z.string(),
+});
+
+export type Discrepancy = z.infer<typeof discrepancySchema>;
+
+// completed: every record was checked; failed: a read failed part way and
+// the discrepancies are those found until then
+export const reconciliationStatusSchema = z.enum(['completed', 'failed']);
+export type ReconciliationStatus = z.infer<typeof reconciliationStatusSchema>;
+
+export const reconciliationReportSchema = z.object({
+  status: reconciliationStatusSchema,
+  error: z.string().optional(),
+  startedAt: z.number(),
+  finishedAt: z.number(),
+  // Records created since this time were checked
+  since: z.number(),
+  checked: z.object({
+    outflows: z.number(),
+    payouts: z.number(),
+    registrations: z.number(),
+  }),
+  discrepancies: z.array(discrepancySchema),
+});
+
+export type ReconciliationReport = z.infer<typeof reconciliationReportSchema>;
+
+// Treasury Schemas
+// Automatic payouts stop when the treasury's SOL balance falls below the
+// floor (low_balance) or an admin pauses them (manual)
+export const payoutPauseReasonSchema = z.enum(['low_balance', 'manual']);
+export type PayoutPauseReason = z.infer<typeof payoutPauseReasonSchema>;
+
+export const payoutBreakerSchema = z.object({
+  paused: z.boolean(),
+  reason: payoutPauseReasonSchema.optional(),
+  since: z.number().optional(),
+});
+
+export type PayoutBreaker = z.infer<typeof payoutBreakerSchema>;
+
+export const treasuryCurrencyStatusSchema = z.object({
+  currency: z.string(),
+  balance: z.number(),
+  // Rewards of approved applications that have not been paid yet
+  liabilities: z.number(),
+  unpaidPayouts: z.number(),
+  // Balance left after liabilities and, for SOL, the fees of unpaid payouts
+  available: z.number(),
+});
+
+export type TreasuryCurrencyStatus = z.infer<typeof treasuryCurrencyStatusSchema>;
+
+export const treasuryStatusSchema = z.object({
+  address: z.string(),
+  // SOL balance below which payouts are paused
+  floor: z.number(),
+  // SOL set aside for the network fees and token account rent of unpaid payouts
+  feeReserve: z.number(),
+  currencies: z.array(treasuryCurrencyStatusSchema),
+  // Days the available SOL lasts at the last week's payout rate; null
+  // without recent SOL payouts
+  runwayDays: z.number().nullable(),
+  payouts: payoutBreakerSchema,
+});
+
+export type TreasuryStatus = z.infer<typeof treasuryStatusSchema>;
+
+// Revenue Schemas
+// Platform income from the ledger's revenue accounts, per currency
+export const revenueSummarySchema = z.object({
+  currency: z.string(),
+  registrationFees: z.number(),
+  platformFees: z.number(),
+  total: z.number(),
+  // Number of registrations and of completions that paid a fee
+  registrations: z.number().int(),
+  feeCompletions: z.number().int(),
+});
+
+export type RevenueSummary = z.infer<typeof revenueSummarySchema>;
+
+export const revenueReportSchema = z.object({
+  // Bounds of the report; since is null for all time
+  since: z.number().nullable(),
+  until: z.number(),
+  currencies: z.array(revenueSummarySchema),
+  // The same per UTC day, oldest first
+  days: z.array(revenueSummarySchema.extend({ date: z.string() })),
+});
+
+export type RevenueReport = z.infer<typeof revenueReportSchema>;
+
+
+// ========== DATABASE TABLES ==========
+// Used by PgStorage. Timestamps are epoch milliseconds to match the Zod
+// schemas above; SOL and token amounts are stored as double precision.
+
+export const tasks = pgTable("tasks", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  instructions: text("instructions").notNull(),
+  proofType: text("proof_type").notNull(),
+  reward: doublePrecision("reward").notNull(),
+  rewardMint: varchar("reward_mint", { length: 44 }),
+  difficulty: text("difficulty").notNull(),
+  category: text("category").notNull(),
+  active: boolean("active").notNull().default(true),
+  totalCompletions: integer("total_completions").notNull().default(0),
+  maxCompletions: integer("max_completions"),
+  agentId: varchar("agent_id", { length: 36 }),
+  escrowStatus: text("escrow_status"),
+  platformFee: doublePrecision("platform_fee"),
+  requireWalletProof: boolean("require_wallet_proof"),
+  createdAt: bigint("created_at", { mode: "number" }).notNull(),
+}, (table) => [
+  index("tasks_active_created_at_idx").on(table.active, table.createdAt),
+  index("tasks_created_at_idx").on(table.createdAt),
+  index("tasks_agent_id_idx").on(table.agentId),
+]);
+
+// Applications are payout records and outlive their task, so deleting a
+// task detaches its applications instead of removing them.
+export const applications = pgTable("applications", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  taskId: varchar("task_id", { length: 36 }).references(() => tasks.id, { onDelete: "set null" }),
+  taskTitle: text("task_title").notNull(),
+  walletAddress: varchar("wallet_address", { length: 44 }).notNull(),
+  proofType: text("proof_type").notNull(),
+  proofContent: text("proof_content").notNull(),
+  status: text("status").notNull().default("pending"),
+  submittedAt: bigint("submitted_at", { mode: "number" }).notNull(),
+  reviewedAt: bigint("reviewed_at", { mode: "number" }),
+  reviewedBy: text("reviewed_by"),
+  platformFee: doublePrecision("platform_fee"),
+  paidAt: bigint("paid_at", { mode: "number" }),
+  txSignature: varchar("tx_signature", { length: 88 }),
+  payoutStatus: text("payout_status"),
+  walletVerified: boolean("wallet_verified"),
+}, (table) => [
+  index("applications_task_id_idx").on(table.taskId),
+  index("applications_status_submitted_at_idx").on(table.status, table.submittedAt),
+  index("applications_submitted_at_idx").on(table.submittedAt),
+  index("applications_wallet_address_idx").on(table.walletAddress),
+]);
+
+export const applicationApprovals = pgTable("application_approvals", {
+  applicationId: varchar("application_id", { length: 36 })
+    .notNull()
+    .references(() => applications.id),
+  reviewer: text("reviewer").notNull(),
+  approvedAt: bigint("approved_at", { mode: "number" }).notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.applicationId, table.reviewer] }),
+]);
+
+export const payoutIntents = pgTable("payout_intents", {
+  applicationId: varchar("application_id", { length: 36 })
+    .primaryKey()
+    .references(() => applications.id),
+  taskId: varchar("task_id", { length: 36 }).notNull(),
+  walletAddress: varchar("wallet_address", { length: 44 }).notNull(),
+  amount: doublePrecision("amount").notNull(),
+  mint: varchar("mint", { length: 44 }),
+  platformFee: doublePrecision("platform_fee"),
+  status: text("status").notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  signature: varchar("signature", { length: 88 }),
+  lastValidBlockHeight: bigint("last_valid_block_height", { mode: "number" }),
+  lastError: text("last_error"),
+  heldReason: text("held_reason"),
+  overriddenBy: text("overridden_by"),
+  overriddenAt: bigint("overridden_at", { mode: "number" }),
+  limitDay: varchar("limit_day", { length: 10 }),
+  createdAt: bigint("created_at", { mode: "number" }).notNull(),
+  updatedAt: bigint("updated_at", { mode: "number" }).notNull(),
+  confirmedAt: bigint("confirmed_at", { mode: "number" }),
+}, (table) => [
+  index("payout_intents_status_created_at_idx").on(table.status, table.createdAt),
+]);
+
+export const agents = pgTable("agents", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  name: text("name").notNull(),
+  walletAddress: varchar("wallet_address", { length: 44 }).notNull().unique(),
+  apiKey: varchar("api_key", { length: 64 }).notNull().unique(),
+  paymentTxSignature: varchar("payment_tx_signature", { length: 88 }),
+  paymentAmount: doublePrecision("payment_amount").notNull(),
+  plan: text("plan"),
+  taskQuota: integer("task_quota"),
+  promoCode: text("promo_code"),
+  createdAt: bigint("created_at", { mode: "number" }).notNull(),
+  active: boolean("active").notNull().default(true),
+  tasksCreated: integer("tasks_created").notNull().default(0),
+}, (table) => [
+  index("agents_created_at_idx").on(table.createdAt),
+]);
+
+export const registrationIntents = pgTable("registration_intents", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  reference: varchar("reference", { length: 44 }).notNull().unique(),
+  name: text("name").notNull(),
+  walletAddress: varchar("wallet_address", { length: 44 }).notNull(),
+  plan: text("plan").notNull(),
+  taskQuota: integer("task_quota"),
+  promoCode: text("promo_code"),
+  amount: doublePrecision("amount").notNull(),
+  mint: varchar("mint", { length: 44 }),
+  status: text("status").notNull(),
+  signature: varchar("signature", { length: 88 }),
+  agentId: varchar("agent_id", { length: 36 }),
+  error: text("error"),
+  createdAt: bigint("created_at", { mode: "number" }).notNull(),
+  expiresAt: bigint("expires_at", { mode: "number" }).notNull(),
+  updatedAt: bigint("updated_at", { mode: "number" }).notNull(),
+}, (table) => [
+  index("registration_intents_status_created_at_idx").on(table.status, table.createdAt),
+]);
+
+export const walletChallenges = pgTable("wallet_challenges", {
+  nonce: varchar("nonce", { length: 64 }).primaryKey(),
+  walletAddress: varchar("wallet_address", { length: 44 }).notNull(),
+  message: text("message").notNull(),
+  createdAt: bigint("created_at", { mode: "number" }).notNull(),
+  expiresAt: bigint("expires_at", { mode: "number" }).notNull(),
+}, (table) => [
+  index("wallet_challenges_expires_at_idx").on(table.expiresAt),
+]);
+
+export const consumedSignatures = pgTable("consumed_signatures", {
+  signature: varchar("signature", { length: 88 }).primaryKey(),
+  purpose: text("purpose").notNull(),
+  walletAddress: varchar("wallet_address", { length: 44 }).notNull(),
+  consumedAt: bigint("consumed_at", { mode: "number" }).notNull(),
+}, (table) => [
+  index("consumed_signatures_wallet_address_idx").on(table.walletAddress),
+]);
+
+export const escrowBalances = pgTable("escrow_balances", {
+  agentId: varchar("agent_id", { length: 36 }).notNull().references(() => agents.id),
+  currency: varchar("currency", { length: 44 }).notNull(),
+  available: doublePrecision("available").notNull().default(0),
+  locked: doublePrecision("locked").notNull().default(0),
+  spent: doublePrecision("spent").notNull().default(0),
+  deposited: doublePrecision("deposited").notNull().default(0),
+  updatedAt: bigint("updated_at", { mode: "number" }).notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.agentId, table.currency] }),
+]);
+
+export const escrowDeposits = pgTable("escrow_deposits", {
+  signature: varchar("signature", { length: 88 }).primaryKey(),
+  agentId: varchar("agent_id", { length: 36 }).notNull().references(() => agents.id),
+  walletAddress: varchar("wallet_address", { length: 44 }).notNull(),
+  currency: varchar("currency", { length: 44 }).notNull(),
+  amount: doublePrecision("amount").notNull(),
+  createdAt: bigint("created_at", { mode: "number" }).notNull(),
+}, (table) => [
+  index("escrow_deposits_agent_id_idx").on(table.agentId),
+]);
+
+export const chainTransfers = pgTable("chain_transfers", {
+  id: varchar("id", { length: 100 }).primaryKey(),
+  signature: varchar("signature", { length: 88 }).notNull(),
+  wallet: text("wallet").notNull(),
+  direction: text("direction").notNull(),
+  from: varchar("from_wallet", { length: 44 }).notNull(),
+  to: varchar("to_wallet", { length: 44 }).notNull(),
+  amount: doublePrecision("amount").notNull(),
+  mint: varchar("mint", { length: 44 }),
+  timestamp: bigint("timestamp", { mode: "number" }).notNull(),
+  receivedAt: bigint("received_at", { mode: "number" }).notNull(),
+}, (table) => [
+  index("chain_transfers_signature_idx").on(table.signature),
+  index("chain_transfers_timestamp_idx").on(table.timestamp),
+]);
+
+export const payoutRecords = pgTable("payout_records", {
+  id: varchar("id", { length: 140 }).primaryKey(),
+  signature: varchar("signature", { length: 88 }).notNull(),
+  walletAddress: varchar("wallet_address", { length: 44 }).notNull(),
+  amount: doublePrecision("amount").notNull(),
+  mint: varchar("mint", { length: 44 }),
+  applicationId: varchar("application_id", { length: 36 }),
+  taskId: varchar("task_id", { length: 36 }),
+  taskTitle: text("task_title"),
+  paidAt: bigint("paid_at", { mode: "number" }).notNull(),
+  recordedAt: bigint("recorded_at", { mode: "number" }).notNull(),
+}, (table) => [
+  index("payout_records_paid_at_idx").on(table.paidAt, table.id),
+  index("payout_records_wallet_idx").on(table.walletAddress, table.paidAt),
+  index("payout_records_task_idx").on(table.taskId, table.paidAt),
+]);
+
+export const journalEntries = pgTable("journal_entries", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  reference: text("reference").notNull().unique(),
+  kind: text("kind").notNull(),
+  currency: varchar("currency", { length: 44 }).notNull(),
+  memo: text("memo"),
+  createdAt: bigint("created_at", { mode: "number" }).notNull(),
+}, (table) => [
+  index("journal_entries_created_at_idx").on(table.createdAt),
+]);
+
+export const journalLines = pgTable("journal_lines", {
+  entryId: varchar("entry_id", { length: 36 }).notNull().references(() => journalEntries.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  account: text("account").notNull(),
+  amount: doublePrecision("amount").notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.entryId, table.position] }),
+  index("journal_lines_account_idx").on(table.account),
+]);
+
+export const ledgerBalances = pgTable("ledger_balances", {
+  account: text("account").notNull(),
+  currency: varchar("currency", { length: 44 }).notNull(),
+  balance: doublePrecision("balance").notNull().default(0),
+}, (table) => [
+  primaryKey({ columns: [table.account, table.currency] }),
+]);
+
+// The latest reconciliation report, in a single row replaced by each run
+export const reconciliationReports = pgTable("reconciliation_reports", {
+  id: varchar("id", { length: 16 }).primaryKey(),
+  report: jsonb("report").$type<ReconciliationReport>().notNull(),
+});
+
+// Whether automatic payouts are paused, in a single row
+export const payoutBreakers = pgTable("payout_breakers", {
+  id: varchar("id", { length: 16 }).primaryKey(),
+  paused: boolean("paused").notNull(),
+  reason: text("reason").$type<PayoutPauseReason>(),
+  since: bigint("since", { mode: "number" }),
+});
+
+// Spending limit counters by key, e.g. "2026-01-31:SOL:wallet:{address}"
+export const payoutLimitUsage = pgTable("payout_limit_usage", {
+  key: text("key").primaryKey(),
+  amount: doublePrecision("amount").notNull().default(0),
+});
+
+// One row per Stats field, incremented in place
+export const platformStats = pgTable("stats", {
+  key: varchar("key", { length: 64 }).primaryKey(),
+  value: doublePrecision("value").notNull().default(0),
+});
@@ -0,0 +1,25 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts"],
+    environment: "node",
+    // Creating the in-process PostgreSQL database takes several seconds
+    hookTimeout: 30_000,
+    // Tests run against in-memory storage and the mock chain, which are
+    // chosen when their modules load
+    env: {
+      STORAGE_BACKEND: "memory",
+      CHAIN_PROVIDER: "mock",
+      ADMIN_PASSWORD: "test-admin",
+      ADMIN_CREDENTIALS: "reviewer:test-reviewer",
+      MULTI_APPROVAL_THRESHOLD: "10000",
+    },
+  },
+});